@@ -0,0 +1,56 @@
+/**
+ * abis.ts
+ *
+ * Human-readable ABIs shared by every flow. Only the fragments we call are
+ * listed; the full vault lives in contract.sol.
+ */
+
+export const VAULT_ABI = [
+    "function deposit(address currency, uint256 amount, uint256 broker) external",
+    "function depositNative(uint256 broker) external payable",
+    "function depositFor(address currency, address forAddress, uint256 amount, uint256 broker) external payable",
+    "function depositUSDF(uint256 usdtAmount, uint256 minUsdfAmount, uint256 broker) external",
+    "function USDF_EARN() view returns (address)",
+    "function depositAsBNB(address currency, uint256 tokenAmount, uint256 minAsBnbAmount, uint256 broker) external payable",
+    "function ASBNB_MINTER() view returns (address)",
+    "function paused() view returns (bool)",
+    "function hasRole(bytes32 role, address account) view returns (bool)",
+    "function supportToken(address currency) view returns (address currency, address priceFeed, uint256 price, bool fixedPrice, uint8 priceDecimals, uint8 currencyDecimals)",
+];
+
+export const ERC20_ABI = [
+    "function decimals() view returns (uint8)",
+    "function symbol() view returns (string)",
+    "function balanceOf(address account) view returns (uint256)",
+    "function allowance(address owner, address spender) view returns (uint256)",
+    "function approve(address spender, uint256 amount) returns (bool)",
+    "function transfer(address to, uint256 amount) returns (bool)",
+    "function transferFrom(address from, address to, uint256 amount) returns (bool)",
+    "event Approval(address indexed owner, address indexed spender, uint256 value)",
+];
+
+export const MULTICALL3_ABI = [
+    "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)",
+];
+
+/** IUSDFEarn — the vault mints USDF from USDT through it in depositUSDF. */
+export const USDF_EARN_ABI = [
+    "function USDT() view returns (address)",
+    "function USDF() view returns (address)",
+];
+
+/** IAsBNBMinter — mints asBNB from BNB or slisBNB for depositAsBNB. */
+export const ASBNB_MINTER_ABI = [
+    "function token() view returns (address)",
+    "function asBnb() view returns (address)",
+    "function yieldProxy() view returns (address)",
+];
+
+/** IYieldProxy — depositAsBNB reverts AsBnbActivitiesOnGoing while this is true. */
+export const YIELD_PROXY_ABI = ["function activitiesOnGoing() view returns (bool)"];
+
+/** Chainlink AggregatorV3 — native/USD price for gas cost reports. */
+export const PRICE_FEED_ABI = [
+    "function decimals() view returns (uint8)",
+    "function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)",
+];
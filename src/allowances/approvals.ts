@@ -0,0 +1,181 @@
+/**
+ * approvals.ts
+ *
+ * The one place every flow raises or clears an ERC-20 allowance.
+ *
+ * How much to approve is a per-spender policy (--approval-policy / APPROVAL_POLICY):
+ *
+ *   exact      the amount about to be spent (default)
+ *   cap:<n>    n tokens, reused by later deposits until spent; a deposit above
+ *              n is refused rather than approved
+ *   unlimited  MaxUint256, approved once
+ *
+ * e.g. "vault=unlimited", "cap:500", "default=exact,0xabc…=cap:100". An entry
+ * without a spender sets the default; spenders are `vault`, `multicall3` or an
+ * address. Public forwarders (spenders.ts) are always exact.
+ *
+ * An allowance that already covers the amount is left alone. Tokens like USDT
+ * on Ethereum revert when a non-zero allowance is changed to another non-zero
+ * value; those are detected by simulation and reset to zero first.
+ */
+
+import { ethers } from "ethers";
+import { Network } from "../constants";
+import { CliError, EXIT } from "../exit_codes";
+import { Sender, sendOrExport, simulate, TokenInfo } from "../flows/shared";
+import { TxManager } from "../tx/manager";
+import { knownSpenders } from "./spenders";
+
+export type ApprovalMode = "exact" | "capped" | "unlimited";
+
+export interface ApprovalPolicy {
+    mode: ApprovalMode;
+    /** Human amount, for "capped"; parsed with the token's decimals. */
+    cap?: string;
+}
+
+export interface ApprovalPolicies {
+    default: ApprovalPolicy;
+    /** Checksummed spender → policy. */
+    spenders: Record<string, ApprovalPolicy>;
+}
+
+/** `vault`, `multicall3` or an address → checksummed address. */
+export function resolveSpender(network: Network, raw: string): string {
+    const v = raw.trim();
+    if (v.toLowerCase() === "vault") return ethers.getAddress(network.vault);
+    if (v.toLowerCase() === "multicall3") return ethers.getAddress(network.multicall3);
+    if (!ethers.isAddress(v)) {
+        throw new CliError(`spender must be vault, multicall3 or an address, got "${raw}"`, EXIT.USAGE);
+    }
+    return ethers.getAddress(v);
+}
+
+function parsePolicy(raw: string): ApprovalPolicy {
+    const v = raw.trim().toLowerCase();
+    if (v === "exact" || v === "unlimited") return { mode: v };
+    const cap = /^cap:(\d+(\.\d+)?)$/.exec(v);
+    if (cap && Number(cap[1]) > 0) return { mode: "capped", cap: cap[1] };
+    throw new CliError(`approval policy must be exact, unlimited or cap:<amount>, got "${raw}"`, EXIT.USAGE);
+}
+
+export function parseApprovalPolicies(spec: string | undefined, network: Network): ApprovalPolicies {
+    const policies: ApprovalPolicies = { default: { mode: "exact" }, spenders: {} };
+    for (const entry of (spec ?? "").split(",")) {
+        if (!entry.trim()) continue;
+        const eq = entry.indexOf("=");
+        if (eq < 0 || entry.slice(0, eq).trim().toLowerCase() === "default") {
+            policies.default = parsePolicy(entry.slice(eq + 1));
+            continue;
+        }
+        policies.spenders[resolveSpender(network, entry.slice(0, eq))] = parsePolicy(entry.slice(eq + 1));
+    }
+    for (const forwarder of knownSpenders(network).filter((s) => s.risk === "critical")) {
+        const set = policies.spenders[forwarder.address];
+        if (set && set.mode !== "exact") {
+            throw new CliError(`approval policy for ${forwarder.name} must be exact: anyone can spend it`, EXIT.USAGE);
+        }
+        policies.spenders[forwarder.address] = { mode: "exact" };
+    }
+    return policies;
+}
+
+export function policyFor(policies: ApprovalPolicies, spender: string): ApprovalPolicy {
+    return policies.spenders[ethers.getAddress(spender)] ?? policies.default;
+}
+
+export function describePolicy(policy: ApprovalPolicy): string {
+    return policy.mode === "capped" ? `cap:${policy.cap}` : policy.mode;
+}
+
+/** Allowance `policy` asks for when `amount` is about to be spent. */
+function approvalTarget(policy: ApprovalPolicy, token: TokenInfo, amount: bigint, label: string): bigint {
+    if (policy.mode === "unlimited") return ethers.MaxUint256;
+    if (policy.mode === "exact") return amount;
+    const cap = ethers.parseUnits(policy.cap!, token.decimals);
+    if (amount > cap) {
+        throw new CliError(
+            `${label}: ${ethers.formatUnits(amount, token.decimals)} ${token.symbol} exceeds the approval cap of ${policy.cap}`,
+            EXIT.PRECONDITION
+        );
+    }
+    return cap;
+}
+
+/** True when `approve(spender, target)` only goes through from a zero allowance. */
+async function needsZeroReset(signed: ethers.Contract, spender: string, target: bigint): Promise<boolean> {
+    try {
+        await signed.approve.staticCall(spender, target);
+        return false;
+    } catch {
+        // Only a reset if zeroing is allowed; otherwise let the approve simulation report why.
+        return signed.approve.staticCall(spender, 0n).then(
+            () => true,
+            () => false
+        );
+    }
+}
+
+/**
+ * Make sure `owner` has approved `spender` for at least `amount`, approving
+ * what `policies` says for that spender if not. `onSent` sees the hash of the
+ * approval that sets the final allowance.
+ */
+export async function ensureAllowance(
+    label: string,
+    token: TokenInfo,
+    owner: Sender,
+    spender: string,
+    amount: bigint,
+    opts: { policies: ApprovalPolicies; txs: TxManager; dryRun?: boolean; onSent?: (hash: string) => void }
+): Promise<void> {
+    const current: bigint = await token.contract.allowance(owner.address, spender);
+    console.log(`  ${label} allowance: ${ethers.formatUnits(current, token.decimals)} ${token.symbol}`);
+    if (current >= amount) {
+        console.log(`  ✓ Sufficient — skipping`);
+        return;
+    }
+    const policy = policyFor(opts.policies, spender);
+    const target = approvalTarget(policy, token, amount, label);
+    const shown = target === ethers.MaxUint256 ? "unlimited" : `${ethers.formatUnits(target, token.decimals)} ${token.symbol}`;
+    const signed = token.contract.connect(owner) as ethers.Contract;
+
+    const reset = current > 0n && (await needsZeroReset(signed, spender, target));
+    if (reset) {
+        console.log(`  ${token.symbol} only accepts a new allowance from zero; resetting first`);
+        if (opts.dryRun) {
+            console.log(`  [dry-run] would approve 0, then ${shown} (policy ${describePolicy(policy)})`);
+            return;
+        }
+        await sendOrExport(`${label} reset`, owner, signed.approve.populateTransaction(spender, 0n), opts.txs);
+    }
+    await simulate(`${label} approve`, () => signed.approve.staticCall(spender, target), owner);
+    if (opts.dryRun) {
+        console.log(`  [dry-run] would approve ${shown} (policy ${describePolicy(policy)})`);
+        return;
+    }
+    console.log(`  Approving ${shown} (policy ${describePolicy(policy)})...`);
+    await sendOrExport(`${label} approve`, owner, signed.approve.populateTransaction(spender, target), opts.txs, opts.onSent);
+}
+
+/** Set `owner`'s allowance to `spender` back to zero; a no-op when it already is. */
+export async function revokeAllowance(
+    label: string,
+    token: TokenInfo,
+    owner: Sender,
+    spender: string,
+    opts: { txs: TxManager; dryRun?: boolean }
+): Promise<ethers.TransactionReceipt | undefined> {
+    const current: bigint = await token.contract.allowance(owner.address, spender);
+    if (current === 0n) {
+        console.log(`  ✓ ${label}: already zero`);
+        return undefined;
+    }
+    const signed = token.contract.connect(owner) as ethers.Contract;
+    await simulate(`${label} revoke`, () => signed.approve.staticCall(spender, 0n), owner);
+    if (opts.dryRun) {
+        console.log(`  [dry-run] would revoke ${ethers.formatUnits(current, token.decimals)} ${token.symbol}`);
+        return undefined;
+    }
+    return sendOrExport(`${label} revoke`, owner, signed.approve.populateTransaction(spender, 0n), opts.txs);
+}
@@ -0,0 +1,90 @@
+/**
+ * audit.ts
+ *
+ * Lists the non-zero allowances a set of owners hold on a set of tokens.
+ *
+ * ERC-20 has no way to enumerate spenders, so the candidates are the known
+ * spenders (spenders.ts) plus, when `fromBlock` is given, every spender that
+ * appears in one of the owner's Approval logs since that block. Each candidate's
+ * current allowance is then read with allowance(), so revoked approvals drop out.
+ */
+
+import { ethers } from "ethers";
+import { getLogsAdaptive } from "../indexer/indexer";
+import { TokenInfo } from "../flows/shared";
+import { classifySpender, KnownSpender, SpenderRisk } from "./spenders";
+
+export interface AllowanceFinding {
+    owner: string;
+    ownerLabel: string;
+    token: string;
+    symbol: string;
+    spender: string;
+    spenderName: string;
+    risk: SpenderRisk;
+    /** Human amount, or "unlimited" for MaxUint256. */
+    allowance: string;
+    allowanceWei: string;
+}
+
+export interface AuditScope {
+    provider: ethers.Provider;
+    /** Address → label ("Wallet1", "Wallet2", ...). */
+    owners: Record<string, string>;
+    tokens: TokenInfo[];
+    spenders: KnownSpender[];
+    /** Also scan Approval logs from this block for spenders we don't know about. */
+    fromBlock?: number;
+    chunkSize?: number;
+    log?: (msg: string) => void;
+}
+
+/** Treated as unlimited: MaxUint256, or close enough that it will never run out. */
+const UNLIMITED = ethers.MaxUint256 / 2n;
+
+async function approvedSpenders(scope: AuditScope, token: TokenInfo, owner: string, ownerLabel: string): Promise<string[]> {
+    if (scope.fromBlock === undefined) return [];
+    const approval = token.contract.interface.getEvent("Approval")!;
+    const head = await scope.provider.getBlockNumber();
+    const chunk = scope.chunkSize ?? 2_000;
+    const spenders = new Set<string>();
+    for (let from = scope.fromBlock; from <= head; from += chunk) {
+        const to = Math.min(from + chunk - 1, head);
+        const logs = await getLogsAdaptive(
+            scope.provider,
+            { address: token.address, topics: [approval.topicHash, ethers.zeroPadValue(owner, 32)] },
+            from,
+            to
+        );
+        for (const l of logs) spenders.add(ethers.getAddress(ethers.dataSlice(l.topics[2], 12)));
+    }
+    scope.log?.(`  ${token.symbol}: ${spenders.size} spender(s) in ${ownerLabel}'s Approval logs since block ${scope.fromBlock}`);
+    return [...spenders];
+}
+
+export async function auditAllowances(scope: AuditScope): Promise<AllowanceFinding[]> {
+    const findings: AllowanceFinding[] = [];
+    for (const token of scope.tokens) {
+        for (const [owner, ownerLabel] of Object.entries(scope.owners)) {
+            const candidates = new Set(scope.spenders.map((s) => s.address));
+            for (const s of await approvedSpenders(scope, token, owner, ownerLabel)) candidates.add(s);
+            for (const spender of candidates) {
+                const allowance: bigint = await token.contract.allowance(owner, spender);
+                if (allowance === 0n) continue;
+                const known = classifySpender(scope.spenders, spender);
+                findings.push({
+                    owner,
+                    ownerLabel,
+                    token: token.address,
+                    symbol: token.symbol,
+                    spender: known.address,
+                    spenderName: known.name,
+                    risk: known.risk,
+                    allowance: allowance >= UNLIMITED ? "unlimited" : ethers.formatUnits(allowance, token.decimals),
+                    allowanceWei: allowance.toString(),
+                });
+            }
+        }
+    }
+    return findings;
+}
@@ -0,0 +1,46 @@
+/**
+ * spenders.ts
+ *
+ * Who an ERC-20 allowance was granted to, and how dangerous that is.
+ *
+ *   critical  a permissionless forwarder: anyone can make it call
+ *             token.transferFrom(owner, anyone, ...) — e.g. Multicall3's
+ *             aggregate3 — so the allowance is free for the taking
+ *   trusted   the vault, or one of our own wallets
+ *   unknown   anything else; not necessarily bad, but someone should know why
+ */
+
+import { ethers } from "ethers";
+import { MULTICALL3_ADDRESS, Network } from "../constants";
+
+export type SpenderRisk = "critical" | "trusted" | "unknown";
+
+export interface KnownSpender {
+    address: string;
+    name: string;
+    risk: SpenderRisk;
+}
+
+/** Forwarders deployed at the same address on every chain. */
+const PUBLIC_FORWARDERS: KnownSpender[] = [
+    { address: MULTICALL3_ADDRESS, name: "Multicall3", risk: "critical" },
+];
+
+/** Spenders worth checking on `network`; `wallets` maps our own addresses to a label. */
+export function knownSpenders(network: Network, wallets: Record<string, string> = {}): KnownSpender[] {
+    const spenders: KnownSpender[] = [
+        ...PUBLIC_FORWARDERS,
+        { address: network.multicall3, name: "Multicall3", risk: "critical" },
+        { address: network.vault, name: "AstherusVault", risk: "trusted" },
+        ...Object.entries(wallets).map(([address, name]) => ({ address, name, risk: "trusted" as const })),
+    ];
+    const seen = new Set<string>();
+    return spenders
+        .map((s) => ({ ...s, address: ethers.getAddress(s.address) }))
+        .filter((s) => !seen.has(s.address) && seen.add(s.address));
+}
+
+export function classifySpender(spenders: KnownSpender[], address: string): KnownSpender {
+    const known = spenders.find((s) => s.address.toLowerCase() === address.toLowerCase());
+    return known ?? { address: ethers.getAddress(address), name: "unknown", risk: "unknown" };
+}
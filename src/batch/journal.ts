@@ -0,0 +1,92 @@
+/**
+ * journal.ts
+ *
+ * Per-batch record of what was sent. An entry is written with the signed tx's
+ * raw bytes, hash and nonce *before* it is broadcast, so after a crash every row
+ * is in a state we can reason about:
+ *
+ *   (no entry)  never signed — safe to send
+ *   submitted   signed, maybe broadcast — look the hash up; if the node never saw
+ *               it and the nonce is still free, rebroadcast the same raw tx
+ *   confirmed   mined and succeeded — never send again; `credited` holds what
+ *               the Deposit event credited, with any discrepancy vs the row
+ *   failed      mined and reverted, so nothing moved — safe to send again
+ *   unknown     the nonce was used by some other tx — needs a human
+ *
+ * A submitted row sped up with `tx speed-up` is mined under another hash; the
+ * rerun finds it by its Deposit event and journals the hash that was mined.
+ */
+
+import * as path from "path";
+import { CreditDiscrepancy } from "../credits";
+import { readJson, writeJsonAtomic } from "../json_store";
+import { BatchRow } from "./rows";
+
+export type JournalStatus = "submitted" | "confirmed" | "failed" | "unknown";
+
+export interface JournalEntry {
+    rowId: string;
+    beneficiary: string;
+    currency: string;
+    amount: string;
+    broker: string;
+    status: JournalStatus;
+    txHash: string;
+    nonce: number;
+    /** Signed tx; rebroadcasting it can never pay twice (same nonce). */
+    rawTx: string;
+    /** Head block when the row was signed; a replacement can't be mined before it. */
+    sentBlock?: number;
+    /** Requested amount in wei, to reconcile against the Deposit event. */
+    amountWei?: string;
+    blockNumber?: number;
+    /** Wei the Deposit event credited — what the beneficiary actually got. */
+    credited?: string;
+    discrepancies?: CreditDiscrepancy[];
+    error?: string;
+    updatedAt: string;
+}
+
+export interface BatchJournal {
+    chainId: number;
+    vault: string;
+    sender: string;
+    source: string;
+    entries: Record<string, JournalEntry>;
+}
+
+export function journalFile(dataDir: string, source: string, chainId: number): string {
+    return path.join(dataDir, "batches", `${path.basename(source)}.${chainId}.journal.json`);
+}
+
+export function loadJournal(file: string, init: Omit<BatchJournal, "entries">): BatchJournal {
+    const journal = readJson<BatchJournal | null>(file, null);
+    if (!journal) return { ...init, entries: {} };
+    if (journal.chainId !== init.chainId || journal.vault.toLowerCase() !== init.vault.toLowerCase()) {
+        throw new Error(`${file} belongs to chain ${journal.chainId} / vault ${journal.vault}`);
+    }
+    if (journal.sender.toLowerCase() !== init.sender.toLowerCase()) {
+        throw new Error(`${file} was written by sender ${journal.sender}, not ${init.sender}`);
+    }
+    return journal;
+}
+
+export function saveJournal(file: string, journal: BatchJournal): void {
+    writeJsonAtomic(file, journal);
+}
+
+export function recordRow(
+    journal: BatchJournal,
+    row: BatchRow,
+    update: Pick<JournalEntry, "status" | "txHash" | "nonce" | "rawTx"> & Partial<JournalEntry>
+): void {
+    journal.entries[row.id] = {
+        rowId: row.id,
+        beneficiary: row.beneficiary,
+        currency: row.currency,
+        amount: row.amount,
+        broker: row.broker,
+        ...update,
+        updatedAt: new Date().toISOString(),
+    };
+}
@@ -0,0 +1,947 @@
+/**
+ * cli.ts
+ *
+ * `relay-aster` — single entry point for every deposit flow.
+ *
+ *   npm run cli -- deposit --amount 0.05 --signer keystore:wallet1.json
+ *   npm run cli -- deposit-for --amount 0.05 --beneficiary 0x...
+ *   npm run cli -- deposit-native --amount 0.01
+ *   npm run cli -- pull-and-deposit --amount 0.05 --credit user
+ *   npm run cli -- pull-and-deposit resume --run-id <id>
+ *   npm run cli -- pull-and-deposit refund --dry-run
+ *   npm run cli -- allowances audit --from-block 40000000
+ *   npm run cli -- relay --amount 0.1 --beneficiary 0x...
+ *   npm run cli -- deposit --amount 0.05 --export txs.json --from 0x...
+ *   npm run cli -- offline sign --file txs.json --keystore key.json
+ *   npm run cli -- offline broadcast --file txs.signed.json
+ *   npm run cli -- serve --port 8080 --signer keystore:wallet1.json
+ *
+ * Every flag can also come from env (see `help`). Exit codes are listed in
+ * exit_codes.ts so cron / wrapper scripts can react to them.
+ */
+
+import { ethers } from "ethers";
+import { parseArgs } from "util";
+import {
+    flagOrEnv,
+    FlagValues,
+    loadEnv,
+    requireAddress,
+    requireOption,
+    resolveAmount,
+    resolveApprovalPolicies,
+    resolveCommonOptions,
+    resolveCurrency,
+    resolveGasTankPolicy,
+    resolveNetwork,
+    resolveRpc,
+    resolveSigner,
+    resolveSignerAddress,
+    resolveTxManager,
+    signerSpecFrom,
+} from "./config";
+import { resolveSpender } from "./allowances/approvals";
+import { journalFile } from "./batch/journal";
+import { loadBatchRows } from "./batch/rows";
+import { DEFAULT_BROKER_ID, findNetwork, NATIVE_ADDRESS, Network } from "./constants";
+import { EventQuery } from "./indexer/store";
+import { defaultDataDir } from "./json_store";
+import { CliError, EXIT, ExitCode } from "./exit_codes";
+import { runAllowanceAudit, runAllowanceRevoke } from "./flows/allowances";
+import { runDeposit } from "./flows/deposit";
+import { runDepositFor } from "./flows/deposit_for";
+import { runBatchDepositFor } from "./flows/deposit_for_batch";
+import { runDepositNative } from "./flows/deposit_native";
+import { runDepositUsdf } from "./flows/deposit_usdf";
+import { runIntentSign } from "./flows/intent";
+import { runGasTankStatus, runGasTankTopUp } from "./flows/gas_tank";
+import { AsBnbSource, runDepositAsBnb } from "./flows/deposit_asbnb";
+import {
+    CreditTarget,
+    Puller,
+    reconcilePullRuns,
+    refundPullRuns,
+    resumePullAndDeposit,
+    runPullAndDeposit,
+} from "./flows/pull_and_deposit";
+import { runIndexQuery, runIndexSync } from "./flows/index_events";
+import { runOfflineBroadcast, runOfflineSign } from "./flows/offline";
+import { runRelay, runRelayStatus } from "./flows/relay";
+import { runRpcHealth } from "./flows/rpc_health";
+import { runDepositService } from "./flows/service";
+import { FlowResult, readToken, Sender } from "./flows/shared";
+import { runTxCancel, runTxSpeedUp } from "./flows/tx";
+import { GasTank } from "./gas/tank";
+import { DEFAULT_INTENT_TTL_SECONDS, loadSignedIntent, newIntentNonce, SignedDepositIntent } from "./intents/deposit_intent";
+import { ExportSigner, TxExport } from "./offline/export";
+import { pullJournalFile } from "./pull/journal";
+import { RelayClient } from "./relay/client";
+import { RelayApiError, relayExitCode } from "./relay/errors";
+import { createRpcProvider } from "./rpc/pool";
+import { ServiceRelay } from "./service/server";
+import { SPEC_FORMS } from "./signers/load";
+
+const OPTIONS = {
+    chain: { type: "string" },
+    rpc: { type: "string" },
+    "rpc-quorum": { type: "string" },
+    "max-lag": { type: "string" },
+    amount: { type: "string" },
+    currency: { type: "string" },
+    broker: { type: "string" },
+    beneficiary: { type: "string" },
+    signer: { type: "string" },
+    "server-signer": { type: "string" },
+    "insecure-env-keys": { type: "boolean" },
+    "key-env": { type: "string" },
+    "server-key-env": { type: "string" },
+    "funder-signer": { type: "string" },
+    "funder-key-env": { type: "string" },
+    "tank-deposits": { type: "string" },
+    "tank-daily-cap": { type: "string" },
+    "funder-min": { type: "string" },
+    "alert-url": { type: "string" },
+    puller: { type: "string" },
+    spender: { type: "string" },
+    credit: { type: "string" },
+    "fund-gas": { type: "boolean" },
+    "run-id": { type: "string" },
+    "destination-contract": { type: "string" },
+    "origin-chain": { type: "string" },
+    "origin-currency": { type: "string" },
+    user: { type: "string" },
+    "relay-url": { type: "string" },
+    "origin-rpc": { type: "string" },
+    timeout: { type: "string" },
+    "request-id": { type: "string" },
+    hash: { type: "string" },
+    intent: { type: "string" },
+    nonce: { type: "string" },
+    "intent-ttl": { type: "string" },
+    host: { type: "string" },
+    "api-token-env": { type: "string" },
+    port: { type: "string" },
+    "speed-up-after": { type: "string" },
+    "fee-bump": { type: "string" },
+    "max-bumps": { type: "string" },
+    "data-dir": { type: "string" },
+    "from-block": { type: "string" },
+    "to-block": { type: "string" },
+    confirmations: { type: "string" },
+    "chunk-size": { type: "string" },
+    account: { type: "string" },
+    event: { type: "string" },
+    json: { type: "boolean" },
+    "gas-reserve": { type: "string" },
+    "gas-buffer": { type: "string" },
+    "max-fee": { type: "string" },
+    "on-high-fee": { type: "string" },
+    "fee-wait": { type: "string" },
+    "native-usd": { type: "string" },
+    file: { type: "string" },
+    journal: { type: "string" },
+    "allow-unmatched": { type: "boolean" },
+    "slippage-bps": { type: "string" },
+    "approval-policy": { type: "string" },
+    "dry-run": { type: "boolean" },
+    export: { type: "string" },
+    from: { type: "string" },
+    "server-from": { type: "string" },
+    keystore: { type: "string" },
+    "password-env": { type: "string" },
+    out: { type: "string" },
+    yes: { type: "boolean", short: "y" },
+    help: { type: "boolean", short: "h" },
+} as const;
+
+const USAGE = `Usage: relay-aster <command> [flags]
+
+Commands:
+  deposit            vault.deposit() from one wallet; credits that wallet
+  deposit-for        vault.depositFor(); credits --beneficiary (needs DEPOSIT_ROLE)
+  deposit-native     vault.depositNative() with the chain's native coin
+  deposit-for-batch  depositFor() for every row of --file (CSV or JSON); resumable via a journal
+  deposit-usdf       vault.depositUSDF(): USDT is minted to USDF and credited
+  deposit-asbnb      vault.depositAsBNB(): BNB or slisBNB (--currency NATIVE|SLISBNB) is minted to asBNB and credited
+  pull-and-deposit   Wallet2 pulls from Wallet1, then deposits (two-wallet flow); journaled per run
+  pull-and-deposit resume     continue an interrupted run from its last confirmed step (--run-id)
+  pull-and-deposit reconcile  list runs whose pulled tokens are stuck in Wallet2, checked against balances
+  pull-and-deposit refund     transfer stuck pulled tokens from Wallet2 back to Wallet1 (asks first; --yes)
+  relay              cross-chain depositFor through Relay: quote, send origin tx, wait for the Deposit
+  relay-status       track a sent Relay request by --request-id until credited, refunded or stuck
+  allowances audit   list our wallets' token allowances; allowances to Multicall3 are critical
+  allowances revoke  set --spender's allowance back to zero, or every critical one, for the --signer wallet
+  offline sign       sign an --export file with keystores; needs no network (--file, --keystore)
+  offline broadcast  send a signed file in order, checking nonces and simulating each tx first
+  rpc health         probe every RPC endpoint: chain id, head block, latency
+  intent sign        Wallet1 (--signer) signs a deposit intent for one pull-and-deposit, written to --out
+  gas-tank status    Wallet2's gas against its floor (runs per day × one run's gas), the funder, the daily cap
+  gas-tank top-up    refill Wallet2 from the --funder-signer wallet when below its floor (for cron)
+  tx speed-up        re-send a pending tx of the --signer wallet (--hash) at its nonce with bumped fees
+  tx cancel          replace a pending tx (--hash) with a zero-value self-transfer at its nonce
+  serve              HTTP deposit service: POST /deposits (Idempotency-Key header), GET /deposits/:id, GET /health
+  index sync         scan vault Deposit / DepositFailed / ReceiveETH logs into the local store
+  index follow       keep indexing new blocks (Ctrl-C to stop)
+  index query        list indexed events, filtered by --account / --currency / --broker
+  help               show this message
+
+Flags (env fallback in brackets):
+  --chain <name|id>             chain profile: bsc (56) | arbitrum (42161) | local (1337, npm run local-chain)  [CHAIN, default bsc]
+  --rpc <url,...>               RPC endpoints, preferred first; reads fail over, sends go to the first healthy one
+                                                                [RPC_URL, default the chain profile's list]
+  --rpc-quorum <n>              endpoints that must agree on state reads (eth_call, balances) [RPC_QUORUM, default 1]
+  --max-lag <n>                 rpc health: blocks behind the best endpoint that still count as healthy [default 5]
+  --amount <decimal>            human amount, e.g. 0.05         [DEPOSIT_AMOUNT_HUMAN]
+  --currency <USDT|USDC|NATIVE|0x>  token to deposit             [CURRENCY, default USDT]
+                                allowances: extra tokens to check besides the chain's known ones (comma-separated)
+  --gas-reserve <decimal>       native kept for gas on NATIVE deposits [GAS_RESERVE, default per chain]
+  --gas-buffer <pct>            headroom on every gas estimate  [GAS_BUFFER_PCT, default per chain (30)]
+  --max-fee <gwei>              never pay more per gas than this; legacy or EIP-1559 fees per chain profile
+                                                                [MAX_FEE_GWEI, default per chain]
+  --on-high-fee <wait|abort>    when fees are above --max-fee: wait for them to drop, or stop [ON_HIGH_FEE, default wait]
+  --fee-wait <seconds>          how long "wait" waits before giving up [FEE_WAIT_SECONDS, default 300]
+  --native-usd <price>          USD per native coin for cost reports [NATIVE_USD_PRICE, default the chain's price feed]
+  --confirmations <n>           sends: blocks a tx needs before it counts as final [TX_CONFIRMATIONS, default 1]
+                                index: confirmation depth [default 15]
+  --speed-up-after <seconds>    re-send a pending tx with bumped fees after this [SPEED_UP_AFTER_SECONDS, default 120]
+  --fee-bump <pct>              fee increase per speed-up, at least 10 [FEE_BUMP_PCT, default 15]
+  --max-bumps <n>               speed-ups per tx before just waiting [MAX_FEE_BUMPS, default 3]
+  --approval-policy <spec>      how much spenders get approved: exact | unlimited | cap:<n>, per spender
+                                as vault=unlimited,default=exact  [APPROVAL_POLICY, default exact]
+  --slippage-bps <n>            deposit-usdf/-asbnb: max shortfall vs expected output [SLIPPAGE_BPS, default 50]
+  --broker <id>                 broker id                       [BROKER_ID / REFERRAL_CODE, default 1000]
+  --beneficiary <0x>            account credited (deposit-for, relay; intent sign: default the signer)
+                                                                [BENEFICIARY / USER_ADDRESS]
+  --file <path>                 deposit-for-batch: rows of beneficiary,currency,amount[,broker]
+                                offline sign / broadcast: the unsigned / signed tx file
+  --journal <path>              deposit-for-batch: journal file  [default <data-dir>/batches/<file>.<chainId>.journal.json]
+  --allow-unmatched             deposit-for-batch: go on when journal entries match no row (rows removed from --file)
+  --signer <spec>               sender / Wallet1 signer         [SIGNER]
+                                  keystore:<file>              encrypted JSON keystore; passphrase from
+                                                               KEYSTORE_PASSWORD or a prompt
+                                  mnemonic:<file>[#<path|n>]   BIP-39 phrase in <file>; default account 0
+                                  remote:<url>[#<address>]     JSON-RPC signer (eth_signTransaction)
+                                  env:<NAME>                   raw key in env; needs --insecure-env-keys
+  --server-signer <spec>        Wallet2 signer, same forms; mnemonic default account 1  [WALLET2_SIGNER]
+                                (keystore passphrase: WALLET2_KEYSTORE_PASSWORD, then KEYSTORE_PASSWORD)
+  --funder-signer <spec>        wallet that refills Wallet2's gas; mnemonic default account 2  [FUNDER_SIGNER]
+                                (keystore passphrase: FUNDER_KEYSTORE_PASSWORD, then KEYSTORE_PASSWORD)
+  --insecure-env-keys           allow raw private keys from env (env:<NAME>, --key-env, PRIVATE_KEY)
+  --key-env <NAME>              same as --signer env:<NAME>     [default PRIVATE_KEY, if set]
+  --server-key-env <NAME>       same as --server-signer env:<NAME> [default WALLET2_PRIVATE_KEY, if set]
+  --funder-key-env <NAME>       same as --funder-signer env:<NAME> [default FUNDER_PRIVATE_KEY, if set]
+  --tank-deposits <n>           gas tank: pull-and-deposit runs expected per day [GAS_TANK_DEPOSITS_PER_DAY, default 20]
+  --tank-daily-cap <decimal>    gas tank: most the funder sends per 24h [GAS_TANK_DAILY_CAP, default 0.05 BNB / 0.01 ETH]
+  --funder-min <decimal>        gas tank: alert when the funder holds less [FUNDER_MIN_BALANCE, default 0.1 BNB / 0.02 ETH]
+  --alert-url <url>             gas tank: POST alerts here as {"text": ...} [GAS_TANK_ALERT_URL]
+  --puller <server|multicall3>  pull-and-deposit: who calls transferFrom [default server]
+                                multicall3 leaves a public allowance until the pull lands
+  --credit <server|user>        pull-and-deposit: who Aster credits      [default server]
+  --intent <file>               pull-and-deposit run: only pull what this signed deposit intent authorizes;
+                                --amount / --currency / --broker / --credit default to the intent's
+  --nonce <n>                   intent sign: the intent's nonce  [default random]
+  --intent-ttl <seconds>        intent sign: how long the intent stays valid [default 3600]
+  --fund-gas                    pull-and-deposit: top up Wallet2's gas tank from the --funder-signer wallet first
+  --run-id <id>                 pull-and-deposit resume: run to continue [default: the only unfinished one]
+                                pull-and-deposit refund: only this run [default: every orphaned run of Wallet2]
+  --destination-contract <0x>   relay: contract called on destination  [DESTINATION_CONTRACT_ADDRESS]
+  --origin-chain <id>           relay: origin chain id          [ORIGIN_CHAIN_ID, default 42161]
+                                serve: relay deposits are served only when it is set
+  --origin-currency <0x>        relay: origin token, 0x0 = native [ORIGIN_CURRENCY]
+  --user <0x>                   relay: origin payer             [USER_ADDRESS, default origin wallet]
+                                pull-and-deposit refund: only runs pulled from this Wallet1
+  --relay-url <url>             relay: API root                 [RELAY_API_URL]
+  --origin-rpc <url>            relay: origin chain RPC         [ORIGIN_RPC_URL / ARBITRUM_RPC_URL]
+  --timeout <seconds>           relay: flag the request as stuck after this; deposit-for-batch, offline broadcast:
+                                per-receipt wait; sends: stop waiting on a pending tx [default 900]
+  --request-id <0x>             relay-status: Relay request id
+  --hash <0x>                   tx speed-up / cancel: the pending tx
+  --host <address>              serve: interface to listen on   [SERVICE_HOST, default 127.0.0.1]
+  --port <n>                    serve: port to listen on        [SERVICE_PORT, default 8080]
+  --api-token-env <NAME>        serve: env var holding the bearer token /deposits requires
+                                [default SERVICE_API_TOKEN; needed unless --host is loopback]
+  --data-dir <dir>              local state directory           [RELAY_ASTER_DATA_DIR, default ./data]
+  --from-block <n>              index: first block for a new store  [START_BLOCK]
+                                allowances audit: scan Approval logs from here for unknown spenders
+  --to-block <n>                index query: last block
+  --chunk-size <n>              index, allowances audit: blocks per getLogs call  [default 2000]
+  --account <0x>                index query: credited account; allowances audit: extra owners (comma-separated)
+  --spender <vault|multicall3|0x>  allowances revoke: spender to set back to zero [default: every critical one]
+  --event <name>                index query: Deposit | DepositFailed | ReceiveETH
+  --json                        machine-readable output (index query, pre-flight report)
+  --dry-run                     simulate only, send nothing (relay: quote only)
+  --export <path>               write the flow's txs, unsigned and fully populated, to <path> instead of sending
+                                (deposit*, pull-and-deposit, relay, allowances revoke); sign with offline sign
+  --from <0x>                   --export: sender / Wallet1 address (relay: default --user); no key needed
+  --server-from <0x>            --export: Wallet2 address for pull-and-deposit
+  --keystore <path,...>         offline sign: encrypted JSON keystores of the senders
+  --password-env <NAME>         offline sign: env var holding the keystore password, else a prompt
+                                [default KEYSTORE_PASSWORD]
+  --out <path>                  offline sign: signed file        [default <file>.signed.json]
+                                intent sign: intent file         [default deposit-intent-<nonce>.json]
+  -y, --yes                     don't ask before sending (pull-and-deposit refund, allowances revoke)
+
+Exit codes:
+  0 ok, 1 unexpected failure, 2 usage, 3 config, 4 precondition failed, 5 reverted,
+  6 credited amount / account differs from the request (see <data-dir>/credits-<chainId>.json)
+`;
+
+type Command = (values: FlagValues, args: string[]) => Promise<FlowResult>;
+
+function providerFor(values: FlagValues) {
+    const common = resolveCommonOptions(values);
+    const provider = createRpcProvider(common.rpc);
+    return { common, provider };
+}
+
+/** Provider for flows that don't take --amount / --currency (resume, reconcile, batches). */
+function chainProvider(values: FlagValues) {
+    const network = resolveNetwork(values);
+    return { network, provider: createRpcProvider(resolveRpc(values, network)) };
+}
+
+function gasReserveFrom(values: FlagValues, network: Network): string {
+    const raw = flagOrEnv(values, "gas-reserve", "GAS_RESERVE") ?? network.nativeGasReserve;
+    if (!/^\d+(\.\d+)?$/.test(raw)) {
+        throw new CliError(`--gas-reserve must be a decimal amount, got "${raw}"`, EXIT.USAGE);
+    }
+    return raw;
+}
+
+function slippageFrom(values: FlagValues): number {
+    const bps = intFrom(values, "slippage-bps", 50, "SLIPPAGE_BPS");
+    if (bps >= 10_000) throw new CliError("--slippage-bps must be below 10000", EXIT.USAGE);
+    return bps;
+}
+
+/** deposit-asbnb pays with BNB (NATIVE, the default) or slisBNB. */
+function asBnbSourceFrom(values: FlagValues): AsBnbSource {
+    const raw = (flagOrEnv(values, "currency") ?? "NATIVE").toUpperCase();
+    if (raw === "NATIVE" || raw === "BNB") return "native";
+    if (raw === "SLISBNB") return "slisbnb";
+    throw new CliError(`deposit-asbnb --currency must be NATIVE or SLISBNB, got "${raw}"`, EXIT.USAGE);
+}
+
+function beneficiaryFrom(values: FlagValues): string {
+    return requireAddress(requireOption(values, "beneficiary", "BENEFICIARY", "USER_ADDRESS"), "--beneficiary");
+}
+
+function oneOf<T extends string>(values: FlagValues, flag: string, allowed: readonly T[], fallback: T): T {
+    const v = (flagOrEnv(values, flag) ?? fallback) as T;
+    if (!allowed.includes(v)) {
+        throw new CliError(`--${flag} must be one of ${allowed.join(" | ")}, got "${v}"`, EXIT.USAGE);
+    }
+    return v;
+}
+
+function intFrom(values: FlagValues, flag: string, fallback: number, ...envNames: string[]): number {
+    const raw = flagOrEnv(values, flag, ...envNames);
+    if (raw === undefined) return fallback;
+    if (!/^\d+$/.test(raw)) throw new CliError(`--${flag} must be a non-negative integer, got "${raw}"`, EXIT.USAGE);
+    return Number(raw);
+}
+
+/** The chain's registry tokens plus any ERC-20s given with --currency. */
+function auditTokensFrom(values: FlagValues, network: Network): string[] {
+    const tokens = new Set(Object.values(network.tokens).map((t) => ethers.getAddress(t.address)));
+    for (const raw of (flagOrEnv(values, "currency") ?? "").split(",")) {
+        if (!raw.trim()) continue;
+        const currency = resolveCurrency(network, raw);
+        if (currency !== NATIVE_ADDRESS) tokens.add(currency);
+    }
+    return [...tokens];
+}
+
+/** Wallet1 / Wallet2 when their signers are configured, plus --account addresses. */
+async function auditOwnersFrom(values: FlagValues): Promise<Record<string, string>> {
+    const owners: Record<string, string> = {};
+    for (const [role, label] of [["sender", "Wallet1"], ["server", "Wallet2"]] as const) {
+        const address = await resolveSignerAddress(values, role, label);
+        if (address) owners[address] = label;
+    }
+    for (const raw of (flagOrEnv(values, "account") ?? "").split(",")) {
+        if (!raw.trim()) continue;
+        const address = requireAddress(raw.trim(), "--account");
+        owners[address] = owners[address] ?? "account";
+    }
+    if (Object.keys(owners).length === 0) {
+        throw new CliError("allowances audit: no wallets to audit; configure --signer / --server-signer or pass --account", EXIT.USAGE);
+    }
+    return owners;
+}
+
+/** --export: the file the flow's txs are written to instead of being sent. */
+function txExportFrom(values: FlagValues, chainId: number, flow: string): TxExport | undefined {
+    const file = flagOrEnv(values, "export");
+    if (file === undefined) return undefined;
+    if (values["dry-run"] === true) {
+        throw new CliError("--export already sends nothing; drop --dry-run", EXIT.USAGE);
+    }
+    return new TxExport(file, chainId, flow);
+}
+
+/** With --export the address in --`flag` stands in for a wallet; its key stays on the signing machine. */
+function exportSigner(values: FlagValues, provider: ethers.Provider, txExport: TxExport, flag: string): ExportSigner {
+    return txExport.signer(requireAddress(requireOption(values, flag), `--${flag}`), provider);
+}
+
+/** The --signer wallet, or the --from address when exporting. */
+async function senderFrom(values: FlagValues, provider: ethers.Provider, txExport: TxExport | undefined, label: string): Promise<Sender> {
+    if (txExport) return exportSigner(values, provider, txExport, "from");
+    return resolveSigner(values, "sender", provider, label);
+}
+
+/** Commands that send from a journal refuse --export: the journal can't follow txs signed elsewhere. */
+function refuseExport(values: FlagValues, command: string): void {
+    if (flagOrEnv(values, "export") !== undefined) {
+        throw new CliError(`${command} can't --export; its journal has to see every tx it sends`, EXIT.USAGE);
+    }
+}
+
+/** --fund-gas: Wallet2's gas tank, refilled from the --funder-signer wallet. */
+async function gasTankFrom(values: FlagValues, provider: ethers.Provider, network: Network, dataDir: string): Promise<GasTank | undefined> {
+    if (values["fund-gas"] !== true) return undefined;
+    if (flagOrEnv(values, "export") !== undefined) {
+        throw new CliError("--fund-gas can't be combined with --export; run gas-tank top-up before exporting", EXIT.USAGE);
+    }
+    return {
+        funder: await resolveSigner(values, "funder", provider, "gas tank funder"),
+        policy: resolveGasTankPolicy(values, network, dataDir),
+    };
+}
+
+/**
+ * --amount, --currency, --broker and --credit taken from a deposit intent
+ * where not given as flags (env defaults don't apply); the run still has to
+ * match the intent exactly.
+ */
+async function valuesFromIntent(values: FlagValues, signed: SignedDepositIntent): Promise<FlagValues> {
+    const { intent } = signed;
+    const { provider } = chainProvider(values);
+    const token = await readToken(intent.currency, provider);
+    return {
+        ...values,
+        amount: values.amount ?? ethers.formatUnits(intent.amount, token.decimals),
+        currency: values.currency ?? intent.currency,
+        broker: values.broker ?? intent.broker,
+        credit: values.credit ?? (intent.account.toLowerCase() === intent.owner.toLowerCase() ? "user" : "server"),
+    };
+}
+
+function originChainFrom(values: FlagValues): number {
+    const originChainId = Number(flagOrEnv(values, "origin-chain", "ORIGIN_CHAIN_ID") ?? 42161);
+    if (!Number.isInteger(originChainId) || originChainId <= 0) {
+        throw new CliError("--origin-chain must be a chain id", EXIT.USAGE);
+    }
+    return originChainId;
+}
+
+/** --origin-rpc for the relay's origin chain, else its registry endpoints. */
+function originProviderFrom(values: FlagValues, originChainId: number): ethers.Provider {
+    const originRpc =
+        flagOrEnv(values, "origin-rpc", "ORIGIN_RPC_URL", ...(originChainId === 42161 ? ["ARBITRUM_RPC_URL"] : [])) ??
+        findNetwork(originChainId)?.rpcUrls.join(",");
+    if (!originRpc) {
+        throw new CliError(`No RPC known for origin chain ${originChainId}; pass --origin-rpc`, EXIT.CONFIG);
+    }
+    return createRpcProvider({ chainId: originChainId, urls: originRpc.split(",").map((u) => u.trim()) });
+}
+
+function timeoutFrom(values: FlagValues): number {
+    const seconds = Number(flagOrEnv(values, "timeout") ?? 900);
+    if (!Number.isFinite(seconds) || seconds <= 0) {
+        throw new CliError("--timeout must be a positive number of seconds", EXIT.USAGE);
+    }
+    return seconds * 1000;
+}
+
+/** serve: the API token from the env var --api-token-env names; unset is only an error when that var was named. */
+function apiTokenFrom(values: FlagValues): string | undefined {
+    const named = flagOrEnv(values, "api-token-env");
+    const token = process.env[named ?? "SERVICE_API_TOKEN"];
+    if (token !== undefined && token !== "") return token;
+    if (named !== undefined) throw new CliError(`--api-token-env: env ${named} is not set`, EXIT.CONFIG);
+    return undefined;
+}
+
+const COMMANDS: Record<string, Command> = {
+    deposit: async (values) => {
+        const { common, provider } = providerFor(values);
+        const txExport = txExportFrom(values, common.network.chainId, "deposit");
+        const wallet = await senderFrom(values, provider, txExport, "sender");
+        return runDeposit({ ...common, wallet, gasReserve: gasReserveFrom(values, common.network) });
+    },
+
+    "deposit-for": async (values) => {
+        const { common, provider } = providerFor(values);
+        const beneficiary = beneficiaryFrom(values);
+        const txExport = txExportFrom(values, common.network.chainId, "deposit-for");
+        const wallet = await senderFrom(values, provider, txExport, "sender");
+        return runDepositFor({ ...common, wallet, beneficiary, gasReserve: gasReserveFrom(values, common.network) });
+    },
+
+    "deposit-for-batch": async (values) => {
+        refuseExport(values, "deposit-for-batch");
+        const { network, provider } = chainProvider(values);
+        const file = requireOption(values, "file");
+        const broker = flagOrEnv(values, "broker", "BROKER_ID", "REFERRAL_CODE") ?? DEFAULT_BROKER_ID;
+        const dataDir = flagOrEnv(values, "data-dir") ?? defaultDataDir();
+        const wallet = await resolveSigner(values, "sender", provider, "sender");
+        return runBatchDepositFor({
+            network,
+            wallet,
+            rows: loadBatchRows(file, network, broker),
+            source: file,
+            journalFile: flagOrEnv(values, "journal") ?? journalFile(dataDir, file, network.chainId),
+            gasReserve: gasReserveFrom(values, network),
+            timeoutMs: timeoutFrom(values),
+            dryRun: values["dry-run"] === true,
+            json: values.json === true,
+            approvals: resolveApprovalPolicies(values, network),
+            txs: resolveTxManager(values, network),
+            dataDir,
+            allowUnmatched: values["allow-unmatched"] === true,
+        });
+    },
+
+    "deposit-native": async (values) => {
+        const { common, provider } = providerFor(values);
+        const txExport = txExportFrom(values, common.network.chainId, "deposit-native");
+        const wallet = await senderFrom(values, provider, txExport, "sender");
+        return runDepositNative({ ...common, wallet, gasReserve: gasReserveFrom(values, common.network) });
+    },
+
+    "deposit-usdf": async (values) => {
+        const { common, provider } = providerFor(values);
+        const txExport = txExportFrom(values, common.network.chainId, "deposit-usdf");
+        const wallet = await senderFrom(values, provider, txExport, "sender");
+        return runDepositUsdf({ ...common, wallet, slippageBps: slippageFrom(values) });
+    },
+
+    "deposit-asbnb": async (values) => {
+        const source = asBnbSourceFrom(values);
+        const { common, provider } = providerFor({ ...values, currency: "NATIVE" });
+        const txExport = txExportFrom(values, common.network.chainId, "deposit-asbnb");
+        const wallet = await senderFrom(values, provider, txExport, "sender");
+        return runDepositAsBnb({
+            ...common,
+            wallet,
+            source,
+            slippageBps: slippageFrom(values),
+            gasReserve: gasReserveFrom(values, common.network),
+        });
+    },
+
+    "pull-and-deposit": async (values, args) => {
+        const action = args[0] ?? "run";
+        const dataDir = flagOrEnv(values, "data-dir") ?? defaultDataDir();
+
+        if (action !== "run") refuseExport(values, `pull-and-deposit ${action}`);
+        if (action === "reconcile") {
+            const { network, provider } = chainProvider(values);
+            return reconcilePullRuns({
+                network,
+                provider,
+                journalFile: pullJournalFile(dataDir, network.chainId),
+                json: values.json === true,
+            });
+        }
+
+        if (action === "refund") {
+            const { network, provider } = chainProvider(values);
+            const user = flagOrEnv(values, "user");
+            return refundPullRuns({
+                network,
+                serverWallet: await resolveSigner(values, "server", provider, "Wallet2"),
+                journalFile: pullJournalFile(dataDir, network.chainId),
+                runId: flagOrEnv(values, "run-id"),
+                user: user === undefined ? undefined : requireAddress(user, "--user"),
+                dryRun: values["dry-run"] === true,
+                yes: values.yes === true,
+                json: values.json === true,
+                txs: resolveTxManager(values, network),
+            });
+        }
+
+        const walletsFor = async (provider: ethers.Provider) => ({
+            userWallet: await resolveSigner(values, "sender", provider, "Wallet1"),
+            serverWallet: await resolveSigner(values, "server", provider, "Wallet2"),
+        });
+
+        if (action === "resume") {
+            const { network, provider } = chainProvider(values);
+            return resumePullAndDeposit({
+                network,
+                ...(await walletsFor(provider)),
+                journalFile: pullJournalFile(dataDir, network.chainId),
+                runId: flagOrEnv(values, "run-id"),
+                gasTank: await gasTankFrom(values, provider, network, dataDir),
+                dryRun: values["dry-run"] === true,
+                json: values.json === true,
+                approvals: resolveApprovalPolicies(values, network),
+                txs: resolveTxManager(values, network),
+            });
+        }
+        if (action !== "run") {
+            throw new CliError(`Unknown pull-and-deposit action "${action}" (run | resume | reconcile | refund)`, EXIT.USAGE);
+        }
+
+        const intentFile = flagOrEnv(values, "intent");
+        const intent = intentFile === undefined ? undefined : loadSignedIntent(intentFile);
+        const runValues = intent ? await valuesFromIntent(values, intent) : values;
+        const { common, provider } = providerFor(runValues);
+        const txExport = txExportFrom(values, common.network.chainId, "pull-and-deposit");
+        return runPullAndDeposit({
+            ...common,
+            ...(txExport
+                ? {
+                      userWallet: exportSigner(values, provider, txExport, "from"),
+                      serverWallet: exportSigner(values, provider, txExport, "server-from"),
+                  }
+                : await walletsFor(provider)),
+            puller: oneOf<Puller>(values, "puller", ["server", "multicall3"], "server"),
+            credit: oneOf<CreditTarget>(runValues, "credit", ["server", "user"], "server"),
+            gasTank: await gasTankFrom(values, provider, common.network, dataDir),
+            intent,
+            journalFile: pullJournalFile(dataDir, common.network.chainId),
+        });
+    },
+
+    allowances: async (values, args) => {
+        const action = args[0] ?? "audit";
+        const { network, provider } = chainProvider(values);
+        const tokens = auditTokensFrom(values, network);
+
+        if (action === "revoke") {
+            const spender = flagOrEnv(values, "spender");
+            const txExport = txExportFrom(values, network.chainId, "allowances revoke");
+            return runAllowanceRevoke({
+                network,
+                wallet: await senderFrom(values, provider, txExport, "owner"),
+                tokens,
+                spender: spender === undefined ? undefined : resolveSpender(network, spender),
+                dryRun: values["dry-run"] === true,
+                yes: values.yes === true,
+                json: values.json === true,
+                txs: resolveTxManager(values, network),
+            });
+        }
+        if (action !== "audit") {
+            throw new CliError(`Unknown allowances action "${action}" (audit | revoke)`, EXIT.USAGE);
+        }
+        return runAllowanceAudit({
+            network,
+            provider,
+            owners: await auditOwnersFrom(values),
+            tokens,
+            fromBlock: flagOrEnv(values, "from-block") === undefined ? undefined : intFrom(values, "from-block", 0),
+            chunkSize: Math.max(1, intFrom(values, "chunk-size", 2000)),
+            json: values.json === true,
+        });
+    },
+
+    relay: async (values) => {
+        // On the relay path --chain / --currency describe the destination side.
+        const common = resolveCommonOptions({
+            ...values,
+            chain: flagOrEnv(values, "chain", "DESTINATION_CHAIN_ID"),
+            currency: flagOrEnv(values, "currency", "DESTINATION_CURRENCY"),
+        });
+        const destinationContract = requireAddress(
+            flagOrEnv(values, "destination-contract", "DESTINATION_CONTRACT_ADDRESS") ?? common.network.vault,
+            "--destination-contract"
+        );
+        const beneficiary = beneficiaryFrom(values);
+        const originChainId = originChainFrom(values);
+        const timeoutMs = timeoutFrom(values);
+
+        const txExport = txExportFrom(values, originChainId, "relay");
+        const originNetwork = findNetwork(originChainId);
+        let originWallet: Sender | undefined;
+        if (values["dry-run"] !== true) {
+            const originProvider = originProviderFrom(values, originChainId);
+            if (txExport) {
+                const from = flagOrEnv(values, "from") ?? requireOption(values, "user", "USER_ADDRESS");
+                originWallet = txExport.signer(requireAddress(from, "--from"), originProvider);
+            } else {
+                originWallet = await resolveSigner(values, "sender", originProvider, "origin wallet");
+            }
+        }
+        const user = requireAddress(
+            flagOrEnv(values, "user", "USER_ADDRESS") ?? originWallet?.address ?? beneficiary,
+            "--user"
+        );
+
+        return runRelay({
+            ...common,
+            beneficiary,
+            destinationContract,
+            originChainId,
+            originCurrency: requireAddress(
+                flagOrEnv(values, "origin-currency", "ORIGIN_CURRENCY") ?? ethers.ZeroAddress,
+                "--origin-currency"
+            ),
+            user,
+            relay: new RelayClient({ baseUrl: flagOrEnv(values, "relay-url", "RELAY_API_URL") }),
+            originWallet,
+            originTxs: originNetwork && resolveTxManager(values, originNetwork),
+            timeoutMs,
+        });
+    },
+
+    "relay-status": async (values) => {
+        const network = resolveNetwork({ ...values, chain: flagOrEnv(values, "chain", "DESTINATION_CHAIN_ID") });
+        const requestId = requireOption(values, "request-id");
+        if (!ethers.isHexString(requestId, 32)) {
+            throw new CliError("--request-id must be a 32-byte hex string", EXIT.USAGE);
+        }
+        const amount = flagOrEnv(values, "amount");
+        return runRelayStatus({
+            network,
+            relay: new RelayClient({ baseUrl: flagOrEnv(values, "relay-url", "RELAY_API_URL") }),
+            requestId,
+            rpc: resolveRpc(values, network),
+            expected: {
+                vault: requireAddress(
+                    flagOrEnv(values, "destination-contract", "DESTINATION_CONTRACT_ADDRESS") ?? network.vault,
+                    "--destination-contract"
+                ),
+                account: beneficiaryFrom(values),
+                currency: resolveCurrency(network, flagOrEnv(values, "currency", "DESTINATION_CURRENCY")),
+            },
+            amount: amount === undefined ? undefined : resolveAmount(amount),
+            timeoutMs: timeoutFrom(values),
+            dataDir: flagOrEnv(values, "data-dir") ?? defaultDataDir(),
+        });
+    },
+
+    offline: async (values, args) => {
+        const action = args[0];
+        const file = requireOption(values, "file");
+        if (action === "sign") {
+            return runOfflineSign({
+                file,
+                keystores: requireOption(values, "keystore")
+                    .split(",")
+                    .map((k) => k.trim())
+                    .filter(Boolean),
+                passwordEnv: flagOrEnv(values, "password-env") ?? "KEYSTORE_PASSWORD",
+                out: flagOrEnv(values, "out"),
+            });
+        }
+        if (action === "broadcast") {
+            const network = resolveNetwork(values);
+            return runOfflineBroadcast({ file, rpc: resolveRpc(values, network), timeoutMs: timeoutFrom(values) });
+        }
+        throw new CliError(`Unknown offline action "${action ?? ""}" (sign | broadcast)`, EXIT.USAGE);
+    },
+
+    rpc: async (values, args) => {
+        const action = args[0] ?? "health";
+        if (action !== "health") throw new CliError(`Unknown rpc action "${action}" (health)`, EXIT.USAGE);
+        const network = resolveNetwork(values);
+        return runRpcHealth({
+            network,
+            rpc: resolveRpc(values, network),
+            maxLag: intFrom(values, "max-lag", 5),
+            json: values.json === true,
+        });
+    },
+
+    intent: async (values, args) => {
+        const action = args[0];
+        if (action !== "sign") throw new CliError(`Unknown intent action "${action ?? ""}" (sign)`, EXIT.USAGE);
+        const { common, provider } = providerFor(values);
+        const wallet = await resolveSigner(values, "sender", provider, "Wallet1");
+        const nonce = flagOrEnv(values, "nonce") ?? newIntentNonce();
+        if (!/^\d+$/.test(nonce)) throw new CliError(`--nonce must be a whole number, got "${nonce}"`, EXIT.USAGE);
+        return runIntentSign({
+            network: common.network,
+            wallet,
+            amount: common.amount,
+            currency: common.currency,
+            broker: common.broker,
+            account: requireAddress(flagOrEnv(values, "beneficiary") ?? wallet.address, "--beneficiary"),
+            nonce,
+            ttlSeconds: intFrom(values, "intent-ttl", DEFAULT_INTENT_TTL_SECONDS),
+            out: flagOrEnv(values, "out") ?? `deposit-intent-${nonce}.json`,
+        });
+    },
+
+    "gas-tank": async (values, args) => {
+        const action = args[0] ?? "status";
+        const { network, provider } = chainProvider(values);
+        const dataDir = flagOrEnv(values, "data-dir") ?? defaultDataDir();
+        const policy = resolveGasTankPolicy(values, network, dataDir);
+        const txs = resolveTxManager(values, network);
+        const tank = await resolveSignerAddress(values, "server", "Wallet2");
+        if (!tank) throw new CliError("gas-tank: no Wallet2 configured; pass --server-signer", EXIT.CONFIG);
+        if (action === "status") {
+            const funder = await resolveSignerAddress(values, "funder", "gas tank funder");
+            if (!funder) throw new CliError("gas-tank: no funding wallet configured; pass --funder-signer", EXIT.CONFIG);
+            return runGasTankStatus({ network, provider, tank, funder, policy, txs, json: values.json === true });
+        }
+        if (action !== "top-up") throw new CliError(`Unknown gas-tank action "${action}" (status | top-up)`, EXIT.USAGE);
+        return runGasTankTopUp({
+            network,
+            tank,
+            funder: await resolveSigner(values, "funder", provider, "gas tank funder"),
+            policy,
+            txs,
+            dryRun: values["dry-run"] === true,
+            json: values.json === true,
+        });
+    },
+
+    tx: async (values, args) => {
+        const action = args[0];
+        if (action !== "speed-up" && action !== "cancel") {
+            throw new CliError(`Unknown tx action "${action ?? ""}" (speed-up | cancel)`, EXIT.USAGE);
+        }
+        const hash = requireOption(values, "hash");
+        if (!ethers.isHexString(hash, 32)) throw new CliError("--hash must be a 32-byte tx hash", EXIT.USAGE);
+        const { network, provider } = chainProvider(values);
+        const opts = {
+            network,
+            wallet: await resolveSigner(values, "sender", provider, "sender"),
+            hash,
+            txs: resolveTxManager(values, network),
+            json: values.json === true,
+        };
+        return action === "speed-up" ? runTxSpeedUp(opts) : runTxCancel(opts);
+    },
+
+    serve: async (values) => {
+        refuseExport(values, "serve");
+        const { network, provider } = chainProvider(values);
+        const dataDir = flagOrEnv(values, "data-dir") ?? defaultDataDir();
+        const wallet = signerSpecFrom(values, "sender") ? await resolveSigner(values, "sender", provider, "Wallet1") : undefined;
+        const serverWallet = signerSpecFrom(values, "server") ? await resolveSigner(values, "server", provider, "Wallet2") : undefined;
+        if (!wallet) throw new CliError(`serve: no Wallet1 configured; pass --signer ${SPEC_FORMS}`, EXIT.CONFIG);
+
+        // Relay deposits are served when an origin chain is configured.
+        let relay: ServiceRelay | undefined;
+        if (flagOrEnv(values, "origin-chain", "ORIGIN_CHAIN_ID") !== undefined) {
+            const originChainId = originChainFrom(values);
+            const originNetwork = findNetwork(originChainId);
+            relay = {
+                client: new RelayClient({ baseUrl: flagOrEnv(values, "relay-url", "RELAY_API_URL") }),
+                originChainId,
+                wallet: wallet.connect(originProviderFrom(values, originChainId)),
+                txs: originNetwork && resolveTxManager(values, originNetwork),
+                timeoutMs: timeoutFrom(values),
+            };
+        }
+        return runDepositService({
+            chains: [
+                {
+                    network,
+                    provider,
+                    rpc: resolveRpc(values, network),
+                    txs: resolveTxManager(values, network),
+                    approvals: resolveApprovalPolicies(values, network),
+                    gasReserve: gasReserveFrom(values, network),
+                    wallet,
+                    serverWallet,
+                    gasTank: await gasTankFrom(values, provider, network, dataDir),
+                },
+            ],
+            relay,
+            dataDir,
+            host: flagOrEnv(values, "host", "SERVICE_HOST") ?? "127.0.0.1",
+            port: intFrom(values, "port", 8080, "SERVICE_PORT"),
+            apiToken: apiTokenFrom(values),
+        });
+    },
+
+    index: async (values, args) => {
+        const action = args[0] ?? "sync";
+        const network = resolveNetwork(values);
+        const dataDir = flagOrEnv(values, "data-dir") ?? defaultDataDir();
+
+        if (action === "query") {
+            const event = flagOrEnv(values, "event");
+            if (event !== undefined && !["Deposit", "DepositFailed", "ReceiveETH"].includes(event)) {
+                throw new CliError(`--event must be Deposit | DepositFailed | ReceiveETH, got "${event}"`, EXIT.USAGE);
+            }
+            const account = flagOrEnv(values, "account");
+            const currency = flagOrEnv(values, "currency");
+            const broker = flagOrEnv(values, "broker");
+            return runIndexQuery({
+                network,
+                dataDir,
+                json: values.json === true,
+                query: {
+                    event: event as EventQuery["event"],
+                    account: account === undefined ? undefined : requireAddress(account, "--account"),
+                    currency: currency === undefined ? undefined : resolveCurrency(network, currency),
+                    broker,
+                    fromBlock: flagOrEnv(values, "from-block") === undefined ? undefined : intFrom(values, "from-block", 0),
+                    toBlock: flagOrEnv(values, "to-block") === undefined ? undefined : intFrom(values, "to-block", 0),
+                },
+            });
+        }
+
+        if (action !== "sync" && action !== "follow") {
+            throw new CliError(`Unknown index action "${action}" (sync | follow | query)`, EXIT.USAGE);
+        }
+        return runIndexSync({
+            network,
+            rpc: resolveRpc(values, network),
+            dataDir,
+            startBlock: intFrom(values, "from-block", 0, "START_BLOCK"),
+            confirmations: intFrom(values, "confirmations", 15),
+            chunkSize: Math.max(1, intFrom(values, "chunk-size", 2000)),
+            follow: action === "follow",
+            pollMs: 5_000,
+        });
+    },
+};
+
+export async function main(argv: string[]): Promise<ExitCode> {
+    loadEnv();
+
+    let parsed: ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>;
+    try {
+        parsed = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+    } catch (err: any) {
+        console.error(err.message);
+        console.error(USAGE);
+        return EXIT.USAGE;
+    }
+
+    const [name] = parsed.positionals;
+    if (!name || name === "help" || parsed.values.help) {
+        console.log(USAGE);
+        return name || parsed.values.help ? EXIT.OK : EXIT.USAGE;
+    }
+
+    const command = COMMANDS[name];
+    if (!command) {
+        console.error(`Unknown command "${name}"\n`);
+        console.error(USAGE);
+        return EXIT.USAGE;
+    }
+
+    try {
+        await command(parsed.values, parsed.positionals.slice(1));
+        return EXIT.OK;
+    } catch (err: any) {
+        if (err instanceof CliError) {
+            console.error(`\n❌ ${err.message}`);
+            if (err.decoded) console.error(`   Hint: ${err.decoded.hint}`);
+            return err.exitCode;
+        }
+        if (err instanceof RelayApiError) {
+            console.error(`\n❌ Relay ${err.code}: ${err.message}`);
+            if (err.requestId) console.error(`   requestId: ${err.requestId}`);
+            return relayExitCode(err);
+        }
+        console.error("\n❌ Error:", err?.shortMessage ?? err?.message ?? err);
+        return EXIT.FAILURE;
+    }
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2)).then((code) => process.exit(code));
+}
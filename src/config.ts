@@ -0,0 +1,268 @@
+/**
+ * config.ts
+ *
+ * Resolves CLI flags and environment variables into typed options.
+ * Precedence is always: flag → env → default. `.env` next to the repo root is
+ * loaded once, before anything reads process.env.
+ */
+
+import { ethers } from "ethers";
+import * as dotenv from "dotenv";
+import * as path from "path";
+import { ApprovalPolicies, parseApprovalPolicies } from "./allowances/approvals";
+import { DEFAULT_BROKER_ID, findNetwork, NETWORKS, Network } from "./constants";
+import { CliError, EXIT } from "./exit_codes";
+import { GasPolicy, parseGasPolicy } from "./gas/strategy";
+import { GasTankPolicy, gasTankLogFile, parseGasTankPolicy } from "./gas/tank";
+import { defaultDataDir } from "./json_store";
+import { RpcPoolOptions } from "./rpc/pool";
+import { LoadedSigner, loadSigner, LoadSignerOptions, parseSignerSpec, signerAddress, SignerSpec, SPEC_FORMS } from "./signers/load";
+import { parseTxLifecycle, TxManager } from "./tx/manager";
+
+let envLoaded = false;
+
+export function loadEnv(): void {
+    if (envLoaded) return;
+    dotenv.config({ path: path.join(__dirname, "..", ".env"), quiet: true });
+    envLoaded = true;
+}
+
+/** Raw flag values as produced by util.parseArgs. */
+export type FlagValues = Record<string, string | boolean | undefined>;
+
+export function flagOrEnv(values: FlagValues, flag: string, ...envNames: string[]): string | undefined {
+    const v = values[flag];
+    if (typeof v === "string" && v !== "") return v;
+    for (const name of envNames) {
+        const e = process.env[name];
+        if (e !== undefined && e !== "") return e;
+    }
+    return undefined;
+}
+
+export function requireOption(values: FlagValues, flag: string, ...envNames: string[]): string {
+    const v = flagOrEnv(values, flag, ...envNames);
+    if (v === undefined) {
+        const env = envNames.length ? ` (or env ${envNames.join(" / ")})` : "";
+        throw new CliError(`Missing --${flag}${env}`, EXIT.USAGE);
+    }
+    return v;
+}
+
+export function requireAddress(value: string, what: string): string {
+    if (!ethers.isAddress(value)) {
+        throw new CliError(`${what} is not a valid address: ${value}`, EXIT.USAGE);
+    }
+    return ethers.getAddress(value);
+}
+
+// ─────────────────────────────────────────────
+// Common options
+// ─────────────────────────────────────────────
+export interface CommonOptions {
+    network: Network;
+    /** Endpoints (and quorum) the flow's RpcPool is built from. */
+    rpc: RpcPoolOptions;
+    /** Human amount, e.g. "0.05". Parsed with the currency's decimals later. */
+    amount: string;
+    /** Checksummed token address, or NATIVE_ADDRESS. */
+    currency: string;
+    broker: string;
+    /** Simulate everything, send nothing. */
+    dryRun: boolean;
+    /** Print the pre-flight report as JSON. */
+    json: boolean;
+    /** How much each spender gets approved for. */
+    approvals: ApprovalPolicies;
+    /** Local state: journals, credits ledger, indexer store. */
+    dataDir: string;
+    /** Nonces, gas (buffer, fee model, cap), speed-ups and confirmations of every tx sent. */
+    txs: TxManager;
+}
+
+export function resolveNetwork(values: FlagValues): Network {
+    const name = (flagOrEnv(values, "chain", "CHAIN") ?? "bsc").toLowerCase();
+    const network = findNetwork(name);
+    if (!network) {
+        throw new CliError(
+            `Unknown chain "${name}". Known: ${Object.keys(NETWORKS).join(", ")}`,
+            EXIT.USAGE
+        );
+    }
+    return network;
+}
+
+/** --rpc / RPC_URL (comma-separated, preferred first), else the profile's endpoints; --rpc-quorum for reads. */
+export function resolveRpc(values: FlagValues, network: Network): RpcPoolOptions {
+    const raw = flagOrEnv(values, "rpc", "RPC_URL");
+    const urls = raw === undefined ? network.rpcUrls : raw.split(",").map((u) => u.trim()).filter(Boolean);
+    for (const url of urls) {
+        if (!/^https?:\/\//.test(url)) throw new CliError(`--rpc entries must be http(s) URLs, got "${url}"`, EXIT.USAGE);
+    }
+    const quorum = flagOrEnv(values, "rpc-quorum", "RPC_QUORUM") ?? "1";
+    if (!/^\d+$/.test(quorum) || Number(quorum) < 1 || Number(quorum) > urls.length) {
+        throw new CliError(`--rpc-quorum must be between 1 and the number of RPC endpoints (${urls.length}), got "${quorum}"`, EXIT.USAGE);
+    }
+    return { chainId: network.chainId, urls, quorum: Number(quorum) };
+}
+
+/** Accepts a registry symbol ("USDT", "USDC"), "NATIVE" / the native symbol, or a token address. */
+export function resolveCurrency(network: Network, value: string | undefined): string {
+    const v = (value ?? "USDT").trim();
+    const symbol = v.toUpperCase();
+    if (symbol === "NATIVE" || symbol === network.nativeSymbol) return network.nativeAddress;
+    const token = network.tokens[symbol];
+    if (token) return ethers.getAddress(token.address);
+    if (!ethers.isAddress(v)) {
+        throw new CliError(
+            `--currency "${v}" is neither an address nor a token known on ${network.name} (${[...Object.keys(network.tokens), "NATIVE"].join(", ")})`,
+            EXIT.USAGE
+        );
+    }
+    return ethers.getAddress(v);
+}
+
+export function resolveAmount(value: string): string {
+    if (!/^\d+(\.\d+)?$/.test(value) || Number(value) <= 0) {
+        throw new CliError(`--amount must be a positive decimal number, got "${value}"`, EXIT.USAGE);
+    }
+    return value;
+}
+
+export function resolveCommonOptions(values: FlagValues): CommonOptions {
+    const network = resolveNetwork(values);
+    const broker = flagOrEnv(values, "broker", "BROKER_ID", "REFERRAL_CODE") ?? DEFAULT_BROKER_ID;
+    if (!/^\d+$/.test(broker)) {
+        throw new CliError(`--broker must be an integer, got "${broker}"`, EXIT.USAGE);
+    }
+    return {
+        network,
+        rpc: resolveRpc(values, network),
+        amount: resolveAmount(requireOption(values, "amount", "DEPOSIT_AMOUNT_HUMAN")),
+        currency: resolveCurrency(network, flagOrEnv(values, "currency", "CURRENCY")),
+        broker,
+        dryRun: values["dry-run"] === true,
+        json: values.json === true,
+        approvals: resolveApprovalPolicies(values, network),
+        dataDir: flagOrEnv(values, "data-dir") ?? defaultDataDir(),
+        txs: resolveTxManager(values, network),
+    };
+}
+
+export function resolveGasPolicy(values: FlagValues, network: Network): GasPolicy {
+    return parseGasPolicy(network, {
+        bufferPct: flagOrEnv(values, "gas-buffer", "GAS_BUFFER_PCT"),
+        maxFeeGwei: flagOrEnv(values, "max-fee", "MAX_FEE_GWEI"),
+        onHighFee: flagOrEnv(values, "on-high-fee", "ON_HIGH_FEE"),
+        waitSeconds: flagOrEnv(values, "fee-wait", "FEE_WAIT_SECONDS"),
+        nativeUsd: flagOrEnv(values, "native-usd", "NATIVE_USD_PRICE"),
+    });
+}
+
+/** The gas policy of `network` and the lifecycle flags (--confirmations, --speed-up-after, --fee-bump, --max-bumps, --timeout). */
+export function resolveTxManager(values: FlagValues, network: Network): TxManager {
+    return new TxManager(
+        resolveGasPolicy(values, network),
+        parseTxLifecycle({
+            confirmations: flagOrEnv(values, "confirmations", "TX_CONFIRMATIONS"),
+            speedUpAfterSeconds: flagOrEnv(values, "speed-up-after", "SPEED_UP_AFTER_SECONDS"),
+            bumpPct: flagOrEnv(values, "fee-bump", "FEE_BUMP_PCT"),
+            maxBumps: flagOrEnv(values, "max-bumps", "MAX_FEE_BUMPS"),
+            timeoutSeconds: flagOrEnv(values, "timeout"),
+        })
+    );
+}
+
+/** Tank limits of `network` with --tank-deposits, --tank-daily-cap, --funder-min and --alert-url applied. */
+export function resolveGasTankPolicy(values: FlagValues, network: Network, dataDir: string): GasTankPolicy {
+    return parseGasTankPolicy(network, gasTankLogFile(dataDir, network.chainId), {
+        depositsPerDay: flagOrEnv(values, "tank-deposits", "GAS_TANK_DEPOSITS_PER_DAY"),
+        dailyCap: flagOrEnv(values, "tank-daily-cap", "GAS_TANK_DAILY_CAP"),
+        funderMin: flagOrEnv(values, "funder-min", "FUNDER_MIN_BALANCE"),
+        alertUrl: flagOrEnv(values, "alert-url", "GAS_TANK_ALERT_URL"),
+    });
+}
+
+export function resolveApprovalPolicies(values: FlagValues, network: Network): ApprovalPolicies {
+    return parseApprovalPolicies(flagOrEnv(values, "approval-policy", "APPROVAL_POLICY"), network);
+}
+
+// ─────────────────────────────────────────────
+// Wallets
+// ─────────────────────────────────────────────
+
+/** The sender / Wallet1, Wallet2 of the two-wallet flow, or the wallet that funds Wallet2's gas. */
+export type WalletRole = "sender" | "server" | "funder";
+
+const ROLES: Record<
+    WalletRole,
+    { signerFlag: string; signerEnv: string; keyFlag: string; keyEnv: string; passwordEnvs: string[]; defaultIndex: number }
+> = {
+    sender: {
+        signerFlag: "signer",
+        signerEnv: "SIGNER",
+        keyFlag: "key-env",
+        keyEnv: "PRIVATE_KEY",
+        passwordEnvs: ["KEYSTORE_PASSWORD"],
+        defaultIndex: 0,
+    },
+    server: {
+        signerFlag: "server-signer",
+        signerEnv: "WALLET2_SIGNER",
+        keyFlag: "server-key-env",
+        keyEnv: "WALLET2_PRIVATE_KEY",
+        passwordEnvs: ["WALLET2_KEYSTORE_PASSWORD", "KEYSTORE_PASSWORD"],
+        defaultIndex: 1,
+    },
+    funder: {
+        signerFlag: "funder-signer",
+        signerEnv: "FUNDER_SIGNER",
+        keyFlag: "funder-key-env",
+        keyEnv: "FUNDER_PRIVATE_KEY",
+        passwordEnvs: ["FUNDER_KEYSTORE_PASSWORD", "KEYSTORE_PASSWORD"],
+        defaultIndex: 2,
+    },
+};
+
+/**
+ * --signer / --server-signer / --funder-signer (or SIGNER / WALLET2_SIGNER /
+ * FUNDER_SIGNER); failing that, a raw key named by --key-env / --server-key-env
+ * / --funder-key-env or left in PRIVATE_KEY / WALLET2_PRIVATE_KEY /
+ * FUNDER_PRIVATE_KEY, as env:<NAME>. Undefined when the role has nothing set.
+ */
+export function signerSpecFrom(values: FlagValues, role: WalletRole): SignerSpec | undefined {
+    const r = ROLES[role];
+    const raw = flagOrEnv(values, r.signerFlag, r.signerEnv);
+    if (raw !== undefined) return parseSignerSpec(raw);
+    const keyFlag = flagOrEnv(values, r.keyFlag);
+    if (keyFlag !== undefined) return { kind: "env", name: keyFlag };
+    return process.env[r.keyEnv] ? { kind: "env", name: r.keyEnv } : undefined;
+}
+
+function signerOptions(values: FlagValues, role: WalletRole, label: string): LoadSignerOptions {
+    return {
+        label,
+        passwordEnvs: ROLES[role].passwordEnvs,
+        defaultIndex: ROLES[role].defaultIndex,
+        allowEnvKeys: values["insecure-env-keys"] === true,
+    };
+}
+
+/**
+ * Load the signer configured for `role`. Raw keys are never taken from flags,
+ * so they don't end up in shell history / ps, and from env only behind
+ * --insecure-env-keys.
+ */
+export async function resolveSigner(values: FlagValues, role: WalletRole, provider: ethers.Provider, label: string): Promise<LoadedSigner> {
+    const spec = signerSpecFrom(values, role);
+    if (!spec) {
+        throw new CliError(`${label}: no signer configured; pass --${ROLES[role].signerFlag} ${SPEC_FORMS}`, EXIT.CONFIG);
+    }
+    return loadSigner(spec, provider, signerOptions(values, role, label));
+}
+
+/** Address of `role`'s signer without unlocking it where possible; undefined when none is configured. */
+export async function resolveSignerAddress(values: FlagValues, role: WalletRole, label: string): Promise<string | undefined> {
+    const spec = signerSpecFrom(values, role);
+    return spec && signerAddress(spec, signerOptions(values, role, label));
+}
@@ -0,0 +1,148 @@
+/**
+ * constants.ts
+ *
+ * Chain profile registry: on-chain addresses, tokens, RPC endpoints and
+ * explorers for the Aster deployments the flows run on, selected with --chain,
+ * plus the in-process chain of local/chain.ts for trying them out.
+ */
+
+import { ethers } from "ethers";
+
+/** AstherusVault's NATIVE sentinel: address(bytes20(keccak256("NATIVE"))). */
+export const NATIVE_ADDRESS = ethers.getAddress(ethers.dataSlice(ethers.id("NATIVE"), 0, 20));
+
+/** Canonical Multicall3, deployed at the same address on every chain we use. */
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+/** How transactions on a chain are priced (see gas/strategy.ts). */
+export interface GasProfile {
+    /** "legacy" sends gasPrice; "eip1559" sends maxFeePerGas / maxPriorityFeePerGas. */
+    fees: "legacy" | "eip1559";
+    /** Highest price per gas a deposit pays, in gwei; --max-fee overrides it. */
+    maxFeeGwei: string;
+    /** Tip on EIP-1559 chains, in gwei; the node's suggestion when unset. */
+    priorityFeeGwei?: string;
+    /** Headroom added to every gas estimate, in percent. */
+    bufferPct: number;
+    /** Chainlink native/USD feed, for cost reports in USD. */
+    nativeUsdFeed?: string;
+}
+
+/** Limits of the server wallet's gas tank (see gas/tank.ts), in native. */
+export interface GasTankProfile {
+    /** Most the funding wallet may send the tank per 24 hours; --tank-daily-cap overrides it. */
+    dailyCap: string;
+    /** Funding wallet balance that raises an alert; --funder-min overrides it. */
+    funderMin: string;
+}
+
+export interface ChainToken {
+    address: string;
+    decimals: number;
+}
+
+/** Everything a flow needs to know about one Aster deployment. */
+export interface Network {
+    name: string;
+    chainId: number;
+    /** Public endpoints, preferred first; --rpc / RPC_URL overrides them. */
+    rpcUrls: string[];
+    /** AstherusVault proxy. */
+    vault: string;
+    /** ERC-20s known by symbol (--currency USDT, batch rows); the vault's support is still checked on-chain. */
+    tokens: Record<string, ChainToken>;
+    multicall3: string;
+    /** Currency the vault uses for the native coin. */
+    nativeAddress: string;
+    nativeSymbol: string;
+    /** Native balance always left in a wallet after a native deposit, for gas. */
+    nativeGasReserve: string;
+    /** Block explorer root, without a trailing slash. */
+    explorerUrl: string;
+    gas: GasProfile;
+    gasTank: GasTankProfile;
+}
+
+export const NETWORKS: Record<string, Network> = {
+    // https://bscscan.com/address/0x128463a60784c4d3f46c23af3f65ed859ba87974#writeProxyContract
+    bsc: {
+        name: "bsc",
+        chainId: 56,
+        rpcUrls: ["https://bsc-dataseed.binance.org/", "https://bsc-dataseed1.defibit.io/", "https://bsc-rpc.publicnode.com"],
+        vault: "0x128463a60784c4d3f46c23af3f65ed859ba87974",
+        tokens: {
+            USDT: { address: "0x55d398326f99059ff775485246999027b3197955", decimals: 18 },
+            USDC: { address: "0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d", decimals: 18 },
+        },
+        multicall3: MULTICALL3_ADDRESS,
+        nativeAddress: NATIVE_ADDRESS,
+        nativeSymbol: "BNB",
+        nativeGasReserve: "0.005",
+        explorerUrl: "https://bscscan.com",
+        // https://data.chain.link/feeds/bsc/mainnet/bnb-usd
+        gas: { fees: "legacy", maxFeeGwei: "3", bufferPct: 30, nativeUsdFeed: "0x0567F2323251f0Aab15c8dFb1967E4e8A7D42aeE" },
+        gasTank: { dailyCap: "0.05", funderMin: "0.1" },
+    },
+    // https://arbiscan.io/address/0x9e36cb86a159d479ced94fa05036f235ac40e1d5#writeProxyContract
+    arbitrum: {
+        name: "arbitrum",
+        chainId: 42161,
+        rpcUrls: ["https://arb1.arbitrum.io/rpc", "https://arbitrum-one-rpc.publicnode.com"],
+        vault: "0x9e36cb86a159d479ced94fa05036f235ac40e1d5",
+        tokens: {
+            USDT: { address: "0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9", decimals: 6 },
+            USDC: { address: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831", decimals: 6 },
+        },
+        multicall3: MULTICALL3_ADDRESS,
+        nativeAddress: NATIVE_ADDRESS,
+        nativeSymbol: "ETH",
+        nativeGasReserve: "0.001",
+        explorerUrl: "https://arbiscan.io",
+        // Arbitrum ignores the tip; https://data.chain.link/feeds/arbitrum/mainnet/eth-usd
+        gas: {
+            fees: "eip1559",
+            maxFeeGwei: "1",
+            priorityFeeGwei: "0",
+            bufferPct: 30,
+            nativeUsdFeed: "0x639Fe6ab55C921f74e7fac1ee960C0B6293ba612",
+        },
+        gasTank: { dailyCap: "0.01", funderMin: "0.02" },
+    },
+    // `npm run local-chain` (local/chain.ts): ganache with the mocks of local/mocks.sol,
+    // deployed by its account 9 as its first txs on a fresh chain, hence fixed addresses.
+    local: {
+        name: "local",
+        chainId: 1337,
+        rpcUrls: ["http://127.0.0.1:8545"],
+        vault: "0xFA33c8EF8b5c4f3003361c876a298D1DB61ccA4e",
+        tokens: {
+            USDT: { address: "0x07a457d878BF363E0Bb5aa0B096092f941e19962", decimals: 18 },
+        },
+        multicall3: "0xBe0B0f08A599F07699E98A9D001084e97b9a900A",
+        nativeAddress: NATIVE_ADDRESS,
+        nativeSymbol: "ETH",
+        nativeGasReserve: "0.01",
+        // No explorer: links print as local/tx/<hash>.
+        explorerUrl: "local",
+        gas: { fees: "eip1559", maxFeeGwei: "50", bufferPct: 30 },
+        gasTank: { dailyCap: "1", funderMin: "1" },
+    },
+};
+
+/** Registry lookup by name ("bsc") or chain id ("56"). */
+export function findNetwork(nameOrId: string | number): Network | undefined {
+    const key = String(nameOrId).toLowerCase();
+    return NETWORKS[key] ?? Object.values(NETWORKS).find((n) => String(n.chainId) === key);
+}
+
+/** Symbol and profile of a registry token, by address. */
+export function knownToken(network: Network, address: string): (ChainToken & { symbol: string }) | undefined {
+    const entry = Object.entries(network.tokens).find(([, t]) => t.address.toLowerCase() === address.toLowerCase());
+    return entry && { symbol: entry[0], ...entry[1] };
+}
+
+export function explorerTxUrl(network: Network, hash: string): string {
+    return `${network.explorerUrl}/tx/${hash}`;
+}
+
+export const DEFAULT_BROKER_ID = "1000";
@@ -0,0 +1,156 @@
+/**
+ * credits.ts
+ *
+ * What Aster actually credited, read back from the vault's Deposit event.
+ *
+ * deposit() emits the balance delta the vault received, not the requested
+ * amount, so with a fee-on-transfer token the two differ; and deposit() always
+ * credits msg.sender, whoever the caller meant to credit. Every flow runs its
+ * receipt through `settleCredit`, which compares the event with what was
+ * requested, appends the result to the credits ledger (the credited amount,
+ * not the requested one, is the source of truth) and reports discrepancies:
+ *
+ *   missing  no Deposit event for the currency in the receipt
+ *   account  the event credited a different account
+ *   amount   the credited amount differs from the request (or is below the
+ *            floor, for minting deposits)
+ */
+
+import { ethers } from "ethers";
+import * as path from "path";
+import { Network } from "./constants";
+import { CliError, EXIT } from "./exit_codes";
+import { readJson, writeJsonAtomic } from "./json_store";
+import { depositsInReceipt, DepositLog } from "./vault_events";
+
+export interface ExpectedCredit {
+    /** Flow name, for the ledger. */
+    flow: string;
+    account: string;
+    currency: string;
+    amount: bigint;
+    /** "atLeast" when `amount` is a floor (minted USDF / asBNB), not an exact figure. */
+    match: "exact" | "atLeast";
+}
+
+export type DiscrepancyKind = "missing" | "account" | "amount";
+
+export interface CreditDiscrepancy {
+    kind: DiscrepancyKind;
+    detail: string;
+}
+
+export interface CreditRecord {
+    flow: string;
+    chainId: number;
+    vault: string;
+    txHash: string;
+    blockNumber: number;
+    currency: string;
+    requestedAccount: string;
+    /** Wei, as decimal strings. */
+    requested: string;
+    /** Account and amount from the Deposit event; absent when there was none. */
+    account?: string;
+    credited?: string;
+    discrepancies: CreditDiscrepancy[];
+    recordedAt: string;
+}
+
+interface CreditLedger {
+    chainId: number;
+    /** `${txHash}:${currency}` → record. */
+    credits: Record<string, CreditRecord>;
+}
+
+export class CreditDiscrepancyError extends CliError {
+    constructor(readonly records: CreditRecord[]) {
+        super(
+            `credit discrepancy: ${records
+                .flatMap((r) => r.discrepancies.map((d) => `${d.kind} (${r.txHash}): ${d.detail}`))
+                .join("; ")}`,
+            EXIT.DISCREPANCY
+        );
+        this.name = "CreditDiscrepancyError";
+    }
+}
+
+export function creditsFile(dataDir: string, chainId: number): string {
+    return path.join(dataDir, `credits-${chainId}.json`);
+}
+
+/** Compare the Deposit events in `deposits` with `expected`. */
+export function reconcileCredit(
+    deposits: DepositLog[],
+    expected: ExpectedCredit
+): { deposit?: DepositLog; discrepancies: CreditDiscrepancy[] } {
+    const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+    const forCurrency = deposits.filter((d) => same(d.currency, expected.currency));
+    const deposit = forCurrency.find((d) => same(d.account, expected.account)) ?? forCurrency[0];
+    if (!deposit) {
+        return { discrepancies: [{ kind: "missing", detail: `no Deposit event for ${expected.currency}` }] };
+    }
+
+    const discrepancies: CreditDiscrepancy[] = [];
+    if (!same(deposit.account, expected.account)) {
+        discrepancies.push({ kind: "account", detail: `credited ${deposit.account}, expected ${expected.account}` });
+    }
+    const off = expected.match === "exact" ? deposit.amount !== expected.amount : deposit.amount < expected.amount;
+    if (off) {
+        const relation = expected.match === "exact" ? "requested" : "floor";
+        discrepancies.push({ kind: "amount", detail: `credited ${deposit.amount} wei, ${relation} ${expected.amount} wei` });
+    }
+    return { deposit, discrepancies };
+}
+
+export function recordCredit(file: string, record: CreditRecord): void {
+    const ledger = readJson<CreditLedger>(file, { chainId: record.chainId, credits: {} });
+    ledger.credits[`${record.txHash}:${record.currency.toLowerCase()}`] = record;
+    writeJsonAtomic(file, ledger);
+}
+
+/** The ledger record for `receipt`, reconciled against `expected`. */
+export function creditRecord(receipt: ethers.TransactionReceipt, expected: ExpectedCredit, network: Network): CreditRecord {
+    const { deposit, discrepancies } = reconcileCredit(depositsInReceipt(receipt, network.vault), expected);
+    return {
+        flow: expected.flow,
+        chainId: network.chainId,
+        vault: network.vault,
+        txHash: receipt.hash,
+        blockNumber: receipt.blockNumber,
+        currency: expected.currency,
+        requestedAccount: expected.account,
+        requested: expected.amount.toString(),
+        account: deposit?.account,
+        credited: deposit?.amount.toString(),
+        discrepancies,
+        recordedAt: new Date().toISOString(),
+    };
+}
+
+/**
+ * Reconcile `receipt` against `expected`, record the outcome in the ledger
+ * under `dataDir` and print it. Returns the record; discrepancies are left to
+ * the caller (see `requireCleanCredit`).
+ */
+export function settleCredit(
+    receipt: ethers.TransactionReceipt,
+    expected: ExpectedCredit,
+    ctx: { network: Network; dataDir: string; token: { decimals: number; symbol: string } }
+): CreditRecord {
+    const record = creditRecord(receipt, expected, ctx.network);
+    recordCredit(creditsFile(ctx.dataDir, ctx.network.chainId), record);
+
+    if (record.credited !== undefined) {
+        const amount = `${ethers.formatUnits(record.credited, ctx.token.decimals)} ${ctx.token.symbol}`;
+        const icon = record.discrepancies.length ? "⚠" : "✅";
+        console.log(`${icon} Credited ${amount} to ${record.account} in block ${receipt.blockNumber}`);
+    }
+    for (const d of record.discrepancies) console.warn(`  ⚠ ${d.kind} discrepancy: ${d.detail}`);
+    return record;
+}
+
+export function requireCleanCredit(...records: CreditRecord[]): void {
+    const bad = records.filter((r) => r.discrepancies.length > 0);
+    if (bad.length) throw new CreditDiscrepancyError(bad);
+}
@@ -0,0 +1,38 @@
+/**
+ * exit_codes.ts
+ *
+ * Process exit codes shared by every CLI subcommand, so cron jobs and wrapper
+ * scripts can tell "fix your flags" apart from "the vault rejected it".
+ */
+
+import { DecodedVaultError } from "./vault_errors";
+
+export const EXIT = {
+    /** Deposit (or dry-run simulation) succeeded. */
+    OK: 0,
+    /** Unexpected failure: RPC down, bug, unhandled exception. */
+    FAILURE: 1,
+    /** Bad subcommand or flag. */
+    USAGE: 2,
+    /** Missing / invalid env or config (keys, addresses, chain). */
+    CONFIG: 3,
+    /** A precondition failed before anything was sent (balance, allowance ...). */
+    PRECONDITION: 4,
+    /** The contract rejected the call (simulation revert or on-chain revert). */
+    REVERTED: 5,
+    /** Mined, but the Deposit event credited another account or amount than requested. */
+    DISCREPANCY: 6,
+} as const;
+
+export type ExitCode = (typeof EXIT)[keyof typeof EXIT];
+
+export class CliError extends Error {
+    constructor(
+        message: string,
+        readonly exitCode: ExitCode = EXIT.FAILURE,
+        readonly decoded?: DecodedVaultError
+    ) {
+        super(message);
+        this.name = "CliError";
+    }
+}
@@ -0,0 +1,147 @@
+/**
+ * allowances.ts
+ *
+ * `allowances audit`   every non-zero allowance our wallets hold on the audited
+ *                      tokens, with allowances to public forwarders (Multicall3)
+ *                      flagged critical
+ * `allowances revoke`  set allowances of one wallet back to zero: a given
+ *                      --spender (vault, multicall3 or an address), or by
+ *                      default every critical allowance it holds
+ */
+
+import { ethers } from "ethers";
+import { revokeAllowance } from "../allowances/approvals";
+import { AllowanceFinding, auditAllowances } from "../allowances/audit";
+import { knownSpenders, SpenderRisk } from "../allowances/spenders";
+import { Network } from "../constants";
+import { CliError, EXIT } from "../exit_codes";
+import { ExportSigner } from "../offline/export";
+import { TxManager } from "../tx/manager";
+import { APPROVE_GAS, checkChainId, checkGasBalance, runPreflight } from "./preflight";
+import { confirmOrAbort, exportedResult, FlowResult, readToken, Sender, TokenInfo } from "./shared";
+
+export interface AllowanceAuditOptions {
+    network: Network;
+    provider: ethers.Provider;
+    /** Address → label of every wallet to audit. */
+    owners: Record<string, string>;
+    tokens: string[];
+    fromBlock?: number;
+    chunkSize?: number;
+    json: boolean;
+}
+
+export interface AllowanceRevokeOptions {
+    network: Network;
+    wallet: Sender;
+    tokens: string[];
+    /** Revoke only this spender; otherwise every critical allowance of `wallet`. */
+    spender?: string;
+    dryRun: boolean;
+    yes: boolean;
+    json: boolean;
+    txs: TxManager;
+}
+
+const RISK_ICONS: Record<SpenderRisk, string> = { critical: "✗ CRITICAL", unknown: "! unknown", trusted: "✓ trusted" };
+
+export async function runAllowanceAudit(opts: AllowanceAuditOptions): Promise<FlowResult> {
+    const { network, provider } = opts;
+    const tokens: TokenInfo[] = [];
+    for (const address of opts.tokens) tokens.push(await readToken(address, provider));
+
+    const findings = await auditAllowances({
+        provider,
+        owners: opts.owners,
+        tokens,
+        spenders: knownSpenders(network, opts.owners),
+        fromBlock: opts.fromBlock,
+        chunkSize: opts.chunkSize,
+        log: opts.json ? undefined : (msg) => console.log(msg),
+    });
+    const critical = findings.filter((f) => f.risk === "critical");
+
+    if (opts.json) {
+        console.log(JSON.stringify({ chainId: network.chainId, findings }, null, 2));
+    } else {
+        console.log(`\nAllowances on ${network.name} (${tokens.map((t) => t.symbol).join(", ")}):`);
+        if (findings.length === 0) console.log("  (none)");
+        for (const f of findings) printFinding(f);
+        if (opts.fromBlock === undefined) {
+            console.log("  Only known spenders were checked; pass --from-block to scan Approval logs for others.");
+        }
+    }
+
+    if (critical.length) {
+        throw new CliError(
+            `${critical.length} critical allowance(s) to a public forwarder; revoke with allowances revoke --key-env <owner key>`,
+            EXIT.PRECONDITION
+        );
+    }
+    if (!opts.json) console.log("✓ No critical allowances");
+    return { dryRun: false };
+}
+
+function printFinding(f: AllowanceFinding): void {
+    console.log(
+        `  ${RISK_ICONS[f.risk].padEnd(10)} ${f.ownerLabel} ${f.owner} → ${f.spenderName} ${f.spender}: ${f.allowance} ${f.symbol}`
+    );
+}
+
+export async function runAllowanceRevoke(opts: AllowanceRevokeOptions): Promise<FlowResult> {
+    const { network, wallet } = opts;
+    const provider = wallet.provider!;
+    const tokens: TokenInfo[] = [];
+    for (const address of opts.tokens) tokens.push(await readToken(address, wallet));
+
+    const spenders = knownSpenders(network);
+    if (opts.spender && !spenders.some((s) => s.address.toLowerCase() === opts.spender!.toLowerCase())) {
+        spenders.push({ address: ethers.getAddress(opts.spender), name: "unknown", risk: "unknown" });
+    }
+    const targets = opts.spender ? [opts.spender] : spenders.filter((s) => s.risk === "critical").map((s) => s.address);
+    const findings = (await auditAllowances({ provider, owners: { [wallet.address]: "Wallet" }, tokens, spenders })).filter((f) =>
+        targets.some((t) => t.toLowerCase() === f.spender.toLowerCase())
+    );
+
+    if (opts.json) {
+        console.log(JSON.stringify({ owner: wallet.address, revoke: findings }, null, 2));
+    } else {
+        console.log(`Wallet: ${wallet.address}`);
+        for (const f of findings) printFinding(f);
+    }
+    if (findings.length === 0) {
+        console.log("✓ Nothing to revoke");
+        return { dryRun: opts.dryRun };
+    }
+
+    await runPreflight(
+        "revoke",
+        [
+            checkChainId(provider, network.chainId),
+            checkGasBalance(provider, {
+                account: wallet.address,
+                label: "Wallet",
+                symbol: network.nativeSymbol,
+                gasUnits: APPROVE_GAS * BigInt(findings.length),
+            }),
+        ],
+        { json: opts.json }
+    );
+    if (opts.dryRun) {
+        console.log(`[dry-run] ${findings.length} revoke(s) not sent.`);
+        return { dryRun: true };
+    }
+    // Exporting sends nothing, so there is nothing to confirm yet.
+    const exporting = wallet instanceof ExportSigner;
+    if (!exporting) await confirmOrAbort(`Revoke ${findings.length} allowance(s) from ${wallet.address}?`, opts.yes);
+
+    let last: ethers.TransactionReceipt | undefined;
+    for (const f of findings) {
+        const token = tokens.find((t) => t.address === f.token)!;
+        console.log(`\n[revoke] ${f.symbol} → ${f.spenderName} ${f.spender}`);
+        last = (await revokeAllowance(`${f.symbol}→${f.spenderName}`, token, wallet, f.spender, { txs: opts.txs })) ?? last;
+    }
+    if (exporting) return exportedResult(wallet);
+    console.log(`\n✅ ${findings.length} allowance(s) revoked`);
+    return { txHash: last?.hash, blockNumber: last?.blockNumber, dryRun: false };
+}
@@ -0,0 +1,89 @@
+/**
+ * deposit.ts
+ *
+ * vault.deposit(currency, amount, broker) from a single wallet.
+ * The vault pulls the tokens with transferFrom(msg.sender) and credits msg.sender.
+ * With currency NATIVE the deposit goes through depositNative() instead, since
+ * deposit() only handles ERC-20s.
+ */
+
+import { ethers } from "ethers";
+import { VAULT_ABI } from "../abis";
+import { ensureAllowance } from "../allowances/approvals";
+import { CommonOptions } from "../config";
+import { requireCleanCredit, settleCredit } from "../credits";
+import { ExportSigner } from "../offline/export";
+import { runDepositNative } from "./deposit_native";
+import {
+    APPROVE_GAS,
+    checkAllowance,
+    checkChainId,
+    checkGasBalance,
+    checkNotPaused,
+    checkSupported,
+    checkTokenBalance,
+    runPreflight,
+} from "./preflight";
+import { DEPOSIT_GAS, exportedResult, FlowResult, isNative, readToken, Sender, sendOrExport, simulate } from "./shared";
+
+export interface DepositOptions extends CommonOptions {
+    wallet: Sender;
+    /** Native amount (human) kept for gas on NATIVE deposits. */
+    gasReserve: string;
+}
+
+export async function runDeposit(opts: DepositOptions): Promise<FlowResult> {
+    const { wallet, network, currency, broker } = opts;
+    if (isNative(currency)) {
+        return runDepositNative(opts);
+    }
+
+    const vault = new ethers.Contract(network.vault, VAULT_ABI, wallet);
+    const token = await readToken(currency, wallet);
+    const amountWei = ethers.parseUnits(opts.amount, token.decimals);
+
+    console.log(`Wallet: ${wallet.address}`);
+    console.log(`Depositing ${opts.amount} ${token.symbol} (${amountWei} wei, ${token.decimals} decimals), broker ${broker}`);
+
+    // 1. Pre-flight
+    await runPreflight(
+        "deposit",
+        [
+            checkChainId(wallet.provider!, network.chainId),
+            checkNotPaused(vault),
+            checkSupported(vault, currency, token.symbol),
+            checkTokenBalance(token, wallet.address, amountWei, "Wallet"),
+            checkAllowance(token, wallet.address, network.vault, amountWei, "Wallet→Vault"),
+            checkGasBalance(wallet.provider!, {
+                account: wallet.address,
+                label: "Wallet",
+                symbol: network.nativeSymbol,
+                gasUnits: DEPOSIT_GAS + APPROVE_GAS,
+            }),
+        ],
+        { json: opts.json }
+    );
+
+    // 2. Allowance
+    await ensureAllowance("Wallet→Vault", token, wallet, network.vault, amountWei, { policies: opts.approvals, txs: opts.txs, dryRun: opts.dryRun });
+
+    // 3. Simulate
+    await simulate("deposit", () => vault.deposit.staticCall(currency, amountWei, broker), wallet);
+    if (opts.dryRun) {
+        console.log("[dry-run] deposit not sent.");
+        return { dryRun: true };
+    }
+
+    // 4. Send
+    const receipt = await sendOrExport("deposit", wallet, vault.deposit.populateTransaction(currency, amountWei, broker), opts.txs);
+    if (!receipt) return exportedResult(wallet as ExportSigner);
+
+    // 5. What was actually credited: deposit() emits the amount the vault received
+    const credit = settleCredit(
+        receipt,
+        { flow: "deposit", account: wallet.address, currency, amount: amountWei, match: "exact" },
+        { network, dataDir: opts.dataDir, token }
+    );
+    requireCleanCredit(credit);
+    return { txHash: receipt.hash, blockNumber: receipt.blockNumber, credited: credit.credited, dryRun: false };
+}
@@ -0,0 +1,157 @@
+/**
+ * deposit_asbnb.ts
+ *
+ * vault.depositAsBNB(currency, tokenAmount, minAsBnbAmount, broker): BNB (sent
+ * as msg.value, currency = NATIVE) or slisBNB (pulled with transferFrom,
+ * msg.value = 0) is minted to asBNB through ASBNB_MINTER and msg.sender is
+ * credited with the asBNB the vault actually received.
+ *
+ * The vault reverts AsBnbActivitiesOnGoing while YIELD_PROXY.activitiesOnGoing()
+ * is true, so pre-flight reads that first and stops with a plain message instead
+ * of a failed simulation. minAsBnbAmount = probed mint output − slippage.
+ */
+
+import { ethers } from "ethers";
+import { ASBNB_MINTER_ABI, VAULT_ABI, YIELD_PROXY_ABI } from "../abis";
+import { ensureAllowance } from "../allowances/approvals";
+import { CommonOptions } from "../config";
+import { requireCleanCredit, settleCredit } from "../credits";
+import { NATIVE_ADDRESS } from "../constants";
+import { CliError, EXIT } from "../exit_codes";
+import { ExportSigner } from "../offline/export";
+import {
+    APPROVE_GAS,
+    Check,
+    checkAllowance,
+    checkChainId,
+    checkGasBalance,
+    checkNotPaused,
+    checkSupported,
+    checkTokenBalance,
+    runPreflight,
+} from "./preflight";
+import { applySlippage, exportedResult, FlowResult, probeMintedAmount, readToken, Sender, sendOrExport, simulate } from "./shared";
+
+/** Pre-flight gas budget: depositAsBNB mints through ASBNB_MINTER on top of the deposit itself. */
+const DEPOSIT_ASBNB_GAS = 500000n;
+
+export type AsBnbSource = "native" | "slisbnb";
+
+export interface DepositAsBnbOptions extends CommonOptions {
+    wallet: Sender;
+    /** What the wallet pays with: BNB as msg.value, or slisBNB via approval. */
+    source: AsBnbSource;
+    /** Max accepted shortfall vs. the probed asBNB output, in basis points. */
+    slippageBps: number;
+    /** Native amount (human) that must stay in the wallet for gas. */
+    gasReserve: string;
+}
+
+export async function runDepositAsBnb(opts: DepositAsBnbOptions): Promise<FlowResult> {
+    const { wallet, network, broker } = opts;
+    const vault = new ethers.Contract(network.vault, VAULT_ABI, wallet);
+
+    // 1. Minter wiring — a zero ASBNB_MINTER means the vault has no asBNB support
+    const minterAddress: string = await vault.ASBNB_MINTER();
+    if (minterAddress === ethers.ZeroAddress) {
+        throw new CliError(`The vault on ${network.name} has no ASBNB_MINTER; depositAsBNB is not available`, EXIT.PRECONDITION);
+    }
+    const minter = new ethers.Contract(minterAddress, ASBNB_MINTER_ABI, wallet);
+    const [slisBnbAddress, asBnbAddress, yieldProxyAddress]: [string, string, string] = await Promise.all([
+        minter.token(),
+        minter.asBnb(),
+        minter.yieldProxy(),
+    ]);
+    const asBnb = await readToken(asBnbAddress, wallet);
+    const slisBnb = await readToken(slisBnbAddress, wallet);
+
+    const native = opts.source === "native";
+    const currency = native ? NATIVE_ADDRESS : slisBnbAddress;
+    const tokenAmount = native ? ethers.parseEther(opts.amount) : ethers.parseUnits(opts.amount, slisBnb.decimals);
+    const value = native ? tokenAmount : 0n;
+    const paidWith = native ? network.nativeSymbol : slisBnb.symbol;
+
+    console.log(`Wallet: ${wallet.address}`);
+    console.log(`Converting ${opts.amount} ${paidWith} → ${asBnb.symbol} and depositing, broker ${broker}`);
+
+    // 2. Pre-flight: asBNB listed, yield proxy idle, funds for value/tokens + gas
+    const yieldProxy = new ethers.Contract(yieldProxyAddress, YIELD_PROXY_ABI, wallet);
+    const yieldProxyIdle: Check = async () =>
+        (await yieldProxy.activitiesOnGoing())
+            ? {
+                  name: "yield proxy",
+                  status: "fail",
+                  detail: `asBNB deposits are blocked: YIELD_PROXY (${yieldProxyAddress}) reports activitiesOnGoing() = true; retry once it has finished`,
+              }
+            : { name: "yield proxy", status: "pass", detail: "idle (activitiesOnGoing = false)" };
+    await runPreflight(
+        "depositAsBNB",
+        [
+            checkChainId(wallet.provider!, network.chainId),
+            checkNotPaused(vault),
+            checkSupported(vault, asBnbAddress, asBnb.symbol),
+            yieldProxyIdle,
+            ...(native
+                ? []
+                : [
+                      checkTokenBalance(slisBnb, wallet.address, tokenAmount, "Wallet"),
+                      checkAllowance(slisBnb, wallet.address, network.vault, tokenAmount, "Wallet→Vault"),
+                  ]),
+            checkGasBalance(wallet.provider!, {
+                account: wallet.address,
+                label: "Wallet",
+                symbol: network.nativeSymbol,
+                gasUnits: native ? DEPOSIT_ASBNB_GAS : DEPOSIT_ASBNB_GAS + APPROVE_GAS,
+                value,
+                reserve: native ? ethers.parseEther(opts.gasReserve) : undefined,
+            }),
+        ],
+        { json: opts.json }
+    );
+
+    // 3. slisBNB goes in through transferFrom, so the vault needs an allowance
+    if (!native) {
+        await ensureAllowance("Wallet→Vault", slisBnb, wallet, network.vault, tokenAmount, {
+            policies: opts.approvals,
+            txs: opts.txs,
+            dryRun: opts.dryRun,
+        });
+    }
+
+    // 4. Expected asBNB and the slippage floor
+    const deposit = (min: bigint) => vault.depositAsBNB.staticCall(currency, tokenAmount, min, broker, { value });
+    const expected = await probeMintedAmount(deposit);
+    if (expected === undefined) {
+        // The probe reverted for another reason; surface it through the normal simulation.
+        await simulate("depositAsBNB", () => deposit(0n), wallet);
+        throw new CliError("Could not determine the expected asBNB output; refusing to send without a slippage floor", EXIT.FAILURE);
+    }
+    const minAsBnb = applySlippage(expected, opts.slippageBps);
+    console.log(
+        `Expected ${ethers.formatUnits(expected, asBnb.decimals)} ${asBnb.symbol}, ` +
+            `min ${ethers.formatUnits(minAsBnb, asBnb.decimals)} at ${opts.slippageBps / 100}% slippage`
+    );
+
+    // 5. Simulate with the real floor
+    await simulate("depositAsBNB", () => deposit(minAsBnb), wallet);
+    if (opts.dryRun) {
+        console.log("[dry-run] depositAsBNB not sent.");
+        return { dryRun: true };
+    }
+
+    // 6. Send and read the credited amount back from the Deposit event
+    const receipt = await sendOrExport(
+        "depositAsBNB",
+        wallet,
+        vault.depositAsBNB.populateTransaction(currency, tokenAmount, minAsBnb, broker, { value }),
+        opts.txs
+    );
+    if (!receipt) return exportedResult(wallet as ExportSigner);
+    const credit = settleCredit(
+        receipt,
+        { flow: "depositAsBNB", account: wallet.address, currency: asBnbAddress, amount: minAsBnb, match: "atLeast" },
+        { network, dataDir: opts.dataDir, token: asBnb }
+    );
+    requireCleanCredit(credit);
+    return { txHash: receipt.hash, blockNumber: receipt.blockNumber, credited: credit.credited, dryRun: false };
+}
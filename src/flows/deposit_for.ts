@@ -0,0 +1,109 @@
+/**
+ * deposit_for.ts
+ *
+ * vault.depositFor(currency, forAddress, amount, broker): the sending wallet
+ * pays, `beneficiary` is credited. The sender needs DEPOSIT_ROLE on the vault.
+ *
+ * ERC-20: msg.value must be 0 (else ValueNotZero); the vault pulls `amount`.
+ * NATIVE: msg.value must equal `amount` exactly (else AmountIllegal).
+ */
+
+import { ethers } from "ethers";
+import { VAULT_ABI } from "../abis";
+import { ensureAllowance } from "../allowances/approvals";
+import { CommonOptions } from "../config";
+import { requireCleanCredit, settleCredit } from "../credits";
+import { NATIVE_ADDRESS } from "../constants";
+import { ExportSigner } from "../offline/export";
+import {
+    APPROVE_GAS,
+    checkAllowance,
+    checkChainId,
+    checkGasBalance,
+    checkNotPaused,
+    checkRole,
+    checkSupported,
+    checkTokenBalance,
+    runPreflight,
+} from "./preflight";
+import { DEPOSIT_GAS, exportedResult, FlowResult, isNative, readToken, Sender, sendOrExport, simulate, TokenInfo } from "./shared";
+
+export interface DepositForOptions extends CommonOptions {
+    wallet: Sender;
+    beneficiary: string;
+    /** Native amount (human) kept for gas on NATIVE deposits. */
+    gasReserve: string;
+}
+
+export async function runDepositFor(opts: DepositForOptions): Promise<FlowResult> {
+    const { wallet, network, broker, beneficiary } = opts;
+    const vault = new ethers.Contract(network.vault, VAULT_ABI, wallet);
+    const native = isNative(opts.currency);
+    const currency = native ? NATIVE_ADDRESS : opts.currency;
+
+    let amountWei: bigint;
+    let value = 0n;
+    let token: TokenInfo | undefined;
+    console.log(`Wallet: ${wallet.address}`);
+
+    if (native) {
+        amountWei = ethers.parseEther(opts.amount);
+        // Same variable for both: the vault reverts AmountIllegal if they ever differ.
+        value = amountWei;
+        console.log(`Target: Deposit ${opts.amount} ${network.nativeSymbol} (NATIVE) for ${beneficiary}, broker ${broker}`);
+    } else {
+        token = await readToken(currency, wallet);
+        amountWei = ethers.parseUnits(opts.amount, token.decimals);
+        console.log(`Target: Deposit ${opts.amount} ${token.symbol} for ${beneficiary}, broker ${broker}`);
+    }
+
+    await runPreflight(
+        "depositFor",
+        [
+            checkChainId(wallet.provider!, network.chainId),
+            checkNotPaused(vault),
+            checkSupported(vault, currency, token ? token.symbol : `NATIVE (${network.nativeSymbol})`),
+            checkRole(vault, "DEPOSIT_ROLE", wallet.address, "Sender"),
+            ...(token
+                ? [
+                      checkTokenBalance(token, wallet.address, amountWei, "Wallet"),
+                      checkAllowance(token, wallet.address, network.vault, amountWei, "Wallet→Vault"),
+                  ]
+                : []),
+            checkGasBalance(wallet.provider!, {
+                account: wallet.address,
+                label: "Wallet",
+                symbol: network.nativeSymbol,
+                gasUnits: token ? DEPOSIT_GAS + APPROVE_GAS : DEPOSIT_GAS,
+                value,
+                reserve: native ? ethers.parseEther(opts.gasReserve) : undefined,
+            }),
+        ],
+        { json: opts.json }
+    );
+
+    if (token) {
+        await ensureAllowance("Wallet→Vault", token, wallet, network.vault, amountWei, { policies: opts.approvals, txs: opts.txs, dryRun: opts.dryRun });
+    }
+
+    await simulate("depositFor", () => vault.depositFor.staticCall(currency, beneficiary, amountWei, broker, { value }), wallet);
+    if (opts.dryRun) {
+        console.log("[dry-run] depositFor not sent.");
+        return { dryRun: true };
+    }
+
+    const receipt = await sendOrExport(
+        "depositFor",
+        wallet,
+        vault.depositFor.populateTransaction(currency, beneficiary, amountWei, broker, { value }),
+        opts.txs
+    );
+    if (!receipt) return exportedResult(wallet as ExportSigner);
+    const credit = settleCredit(
+        receipt,
+        { flow: "depositFor", account: beneficiary, currency, amount: amountWei, match: "exact" },
+        { network, dataDir: opts.dataDir, token: token ?? { decimals: 18, symbol: network.nativeSymbol } }
+    );
+    requireCleanCredit(credit);
+    return { txHash: receipt.hash, blockNumber: receipt.blockNumber, credited: credit.credited, dryRun: false };
+}
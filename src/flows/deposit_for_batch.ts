@@ -0,0 +1,387 @@
+/**
+ * deposit_for_batch.ts
+ *
+ * vault.depositFor() for many beneficiaries from one wallet with DEPOSIT_ROLE.
+ *
+ *   1. reconcile  look up every "submitted" journal entry from an earlier run
+ *   2. plan       rows without a confirmed entry; totals per currency
+ *   3. pre-flight role, currencies, balances vs totals, gas for all txs
+ *   4. approve    one approval per token covering the whole batch
+ *   5. send       sign with consecutive nonces, journal, then broadcast
+ *   6. confirm    wait for every receipt and journal the outcome
+ *
+ * Rerunning with the same file and journal only sends rows that are not
+ * confirmed yet, so a crash halfway through never pays a beneficiary twice.
+ * Rows are matched to journal entries by what they pay (see batch/rows.ts);
+ * an entry no row matches stops the run unless `allowUnmatched` is set, since
+ * it may be an edited row whose new version would be paid again.
+ */
+
+import { ethers } from "ethers";
+import { VAULT_ABI } from "../abis";
+import { ApprovalPolicies, ensureAllowance } from "../allowances/approvals";
+import { BatchJournal, JournalEntry, JournalStatus, loadJournal, recordRow, saveJournal } from "../batch/journal";
+import { BatchRow } from "../batch/rows";
+import { Network } from "../constants";
+import { creditRecord, creditsFile, recordCredit } from "../credits";
+import { CliError, EXIT } from "../exit_codes";
+import { withGas } from "../gas/strategy";
+import { TxManager } from "../tx/manager";
+import { decodeVaultError, formatVaultError } from "../vault_errors";
+import { findDeposits } from "../vault_events";
+import {
+    APPROVE_GAS,
+    Check,
+    checkAllowance,
+    checkChainId,
+    checkGasBalance,
+    checkNotPaused,
+    checkRole,
+    checkSupported,
+    checkTokenBalance,
+    runPreflight,
+} from "./preflight";
+import { DEPOSIT_GAS, FlowResult, isNative, readToken, Sender, simulate, TokenInfo } from "./shared";
+
+export interface BatchDepositForOptions {
+    network: Network;
+    wallet: Sender;
+    rows: BatchRow[];
+    /** Batch file the rows came from; recorded in the journal. */
+    source: string;
+    journalFile: string;
+    /** Native amount (human) kept for gas when the batch contains NATIVE rows. */
+    gasReserve: string;
+    /** Per-tx wait for a receipt before giving up (the journal keeps the hash). */
+    timeoutMs: number;
+    dryRun: boolean;
+    json: boolean;
+    approvals: ApprovalPolicies;
+    txs: TxManager;
+    /** Where the credits ledger lives. */
+    dataDir: string;
+    /** Go on when journal entries match no row (rows removed from the file on purpose). */
+    allowUnmatched: boolean;
+}
+
+/** Blocks searched for a sped-up row's replacement when its entry predates `sentBlock`. */
+const REPLACEMENT_LOOKBACK = 50_000;
+/** Blocks per getLogs call while searching. */
+const LOG_RANGE = 2_000;
+
+interface PlannedRow {
+    row: BatchRow;
+    amountWei: bigint;
+    value: bigint;
+}
+
+export async function runBatchDepositFor(opts: BatchDepositForOptions): Promise<FlowResult> {
+    const { wallet, network } = opts;
+    const provider = wallet.provider!;
+    const vault = new ethers.Contract(network.vault, VAULT_ABI, wallet);
+    const journal = loadJournal(opts.journalFile, {
+        chainId: network.chainId,
+        vault: network.vault,
+        sender: wallet.address,
+        source: opts.source,
+    });
+    const save = () => saveJournal(opts.journalFile, journal);
+
+    console.log(`Wallet: ${wallet.address}`);
+    console.log(`Batch : ${opts.source} (${opts.rows.length} rows), journal ${opts.journalFile}`);
+
+    // 1. Reconcile what an earlier run left behind
+    const settle = (entry: JournalEntry, receipt: ethers.TransactionReceipt) => settleEntry(entry, receipt, network, opts.dataDir);
+    await reconcile(provider, wallet.address, network.vault, journal, opts.rows, settle, opts.dryRun);
+    save();
+
+    const rowIds = new Set(opts.rows.map((r) => r.id));
+    const unmatched = Object.values(journal.entries).filter((e) => !rowIds.has(e.rowId));
+    if (unmatched.length) {
+        const list = unmatched.map((e) => `  ${e.rowId}: ${e.amount} → ${e.beneficiary} (${e.currency}), ${e.status}`).join("\n");
+        if (!opts.allowUnmatched) {
+            const entries = unmatched.length === 1 ? "1 journal entry matches" : `${unmatched.length} journal entries match`;
+            throw new CliError(
+                `${entries} no row in ${opts.source}:\n${list}\n` +
+                    "If a row was edited, its new version would be paid as well. " +
+                    "Pass --allow-unmatched if the rows were removed on purpose.",
+                EXIT.PRECONDITION
+            );
+        }
+        console.warn(`⚠ journal entries matching no row in ${opts.source} (--allow-unmatched):\n${list}`);
+    }
+
+    // 2. Plan
+    const tokens = new Map<string, TokenInfo>();
+    const todo: PlannedRow[] = [];
+    let inFlight = 0;
+    let blocked = 0;
+    for (const row of opts.rows) {
+        const entry = journal.entries[row.id];
+        if (entry?.status === "confirmed") continue;
+        if (entry?.status === "submitted") {
+            inFlight++;
+            continue;
+        }
+        if (entry?.status === "unknown") {
+            console.warn(`⚠ row ${row.index} (${row.beneficiary}) is UNKNOWN: nonce ${entry.nonce} was used by another tx. Check it by hand.`);
+            blocked++;
+            continue;
+        }
+        let amountWei: bigint;
+        if (isNative(row.currency)) {
+            amountWei = ethers.parseEther(row.amount);
+        } else {
+            if (!tokens.has(row.currency)) tokens.set(row.currency, await readToken(row.currency, wallet));
+            amountWei = ethers.parseUnits(row.amount, tokens.get(row.currency)!.decimals);
+        }
+        todo.push({ row, amountWei, value: isNative(row.currency) ? amountWei : 0n });
+    }
+    const done = opts.rows.length - todo.length - inFlight - blocked;
+    console.log(`Rows: ${done} confirmed, ${inFlight} in flight, ${blocked} unknown, ${todo.length} to send`);
+
+    const totals = new Map<string, bigint>();
+    for (const p of todo) totals.set(p.row.currency, (totals.get(p.row.currency) ?? 0n) + p.amountWei);
+    const nativeTotal = todo.reduce((sum, p) => sum + p.value, 0n);
+
+    // 3. Pre-flight against the batch totals
+    if (todo.length > 0) {
+        const checks: Check[] = [
+            checkChainId(provider, network.chainId),
+            checkNotPaused(vault),
+            checkRole(vault, "DEPOSIT_ROLE", wallet.address, "Sender"),
+        ];
+        for (const [currency, total] of totals) {
+            const token = tokens.get(currency);
+            checks.push(checkSupported(vault, currency, token ? token.symbol : `NATIVE (${network.nativeSymbol})`));
+            if (token) {
+                checks.push(checkTokenBalance(token, wallet.address, total, `Wallet ${token.symbol}`));
+                checks.push(checkAllowance(token, wallet.address, network.vault, total, `Wallet→Vault ${token.symbol}`));
+            }
+        }
+        checks.push(
+            checkGasBalance(provider, {
+                account: wallet.address,
+                label: "Wallet",
+                symbol: network.nativeSymbol,
+                gasUnits: DEPOSIT_GAS * BigInt(todo.length) + APPROVE_GAS * BigInt(tokens.size),
+                value: nativeTotal,
+                reserve: nativeTotal > 0n ? ethers.parseEther(opts.gasReserve) : undefined,
+            })
+        );
+        await runPreflight("depositFor batch", checks, { json: opts.json });
+
+        // 4. One approval per token for the whole batch
+        for (const [currency, token] of tokens) {
+            await ensureAllowance(`Wallet→Vault ${token.symbol}`, token, wallet, network.vault, totals.get(currency)!, {
+                policies: opts.approvals,
+                txs: opts.txs,
+                dryRun: opts.dryRun,
+            });
+        }
+
+        // Every row individually, before the first one goes out
+        if (!opts.dryRun) {
+            for (const p of todo) {
+                await simulate(`row ${p.row.index} depositFor`, () =>
+                    vault.depositFor.staticCall(p.row.currency, p.row.beneficiary, p.amountWei, p.row.broker, { value: p.value })
+                );
+            }
+        }
+    }
+
+    if (opts.dryRun) {
+        for (const p of todo) {
+            console.log(`  [dry-run] row ${p.row.index}: ${p.row.amount} → ${p.row.beneficiary} (${p.row.currency}), broker ${p.row.broker}`);
+        }
+        console.log("[dry-run] batch not sent.");
+        return { dryRun: true };
+    }
+
+    // 5. Send: journal first, then broadcast; nonces come from the tx manager, shared with any other job on this wallet
+    const sentBlock = todo.length ? await provider.getBlockNumber() : 0;
+    for (const p of todo) {
+        const data = vault.interface.encodeFunctionData("depositFor", [p.row.currency, p.row.beneficiary, p.amountWei, p.row.broker]);
+        const priced = await withGas(`row ${p.row.index} depositFor`, wallet, { to: network.vault, data, value: p.value }, opts.txs.gas);
+        await opts.txs.withNonce(wallet, async (nonce) => {
+            const tx = await wallet.populateTransaction({ ...priced, nonce, chainId: network.chainId });
+            const rawTx = await wallet.signTransaction(tx);
+            const txHash = ethers.Transaction.from(rawTx).hash!;
+            recordRow(journal, p.row, { status: "submitted", txHash, nonce, rawTx, sentBlock, amountWei: p.amountWei.toString() });
+            save();
+            try {
+                await provider.broadcastTransaction(rawTx);
+            } catch (err) {
+                // Leave the entry as "submitted": the next run looks the hash up and
+                // rebroadcasts the same bytes if the node never accepted them.
+                const decoded = decodeVaultError(err);
+                throw new CliError(
+                    `row ${p.row.index}: broadcast failed (nonce ${nonce}, ${txHash}): ${formatVaultError(decoded)}. Rerun to resume.`,
+                    EXIT.FAILURE,
+                    decoded
+                );
+            }
+            console.log(`  row ${p.row.index} → ${p.row.beneficiary}: ${txHash} (nonce ${nonce})`);
+        });
+    }
+
+    // 6. Confirm everything in flight, this run's and earlier runs'
+    console.log("\n--- Waiting for receipts ---");
+    let last: JournalEntry | undefined;
+    for (const row of opts.rows) {
+        const entry = journal.entries[row.id];
+        if (entry?.status !== "submitted") continue;
+        const receipt = await provider.waitForTransaction(entry.txHash, 1, opts.timeoutMs).catch(() => null);
+        if (!receipt) {
+            console.warn(`  ⚠ row ${row.index}: no receipt for ${entry.txHash} after ${Math.round(opts.timeoutMs / 1000)}s; still submitted`);
+            continue;
+        }
+        const status = settle(entry, receipt);
+        save();
+        console.log(`  ${status === "confirmed" ? "✓" : "✗"} row ${row.index}: ${status} in block ${receipt.blockNumber}`);
+        for (const d of entry.discrepancies ?? []) console.warn(`    ⚠ ${d.kind} discrepancy: ${d.detail}`);
+        if (status === "confirmed") last = entry;
+    }
+
+    const counts = countStatuses(journal, opts.rows);
+    const discrepant = opts.rows.map((r) => journal.entries[r.id]).filter((e) => e?.discrepancies?.length);
+    console.log(
+        `\nBatch: ${counts.confirmed} confirmed, ${counts.submitted} pending, ${counts.failed} failed, ${counts.unknown} unknown` +
+            (discrepant.length ? `, ${discrepant.length} credited differently than requested` : "")
+    );
+    if (counts.failed || counts.unknown) {
+        throw new CliError(
+            `batch incomplete: ${counts.failed} failed, ${counts.unknown} unknown — see ${opts.journalFile}; rerun to retry failed rows`,
+            counts.failed ? EXIT.REVERTED : EXIT.FAILURE
+        );
+    }
+    if (counts.submitted) {
+        throw new CliError(`batch incomplete: ${counts.submitted} tx(s) still pending; rerun to keep waiting`, EXIT.FAILURE);
+    }
+    if (discrepant.length) {
+        throw new CliError(
+            `batch confirmed, but ${discrepant.length} row(s) were credited differently than requested — see ${opts.journalFile}`,
+            EXIT.DISCREPANCY
+        );
+    }
+    console.log(`✅ All ${opts.rows.length} rows confirmed`);
+    return { txHash: last?.txHash, blockNumber: last?.blockNumber, dryRun: false };
+}
+
+/** Resolve "submitted" entries left by an earlier run. */
+async function reconcile(
+    provider: ethers.Provider,
+    sender: string,
+    vault: string,
+    journal: BatchJournal,
+    rows: BatchRow[],
+    settle: (entry: JournalEntry, receipt: ethers.TransactionReceipt) => JournalStatus,
+    dryRun: boolean
+): Promise<void> {
+    const submitted = rows.map((r) => journal.entries[r.id]).filter((e): e is JournalEntry => e?.status === "submitted");
+    if (submitted.length === 0) return;
+    console.log(`Reconciling ${submitted.length} submitted row(s) from an earlier run...`);
+    const minedNonce = await provider.getTransactionCount(sender, "latest");
+
+    for (const entry of submitted) {
+        const receipt = await provider.getTransactionReceipt(entry.txHash);
+        if (receipt) {
+            settle(entry, receipt);
+            continue;
+        }
+        if (await provider.getTransaction(entry.txHash)) continue; // still pending in the mempool
+        if (minedNonce > entry.nonce) {
+            const replacement = await findReplacement(provider, sender, vault, entry);
+            if (replacement) {
+                console.log(`  row ${entry.rowId} was replaced at nonce ${entry.nonce}: ${entry.txHash} → ${replacement.hash}`);
+                entry.txHash = replacement.hash;
+                settle(entry, replacement);
+                continue;
+            }
+            entry.status = "unknown";
+            entry.error = `nonce ${entry.nonce} was mined by a different tx`;
+            entry.updatedAt = new Date().toISOString();
+            continue;
+        }
+        // The node never saw it (crash before broadcast, or dropped): same bytes, same nonce.
+        if (dryRun) {
+            console.log(`  [dry-run] would rebroadcast ${entry.txHash} (nonce ${entry.nonce})`);
+            continue;
+        }
+        console.log(`  rebroadcasting ${entry.txHash} (nonce ${entry.nonce})`);
+        await provider.broadcastTransaction(entry.rawTx);
+    }
+}
+
+/**
+ * The receipt of the tx mined at `entry`'s nonce in its place (a `tx speed-up`
+ * of it): a Deposit for the row's beneficiary, currency and amount whose tx
+ * comes from `sender` at that nonce with the same calldata and value.
+ */
+async function findReplacement(
+    provider: ethers.Provider,
+    sender: string,
+    vault: string,
+    entry: JournalEntry
+): Promise<ethers.TransactionReceipt | null> {
+    if (entry.amountWei === undefined) return null;
+    const signed = ethers.Transaction.from(entry.rawTx);
+    const head = await provider.getBlockNumber();
+    const match = {
+        vault,
+        account: entry.beneficiary,
+        currency: entry.currency,
+        amount: BigInt(entry.amountWei),
+        broker: entry.broker,
+    };
+    for (let from = entry.sentBlock ?? Math.max(0, head - REPLACEMENT_LOOKBACK); from <= head; from += LOG_RANGE) {
+        for (const deposit of await findDeposits(provider, { ...match, fromBlock: from }, Math.min(from + LOG_RANGE - 1, head))) {
+            const tx = await provider.getTransaction(deposit.txHash);
+            if (
+                tx &&
+                tx.from.toLowerCase() === sender.toLowerCase() &&
+                tx.nonce === entry.nonce &&
+                tx.to?.toLowerCase() === vault.toLowerCase() &&
+                tx.data === signed.data &&
+                tx.value === signed.value
+            ) {
+                return provider.getTransactionReceipt(deposit.txHash);
+            }
+        }
+    }
+    return null;
+}
+
+/** Journal a mined row; a successful one is reconciled against its Deposit event and recorded in the credits ledger. */
+function settleEntry(entry: JournalEntry, receipt: ethers.TransactionReceipt, network: Network, dataDir: string): JournalStatus {
+    entry.status = receipt.status === 1 ? "confirmed" : "failed";
+    entry.blockNumber = receipt.blockNumber;
+    entry.error = receipt.status === 1 ? undefined : "reverted on-chain";
+    entry.updatedAt = new Date().toISOString();
+    if (entry.status === "confirmed" && entry.amountWei !== undefined) {
+        const record = creditRecord(
+            receipt,
+            {
+                flow: "depositFor batch",
+                account: entry.beneficiary,
+                currency: entry.currency,
+                amount: BigInt(entry.amountWei),
+                match: "exact",
+            },
+            network
+        );
+        recordCredit(creditsFile(dataDir, network.chainId), record);
+        entry.credited = record.credited;
+        entry.discrepancies = record.discrepancies.length ? record.discrepancies : undefined;
+    }
+    return entry.status;
+}
+
+function countStatuses(journal: BatchJournal, rows: BatchRow[]): Record<JournalStatus, number> {
+    const counts = { submitted: 0, confirmed: 0, failed: 0, unknown: 0 };
+    for (const row of rows) {
+        const entry = journal.entries[row.id];
+        if (entry) counts[entry.status]++;
+    }
+    return counts;
+}
@@ -0,0 +1,64 @@
+/**
+ * deposit_native.ts
+ *
+ * vault.depositNative(broker) payable: the chain's native coin (BNB on BSC) is
+ * sent as msg.value and credited to msg.sender under the NATIVE sentinel.
+ */
+
+import { ethers } from "ethers";
+import { VAULT_ABI } from "../abis";
+import { CommonOptions } from "../config";
+import { requireCleanCredit, settleCredit } from "../credits";
+import { NATIVE_ADDRESS } from "../constants";
+import { ExportSigner } from "../offline/export";
+import { checkChainId, checkGasBalance, checkNotPaused, checkSupported, runPreflight } from "./preflight";
+import { DEPOSIT_GAS, exportedResult, FlowResult, Sender, sendOrExport, simulate } from "./shared";
+
+export interface DepositNativeOptions extends CommonOptions {
+    wallet: Sender;
+    /** Native amount (human) that must stay in the wallet for gas. */
+    gasReserve: string;
+}
+
+export async function runDepositNative(opts: DepositNativeOptions): Promise<FlowResult> {
+    const { wallet, network, broker } = opts;
+    const vault = new ethers.Contract(network.vault, VAULT_ABI, wallet);
+    const value = ethers.parseEther(opts.amount);
+
+    console.log(`Wallet: ${wallet.address}`);
+    console.log(`Depositing ${opts.amount} ${network.nativeSymbol} (${value} wei), broker ${broker}`);
+
+    await runPreflight(
+        "depositNative",
+        [
+            checkChainId(wallet.provider!, network.chainId),
+            checkNotPaused(vault),
+            checkSupported(vault, NATIVE_ADDRESS, `NATIVE (${network.nativeSymbol})`),
+            checkGasBalance(wallet.provider!, {
+                account: wallet.address,
+                label: "Wallet",
+                symbol: network.nativeSymbol,
+                gasUnits: DEPOSIT_GAS,
+                value,
+                reserve: ethers.parseEther(opts.gasReserve),
+            }),
+        ],
+        { json: opts.json }
+    );
+
+    await simulate("depositNative", () => vault.depositNative.staticCall(broker, { value }), wallet);
+    if (opts.dryRun) {
+        console.log("[dry-run] depositNative not sent.");
+        return { dryRun: true };
+    }
+
+    const receipt = await sendOrExport("depositNative", wallet, vault.depositNative.populateTransaction(broker, { value }), opts.txs);
+    if (!receipt) return exportedResult(wallet as ExportSigner);
+    const credit = settleCredit(
+        receipt,
+        { flow: "depositNative", account: wallet.address, currency: NATIVE_ADDRESS, amount: value, match: "exact" },
+        { network, dataDir: opts.dataDir, token: { decimals: 18, symbol: network.nativeSymbol } }
+    );
+    requireCleanCredit(credit);
+    return { txHash: receipt.hash, blockNumber: receipt.blockNumber, credited: credit.credited, dryRun: false };
+}
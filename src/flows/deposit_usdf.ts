@@ -0,0 +1,115 @@
+/**
+ * deposit_usdf.ts
+ *
+ * vault.depositUSDF(usdtAmount, minUsdfAmount, broker): the vault pulls USDT,
+ * mints USDF through USDF_EARN and credits msg.sender with the USDF it actually
+ * received. It reverts LowerThanExpected(min, actual) when that is below
+ * minUsdfAmount.
+ *
+ * Expected output comes from probeMintedAmount; if that probe fails for another
+ * reason we fall back to a 1:1 USDT→USDF peg. minUsdfAmount = expected − slippage.
+ */
+
+import { ethers } from "ethers";
+import { USDF_EARN_ABI, VAULT_ABI } from "../abis";
+import { ensureAllowance } from "../allowances/approvals";
+import { CommonOptions } from "../config";
+import { requireCleanCredit, settleCredit } from "../credits";
+import { CliError, EXIT } from "../exit_codes";
+import { ExportSigner } from "../offline/export";
+import {
+    APPROVE_GAS,
+    checkAllowance,
+    checkChainId,
+    checkGasBalance,
+    checkNotPaused,
+    checkSupported,
+    checkTokenBalance,
+    runPreflight,
+} from "./preflight";
+import {
+    applySlippage,
+    exportedResult,
+    FlowResult,
+    probeMintedAmount,
+    readToken,
+    scaleDecimals,
+    Sender,
+    sendOrExport,
+    simulate,
+} from "./shared";
+
+/** Pre-flight gas budget: depositUSDF also mints through USDF_EARN, so it needs more than a plain deposit. */
+const DEPOSIT_USDF_GAS = 400000n;
+
+export interface DepositUsdfOptions extends CommonOptions {
+    wallet: Sender;
+    /** Max accepted shortfall vs. the expected USDF output, in basis points. */
+    slippageBps: number;
+}
+
+export async function runDepositUsdf(opts: DepositUsdfOptions): Promise<FlowResult> {
+    const { wallet, network, broker } = opts;
+    const vault = new ethers.Contract(network.vault, VAULT_ABI, wallet);
+
+    const earnAddress: string = await vault.USDF_EARN();
+    if (earnAddress === ethers.ZeroAddress) {
+        throw new CliError(`The vault on ${network.name} has no USDF_EARN; depositUSDF is not available`, EXIT.PRECONDITION);
+    }
+    const earn = new ethers.Contract(earnAddress, USDF_EARN_ABI, wallet);
+    const [usdtAddress, usdfAddress]: [string, string] = await Promise.all([earn.USDT(), earn.USDF()]);
+    const usdt = await readToken(usdtAddress, wallet);
+    const usdf = await readToken(usdfAddress, wallet);
+    const usdtAmount = ethers.parseUnits(opts.amount, usdt.decimals);
+
+    console.log(`Wallet: ${wallet.address}`);
+    console.log(`Converting ${opts.amount} ${usdt.symbol} → ${usdf.symbol} and depositing, broker ${broker}`);
+
+    // 1. Pre-flight, then approve the vault for the USDT
+    await runPreflight(
+        "depositUSDF",
+        [
+            checkChainId(wallet.provider!, network.chainId),
+            checkNotPaused(vault),
+            checkSupported(vault, usdfAddress, usdf.symbol),
+            checkTokenBalance(usdt, wallet.address, usdtAmount, "Wallet"),
+            checkAllowance(usdt, wallet.address, network.vault, usdtAmount, "Wallet→Vault"),
+            checkGasBalance(wallet.provider!, {
+                account: wallet.address,
+                label: "Wallet",
+                symbol: network.nativeSymbol,
+                gasUnits: DEPOSIT_USDF_GAS + APPROVE_GAS,
+            }),
+        ],
+        { json: opts.json }
+    );
+    await ensureAllowance("Wallet→Vault", usdt, wallet, network.vault, usdtAmount, { policies: opts.approvals, txs: opts.txs, dryRun: opts.dryRun });
+
+    // 2. Expected output and the slippage floor
+    const probed = await probeMintedAmount((min) => vault.depositUSDF.staticCall(usdtAmount, min, broker));
+    const expected = probed ?? scaleDecimals(usdtAmount, usdt.decimals, usdf.decimals);
+    const minUsdf = applySlippage(expected, opts.slippageBps);
+    console.log(
+        `Expected ${ethers.formatUnits(expected, usdf.decimals)} ${usdf.symbol}` +
+            `${probed === undefined ? " (1:1 estimate)" : " (simulated)"}, ` +
+            `min ${ethers.formatUnits(minUsdf, usdf.decimals)} at ${opts.slippageBps / 100}% slippage`
+    );
+
+    // 3. Simulate with the real floor
+    await simulate("depositUSDF", () => vault.depositUSDF.staticCall(usdtAmount, minUsdf, broker), wallet);
+    if (opts.dryRun) {
+        console.log("[dry-run] depositUSDF not sent.");
+        return { dryRun: true };
+    }
+
+    // 4. Send and read the credited amount back from the Deposit event
+    const receipt = await sendOrExport("depositUSDF", wallet, vault.depositUSDF.populateTransaction(usdtAmount, minUsdf, broker), opts.txs);
+    if (!receipt) return exportedResult(wallet as ExportSigner);
+    const credit = settleCredit(
+        receipt,
+        { flow: "depositUSDF", account: wallet.address, currency: usdfAddress, amount: minUsdf, match: "atLeast" },
+        { network, dataDir: opts.dataDir, token: usdf }
+    );
+    requireCleanCredit(credit);
+    return { txHash: receipt.hash, blockNumber: receipt.blockNumber, credited: credit.credited, dryRun: false };
+}
@@ -0,0 +1,70 @@
+/**
+ * gas_tank.ts
+ *
+ * `gas-tank status`  Wallet2's balance against its floor at today's fees, the
+ *                    funding wallet's balance and what is left of the daily cap.
+ * `gas-tank top-up`  refill Wallet2 from the funding wallet when it is below
+ *                    its floor (see gas/tank.ts); meant for a cron job, so the
+ *                    pull-and-deposit runs themselves never wait on a top-up.
+ */
+
+import { ethers } from "ethers";
+import { Network } from "../constants";
+import { CliError, EXIT } from "../exit_codes";
+import { formatCost } from "../gas/strategy";
+import { GasTankPolicy, gasTankStatus, TankStatus, topUpGasTank } from "../gas/tank";
+import { toJson } from "../json_store";
+import { TxManager } from "../tx/manager";
+import { SERVER_RUN_GAS } from "./pull_and_deposit";
+import { FlowResult } from "./shared";
+
+export interface GasTankStatusOptions {
+    network: Network;
+    provider: ethers.Provider;
+    /** Wallet2's address. */
+    tank: string;
+    funder: string;
+    policy: GasTankPolicy;
+    txs: TxManager;
+    json: boolean;
+}
+
+export interface GasTankTopUpOptions {
+    network: Network;
+    tank: string;
+    funder: ethers.Signer;
+    policy: GasTankPolicy;
+    txs: TxManager;
+    dryRun: boolean;
+    json: boolean;
+}
+
+export async function runGasTankStatus(opts: GasTankStatusOptions): Promise<FlowResult> {
+    const status = await gasTankStatus(opts.provider, opts.tank, opts.funder, SERVER_RUN_GAS, opts.policy, opts.txs);
+    report(opts.network, opts.policy, status, opts.json);
+    if (status.balance < status.perDeposit) {
+        throw new CliError(`gas tank ${opts.tank} can't pay for a single run`, EXIT.PRECONDITION);
+    }
+    return { dryRun: false };
+}
+
+export async function runGasTankTopUp(opts: GasTankTopUpOptions): Promise<FlowResult> {
+    const status = await topUpGasTank(opts.tank, opts.funder, SERVER_RUN_GAS, opts.policy, opts.txs, { dryRun: opts.dryRun });
+    if (opts.json) report(opts.network, opts.policy, status, true);
+    return { dryRun: opts.dryRun };
+}
+
+function report(network: Network, policy: GasTankPolicy, status: TankStatus & { toppedUp?: bigint }, json: boolean): void {
+    if (json) {
+        console.log(toJson({ chainId: network.chainId, ...status, dailyCap: policy.dailyCap, funderMin: policy.funderMin }, 2));
+        return;
+    }
+    const fmt = (wei: bigint) => formatCost(wei, network.nativeSymbol);
+    const ok = (good: boolean) => (good ? "✓" : "✗");
+    console.log(`Gas tank on ${network.name}:`);
+    console.log(`  ${ok(status.balance >= status.floor)} Wallet2 ${status.tank}: ${fmt(status.balance)}`);
+    console.log(`      floor ${fmt(status.floor)} = ${policy.depositsPerDay} runs × ${fmt(status.perDeposit)}; refilled to ${fmt(status.target)}`);
+    console.log(`  ${ok(status.funderBalance >= policy.funderMin)} funder ${status.funder}: ${fmt(status.funderBalance)} (alert below ${fmt(policy.funderMin)})`);
+    console.log(`  ${ok(status.capLeft > 0n)} daily cap: ${fmt(status.sentToday)} of ${fmt(policy.dailyCap)} sent in the last 24h`);
+    console.log(`  log: ${policy.logFile}`);
+}
@@ -0,0 +1,86 @@
+/**
+ * index_events.ts
+ *
+ * `index sync|follow|query` — keep a local history of vault deposits and read
+ * it back for reconciliation / reporting.
+ */
+
+import { Network } from "../constants";
+import { follow, syncOnce } from "../indexer/indexer";
+import { EventQuery, loadStore, queryEvents, storeFile, totalsByCurrency } from "../indexer/store";
+import { createRpcProvider, RpcPoolOptions } from "../rpc/pool";
+import { FlowResult } from "./shared";
+
+export interface IndexSyncOptions {
+    network: Network;
+    rpc: RpcPoolOptions;
+    dataDir: string;
+    /** First block to scan when the store is new. */
+    startBlock: number;
+    confirmations: number;
+    chunkSize: number;
+    /** Keep following new blocks, polling every `pollMs`. */
+    follow: boolean;
+    pollMs: number;
+}
+
+export async function runIndexSync(opts: IndexSyncOptions): Promise<FlowResult> {
+    const provider = createRpcProvider(opts.rpc);
+    const file = storeFile(opts.dataDir, opts.network.chainId, opts.network.vault);
+    const state = loadStore(file, { chainId: opts.network.chainId, vault: opts.network.vault, startBlock: opts.startBlock });
+
+    console.log(`Indexing vault ${state.vault} on ${opts.network.name} into ${file}`);
+    console.log(`Resuming after block ${state.cursor} (confirmations ${opts.confirmations})`);
+
+    const indexer = {
+        provider,
+        file,
+        state,
+        chunkSize: opts.chunkSize,
+        confirmations: opts.confirmations,
+        log: (msg: string) => console.log(`  ${msg}`),
+    };
+
+    if (opts.follow) {
+        const controller = new AbortController();
+        process.once("SIGINT", () => controller.abort());
+        process.once("SIGTERM", () => controller.abort());
+        await follow(indexer, opts.pollMs, controller.signal);
+        console.log(`Stopped at block ${state.cursor}.`);
+        return { dryRun: false };
+    }
+
+    const result = await syncOnce(indexer);
+    console.log(`✅ Indexed up to block ${state.cursor}: +${result.added} event(s)${result.rolledBackTo !== undefined ? `, reorg rollback to ${result.rolledBackTo} (-${result.removed})` : ""}`);
+    return { blockNumber: state.cursor, dryRun: false };
+}
+
+export interface IndexQueryOptions {
+    network: Network;
+    dataDir: string;
+    query: EventQuery;
+    json: boolean;
+}
+
+export async function runIndexQuery(opts: IndexQueryOptions): Promise<FlowResult> {
+    const file = storeFile(opts.dataDir, opts.network.chainId, opts.network.vault);
+    const state = loadStore(file, { chainId: opts.network.chainId, vault: opts.network.vault, startBlock: 0 });
+    const events = queryEvents(state, opts.query);
+    const totals = totalsByCurrency(events);
+
+    if (opts.json) {
+        console.log(JSON.stringify({ indexedThrough: state.cursor, events, totals }, null, 2));
+        return { dryRun: false };
+    }
+
+    console.log(`Indexed through block ${state.cursor}; ${events.length} matching event(s)`);
+    for (const e of events) {
+        console.log(
+            `  #${e.blockNumber} ${e.event.padEnd(13)} ${e.account} ${e.currency} ${e.amount}${e.broker !== undefined ? ` broker=${e.broker}` : ""} ${e.txHash}`
+        );
+    }
+    for (const t of totals) {
+        console.log(`Total ${t.currency}: ${t.total} wei over ${t.count} deposit(s)`);
+    }
+    return { dryRun: false };
+}
@@ -0,0 +1,54 @@
+/**
+ * intent.ts
+ *
+ * `intent sign`  Wallet1 signs a DepositIntent (see intents/deposit_intent.ts)
+ *                for one pull-and-deposit and writes it to a file, which the
+ *                server runs with `pull-and-deposit run --intent <file>`.
+ *                Nothing is sent; the RPC is only read for token decimals.
+ */
+
+import { ethers } from "ethers";
+import * as fs from "fs";
+import { Network } from "../constants";
+import { CliError, EXIT } from "../exit_codes";
+import { intentDigest, signDepositIntent } from "../intents/deposit_intent";
+import { writeJsonAtomic } from "../json_store";
+import { FlowResult, isNative, readToken } from "./shared";
+
+export interface IntentSignOptions {
+    network: Network;
+    /** Wallet1: the intent's owner, who pays. */
+    wallet: ethers.Signer;
+    /** Human amount, e.g. "0.05". */
+    amount: string;
+    currency: string;
+    broker: string;
+    /** Account Aster credits. */
+    account: string;
+    nonce: string;
+    ttlSeconds: number;
+    out: string;
+}
+
+export async function runIntentSign(opts: IntentSignOptions): Promise<FlowResult> {
+    if (isNative(opts.currency)) throw new CliError("pull-and-deposit only moves ERC-20 tokens", EXIT.USAGE);
+    if (fs.existsSync(opts.out)) throw new CliError(`${opts.out} already exists; pass --out to write the intent elsewhere`, EXIT.USAGE);
+    const token = await readToken(opts.currency, opts.wallet.provider!);
+    const deadline = Math.floor(Date.now() / 1000) + opts.ttlSeconds;
+    const signed = await signDepositIntent(opts.wallet, opts.network, {
+        amount: ethers.parseUnits(opts.amount, token.decimals).toString(),
+        currency: opts.currency,
+        broker: opts.broker,
+        account: opts.account,
+        nonce: opts.nonce,
+        deadline: String(deadline),
+    });
+    writeJsonAtomic(opts.out, signed);
+
+    console.log(`✅ Deposit intent signed by ${signed.intent.owner} → ${opts.out}`);
+    console.log(`  ${opts.amount} ${token.symbol} to vault ${opts.network.vault}, credited to ${opts.account}, broker ${opts.broker}`);
+    console.log(`  nonce ${opts.nonce}, valid until ${new Date(deadline * 1000).toISOString()}`);
+    console.log(`  digest ${intentDigest(signed)}`);
+    console.log(`  Next: pull-and-deposit run --intent ${opts.out} on the server, before it expires.`);
+    return { dryRun: false };
+}
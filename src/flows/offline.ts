@@ -0,0 +1,192 @@
+/**
+ * offline.ts
+ *
+ * `offline sign`       sign an unsigned bundle (from any flow run with --export)
+ *                      with encrypted JSON keystores; needs no RPC at all, so it
+ *                      runs on an air-gapped machine
+ * `offline broadcast`  send a signed bundle in order: each tx is checked against
+ *                      its sender's nonce and simulated first, then broadcast and
+ *                      followed to its receipt. Progress is saved in the signed
+ *                      file, so rerunning after an interruption only sends what
+ *                      isn't mined yet, and the same bytes if a tx went missing.
+ */
+
+import { ethers } from "ethers";
+import * as fs from "fs";
+import { explorerTxUrl, findNetwork } from "../constants";
+import { CliError, EXIT } from "../exit_codes";
+import { readBundle, SignedBundle, SignedEntry, writeBundle } from "../offline/bundle";
+import { toTransactionRequest } from "../offline/export";
+import { createRpcProvider, RpcPoolOptions } from "../rpc/pool";
+import { loadKeystore } from "../signers/load";
+import { decodeVaultError, formatVaultError } from "../vault_errors";
+import { depositsInReceipt } from "../vault_events";
+import { FlowResult, txOutcome } from "./shared";
+
+export interface OfflineSignOptions {
+    /** Unsigned bundle written by --export. */
+    file: string;
+    /** Keystore files; one must match the sender of every tx. */
+    keystores: string[];
+    /** Env var holding the keystore password; prompted for when unset. */
+    passwordEnv: string;
+    /** Where the signed bundle goes; defaults to <file>.signed.json. */
+    out?: string;
+}
+
+export interface OfflineBroadcastOptions {
+    /** Signed bundle written by `offline sign`. */
+    file: string;
+    rpc: RpcPoolOptions;
+    /** Per-tx wait for a receipt before giving up (the file keeps the status). */
+    timeoutMs: number;
+}
+
+export function signedFileFor(file: string): string {
+    return `${file.replace(/\.json$/i, "")}.signed.json`;
+}
+
+export async function runOfflineSign(opts: OfflineSignOptions): Promise<FlowResult> {
+    const bundle = readBundle(opts.file, "unsigned");
+    const out = opts.out ?? signedFileFor(opts.file);
+    if (fs.existsSync(out)) {
+        // It may already carry broadcast progress; never overwrite that.
+        throw new CliError(`${out} already exists; pass --out to write the signed bundle elsewhere`, EXIT.USAGE);
+    }
+
+    const wallets = new Map<string, ethers.Wallet | ethers.HDNodeWallet>();
+    for (const keystore of opts.keystores) {
+        const wallet = await loadKeystore(keystore, "signing", [opts.passwordEnv]);
+        wallets.set(wallet.address.toLowerCase(), wallet);
+        console.log(`  ✓ keystore ${keystore}: ${wallet.address}`);
+    }
+
+    console.log(`Signing ${bundle.txs.length} tx(s) for chain ${bundle.chainId} (${bundle.flow})`);
+    const txs: SignedEntry[] = [];
+    for (const entry of bundle.txs) {
+        const wallet = wallets.get(entry.from.toLowerCase());
+        if (!wallet) throw new CliError(`tx #${entry.index} (${entry.label}) is from ${entry.from}; no keystore given for it`, EXIT.CONFIG);
+        if (entry.tx.chainId !== bundle.chainId) {
+            throw new CliError(`tx #${entry.index} is for chain ${entry.tx.chainId}, the bundle for ${bundle.chainId}`, EXIT.USAGE);
+        }
+        const raw = await wallet.signTransaction(toTransactionRequest(entry.tx));
+        const hash = ethers.keccak256(raw);
+        txs.push({ index: entry.index, label: entry.label, from: entry.from, nonce: entry.tx.nonce, hash, raw, status: "pending" });
+        console.log(`  #${entry.index} ${entry.label}: ${hash} (nonce ${entry.tx.nonce})`);
+    }
+
+    const signed: SignedBundle = {
+        kind: "signed",
+        version: 1,
+        chainId: bundle.chainId,
+        flow: bundle.flow,
+        createdAt: bundle.createdAt,
+        signedAt: new Date().toISOString(),
+        txs,
+    };
+    writeBundle(out, signed);
+    console.log(`\n✅ ${txs.length} tx(s) signed → ${out}`);
+    console.log(`  Next: offline broadcast --file ${out}`);
+    return { dryRun: false };
+}
+
+export async function runOfflineBroadcast(opts: OfflineBroadcastOptions): Promise<FlowResult> {
+    const bundle = readBundle(opts.file, "signed");
+    if (bundle.chainId !== opts.rpc.chainId) {
+        throw new CliError(`${opts.file} is for chain ${bundle.chainId}; pass --chain ${bundle.chainId}`, EXIT.CONFIG);
+    }
+    const provider = createRpcProvider(opts.rpc);
+    const network = findNetwork(bundle.chainId);
+    const link = (hash: string) => (network ? explorerTxUrl(network, hash) : hash);
+    const save = () => writeBundle(opts.file, bundle);
+
+    console.log(`Broadcasting ${bundle.txs.length} tx(s) on chain ${bundle.chainId} (${bundle.flow})`);
+    let last: SignedEntry | undefined;
+    for (const entry of bundle.txs) {
+        const name = `#${entry.index} ${entry.label}`;
+        if (entry.status === "confirmed") {
+            console.log(`  ✓ ${name}: already confirmed in block ${entry.blockNumber}`);
+            last = entry;
+            continue;
+        }
+        if (entry.status === "failed") {
+            throw new CliError(`${name} reverted on-chain (${entry.hash}); the txs after it were not sent`, EXIT.REVERTED);
+        }
+
+        // Mined already, or still in a mempool, e.g. when a previous run was interrupted.
+        const outcome = await txOutcome(provider, entry.hash);
+        if (outcome.state === "missing") {
+            await checkNonce(provider, entry, name);
+            await simulateSigned(provider, entry, name);
+            try {
+                await provider.broadcastTransaction(entry.raw);
+            } catch (err) {
+                const decoded = decodeVaultError(err);
+                throw new CliError(`${name} could not be broadcast: ${formatVaultError(decoded)}`, EXIT.FAILURE, decoded);
+            }
+            entry.status = "sent";
+            save();
+            console.log(`  ${name} tx: ${link(entry.hash)}`);
+        } else if (outcome.state === "pending") {
+            console.log(`  ${name}: ${entry.hash} already in the mempool; waiting`);
+        }
+
+        const receipt =
+            outcome.state === "success" || outcome.state === "reverted"
+                ? outcome.receipt
+                : await provider.waitForTransaction(entry.hash, 1, opts.timeoutMs).catch(() => null);
+        if (!receipt) {
+            entry.status = "sent";
+            save();
+            throw new CliError(
+                `${name}: no receipt for ${entry.hash} after ${Math.round(opts.timeoutMs / 1000)}s; rerun to keep waiting`,
+                EXIT.FAILURE
+            );
+        }
+        entry.blockNumber = receipt.blockNumber;
+        if (receipt.status !== 1) {
+            entry.status = "failed";
+            entry.error = "reverted on-chain";
+            save();
+            throw new CliError(`${name} reverted on-chain (${entry.hash}); the txs after it were not sent`, EXIT.REVERTED);
+        }
+        entry.status = "confirmed";
+        entry.error = undefined;
+        save();
+        console.log(`  ✓ ${name} confirmed in block ${receipt.blockNumber}`);
+        for (const d of depositsInReceipt(receipt, receipt.to ?? ethers.ZeroAddress)) {
+            console.log(`    Deposit: ${d.amount} wei of ${d.currency} credited to ${d.account}`);
+        }
+        last = entry;
+    }
+
+    console.log(`\n✅ All ${bundle.txs.length} tx(s) confirmed`);
+    return { txHash: last?.hash, blockNumber: last?.blockNumber, dryRun: false };
+}
+
+/** The sender's next nonce has to be this tx's: lower means an earlier tx is missing, higher that it was replaced. */
+async function checkNonce(provider: ethers.Provider, entry: SignedEntry, name: string): Promise<void> {
+    const next = await provider.getTransactionCount(entry.from, "pending");
+    if (next < entry.nonce) {
+        throw new CliError(`${name} has nonce ${entry.nonce} but ${entry.from} is at ${next}; a tx before it is missing`, EXIT.PRECONDITION);
+    }
+    if (next > entry.nonce) {
+        throw new CliError(
+            `${name}: nonce ${entry.nonce} of ${entry.from} was already used by another tx; export and sign again`,
+            EXIT.PRECONDITION
+        );
+    }
+}
+
+/** eth_call the signed tx against the current state, as the flows simulate before sending. */
+async function simulateSigned(provider: ethers.Provider, entry: SignedEntry, name: string): Promise<void> {
+    const tx = ethers.Transaction.from(entry.raw);
+    try {
+        await provider.call({ from: tx.from, to: tx.to, data: tx.data, value: tx.value });
+        console.log(`  ✓ ${name} simulation passed`);
+    } catch (err) {
+        const decoded = decodeVaultError(err);
+        console.error(`  ✗ ${name} simulation FAILED: ${formatVaultError(decoded)}`);
+        throw new CliError(`${name} simulation failed: ${decoded.code}`, EXIT.REVERTED, decoded);
+    }
+}
@@ -0,0 +1,198 @@
+/**
+ * preflight.ts
+ *
+ * Read everything a deposit depends on before the first transaction is sent,
+ * and print it as one pass/warn/fail report (or JSON with --json). A single
+ * "fail" makes runPreflight throw, so nothing is broadcast.
+ *
+ * Each flow builds its own list from the check factories below; a check is
+ * just an async function, so flows can add one-off checks of their own.
+ * "warn" is for things the flow fixes itself, e.g. a missing allowance it is
+ * about to approve.
+ */
+
+import { ethers } from "ethers";
+import { knownSpenders } from "../allowances/spenders";
+import { Network } from "../constants";
+import { CliError, EXIT } from "../exit_codes";
+import { VAULT_ROLES, VaultRoleName } from "../vault_errors";
+import { TokenInfo } from "./shared";
+
+export type CheckStatus = "pass" | "warn" | "fail";
+
+export interface PreflightCheck {
+    name: string;
+    status: CheckStatus;
+    detail: string;
+}
+
+export interface PreflightReport {
+    label: string;
+    ok: boolean;
+    checks: PreflightCheck[];
+}
+
+export type Check = () => Promise<PreflightCheck>;
+
+/** Gas budgeted for an ERC-20 approve when an allowance has to be raised. */
+export const APPROVE_GAS = 60000n;
+
+const ICONS: Record<CheckStatus, string> = { pass: "✓", warn: "!", fail: "✗" };
+
+/**
+ * Run `checks` in order and print the report. A check that throws (RPC error,
+ * missing contract) counts as a failure rather than aborting the report.
+ */
+export async function runPreflight(label: string, checks: Check[], opts: { json?: boolean } = {}): Promise<PreflightReport> {
+    const results: PreflightCheck[] = [];
+    for (const [i, check] of checks.entries()) {
+        try {
+            results.push(await check());
+        } catch (err: any) {
+            results.push({ name: `check #${i + 1}`, status: "fail", detail: err?.shortMessage ?? err?.message ?? String(err) });
+        }
+    }
+    const report: PreflightReport = { label, ok: results.every((c) => c.status !== "fail"), checks: results };
+
+    if (opts.json) {
+        console.log(JSON.stringify(report, null, 2));
+    } else {
+        console.log(`\n--- Pre-flight: ${label} ---`);
+        const width = Math.max(...results.map((c) => c.name.length), 0);
+        for (const c of results) {
+            console.log(`  ${ICONS[c.status]} ${c.name.padEnd(width)}  ${c.detail}`);
+        }
+        console.log(report.ok ? `✓ Pre-flight passed (${results.length} checks)\n` : `✗ Pre-flight FAILED\n`);
+    }
+
+    if (!report.ok) {
+        const failed = results.filter((c) => c.status === "fail").map((c) => c.name);
+        throw new CliError(`Pre-flight failed: ${failed.join(", ")}. Nothing was sent.`, EXIT.PRECONDITION);
+    }
+    return report;
+}
+
+// ─────────────────────────────────────────────
+// Check factories
+// ─────────────────────────────────────────────
+
+/**
+ * Ask the node itself: providers built with staticNetwork never query
+ * eth_chainId, so getNetwork() would just echo the configured id back.
+ */
+export function checkChainId(provider: ethers.Provider, chainId: number, name = "chain id"): Check {
+    return async () => {
+        const actual =
+            provider instanceof ethers.JsonRpcApiProvider
+                ? Number(await provider.send("eth_chainId", []))
+                : Number((await provider.getNetwork()).chainId);
+        return actual === chainId
+            ? { name, status: "pass", detail: String(actual) }
+            : { name, status: "fail", detail: `RPC is on chain ${actual}, expected ${chainId}` };
+    };
+}
+
+export function checkNotPaused(vault: ethers.Contract): Check {
+    return async () => {
+        const paused: boolean = await vault.paused();
+        return paused
+            ? { name: "vault paused", status: "warn", detail: "vault is paused; deposits still go through, withdrawals wait until it is unpaused" }
+            : { name: "vault paused", status: "pass", detail: "not paused" };
+    };
+}
+
+export function checkSupported(vault: ethers.Contract, currency: string, label: string): Check {
+    return async () => {
+        const token = await vault.supportToken(currency);
+        return token.currency === ethers.ZeroAddress
+            ? { name: "currency supported", status: "fail", detail: `${label} is not listed (supportToken(${currency}) is empty)` }
+            : { name: "currency supported", status: "pass", detail: `${label} is listed` };
+    };
+}
+
+export function checkRole(vault: ethers.Contract, role: VaultRoleName, account: string, label: string): Check {
+    return async () => {
+        const has: boolean = await vault.hasRole(VAULT_ROLES[role], account);
+        return has
+            ? { name: role, status: "pass", detail: `${label} ${account} has ${role}` }
+            : { name: role, status: "fail", detail: `${label} ${account} lacks ${role}; the vault will revert` };
+    };
+}
+
+export function checkTokenBalance(token: TokenInfo, holder: string, amount: bigint, label: string): Check {
+    return async () => {
+        const balance: bigint = await token.contract.balanceOf(holder);
+        const have = `${ethers.formatUnits(balance, token.decimals)} ${token.symbol}`;
+        const need = `${ethers.formatUnits(amount, token.decimals)} ${token.symbol}`;
+        return balance >= amount
+            ? { name: `${label} balance`, status: "pass", detail: `${have} (need ${need})` }
+            : { name: `${label} balance`, status: "fail", detail: `has ${have}, needs ${need}` };
+    };
+}
+
+/** Missing allowance is a warning: every flow approves before it deposits. */
+export function checkAllowance(token: TokenInfo, owner: string, spender: string, amount: bigint, label: string): Check {
+    return async () => {
+        const current: bigint = await token.contract.allowance(owner, spender);
+        const have = `${ethers.formatUnits(current, token.decimals)} ${token.symbol}`;
+        return current >= amount
+            ? { name: `${label} allowance`, status: "pass", detail: `${have} to ${spender}` }
+            : { name: `${label} allowance`, status: "warn", detail: `${have} to ${spender}; will approve before sending` };
+    };
+}
+
+/**
+ * Fails when `owner` has an allowance to a permissionless forwarder such as
+ * Multicall3: anyone can spend it through aggregate3. `expected` is what the
+ * flow itself approved and is about to consume in the pull.
+ */
+export function checkNoPublicAllowance(token: TokenInfo, owner: string, network: Network, expected: bigint, label: string): Check {
+    return async () => {
+        const name = `${label} public allowance`;
+        for (const spender of knownSpenders(network).filter((s) => s.risk === "critical")) {
+            const current: bigint = await token.contract.allowance(owner, spender.address);
+            if (current > expected) {
+                const have = current === ethers.MaxUint256 ? "unlimited" : `${ethers.formatUnits(current, token.decimals)} ${token.symbol}`;
+                return {
+                    name,
+                    status: "fail",
+                    detail: `CRITICAL: ${have} to ${spender.name} ${spender.address}, which anyone can drain; run allowances revoke`,
+                };
+            }
+        }
+        return { name, status: "pass", detail: "no standing allowance to a public forwarder" };
+    };
+}
+
+export interface GasBalanceSpec {
+    account: string;
+    label: string;
+    symbol: string;
+    /** Gas units of every tx this account will send (an upper bound is fine). */
+    gasUnits: bigint;
+    /** Native value leaving with those txs (native deposits, Relay origin value). */
+    value?: bigint;
+    /** Minimum native kept back for gas; the larger of this and the estimate is required. */
+    reserve?: bigint;
+    /** "warn" when the flow tops the account up itself. */
+    shortfall?: Exclude<CheckStatus, "pass">;
+}
+
+export function checkGasBalance(provider: ethers.Provider, spec: GasBalanceSpec): Check {
+    return async () => {
+        const [balance, fees] = await Promise.all([provider.getBalance(spec.account), provider.getFeeData()]);
+        const price = fees.maxFeePerGas ?? fees.gasPrice ?? 0n;
+        const cost = spec.gasUnits * price;
+        const value = spec.value ?? 0n;
+        const kept = spec.reserve !== undefined && spec.reserve > cost ? spec.reserve : cost;
+        const need = value + kept;
+        const detail =
+            `${ethers.formatEther(balance)} ${spec.symbol}; gas ≈ ${ethers.formatEther(cost)} ` +
+            `(${spec.gasUnits} @ ${ethers.formatUnits(price, "gwei")} gwei)` +
+            (value ? ` + value ${ethers.formatEther(value)}` : "") +
+            (kept !== cost ? ` — reserve ${ethers.formatEther(kept)} applies` : "");
+        return balance >= need
+            ? { name: `${spec.label} gas`, status: "pass", detail }
+            : { name: `${spec.label} gas`, status: spec.shortfall ?? "fail", detail: `${detail}; short by ${ethers.formatEther(need - balance)}` };
+    };
+}
@@ -0,0 +1,865 @@
+/**
+ * pull_and_deposit.ts
+ *
+ * Two-wallet flow (formerly asterdeposit.ts / multicall_deposit.ts):
+ *   Wallet1 (user) pays the tokens, Wallet2 (server) sends every tx and pays gas;
+ *   with --fund-gas Wallet2 is a gas tank refilled from a designated funding
+ *   wallet (see gas/tank.ts), never from Wallet1.
+ *
+ *   [approve]        Wallet1 approves the puller for exactly the amount
+ *                      puller = Wallet2 itself (default) or Multicall3 (--puller multicall3)
+ *   [pull]           Wallet2 pulls tokens Wallet1 → Wallet2, consuming that approval
+ *                      server:     token.transferFrom(w1, w2, amount)
+ *                      multicall3: Multicall3.aggregate3([token.transferFrom(w1, w2, amount)])
+ *   [vault-approve]  Wallet2 approves the vault
+ *   [deposit]        Wallet2 deposits
+ *                      --credit server (default): vault.deposit()     → Aster credits Wallet2
+ *                      --credit user:             vault.depositFor(w1) → Aster credits Wallet1
+ *                                                 (Wallet2 needs DEPOSIT_ROLE)
+ *
+ * Multicall3 is public: anyone can have it call transferFrom(w1, anyone, ...),
+ * so an allowance to it is anyone's until it is spent. The approval is never
+ * more than the amount, and pre-flight refuses to start while Wallet1 has any
+ * other allowance to it (see `allowances audit` / `allowances revoke`).
+ *
+ * With --intent the run has to match a DepositIntent Wallet1 signed off-chain
+ * (see intents/deposit_intent.ts): it is checked before anything is built or
+ * sent, and kept on the run in the journal as the user's authorization.
+ *
+ * The pull and the deposit are separate txs, so every run is journaled as a
+ * state machine (see pull/journal.ts). `resume` continues a run from its last
+ * confirmed step; `reconcile` lists runs whose tokens are stuck in Wallet2 and
+ * checks them against Wallet2's on-chain balance; `refund` transfers those
+ * tokens back to the Wallet1 they were pulled from, instead of depositing them.
+ *
+ * With --export every step's tx is written to the export file in one go and
+ * nothing is journaled: the signed bundle is the record, and `offline
+ * broadcast` picks up where it stopped.
+ */
+
+import { ethers } from "ethers";
+import { MULTICALL3_ABI, VAULT_ABI } from "../abis";
+import { ApprovalPolicies, ensureAllowance } from "../allowances/approvals";
+import { CommonOptions } from "../config";
+import { reconcileCredit } from "../credits";
+import { NATIVE_ADDRESS, Network } from "../constants";
+import { CliError, EXIT } from "../exit_codes";
+import { GasTank, topUpGasTank } from "../gas/tank";
+import { checkIntentDeadline, intentDigest, SignedDepositIntent, verifyDepositIntent } from "../intents/deposit_intent";
+import { ExportSigner } from "../offline/export";
+import {
+    advance,
+    isFinished,
+    isOrphaned,
+    loadPullJournal,
+    newRunId,
+    PullJournal,
+    PullRun,
+    PullStep,
+    PullTxName,
+    runWithIntentNonce,
+    savePullJournal,
+    stepIndex,
+} from "../pull/journal";
+import { TxLifecycleOptions, TxManager } from "../tx/manager";
+import { diagnoseAggregate3, formatVaultError } from "../vault_errors";
+import { depositsInReceipt } from "../vault_events";
+import {
+    APPROVE_GAS,
+    Check,
+    checkAllowance,
+    checkChainId,
+    checkGasBalance,
+    checkNoPublicAllowance,
+    checkNotPaused,
+    checkRole,
+    checkSupported,
+    checkTokenBalance,
+    runPreflight,
+} from "./preflight";
+import {
+    confirmOrAbort,
+    exportedResult,
+    FlowResult,
+    readToken,
+    Sender,
+    sendOrExport,
+    simulate,
+    TokenInfo,
+    TxOutcome,
+    txOutcome,
+} from "./shared";
+
+export type Puller = "multicall3" | "server";
+export type CreditTarget = "server" | "user";
+
+export interface PullAndDepositOptions extends CommonOptions {
+    /** Wallet1 — source of the tokens. */
+    userWallet: Sender;
+    /** Wallet2 — sends the txs, pays gas. */
+    serverWallet: Sender;
+    puller: Puller;
+    credit: CreditTarget;
+    /** Top Wallet2 up from this gas tank's funding wallet before the run. */
+    gasTank?: GasTank;
+    /** Wallet1's signed authorization; the run must match it exactly. */
+    intent?: SignedDepositIntent;
+    journalFile: string;
+}
+
+export interface PullResumeOptions {
+    network: Network;
+    userWallet: Sender;
+    serverWallet: Sender;
+    journalFile: string;
+    /** Run to resume; defaults to the only unfinished run of these wallets. */
+    runId?: string;
+    gasTank?: GasTank;
+    dryRun: boolean;
+    json: boolean;
+    approvals: ApprovalPolicies;
+    txs: TxManager;
+}
+
+export interface PullRefundOptions {
+    network: Network;
+    /** Wallet2 — holds the stranded tokens and sends the refunds. */
+    serverWallet: Sender;
+    journalFile: string;
+    /** Only this run; otherwise every orphaned run of Wallet2. */
+    runId?: string;
+    /** Only runs pulled from this Wallet1. */
+    user?: string;
+    dryRun: boolean;
+    /** Skip the confirmation prompt. */
+    yes: boolean;
+    json: boolean;
+    txs: TxManager;
+}
+
+export interface PullReconcileOptions {
+    network: Network;
+    provider: ethers.Provider;
+    journalFile: string;
+    json: boolean;
+}
+
+/** Pre-flight gas budgets; the limits sent come from the gas strategy. */
+const PULL_GAS = 150000n;
+const SERVER_DEPOSIT_GAS = 300000n;
+const REFUND_GAS = 80000n;
+/** What one run costs Wallet2 in gas: the gas tank's unit. */
+export const SERVER_RUN_GAS = APPROVE_GAS + PULL_GAS + SERVER_DEPOSIT_GAS;
+
+/** The tx that moves a run out of each step, and where it lands. */
+const STEP_TX: Partial<Record<PullStep, [PullTxName, PullStep]>> = {
+    started: ["approve", "approved"],
+    approved: ["pull", "pulled"],
+    pulled: ["vaultApprove", "vault-approved"],
+    "vault-approved": ["deposit", "deposited"],
+};
+
+interface RunContext {
+    run: PullRun;
+    network: Network;
+    userWallet: Sender;
+    serverWallet: Sender;
+    token: TokenInfo;
+    vault: ethers.Contract;
+    approvals: ApprovalPolicies;
+    txs: TxManager;
+    save: () => void;
+}
+
+// ─────────────────────────────────────────────
+// New run
+// ─────────────────────────────────────────────
+
+export async function runPullAndDeposit(opts: PullAndDepositOptions): Promise<FlowResult> {
+    const { userWallet, serverWallet, network, currency, broker } = opts;
+    if (currency === NATIVE_ADDRESS) {
+        throw new CliError("pull-and-deposit only moves ERC-20 tokens", EXIT.USAGE);
+    }
+
+    const token = await readToken(currency, serverWallet);
+    const amount = ethers.parseUnits(opts.amount, token.decimals);
+    const pullerAddress = opts.puller === "multicall3" ? network.multicall3 : serverWallet.address;
+    const credited = opts.credit === "user" ? userWallet.address : serverWallet.address;
+
+    console.log("══════════════════════════════════════════════════");
+    console.log("Wallet1 (source of funds):", userWallet.address);
+    console.log("Wallet2 (sender)         :", serverWallet.address);
+    console.log("Puller                   :", opts.puller, pullerAddress);
+    console.log("Aster credits            :", credited);
+    console.log("Deposit Amount           :", opts.amount, token.symbol, `(${amount} wei)`);
+    console.log("Broker ID                :", broker);
+    console.log("══════════════════════════════════════════════════\n");
+
+    const vault = new ethers.Contract(network.vault, VAULT_ABI, serverWallet);
+    const now = new Date().toISOString();
+    const run: PullRun = {
+        id: newRunId(),
+        chainId: network.chainId,
+        vault: network.vault,
+        token: currency,
+        userWallet: userWallet.address,
+        serverWallet: serverWallet.address,
+        puller: opts.puller,
+        credit: opts.credit,
+        amount: amount.toString(),
+        broker,
+        step: "started",
+        txs: {},
+        createdAt: now,
+        updatedAt: now,
+    };
+    if (opts.intent) {
+        if (serverWallet instanceof ExportSigner) {
+            throw new CliError("a deposit intent can't be used with --export: the journal has to record its nonce", EXIT.USAGE);
+        }
+        verifyDepositIntent(opts.intent, { network, owner: userWallet.address, amount, currency, broker, account: credited });
+        run.intent = { ...opts.intent, digest: intentDigest(opts.intent) };
+        claimIntentNonce(loadPullJournal(opts.journalFile, network.chainId), run);
+        const expires = new Date(Number(opts.intent.intent.deadline) * 1000).toISOString();
+        console.log(`✓ Deposit intent ${run.intent.digest} signed by Wallet1 (nonce ${opts.intent.intent.nonce}, expires ${expires})\n`);
+    }
+    await runPreflight("pull-and-deposit", preflightChecks(run, token, vault, network, opts.gasTank !== undefined), { json: opts.json });
+
+    if (opts.dryRun) {
+        if (opts.gasTank) await fillGasTank(opts.gasTank, serverWallet, opts.txs, true);
+        console.log("[approve] Wallet1 → puller allowance:");
+        await ensureAllowance("Wallet1→puller", token, userWallet, pullerAddress, amount, {
+            policies: opts.approvals,
+            txs: opts.txs,
+            dryRun: true,
+        });
+        console.log("[dry-run] pull not sent; the deposit can't be simulated before the pull lands.");
+        return { dryRun: true };
+    }
+    if (serverWallet instanceof ExportSigner) {
+        const ctx = { run, network, userWallet, serverWallet, token, vault, approvals: opts.approvals, txs: opts.txs, save: () => {} };
+        return exportRun(ctx);
+    }
+
+    // Refill first: a run the tank can't pay for is never journaled.
+    if (opts.gasTank) await fillGasTank(opts.gasTank, serverWallet, opts.txs, false);
+    const journal = loadPullJournal(opts.journalFile, network.chainId);
+    // Checked again against the journal as saved, with nothing in between, so two runs can't share a nonce.
+    claimIntentNonce(journal, run);
+    journal.runs[run.id] = run;
+    const save = () => savePullJournal(opts.journalFile, journal);
+    save();
+    console.log(`Run ${run.id} recorded in ${opts.journalFile}`);
+    return driveRun({ run, network, userWallet, serverWallet, token, vault, approvals: opts.approvals, txs: opts.txs, save });
+}
+
+/** Refuse a run whose intent nonce another run of the same owner already used. */
+function claimIntentNonce(journal: PullJournal, run: PullRun): void {
+    if (!run.intent) return;
+    const { owner, nonce } = run.intent.intent;
+    const used = runWithIntentNonce(journal, owner, nonce);
+    if (used && used.id !== run.id) {
+        throw new CliError(`deposit intent ${nonce} of ${owner} was already used by run ${used.id}; not pulling twice`, EXIT.PRECONDITION);
+    }
+}
+
+// ─────────────────────────────────────────────
+// Resume
+// ─────────────────────────────────────────────
+
+export async function resumePullAndDeposit(opts: PullResumeOptions): Promise<FlowResult> {
+    const { network, userWallet, serverWallet } = opts;
+    const journal = loadPullJournal(opts.journalFile, network.chainId);
+    const run = pickRun(journal, opts);
+    if (
+        run.userWallet.toLowerCase() !== userWallet.address.toLowerCase() ||
+        run.serverWallet.toLowerCase() !== serverWallet.address.toLowerCase()
+    ) {
+        throw new CliError(
+            `run ${run.id} belongs to Wallet1 ${run.userWallet} / Wallet2 ${run.serverWallet}; load those keys to resume it`,
+            EXIT.CONFIG
+        );
+    }
+
+    const token = await readToken(run.token, serverWallet);
+    const vault = new ethers.Contract(run.vault, VAULT_ABI, serverWallet);
+    const save = () => savePullJournal(opts.journalFile, journal);
+    console.log(`Resuming run ${run.id}: ${ethers.formatUnits(run.amount, token.decimals)} ${token.symbol}, step "${run.step}"`);
+    if (run.error) console.log(`  last error: ${run.error}`);
+
+    await settleMined(serverWallet.provider!, run, opts.dryRun ? undefined : opts.txs.lifecycle);
+    if (!opts.dryRun) save();
+    if (run.step === "confirmed") {
+        console.log(`✅ Run ${run.id} is already confirmed`);
+        return { txHash: run.txs.deposit, dryRun: opts.dryRun };
+    }
+    if (run.step === "refunded" || run.txs.refund) {
+        throw new CliError(`run ${run.id} was refunded to Wallet1 (${run.txs.refund}); there is nothing left to deposit`, EXIT.PRECONDITION);
+    }
+
+    // Nothing has been pulled yet: the intent still has to be valid when it is.
+    if (run.intent && stepIndex(run.step) < stepIndex("pulled")) checkIntentDeadline(run.intent);
+    await runPreflight(`resume ${run.id}`, preflightChecks(run, token, vault, network, opts.gasTank !== undefined), { json: opts.json });
+    if (opts.dryRun) {
+        console.log(`[dry-run] would continue from step "${run.step}"; nothing sent.`);
+        return { dryRun: true };
+    }
+    if (opts.gasTank) await fillGasTank(opts.gasTank, serverWallet, opts.txs, false);
+    return driveRun({ run, network, userWallet, serverWallet, token, vault, approvals: opts.approvals, txs: opts.txs, save });
+}
+
+function pickRun(journal: PullJournal, opts: PullResumeOptions): PullRun {
+    if (opts.runId) {
+        const run = journal.runs[opts.runId];
+        if (!run) throw new CliError(`no run ${opts.runId} in ${opts.journalFile}`, EXIT.USAGE);
+        return run;
+    }
+    const open = Object.values(journal.runs).filter(
+        (r) =>
+            !isFinished(r) &&
+            r.userWallet.toLowerCase() === opts.userWallet.address.toLowerCase() &&
+            r.serverWallet.toLowerCase() === opts.serverWallet.address.toLowerCase()
+    );
+    if (open.length === 1) return open[0];
+    if (open.length === 0) throw new CliError(`no unfinished runs for these wallets in ${opts.journalFile}`, EXIT.USAGE);
+    throw new CliError(`${open.length} unfinished runs; pick one with --run-id: ${open.map((r) => r.id).join(", ")}`, EXIT.USAGE);
+}
+
+// ─────────────────────────────────────────────
+// State machine
+// ─────────────────────────────────────────────
+
+/**
+ * Advance `run` over txs that were already sent and mined, without sending
+ * anything. With `wait`, a tx still in the mempool is waited for (up to its
+ * timeout, for its confirmations); otherwise the run stays where it is.
+ */
+async function settleMined(provider: ethers.Provider, run: PullRun, wait: TxLifecycleOptions | undefined): Promise<void> {
+    if (run.txs.refund && run.step !== "refunded") {
+        const outcome = await minedOutcome(provider, "refund", run.txs.refund, wait);
+        if (outcome.state === "pending") return;
+        if (outcome.state === "success") {
+            run.refunded = run.amount;
+            advance(run, "refunded");
+            return;
+        }
+        run.error = `refund tx ${run.txs.refund} ${outcome.state === "reverted" ? "reverted" : "was dropped"}`;
+        delete run.txs.refund;
+    }
+    for (;;) {
+        if (run.step === "deposited") {
+            confirmDeposit(run, await provider.getTransactionReceipt(run.txs.deposit!));
+            return;
+        }
+        const next = STEP_TX[run.step];
+        const hash = next && run.txs[next[0]];
+        if (!next || !hash) return;
+
+        const outcome = await minedOutcome(provider, next[0], hash, wait);
+        if (outcome.state === "pending") return;
+        if (outcome.state === "success") {
+            advance(run, next[1]);
+            continue;
+        }
+        // Reverted or never seen by the node: forget the hash so the step is redone.
+        run.error = `${next[0]} tx ${hash} ${outcome.state === "reverted" ? "reverted" : "was dropped"}`;
+        delete run.txs[next[0]];
+        return;
+    }
+}
+
+/**
+ * Outcome of a journaled tx; with `wait`, one still in the mempool is waited
+ * for first. One still pending at the timeout leaves the run at its step: the
+ * error says how to speed the tx up before resuming.
+ */
+async function minedOutcome(
+    provider: ethers.Provider,
+    name: PullTxName,
+    hash: string,
+    wait: TxLifecycleOptions | undefined
+): Promise<TxOutcome> {
+    const outcome = await txOutcome(provider, hash);
+    if (outcome.state !== "pending" || !wait) return outcome;
+    console.log(`  waiting for ${name} tx ${hash}...`);
+    try {
+        await provider.waitForTransaction(hash, wait.confirmations, wait.timeoutMs);
+    } catch (err) {
+        if (!ethers.isError(err, "TIMEOUT")) throw err;
+        const signer = name === "approve" ? "Wallet1's" : "Wallet2's";
+        throw new CliError(
+            `${name} tx ${hash} still not confirmed after ${Math.round(wait.timeoutMs / 1000)}s; ` +
+                `speed it up with tx speed-up --hash ${hash} (${signer} signer as --signer), then resume`,
+            EXIT.FAILURE
+        );
+    }
+    return txOutcome(provider, hash);
+}
+
+/**
+ * `deposited` → `confirmed` once the receipt carries the vault's Deposit event.
+ * A different account or amount still confirms — the deposit happened — but
+ * is kept on the run as discrepancies.
+ */
+function confirmDeposit(run: PullRun, receipt: ethers.TransactionReceipt | null): void {
+    if (!receipt) return;
+    const { deposit, discrepancies } = reconcileCredit(depositsInReceipt(receipt, run.vault), {
+        flow: "pull-and-deposit",
+        account: run.credit === "user" ? run.userWallet : run.serverWallet,
+        currency: run.token,
+        amount: BigInt(run.amount),
+        match: "exact",
+    });
+    if (!deposit) {
+        run.error = `deposit tx ${receipt.hash}: ${discrepancies[0].detail}`;
+        return;
+    }
+    run.credited = deposit.amount.toString();
+    run.discrepancies = discrepancies.length ? discrepancies : undefined;
+    advance(run, "confirmed");
+}
+
+/** Send whatever the run still needs, journaling each hash before its receipt. */
+async function driveRun(ctx: RunContext): Promise<FlowResult> {
+    const { run, network, userWallet, serverWallet, token, save } = ctx;
+    const amount = BigInt(run.amount);
+    const record = (name: PullTxName) => (hash: string) => {
+        run.txs[name] = hash;
+        run.updatedAt = new Date().toISOString();
+        save();
+    };
+    const step = (to: PullStep) => {
+        advance(run, to);
+        save();
+        console.log(`  → run ${run.id}: ${to}`);
+    };
+
+    try {
+        while (run.step !== "confirmed") {
+            await settleMined(serverWallet.provider!, run, ctx.txs.lifecycle);
+            save();
+            switch (run.step) {
+                case "started": {
+                    const pullerAddress = run.puller === "multicall3" ? network.multicall3 : serverWallet.address;
+                    console.log("\n[approve] Wallet1 → puller allowance:");
+                    if (run.puller === "multicall3") {
+                        console.warn("  ⚠ Multicall3 is public: this exact approval is spendable by anyone until the pull consumes it");
+                    }
+                    await ensureAllowance("Wallet1→puller", token, userWallet, pullerAddress, amount, {
+                        policies: ctx.approvals,
+                        txs: ctx.txs,
+                        onSent: record("approve"),
+                    });
+                    step("approved");
+                    break;
+                }
+                case "approved":
+                    console.log(`\n[pull] ${token.symbol} Wallet1 → Wallet2 via ${run.puller}...`);
+                    await pull(ctx, amount, record("pull"));
+                    step("pulled");
+                    break;
+                case "pulled":
+                    console.log("\n[vault-approve] Wallet2 → Vault allowance:");
+                    await ensureAllowance("Wallet2→Vault", token, serverWallet, run.vault, amount, {
+                        policies: ctx.approvals,
+                        txs: ctx.txs,
+                        onSent: record("vaultApprove"),
+                    });
+                    step("vault-approved");
+                    break;
+                case "vault-approved":
+                    await deposit(ctx, amount, record("deposit"));
+                    step("deposited");
+                    break;
+                case "deposited":
+                    // settleMined confirms from the receipt; still here means no Deposit event matched.
+                    throw new CliError(`run ${run.id}: ${run.error}`, EXIT.FAILURE);
+                case "refunded":
+                    throw new CliError(`run ${run.id} was refunded to Wallet1 (${run.txs.refund})`, EXIT.PRECONDITION);
+            }
+        }
+    } catch (err: any) {
+        run.error = err?.message ?? String(err);
+        run.updatedAt = new Date().toISOString();
+        save();
+        console.error(`\nRun ${run.id} stopped at step "${run.step}". Continue with: pull-and-deposit resume --run-id ${run.id}`);
+        throw err;
+    }
+
+    if (run.discrepancies) {
+        for (const d of run.discrepancies) console.warn(`  ⚠ ${d.kind} discrepancy: ${d.detail}`);
+        throw new CliError(`run ${run.id} confirmed, but credited differently than requested`, EXIT.DISCREPANCY);
+    }
+    const credited = run.credit === "user" ? run.userWallet : run.serverWallet;
+    console.log(`\n✅ DONE — run ${run.id} confirmed`);
+    console.log(`   ${token.symbol} paid by Wallet1 : ${run.userWallet}`);
+    console.log(`   Aster credits         : ${credited} (${ethers.formatUnits(run.credited ?? run.amount, token.decimals)} ${token.symbol})`);
+    return { txHash: run.txs.deposit, dryRun: false };
+}
+
+/** Every step of a new run in one pass, written to the export file (see the header). */
+async function exportRun(ctx: RunContext): Promise<FlowResult> {
+    const { run, network, userWallet, serverWallet, token } = ctx;
+    const amount = BigInt(run.amount);
+    const pullerAddress = run.puller === "multicall3" ? network.multicall3 : serverWallet.address;
+
+    console.log("\n[approve] Wallet1 → puller allowance:");
+    if (run.puller === "multicall3") {
+        console.warn("  ⚠ Multicall3 is public: this exact approval is spendable by anyone until the pull consumes it");
+    }
+    await ensureAllowance("Wallet1→puller", token, userWallet, pullerAddress, amount, { policies: ctx.approvals, txs: ctx.txs });
+    console.log(`\n[pull] ${token.symbol} Wallet1 → Wallet2 via ${run.puller}...`);
+    await pull(ctx, amount);
+    console.log("\n[vault-approve] Wallet2 → Vault allowance:");
+    await ensureAllowance("Wallet2→Vault", token, serverWallet, run.vault, amount, { policies: ctx.approvals, txs: ctx.txs });
+    await deposit(ctx, amount);
+    return exportedResult(serverWallet as ExportSigner);
+}
+
+async function pull(ctx: RunContext, amount: bigint, onSent?: (hash: string) => void): Promise<void> {
+    const { run, network, userWallet, serverWallet, token } = ctx;
+
+    if (run.puller === "server") {
+        const signed = token.contract.connect(serverWallet) as ethers.Contract;
+        await simulate("transferFrom", () => signed.transferFrom.staticCall(userWallet.address, serverWallet.address, amount), serverWallet);
+        await sendOrExport(
+            "transferFrom",
+            serverWallet,
+            signed.transferFrom.populateTransaction(userWallet.address, serverWallet.address, amount),
+            ctx.txs,
+            onSent
+        );
+        return;
+    }
+
+    const pullCalls = [
+        {
+            target: token.address,
+            allowFailure: false,
+            callData: token.contract.interface.encodeFunctionData("transferFrom", [
+                userWallet.address,
+                serverWallet.address,
+                amount,
+            ]),
+        },
+    ];
+    const multicall = new ethers.Contract(network.multicall3, MULTICALL3_ABI, serverWallet);
+
+    try {
+        await simulate("aggregate3 pull", () => multicall.aggregate3.staticCall(pullCalls), serverWallet);
+    } catch (err) {
+        // Multicall3 swallows the inner reason; re-run leniently to surface it.
+        for (const failure of await diagnoseAggregate3(multicall, pullCalls).catch(() => [])) {
+            console.error(`    call #${failure.index}: ${formatVaultError(failure.error)}`);
+        }
+        throw err;
+    }
+
+    const receipt = await sendOrExport("aggregate3 pull", serverWallet, multicall.aggregate3.populateTransaction(pullCalls), ctx.txs, onSent);
+    if (!receipt) return;
+
+    const left: bigint = await token.contract.allowance(userWallet.address, network.multicall3);
+    if (left > 0n) {
+        console.warn(
+            `  ⚠ Wallet1 still allows Multicall3 ${ethers.formatUnits(left, token.decimals)} ${token.symbol}; revoke it with allowances revoke`
+        );
+    }
+}
+
+async function deposit(ctx: RunContext, amount: bigint, onSent?: (hash: string) => void): Promise<void> {
+    const { run, vault, serverWallet } = ctx;
+    if (run.credit === "user") {
+        console.log(`\n[deposit] Wallet2 calls depositFor (crediting Wallet1: ${run.userWallet})...`);
+        await simulate("depositFor", () => vault.depositFor.staticCall(run.token, run.userWallet, amount, run.broker), serverWallet);
+        await sendOrExport(
+            "depositFor",
+            serverWallet,
+            vault.depositFor.populateTransaction(run.token, run.userWallet, amount, run.broker),
+            ctx.txs,
+            onSent
+        );
+    } else {
+        console.log(`\n[deposit] Wallet2 calls deposit (credited to Wallet2: ${run.serverWallet})...`);
+        await simulate("deposit", () => vault.deposit.staticCall(run.token, amount, run.broker), serverWallet);
+        await sendOrExport(
+            "deposit",
+            serverWallet,
+            vault.deposit.populateTransaction(run.token, amount, run.broker),
+            ctx.txs,
+            onSent
+        );
+    }
+}
+
+/** Checks for what is left of `run`: before the pull the tokens must be in Wallet1, after it in Wallet2. */
+function preflightChecks(run: PullRun, token: TokenInfo, vault: ethers.Contract, network: Network, gasTank: boolean): Check[] {
+    const provider = vault.runner!.provider!;
+    const amount = BigInt(run.amount);
+    const pulled = stepIndex(run.step) >= stepIndex("pulled");
+    const pullerAddress = run.puller === "multicall3" ? network.multicall3 : run.serverWallet;
+    const checks: Check[] = [
+        checkChainId(provider, network.chainId),
+        checkNotPaused(vault),
+        checkSupported(vault, run.token, token.symbol),
+    ];
+    if (run.credit === "user") checks.push(checkRole(vault, "DEPOSIT_ROLE", run.serverWallet, "Wallet2"));
+    if (pulled) {
+        checks.push(checkTokenBalance(token, run.serverWallet, amount, "Wallet2"));
+    } else {
+        const ownApproval = run.puller === "multicall3" && run.step === "approved" ? amount : 0n;
+        checks.push(
+            checkTokenBalance(token, run.userWallet, amount, "Wallet1"),
+            checkNoPublicAllowance(token, run.userWallet, network, ownApproval, "Wallet1"),
+            checkAllowance(token, run.userWallet, pullerAddress, amount, "Wallet1→puller"),
+            checkGasBalance(provider, { account: run.userWallet, label: "Wallet1", symbol: network.nativeSymbol, gasUnits: APPROVE_GAS })
+        );
+    }
+    checks.push(
+        checkAllowance(token, run.serverWallet, run.vault, amount, "Wallet2→Vault"),
+        checkGasBalance(provider, {
+            account: run.serverWallet,
+            label: "Wallet2",
+            symbol: network.nativeSymbol,
+            gasUnits: APPROVE_GAS + (pulled ? 0n : PULL_GAS) + SERVER_DEPOSIT_GAS,
+            shortfall: gasTank ? "warn" : "fail",
+        })
+    );
+    return checks;
+}
+
+/**
+ * Refill Wallet2 from the gas tank's funding wallet when it is below its floor
+ * (see gas/tank.ts). The daily cap may leave the tank short; the run only stops
+ * when what is left won't pay for this run's own txs.
+ */
+async function fillGasTank(tank: GasTank, serverWallet: Sender, txs: TxManager, dryRun: boolean): Promise<void> {
+    const status = await topUpGasTank(serverWallet.address, tank.funder, SERVER_RUN_GAS, tank.policy, txs, { dryRun });
+    if (!dryRun && status.balance + status.toppedUp < status.perDeposit) {
+        throw new CliError(
+            `Wallet2 holds ${ethers.formatEther(status.balance)}, less than one run's gas ` +
+                `(${ethers.formatEther(status.perDeposit)}), and the gas tank can't be topped up now`,
+            EXIT.PRECONDITION
+        );
+    }
+}
+
+// ─────────────────────────────────────────────
+// Refund
+// ─────────────────────────────────────────────
+
+/**
+ * Transfer the tokens of orphaned runs from Wallet2 back to the Wallet1 each
+ * was pulled from. Every refund hash is journaled on its run before the
+ * receipt arrives, so a rerun never refunds the same pull twice.
+ */
+export async function refundPullRuns(opts: PullRefundOptions): Promise<FlowResult> {
+    const { network, serverWallet } = opts;
+    const provider = serverWallet.provider!;
+    const journal = loadPullJournal(opts.journalFile, network.chainId);
+    const save = () => savePullJournal(opts.journalFile, journal);
+
+    let candidates: PullRun[];
+    if (opts.runId) {
+        const run = journal.runs[opts.runId];
+        if (!run) throw new CliError(`no run ${opts.runId} in ${opts.journalFile}`, EXIT.USAGE);
+        if (run.serverWallet.toLowerCase() !== serverWallet.address.toLowerCase()) {
+            throw new CliError(`run ${run.id} belongs to Wallet2 ${run.serverWallet}; load that key to refund it`, EXIT.CONFIG);
+        }
+        candidates = [run];
+    } else {
+        candidates = Object.values(journal.runs).filter(
+            (r) =>
+                !isFinished(r) &&
+                r.serverWallet.toLowerCase() === serverWallet.address.toLowerCase() &&
+                (!opts.user || r.userWallet.toLowerCase() === opts.user.toLowerCase())
+        );
+    }
+    for (const run of candidates) {
+        await settleMined(provider, run, undefined);
+    }
+    if (!opts.dryRun) save();
+
+    const refundable: PullRun[] = [];
+    for (const run of candidates) {
+        if (run.step === "refunded") {
+            console.log(`  ${run.id}: already refunded (${run.txs.refund})`);
+        } else if (run.txs.refund) {
+            console.warn(`⚠ ${run.id}: refund tx ${run.txs.refund} is still pending; rerun once it is mined`);
+        } else if (!isOrphaned(run)) {
+            if (opts.runId) console.log(`  ${run.id}: step "${run.step}", no pulled tokens to refund`);
+        } else if (run.txs.deposit) {
+            console.warn(`⚠ ${run.id}: deposit tx ${run.txs.deposit} is still pending; not refunding`);
+        } else {
+            refundable.push(run);
+        }
+    }
+    if (refundable.length === 0) {
+        console.log("✓ Nothing to refund");
+        return { dryRun: opts.dryRun };
+    }
+
+    // Per source wallet and token, so the operator sees who gets what back
+    const tokens = new Map<string, TokenInfo>();
+    const totals = new Map<string, bigint>();
+    const bySource = new Map<string, { user: string; token: string; total: bigint; runs: string[] }>();
+    for (const run of refundable) {
+        if (!tokens.has(run.token)) tokens.set(run.token, await readToken(run.token, serverWallet));
+        totals.set(run.token, (totals.get(run.token) ?? 0n) + BigInt(run.amount));
+        const key = `${run.userWallet.toLowerCase()}:${run.token.toLowerCase()}`;
+        const group = bySource.get(key) ?? { user: run.userWallet, token: run.token, total: 0n, runs: [] };
+        group.total += BigInt(run.amount);
+        group.runs.push(run.id);
+        bySource.set(key, group);
+    }
+    if (opts.json) {
+        console.log(
+            JSON.stringify(
+                [...bySource.values()].map((g) => ({ ...g, total: g.total.toString() })),
+                null,
+                2
+            )
+        );
+    } else {
+        console.log(`Refunds from Wallet2 ${serverWallet.address}:`);
+        for (const g of bySource.values()) {
+            const token = tokens.get(g.token)!;
+            console.log(`  → Wallet1 ${g.user}: ${ethers.formatUnits(g.total, token.decimals)} ${token.symbol} (${g.runs.join(", ")})`);
+        }
+    }
+
+    const checks: Check[] = [checkChainId(provider, network.chainId)];
+    for (const [address, total] of totals) {
+        checks.push(checkTokenBalance(tokens.get(address)!, serverWallet.address, total, "Wallet2"));
+    }
+    checks.push(
+        checkGasBalance(provider, {
+            account: serverWallet.address,
+            label: "Wallet2",
+            symbol: network.nativeSymbol,
+            gasUnits: REFUND_GAS * BigInt(refundable.length),
+        })
+    );
+    await runPreflight("refund", checks, { json: opts.json });
+
+    if (opts.dryRun) {
+        console.log(`[dry-run] ${refundable.length} refund(s) not sent.`);
+        return { dryRun: true };
+    }
+    await confirmOrAbort(`Send ${refundable.length} refund transfer(s) from Wallet2?`, opts.yes);
+
+    let last: ethers.TransactionReceipt | undefined;
+    for (const run of refundable) {
+        const token = tokens.get(run.token)!;
+        const signed = token.contract.connect(serverWallet) as ethers.Contract;
+        const amount = BigInt(run.amount);
+        console.log(`\n[refund] run ${run.id}: ${ethers.formatUnits(amount, token.decimals)} ${token.symbol} → ${run.userWallet}`);
+        try {
+            await simulate("refund transfer", () => signed.transfer.staticCall(run.userWallet, amount));
+            const transfer = signed.transfer.populateTransaction(run.userWallet, amount);
+            last = await sendOrExport("refund transfer", serverWallet, transfer, opts.txs, (hash) => {
+                run.txs.refund = hash;
+                run.updatedAt = new Date().toISOString();
+                save();
+            });
+        } catch (err: any) {
+            run.error = err?.message ?? String(err);
+            run.updatedAt = new Date().toISOString();
+            save();
+            throw err;
+        }
+        run.refunded = run.amount;
+        advance(run, "refunded");
+        save();
+        console.log(`  → run ${run.id}: refunded`);
+    }
+    console.log(`\n✅ ${refundable.length} run(s) refunded to Wallet1`);
+    return { txHash: last?.hash, blockNumber: last?.blockNumber, dryRun: false };
+}
+
+// ─────────────────────────────────────────────
+// Reconcile
+// ─────────────────────────────────────────────
+
+interface WalletCheck {
+    wallet: string;
+    token: string;
+    symbol: string;
+    /** Sum of orphaned pulls the journal says are sitting in `wallet`. */
+    expected: string;
+    balance: string;
+    short: boolean;
+}
+
+/**
+ * Settle every unfinished run against the chain (read-only), then compare the
+ * tokens the journal says are stranded in each Wallet2 with its real balance.
+ */
+export async function reconcilePullRuns(opts: PullReconcileOptions): Promise<FlowResult> {
+    const { provider, network } = opts;
+    const journal = loadPullJournal(opts.journalFile, network.chainId);
+    const open = Object.values(journal.runs).filter((r) => !isFinished(r));
+    for (const run of open) {
+        await settleMined(provider, run, undefined);
+    }
+    savePullJournal(opts.journalFile, journal);
+
+    const tokens = new Map<string, TokenInfo>();
+    const tokenFor = async (address: string) => {
+        if (!tokens.has(address)) tokens.set(address, await readToken(address, provider));
+        return tokens.get(address)!;
+    };
+
+    const unfinished = open.filter((r) => !isFinished(r));
+    const orphaned = unfinished.filter(isOrphaned);
+
+    const groups = new Map<string, { wallet: string; token: string; expected: bigint }>();
+    for (const run of orphaned) {
+        const key = `${run.serverWallet.toLowerCase()}:${run.token.toLowerCase()}`;
+        const group = groups.get(key) ?? { wallet: run.serverWallet, token: run.token, expected: 0n };
+        group.expected += BigInt(run.amount);
+        groups.set(key, group);
+    }
+    const wallets: WalletCheck[] = [];
+    for (const group of groups.values()) {
+        const token = await tokenFor(group.token);
+        const balance: bigint = await token.contract.balanceOf(group.wallet);
+        wallets.push({
+            wallet: group.wallet,
+            token: group.token,
+            symbol: token.symbol,
+            expected: ethers.formatUnits(group.expected, token.decimals),
+            balance: ethers.formatUnits(balance, token.decimals),
+            short: balance < group.expected,
+        });
+    }
+
+    if (opts.json) {
+        console.log(JSON.stringify({ unfinished, orphaned: orphaned.map((r) => r.id), wallets }, null, 2));
+    } else {
+        console.log(`Journal ${opts.journalFile}: ${Object.keys(journal.runs).length} runs, ${unfinished.length} unfinished`);
+        for (const run of unfinished) {
+            const token = await tokenFor(run.token);
+            console.log(
+                `  ${run.id}  ${run.step.padEnd(14)} ${ethers.formatUnits(run.amount, token.decimals)} ${token.symbol}  ` +
+                    `[${isOrphaned(run) ? "ORPHANED" : "not pulled"}] since ${run.updatedAt}${run.error ? ` — ${run.error}` : ""}`
+            );
+        }
+        for (const w of wallets) {
+            const verdict = w.short ? "✗ SHORT — tokens left Wallet2 outside the journal" : "✓ covered";
+            console.log(`  Wallet2 ${w.wallet}: journal expects ${w.expected} ${w.symbol} stranded, holds ${w.balance}  ${verdict}`);
+        }
+    }
+
+    if (wallets.some((w) => w.short)) {
+        throw new CliError("reconcile: a Wallet2 holds less than its orphaned pulls; investigate before resuming", EXIT.FAILURE);
+    }
+    if (orphaned.length) {
+        throw new CliError(
+            `reconcile: ${orphaned.length} orphaned pull(s); finish with pull-and-deposit resume --run-id <id>, ` +
+                `or send them back with pull-and-deposit refund (${orphaned.map((r) => r.id).join(", ")})`,
+            EXIT.PRECONDITION
+        );
+    }
+    console.log("✓ No orphaned pulls");
+    return { dryRun: false };
+}
@@ -0,0 +1,322 @@
+/**
+ * relay.ts
+ *
+ * Cross-chain deposit through Relay (https://relay.link): funds leave the origin
+ * chain and Relay's solver calls vault.depositFor(currency, beneficiary, amount,
+ * broker) on the destination chain, so `beneficiary` is credited on Aster.
+ *
+ *   1. quote   EXACT_OUTPUT of the destination token, with the depositFor call attached
+ *   2. send    sign + send the quote's origin transactions (e.g. ETH on Arbitrum)
+ *   3. track   poll Relay's status for the requestId and confirm the vault's
+ *              Deposit(beneficiary, currency, ..., amount) log on the destination
+ *              chain; refunds, failures and timeouts are reported, not waited on
+ *   4. credit  record what the Deposit credited in the credits ledger; less than
+ *              the quoted EXACT_OUTPUT amount is a discrepancy
+ *
+ * With --dry-run it stops after printing the quote. With --export the origin
+ * transactions go to the export file instead (step 2), and tracking is left to
+ * `relay-status --request-id` once the signed file has been broadcast.
+ */
+
+import { ethers } from "ethers";
+import { VAULT_ABI } from "../abis";
+import { CommonOptions } from "../config";
+import { findNetwork, Network } from "../constants";
+import { requireCleanCredit, settleCredit } from "../credits";
+import { CliError, EXIT } from "../exit_codes";
+import { ExportSigner } from "../offline/export";
+import { RelayClient } from "../relay/client";
+import { executeRelaySteps, exportRelaySteps, RelayExecutionError, totalGas, totalValue } from "../relay/execute";
+import { ExpectedDeposit, trackRelayRequest, TrackedRequest } from "../relay/tracker";
+import { buildDepositQuoteRequest } from "../relay/quote";
+import { RelayAmount, RelayQuoteResponse } from "../relay/types";
+import { createRpcProvider, RpcPoolOptions } from "../rpc/pool";
+import { TxManager } from "../tx/manager";
+import { waitForDeposit } from "../vault_events";
+import { checkChainId, checkGasBalance, checkNotPaused, checkSupported, runPreflight } from "./preflight";
+import { exportedResult, FlowResult, readToken, Sender, TokenInfo } from "./shared";
+
+export interface RelayOptions extends CommonOptions {
+    /** Aster account credited on the destination chain. */
+    beneficiary: string;
+    /** Contract Relay calls on the destination chain (the vault). */
+    destinationContract: string;
+    /** Origin payer. */
+    user: string;
+    originChainId: number;
+    /** Zero address = origin native coin. */
+    originCurrency: string;
+    relay: RelayClient;
+    /** Signs (or exports) the origin transactions; required unless dryRun. */
+    originWallet?: Sender;
+    /**
+     * Gas and lifecycle of the origin transactions (CommonOptions.txs is the
+     * destination chain's). Unset for an origin chain missing from the
+     * registry: its txs then go out with Relay's gas hints and the node's fees,
+     * are waited on without speed-ups, and can't be exported.
+     */
+    originTxs?: TxManager;
+    /** How long to wait for the destination Deposit log before flagging the request as stuck. */
+    timeoutMs: number;
+    pollMs?: number;
+}
+
+function formatAmount(a: RelayAmount | undefined): string {
+    if (!a) return "-";
+    return `${a.amountFormatted} ${a.currency.symbol}${a.amountUsd ? ` ($${a.amountUsd})` : ""}`;
+}
+
+export function printQuote(quote: RelayQuoteResponse): void {
+    console.log("\n--- Quote ---");
+    console.log(`In : ${formatAmount(quote.details?.currencyIn)}`);
+    console.log(`Out: ${formatAmount(quote.details?.currencyOut)}`);
+    console.log(`Fees: gas ${formatAmount(quote.fees.gas)}, relayer ${formatAmount(quote.fees.relayer)}`);
+    if (quote.details?.timeEstimate !== undefined) console.log(`ETA: ~${quote.details.timeEstimate}s`);
+    quote.steps.forEach((step, i) => {
+        console.log(`Step ${i + 1}: [${step.kind}] ${step.action} — ${step.description}`);
+        if (step.requestId) console.log(`  requestId: ${step.requestId}`);
+        for (const item of step.items) {
+            console.log(`  → chain ${item.data.chainId} to ${item.data.to} value ${item.data.value} (${item.status})`);
+        }
+    });
+}
+
+/** Resolve the destination amount and fetch the Relay quote for the deposit. */
+export async function quoteRelayDeposit(
+    opts: RelayOptions,
+    destination: ethers.Provider
+): Promise<{ quote: RelayQuoteResponse; amountWei: bigint; token: TokenInfo }> {
+    const token = await readToken(opts.currency, destination);
+    const amountWei = ethers.parseUnits(opts.amount, token.decimals);
+
+    console.log("--- Relay Deposit Setup ---");
+    console.log(`User: ${opts.user}`);
+    console.log(`Beneficiary: ${opts.beneficiary}`);
+    console.log(`From Chain: ${opts.originChainId} -> To Chain: ${opts.network.chainId}`);
+    console.log(`Credit: exactly ${opts.amount} ${token.symbol} (${amountWei} wei) on ${opts.destinationContract}, broker ${opts.broker}`);
+
+    const request = buildDepositQuoteRequest({
+        user: opts.user,
+        originChainId: opts.originChainId,
+        originCurrency: opts.originCurrency,
+        destinationChainId: opts.network.chainId,
+        destinationCurrency: opts.currency,
+        vault: opts.destinationContract,
+        beneficiary: opts.beneficiary,
+        amountWei,
+        broker: opts.broker,
+    });
+    const quote = await opts.relay.getQuote(request);
+    return { quote, amountWei, token };
+}
+
+export async function runRelay(opts: RelayOptions): Promise<FlowResult> {
+    const destination = createRpcProvider(opts.rpc);
+    const { quote, amountWei, token } = await quoteRelayDeposit(opts, destination);
+    printQuote(quote);
+
+    const wallet = opts.originWallet;
+    if (!opts.dryRun && !wallet) {
+        throw new CliError("relay: an origin wallet is required unless --dry-run", EXIT.CONFIG);
+    }
+    if (wallet && wallet.address.toLowerCase() !== opts.user.toLowerCase()) {
+        throw new CliError(`relay: quote was built for ${opts.user} but the origin wallet is ${wallet.address}`, EXIT.CONFIG);
+    }
+
+    // Destination vault must accept the deposit; origin wallet must cover the quoted value plus gas.
+    const vault = new ethers.Contract(opts.destinationContract, VAULT_ABI, destination);
+    const originSymbol = findNetwork(opts.originChainId)?.nativeSymbol ?? "native";
+    await runPreflight(
+        "relay",
+        [
+            checkChainId(destination, opts.network.chainId, "destination chain id"),
+            checkNotPaused(vault),
+            checkSupported(vault, opts.currency, quote.details?.currencyOut?.currency.symbol ?? opts.currency),
+            ...(wallet
+                ? [
+                      checkChainId(wallet.provider!, opts.originChainId, "origin chain id"),
+                      checkGasBalance(wallet.provider!, {
+                          account: wallet.address,
+                          label: "Origin wallet",
+                          symbol: originSymbol,
+                          gasUnits: totalGas(quote, opts.originChainId),
+                          value: totalValue(quote, opts.originChainId),
+                      }),
+                  ]
+                : []),
+        ],
+        { json: opts.json }
+    );
+
+    if (opts.dryRun) {
+        console.log("\n[dry-run] Quote only; nothing sent.");
+        return { dryRun: true };
+    }
+
+    const requestId = quote.steps.find((s) => s.requestId)?.requestId;
+    if (wallet instanceof ExportSigner) {
+        if (!opts.originTxs) {
+            throw new CliError(`chain ${opts.originChainId} has no gas profile in the registry; its txs can't be exported`, EXIT.USAGE);
+        }
+        console.log("\n--- Exporting origin transactions ---");
+        try {
+            await exportRelaySteps(quote, wallet, opts.originTxs);
+        } catch (err: any) {
+            if (err instanceof RelayExecutionError) throw new CliError(`relay: ${err.message}`, EXIT.REVERTED);
+            throw err;
+        }
+        // Relay quotes expire; a bundle broadcast much later may no longer be filled.
+        console.log(`  Relay requestId: ${requestId ?? "(none in quote)"}; broadcast before the quote expires`);
+        if (requestId) console.log(`  After broadcast: relay-status --request-id ${requestId} --beneficiary ${opts.beneficiary} --currency ${opts.currency}`);
+        return exportedResult(wallet);
+    }
+
+    // Remember where the destination chain is before we send, so we only
+    // accept a Deposit log that happened after our origin tx.
+    const fromBlock = await destination.getBlockNumber();
+
+    console.log("\n--- Sending origin transactions ---");
+    let executed;
+    try {
+        // The tx manager prints its own hashes; a bare send is announced here.
+        const announce = opts.originTxs ? undefined : (stepId: string, hash: string) => console.log(`  ${stepId} tx: ${hash}`);
+        executed = await executeRelaySteps(quote, wallet!, opts.originTxs, opts.timeoutMs, announce);
+    } catch (err: any) {
+        if (err instanceof RelayExecutionError && err.pending) {
+            // Sending again would pay Relay twice once this one is mined.
+            throw new CliError(
+                `relay: ${err.message} (${err.txHash}); don't send it again: watch its receipt on chain ${opts.originChainId}` +
+                    (opts.originTxs ? `, or tx speed-up / tx cancel --hash ${err.txHash} --chain ${opts.originChainId}` : "") +
+                    (requestId ? `, then relay-status --request-id ${requestId}` : ""),
+                EXIT.FAILURE
+            );
+        }
+        if (err instanceof RelayExecutionError) {
+            throw new CliError(`relay: ${err.message}${err.txHash ? ` (${err.txHash})` : ""}`, EXIT.REVERTED);
+        }
+        throw err;
+    }
+    const last = executed[executed.length - 1];
+    console.log(`  ✓ origin confirmed${last ? ` in block ${last.blockNumber}` : ""}`);
+
+    const expected: ExpectedDeposit = {
+        vault: opts.destinationContract,
+        account: opts.beneficiary,
+        currency: opts.currency,
+        amount: amountWei,
+    };
+    // The solver is paid for EXACT_OUTPUT: anything less credited is a discrepancy.
+    const credit = (receipt: ethers.TransactionReceipt) =>
+        settleCredit(
+            receipt,
+            { flow: "relay", account: opts.beneficiary, currency: opts.currency, amount: amountWei, match: "atLeast" },
+            { network: { ...opts.network, vault: opts.destinationContract }, dataDir: opts.dataDir, token }
+        );
+    if (!requestId) {
+        // No requestId to track; fall back to watching the vault directly.
+        console.log(`\n--- Waiting for Deposit on chain ${opts.network.chainId} (from block ${fromBlock}) ---`);
+        const deposit = await waitForDeposit(
+            destination,
+            { vault: expected.vault, account: expected.account, currency: expected.currency, broker: opts.broker, fromBlock },
+            { timeoutMs: opts.timeoutMs, pollMs: opts.pollMs }
+        );
+        if (!deposit) {
+            throw new CliError(`relay: no Deposit for ${opts.beneficiary} after ${Math.round(opts.timeoutMs / 1000)}s`, EXIT.FAILURE);
+        }
+        const record = credit((await destination.getTransactionReceipt(deposit.txHash))!);
+        requireCleanCredit(record);
+        return { txHash: deposit.txHash, blockNumber: deposit.blockNumber, credited: record.credited, dryRun: false };
+    }
+
+    console.log(`\n--- Tracking Relay request ${requestId} ---`);
+    const tracked = await trackRelayRequest(opts.relay, requestId, {
+        destination,
+        expected,
+        timeoutMs: opts.timeoutMs,
+        pollMs: opts.pollMs,
+        onUpdate: logTrackUpdate,
+    });
+    const receipt = requireConfirmed(tracked);
+    const record = credit(receipt);
+    requireCleanCredit(record);
+    return { txHash: receipt.hash, blockNumber: receipt.blockNumber, credited: record.credited, dryRun: false };
+}
+
+function logTrackUpdate(state: TrackedRequest): void {
+    const elapsed = Math.round((state.updatedAt - state.startedAt) / 1000);
+    console.log(`  [${elapsed}s] status=${state.status}${state.outcome ? ` outcome=${state.outcome}` : ""}`);
+    if (state.outcome) {
+        if (state.originTxHashes.length) console.log(`  origin txs     : ${state.originTxHashes.join(", ")}`);
+        if (state.destinationTxHashes.length) console.log(`  destination txs: ${state.destinationTxHashes.join(", ")}`);
+        if (state.details) console.log(`  details: ${state.details}`);
+    }
+}
+
+/** The receipt of the fill's Deposit; a CliError naming the requestId for any outcome other than "confirmed". */
+function requireConfirmed(tracked: TrackedRequest): ethers.TransactionReceipt {
+    switch (tracked.outcome) {
+        case "confirmed":
+            return tracked.receipt!;
+        case "refunded":
+            throw new CliError(`relay: request ${tracked.requestId} was REFUNDED; nothing was credited on Aster`, EXIT.REVERTED);
+        case "failed":
+            throw new CliError(`relay: request ${tracked.requestId} FAILED${tracked.details ? `: ${tracked.details}` : ""}`, EXIT.REVERTED);
+        case "filled-without-deposit":
+            throw new CliError(
+                `relay: request ${tracked.requestId} was filled but no matching Deposit log was found — check the destination txs`,
+                EXIT.FAILURE
+            );
+        default:
+            throw new CliError(
+                `relay: request ${tracked.requestId} is STUCK (status ${tracked.status} after ${Math.round((tracked.updatedAt - tracked.startedAt) / 1000)}s)`,
+                EXIT.FAILURE
+            );
+    }
+}
+
+export interface RelayStatusOptions {
+    /** Destination chain. */
+    network: Network;
+    relay: RelayClient;
+    requestId: string;
+    /** Destination chain RPC endpoints. */
+    rpc: RpcPoolOptions;
+    expected: Omit<ExpectedDeposit, "amount">;
+    /** Human amount expected to be credited; omit to accept any. */
+    amount?: string;
+    timeoutMs: number;
+    pollMs?: number;
+    /** Where the credits ledger lives. */
+    dataDir: string;
+}
+
+/** Track an already-sent Relay request by id (e.g. the requestId in an error payload). */
+export async function runRelayStatus(opts: RelayStatusOptions): Promise<FlowResult> {
+    const destination = createRpcProvider(opts.rpc);
+    const expected: ExpectedDeposit = { ...opts.expected };
+    const token = await readToken(opts.expected.currency, destination);
+    if (opts.amount !== undefined) expected.amount = ethers.parseUnits(opts.amount, token.decimals);
+    console.log(`--- Tracking Relay request ${opts.requestId} ---`);
+    const tracked = await trackRelayRequest(opts.relay, opts.requestId, {
+        destination,
+        expected,
+        timeoutMs: opts.timeoutMs,
+        pollMs: opts.pollMs,
+        onUpdate: logTrackUpdate,
+    });
+    const receipt = requireConfirmed(tracked);
+    // Without --amount, whatever the Deposit credited is what was asked for.
+    const record = settleCredit(
+        receipt,
+        {
+            flow: "relay",
+            account: expected.account,
+            currency: expected.currency,
+            amount: expected.amount ?? tracked.deposit!.amount,
+            match: "atLeast",
+        },
+        { network: { ...opts.network, vault: expected.vault }, dataDir: opts.dataDir, token }
+    );
+    requireCleanCredit(record);
+    return { txHash: receipt.hash, blockNumber: receipt.blockNumber, credited: record.credited, dryRun: false };
+}
@@ -0,0 +1,90 @@
+/**
+ * rpc_health.ts
+ *
+ * `rpc health`  probe every configured RPC endpoint on its own: chain id, head
+ *               block and latency. An endpoint on the wrong chain or far behind
+ *               the others is reported, and the command fails when no endpoint
+ *               is usable.
+ */
+
+import { Network } from "../constants";
+import { CliError, EXIT } from "../exit_codes";
+import { RpcPool, RpcPoolOptions } from "../rpc/pool";
+import { FlowResult } from "./shared";
+
+export interface RpcHealthOptions {
+    network: Network;
+    rpc: RpcPoolOptions;
+    /** Blocks behind the best endpoint before one counts as lagging. */
+    maxLag: number;
+    json: boolean;
+}
+
+export interface EndpointProbe {
+    url: string;
+    status: "ok" | "lagging" | "wrong-chain" | "down";
+    chainId?: number;
+    block?: number;
+    lag?: number;
+    latencyMs?: number;
+    error?: string;
+}
+
+const STATUS_ICONS: Record<EndpointProbe["status"], string> = { ok: "✓", lagging: "!", "wrong-chain": "✗", down: "✗" };
+
+export async function runRpcHealth(opts: RpcHealthOptions): Promise<FlowResult> {
+    const probes = await probeEndpoints(opts.rpc, opts.maxLag);
+
+    if (opts.json) {
+        console.log(JSON.stringify({ chainId: opts.network.chainId, endpoints: probes }, null, 2));
+    } else {
+        console.log(`RPC endpoints for ${opts.network.name} (chain ${opts.network.chainId}):`);
+        for (const p of probes) {
+            const detail =
+                p.status === "down"
+                    ? p.error
+                    : p.status === "wrong-chain"
+                      ? `serves chain ${p.chainId}`
+                      : `block ${p.block} (${p.lag === 0 ? "head" : `${p.lag} behind`}), ${p.latencyMs} ms`;
+            console.log(`  ${STATUS_ICONS[p.status]} ${p.status.padEnd(11)} ${p.url}  ${detail}`);
+        }
+    }
+
+    const usable = probes.filter((p) => p.status === "ok");
+    if (usable.length === 0) {
+        throw new CliError(`no usable RPC endpoint for ${opts.network.name}`, EXIT.FAILURE);
+    }
+    if (usable.length < (opts.rpc.quorum ?? 1)) {
+        throw new CliError(`only ${usable.length} usable RPC endpoint(s); --rpc-quorum needs ${opts.rpc.quorum}`, EXIT.CONFIG);
+    }
+    return { dryRun: true };
+}
+
+/** Every endpoint of `rpc`, each on its own; those more than `maxLag` blocks behind the best count as lagging. */
+export async function probeEndpoints(rpc: RpcPoolOptions, maxLag: number): Promise<EndpointProbe[]> {
+    const probes = await Promise.all(rpc.urls.map((url) => probe(url, rpc)));
+    const best = Math.max(0, ...probes.filter((p) => p.status === "ok").map((p) => p.block!));
+    for (const p of probes) {
+        if (p.status !== "ok") continue;
+        p.lag = best - p.block!;
+        if (p.lag > maxLag) p.status = "lagging";
+    }
+    return probes;
+}
+
+/** One endpoint, no retries: what a flow would see from it right now. */
+async function probe(url: string, rpc: RpcPoolOptions): Promise<EndpointProbe> {
+    const pool = new RpcPool({ ...rpc, urls: [url], quorum: 1, retries: 0 });
+    try {
+        const started = Date.now();
+        const chainId = Number(await pool.send("eth_chainId", []));
+        const latencyMs = Date.now() - started;
+        if (chainId !== rpc.chainId) return { url, status: "wrong-chain", chainId };
+        return { url, status: "ok", chainId, block: await pool.getBlockNumber(), latencyMs };
+    } catch (err: any) {
+        const error = pool.health()[0].lastError ?? err?.message ?? String(err);
+        return { url, status: "down", error: error.replace(`${url}: `, "") };
+    } finally {
+        pool.destroy();
+    }
+}
@@ -0,0 +1,36 @@
+/**
+ * service.ts
+ *
+ * `serve`  run the HTTP deposit service (service/server.ts) until Ctrl-C /
+ *          SIGTERM, then stop accepting and let the deposit running on each
+ *          chain finish; queued ones run on the next start.
+ */
+
+import { DepositServiceOptions, startDepositService } from "../service/server";
+import { FlowResult } from "./shared";
+
+export async function runDepositService(opts: DepositServiceOptions): Promise<FlowResult> {
+    const service = await startDepositService(opts);
+    const modes = [
+        ...(opts.chains.some((c) => c.wallet) ? ["deposit", "depositFor"] : []),
+        ...(opts.chains.some((c) => c.wallet && c.serverWallet) ? ["pull-and-deposit"] : []),
+        ...(opts.relay ? ["relay"] : []),
+    ];
+    console.log(`Deposit service listening on ${service.url}`);
+    for (const chain of opts.chains) {
+        console.log(`  ${chain.network.name} (chain ${chain.network.chainId}): Wallet1 ${chain.wallet?.address ?? "-"}, Wallet2 ${chain.serverWallet?.address ?? "-"}`);
+    }
+    if (opts.relay) console.log(`  relay from chain ${opts.relay.originChainId} via ${opts.relay.client.baseUrl}, paid by ${opts.relay.wallet.address}`);
+    console.log(`  modes: ${modes.join(", ")}; records in ${opts.dataDir}`);
+    if (opts.apiToken) console.log("  /deposits requires the API token (Authorization: Bearer <token>)");
+    else console.warn("  ⚠ no API token: any local process can ask for deposits from these wallets");
+
+    await new Promise<void>((resolve) => {
+        process.once("SIGINT", resolve);
+        process.once("SIGTERM", resolve);
+    });
+    console.log("\nStopping: no new deposits; waiting for the running ones...");
+    await service.close();
+    console.log("Stopped.");
+    return { dryRun: false };
+}
@@ -0,0 +1,208 @@
+/**
+ * shared.ts
+ *
+ * Building blocks every deposit flow uses: token metadata, simulate-before-send
+ * and sending through the tx manager (approvals live in allowances/approvals.ts). All of them
+ * log the same way the original scripts did, and turn failures into CliErrors
+ * with an exit code.
+ */
+
+import { ethers } from "ethers";
+import * as readline from "readline/promises";
+import { ERC20_ABI } from "../abis";
+import { NATIVE_ADDRESS } from "../constants";
+import { CliError, EXIT } from "../exit_codes";
+import { withGas } from "../gas/strategy";
+import { ExportSigner } from "../offline/export";
+import { ManagedTx, TxManager } from "../tx/manager";
+import { decodeVaultError, formatVaultError } from "../vault_errors";
+
+export interface FlowResult {
+    /** Hash of the final (deposit) transaction; undefined on dry-run. */
+    txHash?: string;
+    blockNumber?: number;
+    /** Wei the vault's Deposit event credited, when the flow read it back. */
+    credited?: string;
+    dryRun: boolean;
+    /** Unsigned tx file the flow wrote instead of sending (--export). */
+    exported?: string;
+}
+
+/**
+ * Who a flow sends from: any signer that knows its address up front (keystore,
+ * mnemonic, remote signer), or an ExportSigner whose txs are written out for
+ * offline signing.
+ */
+export type Sender = ethers.AbstractSigner & { readonly address: string };
+
+/** Pre-flight gas budget of deposit / depositFor / depositNative; the limit sent comes from the gas strategy. */
+export const DEPOSIT_GAS = 250000n;
+
+export interface TokenInfo {
+    address: string;
+    contract: ethers.Contract;
+    decimals: number;
+    symbol: string;
+}
+
+export async function readToken(address: string, runner: ethers.ContractRunner): Promise<TokenInfo> {
+    const contract = new ethers.Contract(address, ERC20_ABI, runner);
+    const [decimals, symbol] = await Promise.all([
+        contract.decimals(),
+        contract.symbol().catch(() => "TOKEN"),
+    ]);
+    return { address, contract, decimals: Number(decimals), symbol };
+}
+
+/**
+ * Run a staticCall; on revert, throw a CliError carrying the decoded vault error.
+ * For an exporting sender with txs already queued (an approval, a pull) a revert
+ * is only a warning: the state the call needs won't exist until those are
+ * mined, and `offline broadcast` simulates each tx again before sending it.
+ */
+export async function simulate<T>(label: string, call: () => Promise<T>, sender?: Sender): Promise<T | undefined> {
+    try {
+        const result = await call();
+        console.log(`  ✓ ${label} simulation passed`);
+        return result;
+    } catch (err: any) {
+        const decoded = decodeVaultError(err);
+        if (sender instanceof ExportSigner && sender.queued > 0) {
+            console.warn(`  ⚠ ${label} simulation reverted (${decoded.code}) before the ${sender.queued} exported tx(s) ahead of it are mined; checked again at broadcast`);
+            return undefined;
+        }
+        console.error(`  ✗ ${label} simulation FAILED: ${formatVaultError(decoded)}`);
+        throw new CliError(`${label} simulation failed: ${decoded.code}`, EXIT.REVERTED, decoded);
+    }
+}
+
+/**
+ * Send a populated tx through the tx manager (nonce, gas limit and fees, fee
+ * bumps while it is pending) and wait for it to be final; throw unless it was
+ * confirmed. `onSent` sees every hash broadcast for it, then the mined one, so
+ * callers journaling the latest hash end up with the one that counts. An
+ * exporting sender appends the tx to the export file instead and undefined
+ * comes back: nothing was mined, so the caller stops.
+ */
+export async function sendOrExport(
+    label: string,
+    sender: Sender,
+    tx: ethers.TransactionRequest | Promise<ethers.TransactionRequest>,
+    txs: TxManager,
+    onSent?: (hash: string) => void
+): Promise<ethers.TransactionReceipt | undefined> {
+    if (sender instanceof ExportSigner) {
+        await sender.exportTx(label, await withGas(label, sender, await tx, txs.gas));
+        return undefined;
+    }
+    return confirmedReceipt(await txs.send(label, sender, await tx, onSent));
+}
+
+/** The receipt of a tx that ended confirmed; a CliError saying how it ended otherwise. */
+export function confirmedReceipt(sent: ManagedTx): ethers.TransactionReceipt {
+    const { label, nonce } = sent;
+    const hashes = sent.attempts.map((a) => a.hash).join(", ");
+    switch (sent.status) {
+        case "confirmed":
+            console.log(`  ✓ ${label} confirmed in block ${sent.receipt!.blockNumber}`);
+            return sent.receipt!;
+        case "reverted":
+            throw new CliError(`${label} reverted on-chain (${sent.hash})`, EXIT.REVERTED);
+        case "cancelled":
+            throw new CliError(`${label} was cancelled (${sent.hash} took nonce ${nonce})`, EXIT.FAILURE);
+        case "replaced":
+            throw new CliError(`${label} was replaced: nonce ${nonce} went to a tx other than ${hashes}`, EXIT.FAILURE);
+        case "dropped":
+            throw new CliError(`${label} was dropped from the mempool (${hashes}); nothing was mined at nonce ${nonce}`, EXIT.FAILURE);
+        case "timeout":
+            // Sending again would not pick this tx up: it would sign a new one
+            // at the next nonce and pay twice once this one is mined.
+            if (sent.receipt) {
+                throw new CliError(
+                    `${label} mined in block ${sent.receipt.blockNumber} (${sent.hash}) but not yet confirmed deep enough; ` +
+                        `don't send it again, watch the receipt of ${sent.hash}`,
+                    EXIT.FAILURE
+                );
+            }
+            const latest = sent.attempts[sent.attempts.length - 1].hash;
+            throw new CliError(
+                `${label} still pending at nonce ${nonce} (${hashes}); don't send it again: watch the receipt of ${latest}, ` +
+                    `or tx speed-up --hash ${latest} / tx cancel --hash ${latest}`,
+                EXIT.FAILURE
+            );
+    }
+}
+
+/** Write the export file of a flow that is done exporting, and say what comes next. */
+export function exportedResult(sender: ExportSigner): FlowResult {
+    const { file, bundle } = sender.txExport;
+    if (bundle.txs.length === 0) {
+        console.log("\nNothing to export: no tx is needed.");
+        return { dryRun: false };
+    }
+    sender.txExport.save();
+    console.log(`\n⤓ ${bundle.txs.length} unsigned tx(s) written to ${file}; nothing was sent.`);
+    console.log(`  Next: offline sign --file ${file} --keystore <keystore.json> on the signing machine,`);
+    console.log(`        then offline broadcast --file <signed file> from a networked one.`);
+    return { dryRun: false, exported: file };
+}
+
+export type TxOutcome =
+    | { state: "success" | "reverted"; receipt: ethers.TransactionReceipt }
+    | { state: "pending" | "missing" };
+
+/** Where a previously sent tx stands: mined (either way), still in the mempool, or unknown to the node. */
+export async function txOutcome(provider: ethers.Provider, hash: string): Promise<TxOutcome> {
+    const receipt = await provider.getTransactionReceipt(hash);
+    if (receipt) return { state: receipt.status === 1 ? "success" : "reverted", receipt };
+    return (await provider.getTransaction(hash)) ? { state: "pending" } : { state: "missing" };
+}
+
+export function isNative(currency: string): boolean {
+    return currency.toLowerCase() === NATIVE_ADDRESS.toLowerCase();
+}
+
+/** `amount` reduced by `bps` basis points, rounded down. */
+export function applySlippage(amount: bigint, bps: number): bigint {
+    return (amount * BigInt(10_000 - bps)) / 10_000n;
+}
+
+/** Convert between token decimals without going through floats. */
+export function scaleDecimals(amount: bigint, from: number, to: number): bigint {
+    if (from === to) return amount;
+    return from < to ? amount * 10n ** BigInt(to - from) : amount / 10n ** BigInt(from - to);
+}
+
+/**
+ * depositUSDF and depositAsBNB revert LowerThanExpected(min, actual) when the
+ * mint comes out below `min`. Simulating with min = MaxUint256 therefore always
+ * reverts and hands back the exact amount the mint would produce right now.
+ * Undefined when the call reverts for any other reason.
+ */
+export async function probeMintedAmount(call: (min: bigint) => Promise<unknown>): Promise<bigint | undefined> {
+    try {
+        await call(ethers.MaxUint256);
+    } catch (err) {
+        const decoded = decodeVaultError(err);
+        if (decoded.code === "LowerThanExpected" && decoded.args?.expected === ethers.MaxUint256) {
+            return decoded.args.actual as bigint;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Ask the operator before sending something that can't be undone. `assumeYes`
+ * (--yes) skips the prompt; without a terminal to ask on, --yes is required.
+ */
+export async function confirmOrAbort(question: string, assumeYes: boolean): Promise<void> {
+    if (assumeYes) return;
+    if (!process.stdin.isTTY) {
+        throw new CliError(`${question} — no terminal to confirm on; rerun with --yes`, EXIT.USAGE);
+    }
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    const answer = await rl.question(`${question} [y/N] `).finally(() => rl.close());
+    if (!/^y(es)?$/i.test(answer.trim())) {
+        throw new CliError("Aborted by operator. Nothing was sent.", EXIT.PRECONDITION);
+    }
+}
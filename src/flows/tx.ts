@@ -0,0 +1,71 @@
+/**
+ * tx.ts
+ *
+ * `tx speed-up`  re-sign a pending tx of the --signer wallet with bumped fees
+ *                at the same nonce, and follow it until one version is final.
+ * `tx cancel`    replace it with a zero-value self-transfer at its nonce.
+ *
+ * Both take the pending tx by --hash (a flow's "still pending" error lists
+ * them) and report how it ended: the cancel counts as done when the
+ * self-transfer is mined, and as failed when the original got in first.
+ */
+
+import { ethers } from "ethers";
+import { explorerTxUrl, Network } from "../constants";
+import { CliError, EXIT, ExitCode } from "../exit_codes";
+import { ManagedTx, TxManager } from "../tx/manager";
+import { FlowResult } from "./shared";
+
+export interface TxReplaceOptions {
+    network: Network;
+    wallet: ethers.Signer;
+    hash: string;
+    txs: TxManager;
+    json: boolean;
+}
+
+export async function runTxSpeedUp(opts: TxReplaceOptions): Promise<FlowResult> {
+    const sent = await opts.txs.speedUp("tx", opts.wallet, opts.hash);
+    report(opts, sent);
+    if (sent.status !== "confirmed") {
+        throw new CliError(`nonce ${sent.nonce} ended ${sent.status}${sent.hash ? ` (${sent.hash})` : ""}`, exitFor(sent));
+    }
+    return { txHash: sent.hash, blockNumber: sent.receipt!.blockNumber, dryRun: false };
+}
+
+export async function runTxCancel(opts: TxReplaceOptions): Promise<FlowResult> {
+    const sent = await opts.txs.cancel("tx", opts.wallet, opts.hash);
+    report(opts, sent);
+    if (sent.status !== "cancelled") {
+        const why = sent.status === "confirmed" || sent.status === "reverted" ? `the original was mined first (${sent.hash})` : `it ended ${sent.status}`;
+        throw new CliError(`nonce ${sent.nonce} was not cancelled: ${why}`, EXIT.PRECONDITION);
+    }
+    return { txHash: sent.hash, blockNumber: sent.receipt!.blockNumber, dryRun: false };
+}
+
+function report(opts: TxReplaceOptions, sent: ManagedTx): void {
+    if (opts.json) {
+        console.log(
+            JSON.stringify(
+                {
+                    from: sent.from,
+                    nonce: sent.nonce,
+                    status: sent.status,
+                    hash: sent.hash,
+                    blockNumber: sent.receipt?.blockNumber,
+                    attempts: sent.attempts.map(({ hash, kind }) => ({ hash, kind })),
+                },
+                null,
+                2
+            )
+        );
+        return;
+    }
+    console.log(`\nNonce ${sent.nonce} of ${sent.from}: ${sent.status}`);
+    if (sent.hash) console.log(`  mined: ${explorerTxUrl(opts.network, sent.hash)} (block ${sent.receipt!.blockNumber})`);
+    for (const a of sent.attempts) console.log(`  ${a.kind.padEnd(8)} ${a.hash}`);
+}
+
+function exitFor(sent: ManagedTx): ExitCode {
+    return sent.status === "reverted" ? EXIT.REVERTED : EXIT.FAILURE;
+}
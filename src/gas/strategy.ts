@@ -0,0 +1,229 @@
+/**
+ * strategy.ts
+ *
+ * Gas for every tx the flows send: the limit is the node's estimate plus the
+ * profile's buffer, and fees follow the chain profile's model (legacy
+ * gasPrice, or EIP-1559 maxFeePerGas / maxPriorityFeePerGas). Before a tx goes
+ * out its expected cost is printed in native and, when a price is known, USD.
+ *
+ * A price per gas above the cap is never paid: the send waits for fees to come
+ * back under it (up to --fee-wait) or, with --on-high-fee abort, stops before
+ * anything is sent. On EIP-1559 chains the cap also bounds maxFeePerGas, so a
+ * base fee spike after sending can't push the tx over it either.
+ */
+
+import { ethers } from "ethers";
+import { PRICE_FEED_ABI } from "../abis";
+import { Network } from "../constants";
+import { CliError, EXIT } from "../exit_codes";
+import { ExportSigner } from "../offline/export";
+import { decodeVaultError, formatVaultError } from "../vault_errors";
+
+export type HighFeeAction = "wait" | "abort";
+
+export interface GasPolicy {
+    fees: "legacy" | "eip1559";
+    /** Cap on the price per gas, in wei. */
+    maxFee: bigint;
+    /** Fixed EIP-1559 tip, in wei; the node's suggestion when undefined. */
+    priorityFee?: bigint;
+    bufferPct: number;
+    onHighFee: HighFeeAction;
+    /** How long "wait" waits for fees under the cap before giving up. */
+    waitMs: number;
+    /** How often fees are re-read while waiting. */
+    pollMs: number;
+    nativeSymbol: string;
+    /** USD per native coin (--native-usd); otherwise read from `nativeUsdFeed`. */
+    nativeUsd?: number;
+    nativeUsdFeed?: string;
+}
+
+export interface GasPolicyInput {
+    /** --gas-buffer, percent. */
+    bufferPct?: string;
+    /** --max-fee, gwei. */
+    maxFeeGwei?: string;
+    /** --on-high-fee. */
+    onHighFee?: string;
+    /** --fee-wait, seconds. */
+    waitSeconds?: string;
+    /** --native-usd. */
+    nativeUsd?: string;
+}
+
+/** Gas limit for exported txs that can't be estimated before earlier ones are mined. */
+export const FALLBACK_GAS = 300000n;
+export const DEFAULT_FEE_WAIT_SECONDS = 300;
+const FEE_POLL_MS = 15_000;
+
+/** The network's gas profile, with the flags that override it applied. */
+export function parseGasPolicy(network: Network, input: GasPolicyInput = {}): GasPolicy {
+    const profile = network.gas;
+    const bufferPct = input.bufferPct ?? String(profile.bufferPct);
+    if (!/^\d+$/.test(bufferPct) || Number(bufferPct) > 500) {
+        throw new CliError(`--gas-buffer must be a whole percentage between 0 and 500, got "${bufferPct}"`, EXIT.USAGE);
+    }
+    const maxFeeGwei = input.maxFeeGwei ?? profile.maxFeeGwei;
+    if (!/^\d+(\.\d+)?$/.test(maxFeeGwei) || Number(maxFeeGwei) <= 0) {
+        throw new CliError(`--max-fee must be a positive number of gwei, got "${maxFeeGwei}"`, EXIT.USAGE);
+    }
+    const onHighFee = input.onHighFee ?? "wait";
+    if (onHighFee !== "wait" && onHighFee !== "abort") {
+        throw new CliError(`--on-high-fee must be "wait" or "abort", got "${onHighFee}"`, EXIT.USAGE);
+    }
+    const waitSeconds = input.waitSeconds ?? String(DEFAULT_FEE_WAIT_SECONDS);
+    if (!/^\d+$/.test(waitSeconds)) {
+        throw new CliError(`--fee-wait must be a whole number of seconds, got "${waitSeconds}"`, EXIT.USAGE);
+    }
+    if (input.nativeUsd !== undefined && !(/^\d+(\.\d+)?$/.test(input.nativeUsd) && Number(input.nativeUsd) > 0)) {
+        throw new CliError(`--native-usd must be a positive price, got "${input.nativeUsd}"`, EXIT.USAGE);
+    }
+    return {
+        fees: profile.fees,
+        maxFee: ethers.parseUnits(maxFeeGwei, "gwei"),
+        priorityFee: profile.priorityFeeGwei === undefined ? undefined : ethers.parseUnits(profile.priorityFeeGwei, "gwei"),
+        bufferPct: Number(bufferPct),
+        onHighFee,
+        waitMs: Number(waitSeconds) * 1000,
+        pollMs: FEE_POLL_MS,
+        nativeSymbol: network.nativeSymbol,
+        nativeUsd: input.nativeUsd === undefined ? undefined : Number(input.nativeUsd),
+        nativeUsdFeed: profile.nativeUsdFeed,
+    };
+}
+
+// ─────────────────────────────────────────────
+// Fees
+// ─────────────────────────────────────────────
+
+export type FeeQuote =
+    | { fees: "legacy"; gasPrice: bigint; expected: bigint }
+    | { fees: "eip1559"; maxFeePerGas: bigint; maxPriorityFeePerGas: bigint; expected: bigint };
+
+/**
+ * What a tx sent now would pay per gas. `expected` is what it is likely to
+ * cost (gasPrice, or base fee + tip); an EIP-1559 maxFeePerGas leaves room for
+ * two full blocks of base fee growth, but never more than the cap.
+ */
+export async function quoteFees(provider: ethers.Provider, policy: GasPolicy): Promise<FeeQuote> {
+    const feeData = await provider.getFeeData();
+    if (policy.fees === "legacy") {
+        if (feeData.gasPrice == null) throw new CliError("the RPC returned no gas price", EXIT.FAILURE);
+        return { fees: "legacy", gasPrice: feeData.gasPrice, expected: feeData.gasPrice };
+    }
+    const block = await provider.getBlock("latest");
+    const baseFee = block?.baseFeePerGas;
+    if (baseFee == null) {
+        throw new CliError("the chain profile says EIP-1559, but the latest block has no base fee", EXIT.CONFIG);
+    }
+    const wanted = policy.priorityFee ?? feeData.maxPriorityFeePerGas ?? 0n;
+    const headroom = baseFee * 2n + wanted;
+    const maxFeePerGas = headroom < policy.maxFee ? headroom : policy.maxFee;
+    // Nodes reject a tip above the max fee; under the cap the tip is what gives way.
+    const tip = wanted < maxFeePerGas ? wanted : maxFeePerGas;
+    const expected = baseFee + tip < maxFeePerGas ? baseFee + tip : maxFeePerGas;
+    return { fees: "eip1559", maxFeePerGas, maxPriorityFeePerGas: tip, expected };
+}
+
+/** Current fees, once they are under the cap; waits or aborts per the policy until then. */
+export async function feesUnderCap(label: string, provider: ethers.Provider, policy: GasPolicy): Promise<FeeQuote> {
+    const cap = gwei(policy.maxFee);
+    let quote = await quoteFees(provider, policy);
+    if (quote.expected <= policy.maxFee) return quote;
+    if (policy.onHighFee === "abort") {
+        throw new CliError(`${label}: gas at ${gwei(quote.expected)} gwei is above the ${cap} gwei cap (--max-fee); not sent`, EXIT.PRECONDITION);
+    }
+
+    console.warn(`  ⚠ ${label}: gas at ${gwei(quote.expected)} gwei is above the ${cap} gwei cap; waiting up to ${policy.waitMs / 1000}s`);
+    const deadline = Date.now() + policy.waitMs;
+    while (Date.now() < deadline) {
+        await new Promise((r) => setTimeout(r, Math.min(policy.pollMs, Math.max(deadline - Date.now(), 0))));
+        quote = await quoteFees(provider, policy);
+        if (quote.expected <= policy.maxFee) {
+            console.log(`  ✓ ${label}: gas back at ${gwei(quote.expected)} gwei`);
+            return quote;
+        }
+    }
+    throw new CliError(
+        `${label}: gas still at ${gwei(quote.expected)} gwei after ${policy.waitMs / 1000}s, above the ${cap} gwei cap; not sent`,
+        EXIT.PRECONDITION
+    );
+}
+
+// ─────────────────────────────────────────────
+// Limits and cost
+// ─────────────────────────────────────────────
+
+export function withBuffer(estimate: bigint, bufferPct: number): bigint {
+    return (estimate * BigInt(100 + bufferPct)) / 100n;
+}
+
+/**
+ * `tx` with its gas limit and fees filled in by the policy, after printing
+ * what it should cost. A gas limit already on `tx` (a Relay step's hint) is
+ * kept; fees always come from the policy. An exporting sender whose tx depends
+ * on earlier exported ones can't be estimated yet and gets FALLBACK_GAS.
+ */
+export async function withGas(
+    label: string,
+    sender: ethers.Signer,
+    tx: ethers.TransactionRequest,
+    policy: GasPolicy
+): Promise<ethers.TransactionRequest> {
+    const provider = sender.provider!;
+    let estimate: bigint | undefined;
+    let gasLimit = tx.gasLimit == null ? undefined : BigInt(tx.gasLimit);
+    if (gasLimit === undefined) {
+        try {
+            estimate = await sender.estimateGas(tx);
+            gasLimit = withBuffer(estimate, policy.bufferPct);
+        } catch (err) {
+            if (!(sender instanceof ExportSigner && sender.queued > 0)) {
+                const decoded = decodeVaultError(err);
+                throw new CliError(`${label} gas estimation failed: ${formatVaultError(decoded)}`, EXIT.REVERTED, decoded);
+            }
+            console.warn(`  ⚠ ${label}: can't estimate gas before the earlier exported tx(s) are mined; using ${FALLBACK_GAS}`);
+            gasLimit = FALLBACK_GAS;
+        }
+    }
+
+    const quote = await feesUnderCap(label, provider, policy);
+    const { fees: _, expected: __, ...feeFields } = quote;
+    const expectedCost = (estimate ?? gasLimit) * quote.expected;
+    const maxCost = gasLimit * (quote.fees === "legacy" ? quote.gasPrice : quote.maxFeePerGas);
+    const usd = await nativeUsdPrice(provider, policy);
+    console.log(
+        `  ⛽ ${label}: gas ${estimate === undefined ? `limit ${gasLimit}` : `${estimate} +${policy.bufferPct}% → limit ${gasLimit}`}` +
+            ` @ ${gwei(quote.expected)} gwei (${quote.fees}); ≈ ${formatCost(expectedCost, policy.nativeSymbol, usd)},` +
+            ` at most ${formatCost(maxCost, policy.nativeSymbol, usd)}`
+    );
+
+    // Drop whatever fee fields came in, so a legacy tx never carries EIP-1559 ones or vice versa.
+    const { gasPrice: _gp, maxFeePerGas: _mf, maxPriorityFeePerGas: _mp, type: _t, ...rest } = tx;
+    return { ...rest, ...feeFields, type: quote.fees === "legacy" ? 0 : 2, gasLimit };
+}
+
+/** "0.000123 BNB ($0.07)"; without a price, just the native amount. */
+export function formatCost(wei: bigint, symbol: string, usdPerNative?: number): string {
+    const native = `${ethers.formatEther(wei)} ${symbol}`;
+    if (usdPerNative === undefined) return native;
+    return `${native} ($${(Number(ethers.formatEther(wei)) * usdPerNative).toFixed(2)})`;
+}
+
+/** USD per native coin: --native-usd, else the profile's Chainlink feed; undefined when neither answers. */
+export async function nativeUsdPrice(provider: ethers.Provider, policy: GasPolicy): Promise<number | undefined> {
+    if (policy.nativeUsd !== undefined) return policy.nativeUsd;
+    if (!policy.nativeUsdFeed) return undefined;
+    try {
+        const feed = new ethers.Contract(policy.nativeUsdFeed, PRICE_FEED_ABI, provider);
+        const [decimals, round] = await Promise.all([feed.decimals(), feed.latestRoundData()]);
+        return Number(ethers.formatUnits(round.answer, decimals));
+    } catch {
+        return undefined;
+    }
+}
+
+function gwei(wei: bigint): string {
+    return ethers.formatUnits(wei, "gwei");
+}
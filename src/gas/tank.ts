@@ -0,0 +1,256 @@
+/**
+ * tank.ts
+ *
+ * The server wallet (Wallet2) as a gas tank, refilled from a designated
+ * funding wallet — never the user's. The tank's floor follows the chain's
+ * fees: one run's gas at today's price × the runs expected per day. Below the
+ * floor it is topped up to twice the floor, so it isn't refilled on every run.
+ *
+ * What the funder may send is capped per rolling 24 hours, and every funding
+ * tx is logged (<data-dir>/gas-tank-<chainId>.json) as soon as it is
+ * broadcast, then updated with how it ended; the cap is counted from that log. An alert is
+ * printed, logged and, with --alert-url, posted when the cap stops a top-up or
+ * the funder itself falls below its own floor.
+ */
+
+import axios from "axios";
+import { ethers } from "ethers";
+import * as path from "path";
+import { Network } from "../constants";
+import { CliError, EXIT } from "../exit_codes";
+import { readJson, writeJsonAtomic } from "../json_store";
+import { TxManager } from "../tx/manager";
+import { formatCost, quoteFees } from "./strategy";
+
+export interface GasTankPolicy {
+    /** Expected runs per day; the tank's floor is their gas. */
+    depositsPerDay: number;
+    /** Most the funder may send in any 24 hours, in wei. */
+    dailyCap: bigint;
+    /** Funder balance below which an alert is raised, in wei. */
+    funderMin: bigint;
+    /** Funding log; the daily cap is counted from it. */
+    logFile: string;
+    /** Webhook the alerts are POSTed to as {"text": ...} (Slack-style). */
+    alertUrl?: string;
+}
+
+/** A tank's funding wallet and limits, as flows take them. */
+export interface GasTank {
+    funder: ethers.Signer;
+    policy: GasTankPolicy;
+}
+
+export interface GasTankPolicyInput {
+    /** --tank-deposits. */
+    depositsPerDay?: string;
+    /** --tank-daily-cap, native. */
+    dailyCap?: string;
+    /** --funder-min, native. */
+    funderMin?: string;
+    /** --alert-url. */
+    alertUrl?: string;
+}
+
+export interface TankLogEntry {
+    kind: "funding" | "alert";
+    at: string;
+    tank: string;
+    funder: string;
+    /** funding: wei sent, as a decimal string. */
+    amount?: string;
+    txHash?: string;
+    status?: "sent" | "confirmed" | "failed";
+    message?: string;
+}
+
+interface TankLog {
+    chainId: number;
+    entries: TankLogEntry[];
+}
+
+export interface TankStatus {
+    tank: string;
+    funder: string;
+    balance: bigint;
+    /** One run's gas at today's fees. */
+    perDeposit: bigint;
+    floor: bigint;
+    target: bigint;
+    funderBalance: bigint;
+    /** Sent (or in flight) in the last 24 hours. */
+    sentToday: bigint;
+    capLeft: bigint;
+}
+
+export const DEFAULT_TANK_DEPOSITS = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function gasTankLogFile(dataDir: string, chainId: number): string {
+    return path.join(dataDir, `gas-tank-${chainId}.json`);
+}
+
+/** The network's tank profile, with the flags that override it applied. */
+export function parseGasTankPolicy(network: Network, logFile: string, input: GasTankPolicyInput = {}): GasTankPolicy {
+    const deposits = input.depositsPerDay ?? String(DEFAULT_TANK_DEPOSITS);
+    if (!/^\d+$/.test(deposits) || Number(deposits) < 1) {
+        throw new CliError(`--tank-deposits must be a whole number of at least 1, got "${deposits}"`, EXIT.USAGE);
+    }
+    const native = (flag: string, value: string): bigint => {
+        if (!/^\d+(\.\d+)?$/.test(value)) throw new CliError(`--${flag} must be an amount of ${network.nativeSymbol}, got "${value}"`, EXIT.USAGE);
+        return ethers.parseEther(value);
+    };
+    if (input.alertUrl !== undefined && !/^https?:\/\//.test(input.alertUrl)) {
+        throw new CliError(`--alert-url must be an http(s) URL, got "${input.alertUrl}"`, EXIT.USAGE);
+    }
+    return {
+        depositsPerDay: Number(deposits),
+        dailyCap: native("tank-daily-cap", input.dailyCap ?? network.gasTank.dailyCap),
+        funderMin: native("funder-min", input.funderMin ?? network.gasTank.funderMin),
+        logFile,
+        alertUrl: input.alertUrl,
+    };
+}
+
+/** Where the tank and its funder stand, priced at today's fees. */
+export async function gasTankStatus(
+    provider: ethers.Provider,
+    tank: string,
+    funder: string,
+    gasPerDeposit: bigint,
+    policy: GasTankPolicy,
+    txs: TxManager
+): Promise<TankStatus> {
+    const [balance, funderBalance, fees] = await Promise.all([
+        provider.getBalance(tank),
+        provider.getBalance(funder),
+        quoteFees(provider, txs.gas),
+    ]);
+    const perDeposit = gasPerDeposit * fees.expected;
+    const floor = perDeposit * BigInt(policy.depositsPerDay);
+    const sentToday = sentSince(readLog(policy.logFile), Date.now() - DAY_MS);
+    return {
+        tank,
+        funder,
+        balance,
+        perDeposit,
+        floor,
+        target: floor * 2n,
+        funderBalance,
+        sentToday,
+        capLeft: sentToday >= policy.dailyCap ? 0n : policy.dailyCap - sentToday,
+    };
+}
+
+/**
+ * Top `tank` up from `funder` when it is below its floor, within the daily
+ * cap. Returns the status it acted on; `toppedUp` is what was sent. A top-up
+ * the cap cuts short or blocks is an alert, not an error: the caller decides
+ * whether the balance left is enough for what it is about to do. A funder that
+ * can't pay is an error.
+ */
+export async function topUpGasTank(
+    tank: string,
+    funder: ethers.Signer,
+    gasPerDeposit: bigint,
+    policy: GasTankPolicy,
+    txs: TxManager,
+    opts: { dryRun?: boolean } = {}
+): Promise<TankStatus & { toppedUp: bigint }> {
+    const provider = funder.provider!;
+    const funderAddress = await funder.getAddress();
+    const { chainId } = await provider.getNetwork();
+    const symbol = txs.gas.nativeSymbol;
+    const fmt = (wei: bigint) => formatCost(wei, symbol);
+    const status = await gasTankStatus(provider, tank, funderAddress, gasPerDeposit, policy, txs);
+    // A dry run only prints its alerts.
+    const alert = (message: string) =>
+        opts.dryRun ? console.warn(`  🚨 ${message}`) : raiseAlert(policy, chainId, { tank, funder: funderAddress }, message);
+
+    console.log(
+        `\n⛽ Gas tank ${tank}: ${fmt(status.balance)}; floor ${fmt(status.floor)} ` +
+            `(${policy.depositsPerDay} runs × ${fmt(status.perDeposit)})`
+    );
+    let toppedUp = 0n;
+    if (status.balance >= status.floor) {
+        console.log("  ✓ above its floor; no top-up");
+    } else {
+        const wanted = status.target - status.balance;
+        const amount = wanted < status.capLeft ? wanted : status.capLeft;
+        if (amount < wanted) {
+            await alert(
+                `gas tank ${tank} needs ${fmt(wanted)} but only ${fmt(amount)} of the ${fmt(policy.dailyCap)} daily cap is left ` +
+                    `(${fmt(status.sentToday)} sent in the last 24h)`
+            );
+        }
+        if (amount > 0n && opts.dryRun) {
+            console.log(`  [dry-run] would send ${fmt(amount)} from funder ${funderAddress}`);
+        } else if (amount > 0n) {
+            if (status.funderBalance < amount) {
+                await alert(`funder ${funderAddress} holds ${fmt(status.funderBalance)}, can't top up ${fmt(amount)}`);
+                throw new CliError(`gas tank funder ${funderAddress} can't cover a ${fmt(amount)} top-up`, EXIT.PRECONDITION);
+            }
+            console.log(`  Topping up ${fmt(amount)} from funder ${funderAddress}...`);
+            const entry: TankLogEntry = { kind: "funding", at: new Date().toISOString(), tank, funder: funderAddress, amount: amount.toString() };
+            const save = () => {
+                const log = readLog(policy.logFile, Number(chainId));
+                const i = log.entries.findIndex((e) => e.at === entry.at && e.funder === entry.funder && e.kind === "funding");
+                if (i >= 0) log.entries[i] = entry;
+                else log.entries.push(entry);
+                writeJsonAtomic(policy.logFile, log);
+            };
+            const sent = await txs.send("gas tank top-up", funder, { to: tank, value: amount }, (hash) => {
+                entry.txHash = hash;
+                entry.status = "sent";
+                save();
+            });
+            entry.txHash = sent.hash ?? entry.txHash;
+            entry.status = sent.status === "confirmed" ? "confirmed" : sent.status === "timeout" ? "sent" : "failed";
+            save();
+            if (entry.status === "failed") {
+                throw new CliError(`gas tank top-up ended ${sent.status} (${entry.txHash})`, EXIT.FAILURE);
+            }
+            if (entry.status === "sent") {
+                throw new CliError(`gas tank top-up ${entry.txHash} is still pending; rerun once it is mined`, EXIT.FAILURE);
+            }
+            toppedUp = amount;
+            console.log(`  ✓ topped up; tank now ${fmt(status.balance + amount)}`);
+        }
+    }
+
+    const funderLeft = opts.dryRun ? status.funderBalance : await provider.getBalance(funderAddress);
+    if (funderLeft < policy.funderMin) {
+        await alert(`gas tank funder ${funderAddress} is low: ${fmt(funderLeft)}, below ${fmt(policy.funderMin)}`);
+    }
+    return { ...status, toppedUp };
+}
+
+/** Print, log and (with alertUrl) post an alert; a webhook that fails only warns. */
+async function raiseAlert(
+    policy: GasTankPolicy,
+    chainId: bigint,
+    who: { tank: string; funder: string },
+    message: string
+): Promise<void> {
+    console.warn(`  🚨 ${message}`);
+    const log = readLog(policy.logFile, Number(chainId));
+    log.entries.push({ kind: "alert", at: new Date().toISOString(), ...who, message });
+    writeJsonAtomic(policy.logFile, log);
+    if (!policy.alertUrl) return;
+    try {
+        await axios.post(policy.alertUrl, { text: `[chain ${chainId}] ${message}` }, { timeout: 10_000 });
+    } catch (err: any) {
+        console.warn(`  ⚠ alert webhook failed: ${err.message}`);
+    }
+}
+
+function readLog(file: string, chainId = 0): TankLog {
+    return readJson<TankLog>(file, { chainId, entries: [] });
+}
+
+/** Wei funded since `since` (ms), counting txs still in flight; failed ones sent nothing. */
+function sentSince(log: TankLog, since: number): bigint {
+    return log.entries
+        .filter((e) => e.kind === "funding" && e.status !== "failed" && Date.parse(e.at) >= since)
+        .reduce((sum, e) => sum + BigInt(e.amount ?? "0"), 0n);
+}
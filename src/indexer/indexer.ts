@@ -0,0 +1,183 @@
+/**
+ * indexer.ts
+ *
+ * Scans AstherusVault `Deposit`, `DepositFailed` and `ReceiveETH` logs into the
+ * local store (store.ts).
+ *
+ *   - resumable: the cursor is saved after every chunk, so a restart continues
+ *     where the last run stopped
+ *   - confirmation depth: only blocks at least `confirmations` deep are indexed
+ *   - reorgs: the hash of every chunk's last block is kept as a checkpoint; if
+ *     the chain no longer agrees with the newest checkpoint we walk back to the
+ *     newest one it does agree with and drop everything above it
+ */
+
+import { ethers } from "ethers";
+import { NATIVE_ADDRESS } from "../constants";
+import { VAULT_EVENTS } from "../vault_events";
+import { IndexedEvent, IndexerState, rollbackTo, saveStore, VaultEventName } from "./store";
+
+export interface IndexerOptions {
+    provider: ethers.Provider;
+    /** Store file path; state is saved there after each chunk. */
+    file: string;
+    state: IndexerState;
+    /** Blocks per getLogs call; halved automatically when the RPC refuses the range. */
+    chunkSize?: number;
+    confirmations?: number;
+    /** How many checkpoints to keep for reorg detection. */
+    maxCheckpoints?: number;
+    log?: (msg: string) => void;
+}
+
+export interface SyncResult {
+    fromBlock: number;
+    toBlock: number;
+    added: number;
+    /** Block we rolled back to, if a reorg was detected. */
+    rolledBackTo?: number;
+    removed: number;
+}
+
+const TOPICS = [["Deposit", "DepositFailed", "ReceiveETH"].map((name) => VAULT_EVENTS.getEvent(name)!.topicHash)];
+
+export function toIndexedEvent(log: ethers.Log): IndexedEvent | null {
+    let parsed: ethers.LogDescription | null;
+    try {
+        parsed = VAULT_EVENTS.parseLog(log);
+    } catch {
+        return null;
+    }
+    if (!parsed) return null;
+    const base = {
+        id: `${log.transactionHash}:${log.index}`,
+        event: parsed.name as VaultEventName,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        txHash: log.transactionHash,
+        logIndex: log.index,
+    };
+    switch (parsed.name) {
+        case "Deposit":
+            return {
+                ...base,
+                account: parsed.args.account,
+                currency: parsed.args.currency,
+                isNative: parsed.args.isNative,
+                amount: parsed.args.amount.toString(),
+                broker: parsed.args.broker.toString(),
+            };
+        case "DepositFailed":
+            return {
+                ...base,
+                account: parsed.args.account,
+                currency: parsed.args.currency,
+                isNative: parsed.args.isNative,
+                amount: parsed.args.amount.toString(),
+            };
+        case "ReceiveETH":
+            return {
+                ...base,
+                account: parsed.args.from,
+                currency: NATIVE_ADDRESS,
+                isNative: true,
+                amount: parsed.args.amount.toString(),
+            };
+        default:
+            return null;
+    }
+}
+
+/**
+ * Compare stored checkpoints with the chain, newest first. Returns the block to
+ * roll back to, or undefined when the newest checkpoint still matches.
+ */
+export async function detectReorg(provider: ethers.Provider, state: IndexerState): Promise<number | undefined> {
+    const numbers = Object.keys(state.checkpoints).map(Number).sort((a, b) => b - a);
+    for (let i = 0; i < numbers.length; i++) {
+        const block = await provider.getBlock(numbers[i]);
+        if (block?.hash === state.checkpoints[numbers[i]]) {
+            return i === 0 ? undefined : numbers[i];
+        }
+    }
+    // Nothing matches (or no checkpoints yet but a cursor): start over.
+    return numbers.length === 0 ? undefined : state.startBlock - 1;
+}
+
+/** getLogs over [from, to], splitting the range whenever the RPC refuses it. */
+export async function getLogsAdaptive(
+    provider: ethers.Provider,
+    filter: Pick<ethers.Filter, "address" | "topics">,
+    from: number,
+    to: number
+): Promise<ethers.Log[]> {
+    try {
+        return await provider.getLogs({ ...filter, fromBlock: from, toBlock: to });
+    } catch (err) {
+        if (to <= from) throw err;
+        // Most RPCs reject wide ranges / large result sets; split and retry.
+        const mid = from + Math.floor((to - from) / 2);
+        const left = await getLogsAdaptive(provider, filter, from, mid);
+        const right = await getLogsAdaptive(provider, filter, mid + 1, to);
+        return [...left, ...right];
+    }
+}
+
+/** Bring the store up to `head - confirmations`, handling reorgs first. */
+export async function syncOnce(opts: IndexerOptions): Promise<SyncResult> {
+    const { provider, state } = opts;
+    const chunkSize = opts.chunkSize ?? 2_000;
+    const confirmations = opts.confirmations ?? 15;
+    const maxCheckpoints = opts.maxCheckpoints ?? 64;
+    const log = opts.log ?? (() => undefined);
+
+    const result: SyncResult = { fromBlock: state.cursor + 1, toBlock: state.cursor, added: 0, removed: 0 };
+
+    const rollback = await detectReorg(provider, state);
+    if (rollback !== undefined) {
+        result.removed = rollbackTo(state, rollback);
+        result.rolledBackTo = rollback;
+        result.fromBlock = state.cursor + 1;
+        log(`reorg detected: rolled back to block ${rollback}, removed ${result.removed} event(s)`);
+        saveStore(opts.file, state);
+    }
+
+    const head = await provider.getBlockNumber();
+    const target = head - confirmations;
+
+    while (state.cursor < target) {
+        const from = state.cursor + 1;
+        const to = Math.min(from + chunkSize - 1, target);
+        const logs = await getLogsAdaptive(provider, { address: state.vault, topics: TOPICS }, from, to);
+        for (const l of logs) {
+            const ev = toIndexedEvent(l);
+            if (!ev || state.events[ev.id]) continue;
+            state.events[ev.id] = ev;
+            result.added++;
+        }
+
+        const block = await provider.getBlock(to);
+        if (!block?.hash) throw new Error(`block ${to} not available from the RPC`);
+        state.checkpoints[String(to)] = block.hash;
+        const stale = Object.keys(state.checkpoints).map(Number).sort((a, b) => b - a).slice(maxCheckpoints);
+        for (const n of stale) delete state.checkpoints[String(n)];
+
+        state.cursor = to;
+        result.toBlock = to;
+        saveStore(opts.file, state);
+        log(`indexed ${from}..${to} (${logs.length} log(s))`);
+    }
+    return result;
+}
+
+/** Keep syncing every `pollMs` until `signal` aborts. */
+export async function follow(opts: IndexerOptions, pollMs: number, signal?: AbortSignal): Promise<void> {
+    while (!signal?.aborted) {
+        try {
+            await syncOnce(opts);
+        } catch (err: any) {
+            (opts.log ?? console.error)(`sync failed, retrying: ${err?.shortMessage ?? err?.message ?? err}`);
+        }
+        await new Promise((resolve) => setTimeout(resolve, pollMs));
+    }
+}
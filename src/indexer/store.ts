@@ -0,0 +1,128 @@
+/**
+ * store.ts
+ *
+ * Local JSON store for indexed AstherusVault events, keyed by
+ * `${txHash}:${logIndex}` so re-scanning a range never duplicates rows.
+ * Alongside the events it keeps the scan cursor and a window of recent block
+ * hashes used to detect reorgs.
+ */
+
+import * as path from "path";
+import { readJson, writeJsonAtomic } from "../json_store";
+
+export type VaultEventName = "Deposit" | "DepositFailed" | "ReceiveETH";
+
+export interface IndexedEvent {
+    /** `${txHash}:${logIndex}` */
+    id: string;
+    event: VaultEventName;
+    blockNumber: number;
+    blockHash: string;
+    txHash: string;
+    logIndex: number;
+    /** Credited account (Deposit / DepositFailed) or sender (ReceiveETH). */
+    account: string;
+    /** Token address; the NATIVE sentinel for native deposits and for ReceiveETH. */
+    currency: string;
+    isNative: boolean;
+    /** Wei, as a decimal string. */
+    amount: string;
+    /** Broker id (Deposit only). */
+    broker?: string;
+}
+
+export interface IndexerState {
+    chainId: number;
+    vault: string;
+    startBlock: number;
+    /** Highest block fully scanned; startBlock - 1 before the first scan. */
+    cursor: number;
+    /** Recent scanned block number → hash, for reorg detection. */
+    checkpoints: Record<string, string>;
+    events: Record<string, IndexedEvent>;
+}
+
+export function storeFile(dataDir: string, chainId: number, vault: string): string {
+    return path.join(dataDir, `vault-events-${chainId}-${vault.toLowerCase()}.json`);
+}
+
+export function loadStore(file: string, init: { chainId: number; vault: string; startBlock: number }): IndexerState {
+    const state = readJson<IndexerState | null>(file, null);
+    if (state) {
+        if (state.chainId !== init.chainId || state.vault.toLowerCase() !== init.vault.toLowerCase()) {
+            throw new Error(`${file} belongs to chain ${state.chainId} / vault ${state.vault}`);
+        }
+        return state;
+    }
+    return {
+        chainId: init.chainId,
+        vault: init.vault,
+        startBlock: init.startBlock,
+        cursor: init.startBlock - 1,
+        checkpoints: {},
+        events: {},
+    };
+}
+
+export function saveStore(file: string, state: IndexerState): void {
+    writeJsonAtomic(file, state);
+}
+
+/** Drop everything above `block` (reorg rollback). Returns the number of events removed. */
+export function rollbackTo(state: IndexerState, block: number): number {
+    let removed = 0;
+    for (const [id, ev] of Object.entries(state.events)) {
+        if (ev.blockNumber > block) {
+            delete state.events[id];
+            removed++;
+        }
+    }
+    for (const n of Object.keys(state.checkpoints)) {
+        if (Number(n) > block) delete state.checkpoints[n];
+    }
+    state.cursor = Math.min(state.cursor, block);
+    return removed;
+}
+
+// ─────────────────────────────────────────────
+// Queries
+// ─────────────────────────────────────────────
+export interface EventQuery {
+    event?: VaultEventName;
+    account?: string;
+    currency?: string;
+    broker?: string;
+    fromBlock?: number;
+    toBlock?: number;
+}
+
+export function queryEvents(state: IndexerState, q: EventQuery): IndexedEvent[] {
+    const eq = (a: string | undefined, b: string | undefined) => b === undefined || a?.toLowerCase() === b.toLowerCase();
+    return Object.values(state.events)
+        .filter((e) => q.event === undefined || e.event === q.event)
+        .filter((e) => eq(e.account, q.account) && eq(e.currency, q.currency))
+        .filter((e) => q.broker === undefined || e.broker === q.broker)
+        .filter((e) => q.fromBlock === undefined || e.blockNumber >= q.fromBlock)
+        .filter((e) => q.toBlock === undefined || e.blockNumber <= q.toBlock)
+        .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+}
+
+export interface DepositTotal {
+    currency: string;
+    count: number;
+    /** Wei, as a decimal string. */
+    total: string;
+}
+
+/** Sum of Deposit amounts per currency — the reconciliation view. */
+export function totalsByCurrency(events: IndexedEvent[]): DepositTotal[] {
+    const totals = new Map<string, { count: number; total: bigint }>();
+    for (const e of events) {
+        if (e.event !== "Deposit") continue;
+        const t = totals.get(e.currency) ?? { count: 0, total: 0n };
+        t.count++;
+        t.total += BigInt(e.amount);
+        totals.set(e.currency, t);
+    }
+    return [...totals.entries()].map(([currency, t]) => ({ currency, count: t.count, total: t.total.toString() }));
+}
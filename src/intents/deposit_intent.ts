@@ -0,0 +1,163 @@
+/**
+ * deposit_intent.ts
+ *
+ * EIP-712 DepositIntent: the user's (Wallet1's) off-chain signature over one
+ * pull-and-deposit — who pays, how much of which token, the broker, which
+ * account Aster credits — with a nonce and a deadline. The server pulls only
+ * what an intent authorizes:
+ *
+ *   signature  recovers to the intent's owner, who must be the run's Wallet1
+ *   fields     amount, currency, broker and credited account match the run
+ *   domain     this chain and vault, so an intent can't be replayed elsewhere
+ *   deadline   still ahead, checked again before a resumed run pulls
+ *   nonce      never seen for this owner in the pull journal, where the
+ *              intent is stored on its run next to the tx hashes
+ *
+ * Nothing on-chain checks the signature: it binds the server, not the vault.
+ */
+
+import { ethers } from "ethers";
+import * as fs from "fs";
+import { Network } from "../constants";
+import { CliError, EXIT } from "../exit_codes";
+
+export const DEPOSIT_INTENT_TYPES: Record<string, ethers.TypedDataField[]> = {
+    DepositIntent: [
+        { name: "owner", type: "address" },
+        { name: "amount", type: "uint256" },
+        { name: "currency", type: "address" },
+        { name: "broker", type: "uint256" },
+        { name: "account", type: "address" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+    ],
+};
+
+/** The signed fields; integers as decimal strings, so the intent survives JSON. */
+export interface DepositIntent {
+    owner: string;
+    /** Wei of `currency`. */
+    amount: string;
+    currency: string;
+    broker: string;
+    /** Account Aster credits. */
+    account: string;
+    nonce: string;
+    /** Unix seconds. */
+    deadline: string;
+}
+
+export interface SignedDepositIntent {
+    chainId: number;
+    /** The vault, as the domain's verifyingContract. */
+    vault: string;
+    intent: DepositIntent;
+    signature: string;
+}
+
+/** Default lifetime of a new intent. */
+export const DEFAULT_INTENT_TTL_SECONDS = 3600;
+
+export function intentDomain(chainId: number, vault: string): ethers.TypedDataDomain {
+    return { name: "Aster Pull Deposit", version: "1", chainId, verifyingContract: vault };
+}
+
+/** EIP-712 hash of a signed intent: its id in logs and in the journal. */
+export function intentDigest(signed: SignedDepositIntent): string {
+    return ethers.TypedDataEncoder.hash(intentDomain(signed.chainId, signed.vault), DEPOSIT_INTENT_TYPES, signed.intent);
+}
+
+/** Have `signer` (Wallet1) sign an intent for `network`'s vault; the owner is the signer. */
+export async function signDepositIntent(
+    signer: ethers.Signer,
+    network: Network,
+    fields: Omit<DepositIntent, "owner">
+): Promise<SignedDepositIntent> {
+    const intent: DepositIntent = { owner: await signer.getAddress(), ...fields };
+    const signature = await signer.signTypedData(intentDomain(network.chainId, network.vault), DEPOSIT_INTENT_TYPES, intent);
+    return { chainId: network.chainId, vault: network.vault, intent, signature };
+}
+
+/** A random 64-bit nonce; owners don't have to track a counter. */
+export function newIntentNonce(): string {
+    return ethers.toBigInt(ethers.randomBytes(8)).toString();
+}
+
+export function loadSignedIntent(file: string): SignedDepositIntent {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(fs.readFileSync(file, "utf8"));
+    } catch (err: any) {
+        throw new CliError(`can't read deposit intent ${file}: ${err.message}`, EXIT.USAGE);
+    }
+    return parseSignedIntent(parsed, file);
+}
+
+/** `parsed` as a signed intent, if it has the shape of one; `source` names it in the error. */
+export function parseSignedIntent(parsed: any, source: string): SignedDepositIntent {
+    const i = parsed?.intent;
+    const isUint = (v: unknown) => typeof v === "string" && /^\d+$/.test(v);
+    const ok =
+        Number.isInteger(parsed?.chainId) &&
+        ethers.isAddress(parsed?.vault) &&
+        typeof parsed?.signature === "string" &&
+        ethers.isHexString(parsed.signature) &&
+        i &&
+        ethers.isAddress(i.owner) &&
+        ethers.isAddress(i.currency) &&
+        ethers.isAddress(i.account) &&
+        ["amount", "broker", "nonce", "deadline"].every((k) => isUint(i[k]));
+    if (!ok) throw new CliError(`${source} is not a signed deposit intent`, EXIT.USAGE);
+    return parsed as SignedDepositIntent;
+}
+
+/** What the run is about to do, for the intent to authorize. */
+export interface IntendedDeposit {
+    network: Network;
+    owner: string;
+    amount: bigint;
+    currency: string;
+    broker: string;
+    account: string;
+}
+
+/**
+ * Check signature, domain, fields and deadline of `signed` against the run
+ * about to start; a CliError naming the first mismatch otherwise. Replay is
+ * the journal's to check (see pull/journal.ts `runWithIntentNonce`).
+ */
+export function verifyDepositIntent(signed: SignedDepositIntent, expected: IntendedDeposit, now = Date.now()): void {
+    const { intent } = signed;
+    const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+    const reject = (why: string) => {
+        throw new CliError(`deposit intent ${intent.nonce} of ${intent.owner} rejected: ${why}`, EXIT.PRECONDITION);
+    };
+
+    if (signed.chainId !== expected.network.chainId || !same(signed.vault, expected.network.vault)) {
+        reject(`signed for vault ${signed.vault} on chain ${signed.chainId}, not ${expected.network.vault} on ${expected.network.chainId}`);
+    }
+    let signer: string;
+    try {
+        signer = ethers.verifyTypedData(intentDomain(signed.chainId, signed.vault), DEPOSIT_INTENT_TYPES, intent, signed.signature);
+    } catch {
+        return reject("the signature is malformed");
+    }
+    if (!same(signer, intent.owner)) reject(`signed by ${signer}, not by its owner`);
+    if (!same(intent.owner, expected.owner)) reject(`its owner is not Wallet1 ${expected.owner}`);
+    if (BigInt(intent.amount) !== expected.amount) reject(`it authorizes ${intent.amount} wei, the run is for ${expected.amount}`);
+    if (!same(intent.currency, expected.currency)) reject(`it is for currency ${intent.currency}, the run for ${expected.currency}`);
+    if (intent.broker !== expected.broker) reject(`it is for broker ${intent.broker}, the run for ${expected.broker}`);
+    if (!same(intent.account, expected.account)) reject(`it credits ${intent.account}, the run would credit ${expected.account}`);
+    checkIntentDeadline(signed, now);
+}
+
+export function checkIntentDeadline(signed: SignedDepositIntent, now = Date.now()): void {
+    const deadline = Number(signed.intent.deadline);
+    if (deadline * 1000 <= now) {
+        throw new CliError(
+            `deposit intent ${signed.intent.nonce} of ${signed.intent.owner} expired at ${new Date(deadline * 1000).toISOString()}; ` +
+                "the user has to sign a new one",
+            EXIT.PRECONDITION
+        );
+    }
+}
@@ -0,0 +1,32 @@
+/**
+ * json_store.ts
+ *
+ * Tiny persistence helpers for the local JSON files (indexer store, journals).
+ * Writes go to a temp file that is renamed over the target, so a crash mid-write
+ * never leaves a truncated file behind.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+/** Directory for local state; override with --data-dir or RELAY_ASTER_DATA_DIR. */
+export function defaultDataDir(): string {
+    return process.env.RELAY_ASTER_DATA_DIR ?? path.join(process.cwd(), "data");
+}
+
+export function readJson<T>(file: string, fallback: T): T {
+    if (!fs.existsSync(file)) return fallback;
+    return JSON.parse(fs.readFileSync(file, "utf8")) as T;
+}
+
+/** JSON.stringify with bigints as decimal strings (wei amounts, block numbers). */
+export function toJson(value: unknown, indent?: number): string {
+    return JSON.stringify(value, (_k, v) => (typeof v === "bigint" ? v.toString() : v), indent);
+}
+
+export function writeJsonAtomic(file: string, value: unknown): void {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const tmp = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, toJson(value, 2));
+    fs.renameSync(tmp, file);
+}
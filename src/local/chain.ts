@@ -0,0 +1,176 @@
+/**
+ * chain.ts
+ *
+ * An in-process EVM (ganache) with the mocks of mocks.sol deployed at the
+ * registry's `local` addresses, so the flows, the deposit service and the mock
+ * Relay / RPC / signer servers can run end to end without a real chain.
+ * Accounts come from ganache's deterministic mnemonic, each with 1000 ETH:
+ *
+ *   0  Wallet1 (--signer)             USDT, DEPOSIT_ROLE
+ *   1  Wallet2 (--server-signer)      DEPOSIT_ROLE
+ *   2  gas tank funder (--funder-signer)
+ *   3  mock Relay solver              USDT, DEPOSIT_ROLE
+ *   9  deployer and vault admin
+ *
+ * Run standalone:
+ *   npm run local-chain [-- --port 8545 --data-dir data]
+ *   npm run cli -- serve --chain local --signer mnemonic:data/local-chain.mnemonic#0 --server-signer mnemonic:data/local-chain.mnemonic#1
+ */
+
+import { ethers } from "ethers";
+import * as fs from "fs";
+import ganache from "ganache";
+import * as path from "path";
+import { parseArgs } from "util";
+import { NATIVE_ADDRESS, NETWORKS, Network } from "../constants";
+import { CliError, EXIT } from "../exit_codes";
+import { defaultDataDir } from "../json_store";
+
+/** ganache's --deterministic mnemonic. */
+export const LOCAL_MNEMONIC = "myth like bonus scare over problem client lizard pioneer submit female collect";
+
+export const LOCAL_ACCOUNTS = { wallet1: 0, wallet2: 1, funder: 2, solver: 3, deployer: 9 } as const;
+
+/** USDT minted to Wallet1 and the solver. */
+const USDT_GRANT = ethers.parseUnits("1000000", 18);
+
+export interface LocalChain {
+    url: string;
+    network: Network;
+    provider: ethers.JsonRpcProvider;
+    /** Account i of the mnemonic, connected to `provider`. */
+    account(index: number): ethers.HDNodeWallet;
+    usdt: ethers.Contract;
+    vault: ethers.Contract;
+    close(): Promise<void>;
+}
+
+interface Artifact {
+    abi: ethers.InterfaceAbi;
+    bytecode: string;
+}
+
+let compiled: Promise<Record<string, Artifact>> | undefined;
+
+/** mocks.sol through solc-js, once per process. */
+function compileMocks(): Promise<Record<string, Artifact>> {
+    compiled ??= Promise.resolve().then(() => {
+        const solc: { compile(input: string): string } = require("solc");
+        const source = fs.readFileSync(path.join(__dirname, "mocks.sol"), "utf8");
+        const input = {
+            language: "Solidity",
+            sources: { "mocks.sol": { content: source } },
+            // ganache 7 doesn't know PUSH0 (shanghai).
+            settings: { evmVersion: "paris", outputSelection: { "*": { "*": ["abi", "evm.bytecode.object"] } } },
+        };
+        const output = JSON.parse(solc.compile(JSON.stringify(input)));
+        const errors = (output.errors ?? []).filter((e: any) => e.severity === "error");
+        if (errors.length) throw new Error(`mocks.sol does not compile:\n${errors.map((e: any) => e.formattedMessage).join("\n")}`);
+        const artifacts: Record<string, Artifact> = {};
+        for (const [name, contract] of Object.entries<any>(output.contracts["mocks.sol"])) {
+            artifacts[name] = { abi: contract.abi, bytecode: `0x${contract.evm.bytecode.object}` };
+        }
+        return artifacts;
+    });
+    return compiled;
+}
+
+/** Start a fresh chain on `port` (0 picks a free one) and deploy the mocks. */
+export async function startLocalChain(port = 8545): Promise<LocalChain> {
+    const artifacts = await compileMocks();
+    const profile = NETWORKS.local;
+    const server = ganache.server({
+        logging: { quiet: true },
+        wallet: { mnemonic: LOCAL_MNEMONIC, totalAccounts: 10, defaultBalance: 1000 },
+        chain: { chainId: profile.chainId },
+    });
+    try {
+        await server.listen(port, "127.0.0.1");
+    } catch (err: any) {
+        throw new CliError(`can't start the local chain on port ${port}: ${err?.message ?? err}`, EXIT.CONFIG);
+    }
+    const url = `http://127.0.0.1:${server.address().port}`;
+    const provider = new ethers.JsonRpcProvider(url, profile.chainId, { staticNetwork: true, cacheTimeout: -1 });
+    provider.pollingInterval = 100;
+    const account = (index: number) =>
+        ethers.HDNodeWallet.fromPhrase(LOCAL_MNEMONIC, undefined, ethers.getIndexedAccountPath(index)).connect(provider);
+
+    try {
+        const deployer = new ethers.NonceManager(account(LOCAL_ACCOUNTS.deployer));
+        if ((await provider.getTransactionCount(await deployer.getAddress())) !== 0) {
+            throw new CliError("the local chain is not fresh; the mocks would not land at the registry's addresses", EXIT.CONFIG);
+        }
+        const deploy = async (name: string, expected: string, ...args: unknown[]) => {
+            const { abi, bytecode } = artifacts[name];
+            const contract = await new ethers.ContractFactory(abi, bytecode, deployer).deploy(...args);
+            await contract.waitForDeployment();
+            if ((await contract.getAddress()) !== ethers.getAddress(expected)) {
+                throw new CliError(`${name} deployed at ${await contract.getAddress()}, not the registry's ${expected}`, EXIT.CONFIG);
+            }
+            return contract as ethers.Contract;
+        };
+        const usdt = await deploy("MockERC20", profile.tokens.USDT.address, "Tether USD", "USDT", profile.tokens.USDT.decimals);
+        const vault = await deploy("MockVault", profile.vault);
+        await deploy("Multicall3", profile.multicall3);
+
+        const role = ethers.id("DEPOSIT_ROLE");
+        const { wallet1, wallet2, solver } = LOCAL_ACCOUNTS;
+        const setup: (() => Promise<ethers.ContractTransactionResponse>)[] = [
+            () => vault.setSupport(profile.tokens.USDT.address, profile.tokens.USDT.decimals),
+            () => vault.setSupport(NATIVE_ADDRESS, 18),
+            ...[wallet1, wallet2, solver].map((i) => () => vault.grantRole(role, account(i).address)),
+            ...[wallet1, solver].map((i) => () => usdt.mint(account(i).address, USDT_GRANT)),
+        ];
+        for (const send of setup) await (await send()).wait();
+
+        return {
+            url,
+            network: { ...profile, rpcUrls: [url] },
+            provider,
+            account,
+            usdt: usdt.connect(provider) as ethers.Contract,
+            vault: vault.connect(provider) as ethers.Contract,
+            close: async () => {
+                provider.destroy();
+                await server.close();
+            },
+        };
+    } catch (err) {
+        provider.destroy();
+        await server.close();
+        throw err;
+    }
+}
+
+if (require.main === module) {
+    const { values } = parseArgs({ options: { port: { type: "string" }, "data-dir": { type: "string" } } });
+    (async () => {
+        const chain = await startLocalChain(Number(values.port ?? 8545));
+        const dataDir = values["data-dir"] ?? defaultDataDir();
+        const mnemonicFile = path.join(dataDir, "local-chain.mnemonic");
+        fs.mkdirSync(dataDir, { recursive: true });
+        fs.writeFileSync(mnemonicFile, `${LOCAL_MNEMONIC}\n`, { mode: 0o600 });
+        const { network } = chain;
+        const rpc = network.rpcUrls[0] === NETWORKS.local.rpcUrls[0] ? "" : ` --rpc ${chain.url}`;
+
+        console.log(`Local chain ${network.chainId} on ${chain.url}: --chain local${rpc}`);
+        console.log(`  USDT ${network.tokens.USDT.address}, vault ${network.vault}, Multicall3 ${network.multicall3}`);
+        console.log(`  accounts (mnemonic in ${mnemonicFile}):`);
+        for (const [role, index] of Object.entries(LOCAL_ACCOUNTS)) {
+            console.log(`    ${index}  ${chain.account(index).address}  ${role}  mnemonic:${mnemonicFile}#${index}`);
+        }
+        console.log(
+            `  mock Relay: SOLVER_KEY=${chain.account(LOCAL_ACCOUNTS.solver).privateKey} ` +
+                `npm run mock-relay -- --solver-key-env SOLVER_KEY --destination-rpc ${chain.url}`
+        );
+
+        await new Promise<void>((resolve) => {
+            process.once("SIGINT", resolve);
+            process.once("SIGTERM", resolve);
+        });
+        await chain.close();
+    })().catch((err) => {
+        console.error(`❌ ${err?.message ?? err}`);
+        process.exit(err instanceof CliError ? err.exitCode : EXIT.FAILURE);
+    });
+}
@@ -0,0 +1,168 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+// Stand-ins for the contracts the deposit flows talk to, deployed by
+// local/chain.ts on an in-process chain. Only what the flows call is here.
+
+/// ERC-20 anyone can mint.
+contract MockERC20 {
+    string public name;
+    string public symbol;
+    uint8 public decimals;
+    uint256 public totalSupply;
+    mapping(address => uint256) public balanceOf;
+    mapping(address => mapping(address => uint256)) public allowance;
+
+    event Transfer(address indexed from, address indexed to, uint256 value);
+    event Approval(address indexed owner, address indexed spender, uint256 value);
+
+    constructor(string memory name_, string memory symbol_, uint8 decimals_) {
+        name = name_;
+        symbol = symbol_;
+        decimals = decimals_;
+    }
+
+    function mint(address to, uint256 value) external {
+        balanceOf[to] += value;
+        totalSupply += value;
+        emit Transfer(address(0), to, value);
+    }
+
+    function approve(address spender, uint256 value) external returns (bool) {
+        allowance[msg.sender][spender] = value;
+        emit Approval(msg.sender, spender, value);
+        return true;
+    }
+
+    function transfer(address to, uint256 value) external returns (bool) {
+        _move(msg.sender, to, value);
+        return true;
+    }
+
+    function transferFrom(address from, address to, uint256 value) external returns (bool) {
+        uint256 allowed = allowance[from][msg.sender];
+        require(allowed >= value, "ERC20: insufficient allowance");
+        if (allowed != type(uint256).max) allowance[from][msg.sender] = allowed - value;
+        _move(from, to, value);
+        return true;
+    }
+
+    function _move(address from, address to, uint256 value) internal {
+        require(balanceOf[from] >= value, "ERC20: transfer amount exceeds balance");
+        balanceOf[from] -= value;
+        balanceOf[to] += value;
+        emit Transfer(from, to, value);
+    }
+}
+
+/// The deposit side of AstherusVault (contract.sol): same functions, events
+/// and errors. As there, the pause only stops withdrawals, so deposits ignore it.
+contract MockVault {
+    struct Token {
+        address currency;
+        address priceFeed;
+        uint256 price;
+        bool fixedPrice;
+        uint8 priceDecimals;
+        uint8 currencyDecimals;
+    }
+
+    address public constant NATIVE = address(bytes20(keccak256("NATIVE")));
+    bytes32 public constant DEPOSIT_ROLE = keccak256("DEPOSIT_ROLE");
+
+    address public immutable admin;
+    bool public paused;
+    mapping(address => Token) public supportToken;
+    mapping(bytes32 => mapping(address => bool)) public hasRole;
+
+    error CurrencyNotSupport(address currency);
+    error ZeroAmount();
+    error ValueNotZero();
+    error AmountIllegal(uint256 amount, uint256 value);
+    error AccessControlUnauthorizedAccount(address account, bytes32 neededRole);
+
+    event Deposit(address indexed account, address indexed currency, bool isNative, uint256 amount, uint256 broker);
+
+    modifier onlyAdmin() {
+        if (msg.sender != admin) revert AccessControlUnauthorizedAccount(msg.sender, bytes32(0));
+        _;
+    }
+
+    constructor() {
+        admin = msg.sender;
+    }
+
+    function setSupport(address currency, uint8 decimals) external onlyAdmin {
+        supportToken[currency] = Token(currency, address(0), 1e8, true, 8, decimals);
+    }
+
+    function grantRole(bytes32 role, address account) external onlyAdmin {
+        hasRole[role][account] = true;
+    }
+
+    function setPaused(bool paused_) external onlyAdmin {
+        paused = paused_;
+    }
+
+    function deposit(address currency, uint256 amount, uint256 broker) external {
+        require(_supported(currency), "currency not support");
+        if (amount == 0) revert ZeroAmount();
+        emit Deposit(msg.sender, currency, false, _pull(currency, amount), broker);
+    }
+
+    function depositNative(uint256 broker) external payable {
+        require(_supported(NATIVE), "currency not support");
+        require(msg.value > 0, "msg.value must be greater than 0");
+        emit Deposit(msg.sender, NATIVE, true, msg.value, broker);
+    }
+
+    function depositFor(address currency, address forAddress, uint256 amount, uint256 broker) external payable {
+        if (!hasRole[DEPOSIT_ROLE][msg.sender]) revert AccessControlUnauthorizedAccount(msg.sender, DEPOSIT_ROLE);
+        if (!_supported(currency)) revert CurrencyNotSupport(currency);
+        if (amount == 0) revert ZeroAmount();
+        bool isNative = currency == NATIVE;
+        if (isNative) {
+            if (amount != msg.value) revert AmountIllegal(amount, msg.value);
+        } else {
+            if (msg.value != 0) revert ValueNotZero();
+            uint256 received = _pull(currency, amount);
+            if (received != amount) revert AmountIllegal(amount, received);
+        }
+        emit Deposit(forAddress, currency, isNative, amount, broker);
+    }
+
+    function _supported(address currency) private view returns (bool) {
+        return supportToken[currency].currency != address(0);
+    }
+
+    /// What the vault received of `amount`, taken from the caller.
+    function _pull(address currency, uint256 amount) private returns (uint256) {
+        MockERC20 token = MockERC20(currency);
+        uint256 before = token.balanceOf(address(this));
+        token.transferFrom(msg.sender, address(this), amount);
+        return token.balanceOf(address(this)) - before;
+    }
+}
+
+/// Multicall3's aggregate3, as deployed at MULTICALL3_ADDRESS on real chains.
+contract Multicall3 {
+    struct Call3 {
+        address target;
+        bool allowFailure;
+        bytes callData;
+    }
+
+    struct Result {
+        bool success;
+        bytes returnData;
+    }
+
+    function aggregate3(Call3[] calldata calls) public payable returns (Result[] memory returnData) {
+        returnData = new Result[](calls.length);
+        for (uint256 i = 0; i < calls.length; i++) {
+            (bool success, bytes memory ret) = calls[i].target.call(calls[i].callData);
+            if (!calls[i].allowFailure && !success) revert("Multicall3: call failed");
+            returnData[i] = Result(success, ret);
+        }
+    }
+}
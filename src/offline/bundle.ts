@@ -0,0 +1,95 @@
+/**
+ * bundle.ts
+ *
+ * Files that carry transactions between the networked host and the offline
+ * signing machine:
+ *
+ *   unsigned   written by any flow run with --export: every tx fully populated
+ *              (chainId, nonce, gas, fees), in the order it has to be mined
+ *   signed     written by `offline sign`: the same txs as raw signed bytes;
+ *              `offline broadcast` records each one's status in it as it goes,
+ *              so an interrupted broadcast picks up where it stopped
+ *
+ * All wei / gas amounts are decimal strings.
+ */
+
+import * as fs from "fs";
+import { CliError, EXIT } from "../exit_codes";
+import { readJson, writeJsonAtomic } from "../json_store";
+
+export interface UnsignedTxFields {
+    type: 0 | 2;
+    chainId: number;
+    nonce: number;
+    to: string;
+    data: string;
+    value: string;
+    gasLimit: string;
+    gasPrice?: string;
+    maxFeePerGas?: string;
+    maxPriorityFeePerGas?: string;
+}
+
+export interface UnsignedEntry {
+    /** 1-based position: the order txs are broadcast in. */
+    index: number;
+    label: string;
+    from: string;
+    tx: UnsignedTxFields;
+}
+
+export type BroadcastStatus = "pending" | "sent" | "confirmed" | "failed";
+
+export interface SignedEntry {
+    index: number;
+    label: string;
+    from: string;
+    nonce: number;
+    hash: string;
+    raw: string;
+    status: BroadcastStatus;
+    blockNumber?: number;
+    error?: string;
+}
+
+interface BundleHeader {
+    version: 1;
+    chainId: number;
+    /** Command that produced the txs, e.g. "deposit". */
+    flow: string;
+    createdAt: string;
+}
+
+export interface UnsignedBundle extends BundleHeader {
+    kind: "unsigned";
+    txs: UnsignedEntry[];
+}
+
+export interface SignedBundle extends BundleHeader {
+    kind: "signed";
+    signedAt: string;
+    txs: SignedEntry[];
+}
+
+export function readBundle(file: string, kind: "unsigned"): UnsignedBundle;
+export function readBundle(file: string, kind: "signed"): SignedBundle;
+export function readBundle(file: string, kind: "unsigned" | "signed"): UnsignedBundle | SignedBundle {
+    if (!fs.existsSync(file)) throw new CliError(`${file} not found`, EXIT.USAGE);
+    let bundle: UnsignedBundle | SignedBundle | undefined;
+    try {
+        bundle = readJson<UnsignedBundle | SignedBundle | undefined>(file, undefined);
+    } catch {
+        bundle = undefined;
+    }
+    if (!bundle || bundle.version !== 1 || !Array.isArray(bundle.txs)) {
+        throw new CliError(`${file} is not a transaction bundle`, EXIT.USAGE);
+    }
+    if (bundle.kind !== kind) {
+        throw new CliError(`${file} holds ${bundle.kind} transactions; expected ${kind}`, EXIT.USAGE);
+    }
+    return bundle;
+}
+
+export function writeBundle(file: string, bundle: UnsignedBundle | SignedBundle): void {
+    writeJsonAtomic(file, bundle);
+}
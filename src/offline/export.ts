@@ -0,0 +1,124 @@
+/**
+ * export.ts
+ *
+ * --export mode: instead of sending, flows hand each transaction to an
+ * ExportSigner, which fills in what a signer would (nonce, gas limit, fees,
+ * chainId) and appends it to an unsigned bundle. Nothing is signed or sent on
+ * this host; `offline sign` and `offline broadcast` take it from there.
+ *
+ * Nonces count up per sender from its pending nonce at export time, so the
+ * bundle has to be broadcast before that account sends anything else. Gas
+ * limit and fees come from the gas strategy (gas/strategy.ts) before a tx gets
+ * here. The file is only written once the flow has exported everything, so a
+ * flow that stops halfway never leaves a partial bundle behind to be signed.
+ */
+
+import { ethers } from "ethers";
+import * as fs from "fs";
+import { CliError, EXIT } from "../exit_codes";
+import { UnsignedBundle, UnsignedEntry, UnsignedTxFields, writeBundle } from "./bundle";
+
+export class TxExport {
+    readonly bundle: UnsignedBundle;
+    private readonly nonces = new Map<string, number>();
+
+    constructor(
+        readonly file: string,
+        chainId: number,
+        flow: string
+    ) {
+        if (fs.existsSync(file)) {
+            throw new CliError(`${file} already exists; sign and broadcast it, or pick another --export path`, EXIT.USAGE);
+        }
+        this.bundle = { kind: "unsigned", version: 1, chainId, flow, createdAt: new Date().toISOString(), txs: [] };
+    }
+
+    /** A signer for `address` whose txs land in this export. */
+    signer(address: string, provider: ethers.Provider): ExportSigner {
+        return new ExportSigner(ethers.getAddress(address), provider, this);
+    }
+
+    async nextNonce(address: string, provider: ethers.Provider): Promise<number> {
+        const key = address.toLowerCase();
+        const nonce = this.nonces.get(key) ?? (await provider.getTransactionCount(address, "pending"));
+        this.nonces.set(key, nonce + 1);
+        return nonce;
+    }
+
+    add(label: string, from: string, tx: UnsignedTxFields): UnsignedEntry {
+        const entry = { index: this.bundle.txs.length + 1, label, from, tx };
+        this.bundle.txs.push(entry);
+        return entry;
+    }
+
+    save(): void {
+        writeBundle(this.file, this.bundle);
+    }
+}
+
+/**
+ * Stands in for a wallet whose key is not on this host. It can read (balances,
+ * allowances, simulations from its address) but never signs: as a VoidSigner,
+ * any send that bypasses `exportTx` fails instead of going out.
+ */
+export class ExportSigner extends ethers.VoidSigner {
+    constructor(
+        address: string,
+        provider: ethers.Provider,
+        readonly txExport: TxExport
+    ) {
+        super(address, provider);
+    }
+
+    connect(provider: ethers.Provider | null): ExportSigner {
+        return new ExportSigner(this.address, provider!, this.txExport);
+    }
+
+    /** Txs already in the export (from any sender) that later simulations may depend on. */
+    get queued(): number {
+        return this.txExport.bundle.txs.length;
+    }
+
+    /** Append `req`, whose gas limit and fees are already set (see withGas), with this sender's next nonce. */
+    async exportTx(label: string, req: ethers.TransactionRequest): Promise<UnsignedEntry> {
+        const provider = this.provider!;
+        if (req.gasLimit == null || (req.gasPrice == null && req.maxFeePerGas == null)) {
+            throw new Error(`${label}: exported txs need their gas limit and fees set first`);
+        }
+        const to = await ethers.resolveAddress(req.to!, provider);
+        const call = { from: this.address, to, data: req.data ?? "0x", value: req.value ?? 0n };
+        const fees: Pick<UnsignedTxFields, "type" | "gasPrice" | "maxFeePerGas" | "maxPriorityFeePerGas"> =
+            req.maxFeePerGas != null
+                ? { type: 2, maxFeePerGas: String(req.maxFeePerGas), maxPriorityFeePerGas: String(req.maxPriorityFeePerGas ?? 0n) }
+                : { type: 0, gasPrice: String(req.gasPrice) };
+
+        const tx: UnsignedTxFields = {
+            ...fees,
+            chainId: this.txExport.bundle.chainId,
+            nonce: await this.txExport.nextNonce(this.address, provider),
+            to,
+            data: ethers.hexlify(call.data),
+            value: BigInt(call.value).toString(),
+            gasLimit: BigInt(req.gasLimit).toString(),
+        };
+        const entry = this.txExport.add(label, this.address, tx);
+        console.log(`  ⤓ ${label} exported as tx #${entry.index} (from ${this.address}, nonce ${tx.nonce}, gas ${tx.gasLimit})`);
+        return entry;
+    }
+}
+
+/** Exported txs, in the shape an ethers Wallet signs. */
+export function toTransactionRequest(tx: UnsignedTxFields): ethers.TransactionRequest {
+    return {
+        type: tx.type,
+        chainId: tx.chainId,
+        nonce: tx.nonce,
+        to: tx.to,
+        data: tx.data,
+        value: BigInt(tx.value),
+        gasLimit: BigInt(tx.gasLimit),
+        ...(tx.type === 2
+            ? { maxFeePerGas: BigInt(tx.maxFeePerGas!), maxPriorityFeePerGas: BigInt(tx.maxPriorityFeePerGas!) }
+            : { gasPrice: BigInt(tx.gasPrice!) }),
+    };
+}
@@ -0,0 +1,113 @@
+/**
+ * journal.ts
+ *
+ * Persisted state of every pull-and-deposit run. A run only moves forward, one
+ * step at a time, and each step means "done on-chain":
+ *
+ *   started         run recorded, nothing sent yet
+ *   approved        Wallet1 → puller allowance covers the amount
+ *   pulled          tokens moved Wallet1 → Wallet2
+ *   vault-approved  Wallet2 → vault allowance covers the amount
+ *   deposited       deposit / depositFor mined successfully
+ *   confirmed       the vault's Deposit event for the credited account was found
+ *   refunded        instead of depositing, Wallet2 transferred the pull back to Wallet1
+ *
+ * A tx hash is stored under `txs` as soon as the tx is sent, before its receipt
+ * arrives, so a resumed run looks that hash up instead of sending again. A run
+ * started from a signed deposit intent keeps the intent, so each pull can be
+ * traced to what the user authorized.
+ * Between `pulled` and `deposited` the tokens sit in Wallet2 — those are the
+ * orphaned pulls `reconcile` looks for.
+ */
+
+import { ethers } from "ethers";
+import * as path from "path";
+import { CreditDiscrepancy } from "../credits";
+import { SignedDepositIntent } from "../intents/deposit_intent";
+import { readJson, writeJsonAtomic } from "../json_store";
+
+export const PULL_STEPS = ["started", "approved", "pulled", "vault-approved", "deposited", "confirmed", "refunded"] as const;
+export type PullStep = (typeof PULL_STEPS)[number];
+
+/** Tx that moves a run out of the named step; `refund` ends an orphaned run instead. */
+export type PullTxName = "approve" | "pull" | "vaultApprove" | "deposit" | "refund";
+
+export interface PullRun {
+    id: string;
+    chainId: number;
+    vault: string;
+    token: string;
+    userWallet: string;
+    serverWallet: string;
+    puller: "multicall3" | "server";
+    credit: "server" | "user";
+    /** Wei, as a decimal string. */
+    amount: string;
+    broker: string;
+    step: PullStep;
+    txs: Partial<Record<PullTxName, string>>;
+    /** The user's signed authorization for this run, with its EIP-712 digest. */
+    intent?: SignedDepositIntent & { digest: string };
+    /** Amount the Deposit event credited, once confirmed — the source of truth, not `amount`. */
+    credited?: string;
+    /** How the Deposit event differed from the request (account or amount), if it did. */
+    discrepancies?: CreditDiscrepancy[];
+    /** Amount transferred back to Wallet1, once refunded. */
+    refunded?: string;
+    error?: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface PullJournal {
+    chainId: number;
+    runs: Record<string, PullRun>;
+}
+
+export function pullJournalFile(dataDir: string, chainId: number): string {
+    return path.join(dataDir, `pull-runs-${chainId}.json`);
+}
+
+export function loadPullJournal(file: string, chainId: number): PullJournal {
+    const journal = readJson<PullJournal | null>(file, null);
+    if (!journal) return { chainId, runs: {} };
+    if (journal.chainId !== chainId) {
+        throw new Error(`${file} belongs to chain ${journal.chainId}`);
+    }
+    return journal;
+}
+
+export function savePullJournal(file: string, journal: PullJournal): void {
+    writeJsonAtomic(file, journal);
+}
+
+export function newRunId(): string {
+    return `${Date.now().toString(36)}-${ethers.hexlify(ethers.randomBytes(3)).slice(2)}`;
+}
+
+export function stepIndex(step: PullStep): number {
+    return PULL_STEPS.indexOf(step);
+}
+
+/** Runs that need nothing more: deposited and confirmed, or refunded. */
+export function isFinished(run: PullRun): boolean {
+    return run.step === "confirmed" || run.step === "refunded";
+}
+
+/** Runs whose tokens have left Wallet1 but have been neither deposited nor refunded. */
+export function isOrphaned(run: PullRun): boolean {
+    return stepIndex(run.step) >= stepIndex("pulled") && stepIndex(run.step) < stepIndex("deposited");
+}
+
+/** The run that already used `owner`'s intent `nonce`, if any. */
+export function runWithIntentNonce(journal: PullJournal, owner: string, nonce: string): PullRun | undefined {
+    return Object.values(journal.runs).find(
+        (r) => r.intent && r.intent.intent.owner.toLowerCase() === owner.toLowerCase() && r.intent.intent.nonce === nonce
+    );
+}
+
+export function advance(run: PullRun, step: PullStep): void {
+    run.step = step;
+    run.error = undefined;
+    run.updatedAt = new Date().toISOString();
+}
@@ -0,0 +1,82 @@
+/**
+ * client.ts
+ *
+ * Thin typed client for the Relay API. Every non-2xx response is turned into a
+ * RelayApiError subclass (see errors.ts); successful bodies are checked for the
+ * fields the flows rely on before they are returned.
+ */
+
+import axios, { AxiosInstance } from "axios";
+import { relayErrorFromResponse, RelayInvalidRequestError, RelayUnavailableError } from "./errors";
+import { RelayQuoteRequest, RelayQuoteResponse } from "./types";
+
+export const DEFAULT_RELAY_API_URL = "https://api.relay.link";
+
+export interface RelayClientOptions {
+    /** API root; defaults to RELAY_API_URL or https://api.relay.link. */
+    baseUrl?: string;
+    timeoutMs?: number;
+    /** Pre-configured axios instance (proxies, interceptors, mock servers). */
+    http?: AxiosInstance;
+}
+
+export class RelayClient {
+    readonly baseUrl: string;
+    private readonly http: AxiosInstance;
+
+    constructor(opts: RelayClientOptions = {}) {
+        this.baseUrl = (opts.baseUrl ?? process.env.RELAY_API_URL ?? DEFAULT_RELAY_API_URL).replace(/\/+$/, "");
+        this.http = opts.http ?? axios.create({ timeout: opts.timeoutMs ?? 20_000 });
+    }
+
+    /** POST /quote — price a bridge / swap, with optional destination calls. */
+    async getQuote(req: RelayQuoteRequest): Promise<RelayQuoteResponse> {
+        validateQuoteRequest(req);
+        return checkQuoteResponse(await this.request<RelayQuoteResponse>("POST", "/quote", req));
+    }
+
+    /** POST /execute/call — same request shape, returns the steps to execute. */
+    async executeCall(req: RelayQuoteRequest): Promise<RelayQuoteResponse> {
+        validateQuoteRequest(req);
+        return checkQuoteResponse(await this.request<RelayQuoteResponse>("POST", "/execute/call", req));
+    }
+
+    /** GET an arbitrary API path, e.g. a step item's `check.endpoint`. */
+    async get<T>(endpoint: string, params?: Record<string, string>): Promise<T> {
+        return this.request<T>("GET", endpoint, undefined, params);
+    }
+
+    private async request<T>(method: "GET" | "POST", endpoint: string, body?: unknown, params?: Record<string, string>): Promise<T> {
+        const url = /^https?:\/\//.test(endpoint) ? endpoint : `${this.baseUrl}${endpoint.startsWith("/") ? "" : "/"}${endpoint}`;
+        try {
+            const res = await this.http.request<T>({ method, url, data: body, params });
+            return res.data;
+        } catch (err: any) {
+            if (axios.isAxiosError(err)) {
+                throw relayErrorFromResponse(err.response?.status, err.response?.data);
+            }
+            throw new RelayUnavailableError(err?.message ?? String(err), { retryable: true });
+        }
+    }
+}
+
+/** Catch the mistakes Relay would reject anyway, before spending a round-trip. */
+export function validateQuoteRequest(req: RelayQuoteRequest): void {
+    if (req.txs && req.txs.length > 0 && req.tradeType !== "EXACT_OUTPUT") {
+        throw new RelayInvalidRequestError("tradeType=EXACT_OUTPUT is required when 'txs' is set", {
+            code: "INVALID_REQUEST_PARAMS",
+        });
+    }
+    if (!/^\d+$/.test(req.amount) || BigInt(req.amount) === 0n) {
+        throw new RelayInvalidRequestError(`amount must be a positive integer string in wei, got "${req.amount}"`, {
+            code: "INVALID_REQUEST_PARAMS",
+        });
+    }
+}
+
+function checkQuoteResponse(res: RelayQuoteResponse): RelayQuoteResponse {
+    if (!res || !Array.isArray(res.steps)) {
+        throw new RelayUnavailableError("Relay quote response has no steps", { retryable: true });
+    }
+    return { ...res, fees: res.fees ?? {} };
+}
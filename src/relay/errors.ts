@@ -0,0 +1,111 @@
+/**
+ * errors.ts
+ *
+ * Relay API failures as typed errors. Every error body from Relay carries an
+ * `errorCode`; we map the ones we care about to a small set of classes so
+ * callers can `instanceof` instead of string-matching messages.
+ */
+
+import { EXIT, ExitCode } from "../exit_codes";
+import { RelayErrorBody } from "./types";
+
+export type RelayErrorCode =
+    | "INVALID_REQUEST_PARAMS"
+    | "INVALID_INPUT_CURRENCY"
+    | "INVALID_OUTPUT_CURRENCY"
+    | "UNSUPPORTED_CHAIN"
+    | "UNSUPPORTED_CURRENCY"
+    | "UNSUPPORTED_ROUTE"
+    | "AMOUNT_TOO_LOW"
+    | "AMOUNT_TOO_HIGH"
+    | "INSUFFICIENT_FUNDS"
+    | "INSUFFICIENT_LIQUIDITY"
+    | "NO_SWAP_ROUTES_FOUND"
+    | "SWAP_IMPACT_TOO_HIGH"
+    | "ROUTE_TEMPORARILY_RESTRICTED"
+    | "DESTINATION_TX_FAILED"
+    | "RATE_LIMITED"
+    | "UNKNOWN_ERROR";
+
+export class RelayApiError extends Error {
+    /** Relay's `errorCode`, or UNKNOWN_ERROR when the body had none. */
+    readonly code: RelayErrorCode | string;
+    readonly status?: number;
+    /** Relay request id — quote it when talking to Relay support, or poll status with it. */
+    readonly requestId?: string;
+    readonly body?: RelayErrorBody;
+    /** Whether retrying the same request later can succeed. */
+    readonly retryable: boolean;
+
+    constructor(message: string, opts: { code?: string; status?: number; body?: RelayErrorBody; retryable?: boolean } = {}) {
+        super(message);
+        this.name = new.target.name;
+        this.code = opts.code ?? "UNKNOWN_ERROR";
+        this.status = opts.status;
+        this.body = opts.body;
+        this.requestId = opts.body?.requestId;
+        this.retryable = opts.retryable ?? false;
+    }
+}
+
+/** The request itself is wrong (bad params, missing tradeType, bad currency). */
+export class RelayInvalidRequestError extends RelayApiError {}
+
+/** Chain / currency / route not served by Relay. */
+export class RelayUnsupportedRouteError extends RelayApiError {}
+
+/** Amount outside what Relay will fill, or the user can't cover it. */
+export class RelayAmountError extends RelayApiError {}
+
+/** No solver liquidity or price impact too high right now; may clear later. */
+export class RelayLiquidityError extends RelayApiError {}
+
+/** HTTP 429 — back off and retry. */
+export class RelayRateLimitError extends RelayApiError {}
+
+/** Network failure or 5xx. */
+export class RelayUnavailableError extends RelayApiError {}
+
+type RelayErrorClass = new (
+    message: string,
+    opts?: { code?: string; status?: number; body?: RelayErrorBody; retryable?: boolean }
+) => RelayApiError;
+
+const ERROR_CLASSES: Record<string, { cls: RelayErrorClass; retryable: boolean }> = {
+    INVALID_REQUEST_PARAMS: { cls: RelayInvalidRequestError, retryable: false },
+    INVALID_INPUT_CURRENCY: { cls: RelayInvalidRequestError, retryable: false },
+    INVALID_OUTPUT_CURRENCY: { cls: RelayInvalidRequestError, retryable: false },
+    UNSUPPORTED_CHAIN: { cls: RelayUnsupportedRouteError, retryable: false },
+    UNSUPPORTED_CURRENCY: { cls: RelayUnsupportedRouteError, retryable: false },
+    UNSUPPORTED_ROUTE: { cls: RelayUnsupportedRouteError, retryable: false },
+    AMOUNT_TOO_LOW: { cls: RelayAmountError, retryable: false },
+    AMOUNT_TOO_HIGH: { cls: RelayAmountError, retryable: false },
+    INSUFFICIENT_FUNDS: { cls: RelayAmountError, retryable: false },
+    INSUFFICIENT_LIQUIDITY: { cls: RelayLiquidityError, retryable: true },
+    NO_SWAP_ROUTES_FOUND: { cls: RelayLiquidityError, retryable: true },
+    SWAP_IMPACT_TOO_HIGH: { cls: RelayLiquidityError, retryable: true },
+    ROUTE_TEMPORARILY_RESTRICTED: { cls: RelayLiquidityError, retryable: true },
+    RATE_LIMITED: { cls: RelayRateLimitError, retryable: true },
+};
+
+/** Build the typed error for an HTTP failure from the Relay API. */
+export function relayErrorFromResponse(status: number | undefined, body: unknown): RelayApiError {
+    const parsed: RelayErrorBody | undefined =
+        body && typeof body === "object" && "message" in body ? (body as RelayErrorBody) : undefined;
+    const message = parsed?.message ?? (status ? `Relay API responded ${status}` : "Relay API unreachable");
+    const code = parsed?.errorCode ?? (status === 429 ? "RATE_LIMITED" : undefined);
+
+    const mapped = code ? ERROR_CLASSES[code] : undefined;
+    if (mapped) return new mapped.cls(message, { code, status, body: parsed, retryable: mapped.retryable });
+    if (status === undefined || status >= 500) {
+        return new RelayUnavailableError(message, { code, status, body: parsed, retryable: true });
+    }
+    return new RelayApiError(message, { code, status, body: parsed });
+}
+
+/** Exit code of a command that failed on a Relay API error. */
+export function relayExitCode(err: RelayApiError): ExitCode {
+    if (err instanceof RelayInvalidRequestError) return EXIT.USAGE;
+    if (err instanceof RelayAmountError) return EXIT.PRECONDITION;
+    return EXIT.FAILURE;
+}
@@ -0,0 +1,161 @@
+/**
+ * execute.ts
+ *
+ * Signs and sends the origin-chain transactions of a Relay quote. Only
+ * "transaction" steps are supported; Relay returns "signature" steps for
+ * permit-style flows, which the deposit routes never use.
+ */
+
+import { ethers } from "ethers";
+import { withGas } from "../gas/strategy";
+import { ExportSigner } from "../offline/export";
+import { TxManager } from "../tx/manager";
+import { RelayQuoteResponse, RelayStep, RelayTxData } from "./types";
+
+export interface ExecutedRelayTx {
+    stepId: string;
+    requestId?: string;
+    chainId: number;
+    hash: string;
+    blockNumber: number;
+}
+
+export class RelayExecutionError extends Error {
+    /** `pending`: the tx was still unmined when we stopped waiting; it may yet go through. */
+    constructor(
+        message: string,
+        readonly txHash?: string,
+        readonly pending = false
+    ) {
+        super(message);
+        this.name = "RelayExecutionError";
+    }
+}
+
+function toTransactionRequest(data: RelayTxData): ethers.TransactionRequest {
+    return {
+        to: data.to,
+        data: data.data,
+        value: BigInt(data.value ?? "0"),
+        chainId: data.chainId,
+        ...(data.gas ? { gasLimit: BigInt(data.gas) } : {}),
+        ...(data.maxFeePerGas ? { maxFeePerGas: BigInt(data.maxFeePerGas) } : {}),
+        ...(data.maxPriorityFeePerGas ? { maxPriorityFeePerGas: BigInt(data.maxPriorityFeePerGas) } : {}),
+    };
+}
+
+/** Total native value the quote's transactions will spend on `chainId`, before gas. */
+export function totalValue(quote: RelayQuoteResponse, chainId: number): bigint {
+    let sum = 0n;
+    for (const step of quote.steps) {
+        for (const item of step.items) {
+            if (item.status !== "complete" && item.data.chainId === chainId) sum += BigInt(item.data.value ?? "0");
+        }
+    }
+    return sum;
+}
+
+/** Gas of the incomplete items on `chainId`; items without a gas hint count as `fallback`. */
+export function totalGas(quote: RelayQuoteResponse, chainId: number, fallback = 150000n): bigint {
+    let sum = 0n;
+    for (const step of quote.steps) {
+        for (const item of step.items) {
+            if (item.status !== "complete" && item.data.chainId === chainId) sum += item.data.gas ? BigInt(item.data.gas) : fallback;
+        }
+    }
+    return sum;
+}
+
+/** The incomplete transaction items, in order, checked against the signer's address and chain. */
+async function pendingItems(quote: RelayQuoteResponse, signer: ethers.Signer): Promise<{ step: RelayStep; data: RelayTxData }[]> {
+    const address = (await signer.getAddress()).toLowerCase();
+    const { chainId } = await signer.provider!.getNetwork();
+    const pending: { step: RelayStep; data: RelayTxData }[] = [];
+
+    for (const step of quote.steps) {
+        if (step.items.every((i) => i.status === "complete")) continue;
+        if (step.kind !== "transaction") {
+            throw new RelayExecutionError(`Relay step "${step.id}" needs a ${step.kind}; only transaction steps are supported`);
+        }
+        for (const item of step.items) {
+            if (item.status === "complete") continue;
+            if (BigInt(item.data.chainId) !== chainId) {
+                throw new RelayExecutionError(
+                    `Relay step "${step.id}" targets chain ${item.data.chainId} but the signer is on ${chainId}`
+                );
+            }
+            if (item.data.from && item.data.from.toLowerCase() !== address) {
+                throw new RelayExecutionError(`Relay step "${step.id}" must be sent from ${item.data.from}, signer is ${address}`);
+            }
+            pending.push({ step, data: item.data });
+        }
+    }
+    return pending;
+}
+
+/**
+ * Send every incomplete transaction item, in order, from `signer`, waiting for
+ * each to be final before sending the next (later steps usually depend on
+ * earlier approvals). With `txs` each goes through the tx manager, priced by
+ * its gas policy (Relay's gas hint stays the limit) and sped up while pending;
+ * without, it goes out as quoted and is waited on for at most `timeoutMs`.
+ */
+export async function executeRelaySteps(
+    quote: RelayQuoteResponse,
+    signer: ethers.Signer,
+    txs: TxManager | undefined,
+    timeoutMs: number,
+    onSent?: (stepId: string, hash: string) => void
+): Promise<ExecutedRelayTx[]> {
+    const executed: ExecutedRelayTx[] = [];
+    for (const { step, data } of await pendingItems(quote, signer)) {
+        let hash: string;
+        let receipt: ethers.TransactionReceipt | null;
+        if (txs) {
+            const sent = await txs.send(`relay ${step.id}`, signer, toTransactionRequest(data), (h) => onSent?.(step.id, h));
+            hash = sent.hash ?? sent.attempts[sent.attempts.length - 1].hash;
+            if (sent.status === "timeout") {
+                throw new RelayExecutionError(`Relay step "${step.id}" transaction still not confirmed`, hash, true);
+            }
+            if (sent.status !== "confirmed") {
+                throw new RelayExecutionError(`Relay step "${step.id}" transaction ended ${sent.status}`, hash);
+            }
+            receipt = sent.receipt!;
+        } else {
+            const tx = await signer.sendTransaction(toTransactionRequest(data));
+            onSent?.(step.id, tx.hash);
+            hash = tx.hash;
+            try {
+                receipt = await tx.wait(1, timeoutMs);
+            } catch (err) {
+                if (ethers.isError(err, "TIMEOUT")) {
+                    throw new RelayExecutionError(
+                        `Relay step "${step.id}" transaction still pending after ${Math.round(timeoutMs / 1000)}s`,
+                        tx.hash,
+                        true
+                    );
+                }
+                receipt = null;
+            }
+            if (!receipt || receipt.status !== 1) {
+                throw new RelayExecutionError(`Relay step "${step.id}" transaction reverted or was dropped`, tx.hash);
+            }
+        }
+        executed.push({
+            stepId: step.id,
+            requestId: step.requestId,
+            chainId: data.chainId,
+            hash,
+            blockNumber: receipt.blockNumber,
+        });
+    }
+    return executed;
+}
+
+/** Write every incomplete transaction item to `signer`'s export instead of sending it. */
+export async function exportRelaySteps(quote: RelayQuoteResponse, signer: ExportSigner, txs: TxManager): Promise<void> {
+    for (const { step, data } of await pendingItems(quote, signer)) {
+        const label = `relay ${step.id}`;
+        await signer.exportTx(label, await withGas(label, signer, toTransactionRequest(data), txs.gas));
+    }
+}
@@ -0,0 +1,225 @@
+/**
+ * mock_server.ts
+ *
+ * Local stand-in for the Relay API so quotes and status tracking can be
+ * exercised offline:
+ *
+ *   POST /quote, /execute/call   → one "deposit" transaction step with a fresh requestId
+ *   GET  /intents/status/v2      → scripted status sequence per requestId
+ *
+ * With a solver wallet the mock also fills: the first time a request's status
+ * comes up "success", the solver runs the request's destination `txs` (the
+ * approve + depositFor of relay/quote.ts) itself, and their hashes are served
+ * as txHashes. A local chain then sees the Deposit a real fill would emit, so
+ * `relay` can be followed end to end; the solver must hold the tokens.
+ *
+ * Run standalone:
+ *   npx ts-node src/relay/mock_server.ts --port 4010 --scenario success
+ *   RELAY_API_URL=http://127.0.0.1:4010 npm run cli -- relay ...
+ *   SOLVER_KEY=0x... npx ts-node src/relay/mock_server.ts --solver-key-env SOLVER_KEY --destination-rpc http://127.0.0.1:8545
+ */
+
+import * as http from "http";
+import { ethers } from "ethers";
+import { parseArgs } from "util";
+import { RelayErrorBody, RelayQuoteRequest, RelayQuoteResponse, RelayStatusResponse } from "./types";
+
+/** Address the mock asks origin txs to be sent to. */
+export const MOCK_RELAY_RECEIVER = ethers.getAddress(ethers.dataSlice(ethers.id("mock-relay-receiver"), 0, 20));
+
+export interface MockRelayScript {
+    /** Override the generated quote. */
+    quote?: (req: RelayQuoteRequest, requestId: string) => RelayQuoteResponse;
+    /** Reject quotes with this HTTP status + body (e.g. output.txt's INVALID_REQUEST_PARAMS). */
+    quoteError?: { status: number; body: RelayErrorBody };
+    /**
+     * Status sequence served for each requestId, one entry per poll; the last
+     * entry repeats. Keyed by requestId, or "*" for any request.
+     */
+    statuses?: Record<string, RelayStatusResponse[]>;
+    /** Fills requests on the destination chain; see the header. */
+    solver?: ethers.Signer;
+}
+
+export interface MockRelayServer {
+    url: string;
+    /** requestIds handed out by /quote, in order. */
+    requestIds: string[];
+    close(): Promise<void>;
+}
+
+/** Preset status sequences for the standalone server. */
+export const SCENARIOS: Record<string, RelayStatusResponse[]> = {
+    success: [
+        { status: "waiting" },
+        { status: "pending", inTxHashes: [ethers.id("origin")] },
+        { status: "success", inTxHashes: [ethers.id("origin")], txHashes: [ethers.id("fill")] },
+    ],
+    refund: [
+        { status: "pending", inTxHashes: [ethers.id("origin")] },
+        { status: "refund", inTxHashes: [ethers.id("origin")], txHashes: [ethers.id("refund")], details: "destination call reverted" },
+    ],
+    failure: [{ status: "pending" }, { status: "failure", details: "solver could not fill" }],
+    stuck: [{ status: "waiting" }],
+};
+
+function defaultQuote(req: RelayQuoteRequest, requestId: string): RelayQuoteResponse {
+    const nativeIn = BigInt(req.originCurrency) === 0n;
+    return {
+        steps: [
+            {
+                id: "deposit",
+                action: "Confirm transaction in your wallet",
+                description: "Depositing funds to the relayer",
+                kind: "transaction",
+                requestId,
+                items: [
+                    {
+                        status: "incomplete",
+                        data: {
+                            from: req.user,
+                            to: MOCK_RELAY_RECEIVER,
+                            data: requestId,
+                            // Pretend 1:1 pricing; good enough to exercise the flow.
+                            value: nativeIn ? req.amount : "0",
+                            chainId: req.originChainId,
+                        },
+                        check: { endpoint: `/intents/status/v2?requestId=${requestId}`, method: "GET" },
+                    },
+                ],
+            },
+        ],
+        fees: {},
+        details: { operation: "bridge", sender: req.user, recipient: req.recipient, timeEstimate: 10 },
+    };
+}
+
+function readBody(req: http.IncomingMessage): Promise<any> {
+    return new Promise((resolve, reject) => {
+        let raw = "";
+        req.on("data", (chunk) => (raw += chunk));
+        req.on("end", () => {
+            try {
+                resolve(raw ? JSON.parse(raw) : undefined);
+            } catch (err) {
+                reject(err);
+            }
+        });
+        req.on("error", reject);
+    });
+}
+
+function send(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { "content-type": "application/json" });
+    res.end(JSON.stringify(body));
+}
+
+/** How a solver fill ended: the hashes of its txs, or why one of them failed. */
+interface MockFill {
+    txHashes: string[];
+    error?: string;
+}
+
+/** Run `req`'s destination calls from the solver, in order. */
+async function fill(solver: ethers.Signer, req: RelayQuoteRequest): Promise<MockFill> {
+    const txHashes: string[] = [];
+    try {
+        for (const tx of req.txs ?? []) {
+            const sent = await solver.sendTransaction({ to: tx.to, value: tx.value, data: tx.data });
+            await sent.wait();
+            txHashes.push(sent.hash);
+        }
+        return { txHashes };
+    } catch (err: any) {
+        return { txHashes, error: err?.shortMessage ?? err?.message ?? String(err) };
+    }
+}
+
+export function startMockRelayServer(script: MockRelayScript = {}, port = 0): Promise<MockRelayServer> {
+    const requestIds: string[] = [];
+    const polls = new Map<string, number>();
+    const requests = new Map<string, RelayQuoteRequest>();
+    const fills = new Map<string, Promise<MockFill>>();
+
+    const server = http.createServer(async (req, res) => {
+        const url = new URL(req.url ?? "/", "http://localhost");
+        try {
+            if (req.method === "POST" && (url.pathname === "/quote" || url.pathname === "/execute/call")) {
+                const body = (await readBody(req)) as RelayQuoteRequest;
+                if (script.quoteError) return send(res, script.quoteError.status, script.quoteError.body);
+                if (body?.txs?.length && body.tradeType !== "EXACT_OUTPUT") {
+                    return send(res, 400, {
+                        message: "tradeType=EXACT_OUTPUT is required when 'txs' is set",
+                        errorCode: "INVALID_REQUEST_PARAMS",
+                    });
+                }
+                const requestId = ethers.id(`mock-relay:${requestIds.length}:${JSON.stringify(body)}`);
+                requestIds.push(requestId);
+                requests.set(requestId, body);
+                return send(res, 200, (script.quote ?? defaultQuote)(body, requestId));
+            }
+
+            if (req.method === "GET" && url.pathname === "/intents/status/v2") {
+                const requestId = url.searchParams.get("requestId") ?? "";
+                const sequence = script.statuses?.[requestId] ?? script.statuses?.["*"] ?? SCENARIOS.success;
+                const n = polls.get(requestId) ?? 0;
+                polls.set(requestId, n + 1);
+                const status = sequence[Math.min(n, sequence.length - 1)];
+                const quoted = requests.get(requestId);
+                if (status.status === "success" && script.solver && quoted?.txs?.length) {
+                    if (!fills.has(requestId)) fills.set(requestId, fill(script.solver, quoted));
+                    const filled = await fills.get(requestId)!;
+                    // A fill that reverts is what Relay reports as a failed request.
+                    if (filled.error !== undefined) {
+                        return send(res, 200, { status: "failure", inTxHashes: status.inTxHashes, details: `mock solver: ${filled.error}` });
+                    }
+                    return send(res, 200, { ...status, txHashes: filled.txHashes });
+                }
+                return send(res, 200, status);
+            }
+
+            send(res, 404, { message: `no mock for ${req.method} ${url.pathname}`, errorCode: "NOT_FOUND" });
+        } catch (err: any) {
+            send(res, 500, { message: err?.message ?? "mock error" });
+        }
+    });
+
+    return new Promise((resolve) => {
+        server.listen(port, "127.0.0.1", () => {
+            const address = server.address() as { port: number };
+            resolve({
+                url: `http://127.0.0.1:${address.port}`,
+                requestIds,
+                close: () => new Promise<void>((done) => server.close(() => done())),
+            });
+        });
+    });
+}
+
+if (require.main === module) {
+    const { values } = parseArgs({
+        options: {
+            port: { type: "string" },
+            scenario: { type: "string" },
+            "solver-key-env": { type: "string" },
+            "destination-rpc": { type: "string" },
+        },
+    });
+    const scenario = values.scenario ?? "success";
+    if (!SCENARIOS[scenario]) {
+        console.error(`Unknown scenario "${scenario}". Known: ${Object.keys(SCENARIOS).join(", ")}`);
+        process.exit(2);
+    }
+    let solver: ethers.Wallet | undefined;
+    if (values["solver-key-env"]) {
+        const key = process.env[values["solver-key-env"]];
+        if (!key || !values["destination-rpc"]) {
+            console.error("--solver-key-env needs the key in that env var and --destination-rpc");
+            process.exit(2);
+        }
+        solver = new ethers.Wallet(key, new ethers.JsonRpcProvider(values["destination-rpc"]));
+    }
+    startMockRelayServer({ statuses: { "*": SCENARIOS[scenario] }, solver }, Number(values.port ?? 4010)).then((srv) => {
+        console.log(`Mock Relay API (${scenario}) listening on ${srv.url}${solver ? `, filling as ${solver.address}` : ""}`);
+    });
+}
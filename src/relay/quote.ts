@@ -0,0 +1,70 @@
+/**
+ * quote.ts
+ *
+ * Builds the Relay request for a cross-chain Aster deposit: Relay delivers
+ * exactly `amount` of the destination token and then executes
+ *
+ *   token.approve(vault, amount)
+ *   vault.depositFor(token, beneficiary, amount, broker)
+ *
+ * on the destination chain. Because `txs` is set, Relay only accepts
+ * tradeType EXACT_OUTPUT and `amount` is in destination-token wei.
+ *
+ * NOTE: depositFor is gated by DEPOSIT_ROLE, so the Relay contract that
+ * executes destination txs must hold that role on the vault.
+ */
+
+import { ethers } from "ethers";
+import { ERC20_ABI, VAULT_ABI } from "../abis";
+import { RelayDestinationTx, RelayQuoteRequest } from "./types";
+
+export interface DepositQuoteParams {
+    /** Origin payer. */
+    user: string;
+    originChainId: number;
+    /** Zero address = origin native coin. */
+    originCurrency: string;
+    destinationChainId: number;
+    /** Token credited on Aster (e.g. BSC USDT). */
+    destinationCurrency: string;
+    /** AstherusVault on the destination chain. */
+    vault: string;
+    beneficiary: string;
+    /** Exact destination amount, in destination-token wei. */
+    amountWei: bigint;
+    broker: string;
+    slippageBps?: number;
+}
+
+/** The destination calls Relay runs after the fill. */
+export function buildDepositForTxs(p: Pick<DepositQuoteParams, "destinationCurrency" | "vault" | "beneficiary" | "amountWei" | "broker">): RelayDestinationTx[] {
+    const erc20 = new ethers.Interface(ERC20_ABI);
+    const vault = new ethers.Interface(VAULT_ABI);
+    return [
+        {
+            to: p.destinationCurrency,
+            value: "0",
+            data: erc20.encodeFunctionData("approve", [p.vault, p.amountWei]),
+        },
+        {
+            to: p.vault,
+            value: "0",
+            data: vault.encodeFunctionData("depositFor", [p.destinationCurrency, p.beneficiary, p.amountWei, p.broker]),
+        },
+    ];
+}
+
+export function buildDepositQuoteRequest(p: DepositQuoteParams): RelayQuoteRequest {
+    return {
+        user: p.user,
+        originChainId: p.originChainId,
+        destinationChainId: p.destinationChainId,
+        originCurrency: p.originCurrency,
+        destinationCurrency: p.destinationCurrency,
+        amount: p.amountWei.toString(),
+        tradeType: "EXACT_OUTPUT",
+        recipient: p.beneficiary,
+        txs: buildDepositForTxs(p),
+        ...(p.slippageBps !== undefined ? { slippageTolerance: String(p.slippageBps) } : {}),
+    };
+}
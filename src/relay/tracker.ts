@@ -0,0 +1,168 @@
+/**
+ * tracker.ts
+ *
+ * Follows a Relay request after its origin tx is sent: polls
+ * GET /intents/status/v2?requestId=..., records origin / destination tx hashes,
+ * and once Relay reports success confirms the vault's Deposit log in the
+ * destination transactions, polling again until the timeout while the
+ * destination node has not indexed them. Requests that are refunded, fail, or
+ * sit past the timeout are flagged instead of silently waited on forever.
+ *
+ * The beneficiary's Deposit counts even when its amount differs from the
+ * expected one: the fill happened, and what it credited is for the caller to
+ * reconcile (see credits.ts) rather than to report as missing.
+ */
+
+import { ethers } from "ethers";
+import { DepositLog, depositsInReceipt } from "../vault_events";
+import { RelayClient } from "./client";
+import { RelayApiError } from "./errors";
+import { RelayRequestStatus, RelayStatusResponse } from "./types";
+
+export type TrackOutcome =
+    /** Relay filled and the vault emitted a Deposit for the beneficiary. */
+    | "confirmed"
+    /** Relay filled, but no matching Deposit log in the destination txs by the timeout. */
+    | "filled-without-deposit"
+    | "refunded"
+    | "failed"
+    /** Still not terminal when the timeout ran out. */
+    | "stuck";
+
+export interface TrackedRequest {
+    requestId: string;
+    status: RelayRequestStatus | "unknown";
+    outcome?: TrackOutcome;
+    originTxHashes: string[];
+    destinationTxHashes: string[];
+    deposit?: DepositLog;
+    /** The destination receipt `deposit` is in. */
+    receipt?: ethers.TransactionReceipt;
+    details?: string;
+    startedAt: number;
+    updatedAt: number;
+}
+
+export interface ExpectedDeposit {
+    vault: string;
+    account: string;
+    currency: string;
+    /** Amount expected: preferred over other Deposits for the account, which still match. */
+    amount?: bigint;
+}
+
+export interface TrackOptions {
+    /** Provider on the destination chain, used to confirm the Deposit log. */
+    destination: ethers.Provider;
+    expected: ExpectedDeposit;
+    /** Give up (outcome "stuck") after this long. */
+    timeoutMs: number;
+    pollMs?: number;
+    onUpdate?: (state: TrackedRequest) => void;
+}
+
+const TERMINAL: ReadonlySet<string> = new Set(["success", "failure", "refund", "refunded"]);
+
+export async function getRelayStatus(client: RelayClient, requestId: string): Promise<RelayStatusResponse> {
+    return client.get<RelayStatusResponse>("/intents/status/v2", { requestId });
+}
+
+/**
+ * Look for the beneficiary's Deposit log inside the given destination
+ * transactions: one for the expected amount if there is one, else the first.
+ */
+export async function findDepositInTxs(
+    provider: ethers.Provider,
+    txHashes: string[],
+    expected: ExpectedDeposit
+): Promise<{ deposit: DepositLog; receipt: ethers.TransactionReceipt } | undefined> {
+    const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+    let found: { deposit: DepositLog; receipt: ethers.TransactionReceipt } | undefined;
+    for (const hash of txHashes) {
+        const receipt = await provider.getTransactionReceipt(hash);
+        if (!receipt || receipt.status !== 1) continue;
+        for (const deposit of depositsInReceipt(receipt, expected.vault)) {
+            if (!same(deposit.account, expected.account) || !same(deposit.currency, expected.currency)) continue;
+            if (expected.amount === undefined || deposit.amount === expected.amount) return { deposit, receipt };
+            found ??= { deposit, receipt };
+        }
+    }
+    return found;
+}
+
+function merge(into: string[], more: string[] | undefined): void {
+    for (const h of more ?? []) if (!into.includes(h)) into.push(h);
+}
+
+/** Poll Relay until the request is terminal (or times out) and classify the outcome. */
+export async function trackRelayRequest(
+    client: RelayClient,
+    requestId: string,
+    opts: TrackOptions
+): Promise<TrackedRequest> {
+    const pollMs = opts.pollMs ?? 5_000;
+    const state: TrackedRequest = {
+        requestId,
+        status: "unknown",
+        originTxHashes: [],
+        destinationTxHashes: [],
+        startedAt: Date.now(),
+        updatedAt: Date.now(),
+    };
+    const deadline = state.startedAt + opts.timeoutMs;
+
+    while (true) {
+        let res: RelayStatusResponse | undefined;
+        try {
+            res = await getRelayStatus(client, requestId);
+        } catch (err) {
+            // A flaky status endpoint is not a failed bridge; keep polling until the timeout.
+            if (!(err instanceof RelayApiError) || !err.retryable) throw err;
+        }
+
+        if (res) {
+            const changed = res.status !== state.status;
+            state.status = res.status;
+            state.details = res.details;
+            merge(state.originTxHashes, res.inTxHashes);
+            merge(state.destinationTxHashes, res.txHashes);
+            state.updatedAt = Date.now();
+            if (changed) opts.onUpdate?.(state);
+
+            if (TERMINAL.has(res.status)) {
+                const outcome = await classify(state, opts);
+                // Relay can report success before the destination node serves the fill's
+                // receipts: keep looking until the timeout before calling it depositless.
+                if (outcome !== "filled-without-deposit" || Date.now() >= deadline) {
+                    state.outcome = outcome;
+                    opts.onUpdate?.(state);
+                    return state;
+                }
+            }
+        }
+
+        if (Date.now() >= deadline) {
+            state.outcome = state.status === "success" ? "filled-without-deposit" : "stuck";
+            opts.onUpdate?.(state);
+            return state;
+        }
+        await new Promise((resolve) => setTimeout(resolve, Math.min(pollMs, Math.max(0, deadline - Date.now()))));
+    }
+}
+
+async function classify(state: TrackedRequest, opts: TrackOptions): Promise<TrackOutcome> {
+    switch (state.status) {
+        case "refund":
+        case "refunded":
+            return "refunded";
+        case "failure":
+            return "failed";
+        default: {
+            const found = await findDepositInTxs(opts.destination, state.destinationTxHashes, opts.expected);
+            if (!found) return "filled-without-deposit";
+            state.deposit = found.deposit;
+            state.receipt = found.receipt;
+            return "confirmed";
+        }
+    }
+}
@@ -0,0 +1,135 @@
+/**
+ * types.ts
+ *
+ * Shapes of the Relay (https://api.relay.link) quote / execute API, limited to
+ * the fields the deposit flows read. Amounts are decimal strings in wei.
+ */
+
+export type TradeType = "EXACT_INPUT" | "EXACT_OUTPUT" | "EXPECTED_OUTPUT";
+
+/** A call Relay executes on the destination chain after the fill. */
+export interface RelayDestinationTx {
+    to: string;
+    value: string;
+    data: string;
+}
+
+export interface RelayQuoteRequest {
+    /** Address paying on the origin chain. */
+    user: string;
+    originChainId: number;
+    destinationChainId: number;
+    /** Zero address for the origin chain's native coin. */
+    originCurrency: string;
+    destinationCurrency: string;
+    /** In wei of originCurrency (EXACT_INPUT) or destinationCurrency (EXACT_OUTPUT). */
+    amount: string;
+    tradeType: TradeType;
+    /** Receiver of the output when no `txs` are given. */
+    recipient?: string;
+    /** Destination calls; Relay requires tradeType EXACT_OUTPUT when set. */
+    txs?: RelayDestinationTx[];
+    referrer?: string;
+    /** Basis points, as a string ("50" = 0.5%). */
+    slippageTolerance?: string;
+}
+
+export interface RelayCurrency {
+    chainId: number;
+    address: string;
+    symbol: string;
+    name: string;
+    decimals: number;
+}
+
+export interface RelayAmount {
+    currency: RelayCurrency;
+    amount: string;
+    amountFormatted: string;
+    amountUsd: string;
+    minimumAmount?: string;
+}
+
+export interface RelayFees {
+    gas?: RelayAmount;
+    relayer?: RelayAmount;
+    relayerGas?: RelayAmount;
+    relayerService?: RelayAmount;
+    app?: RelayAmount;
+}
+
+/** A transaction the user must sign and send (step kind "transaction"). */
+export interface RelayTxData {
+    from: string;
+    to: string;
+    data: string;
+    value: string;
+    chainId: number;
+    gas?: string;
+    maxFeePerGas?: string;
+    maxPriorityFeePerGas?: string;
+}
+
+export interface RelayStepItem {
+    status: "incomplete" | "complete";
+    data: RelayTxData;
+    /** Endpoint to poll for this item's progress, relative to the API root. */
+    check?: { endpoint: string; method: "GET" | "POST" };
+}
+
+export interface RelayStep {
+    id: string;
+    action: string;
+    description: string;
+    kind: "transaction" | "signature";
+    requestId?: string;
+    items: RelayStepItem[];
+}
+
+export interface RelayQuoteDetails {
+    operation?: string;
+    sender?: string;
+    recipient?: string;
+    currencyIn?: RelayAmount;
+    currencyOut?: RelayAmount;
+    totalImpact?: { usd: string; percent: string };
+    rate?: string;
+    timeEstimate?: number;
+}
+
+export interface RelayQuoteResponse {
+    steps: RelayStep[];
+    fees: RelayFees;
+    details?: RelayQuoteDetails;
+}
+
+/** Body Relay returns on 4xx / 5xx (see output.txt). */
+export interface RelayErrorBody {
+    message: string;
+    errorCode?: string;
+    requestId?: string;
+    approxSimulatedBlock?: number;
+}
+
+/** Lifecycle of a Relay request as reported by /intents/status/v2. */
+export type RelayRequestStatus =
+    | "waiting"
+    | "pending"
+    | "submitted"
+    | "delayed"
+    | "success"
+    | "failure"
+    | "refund"
+    | "refunded";
+
+export interface RelayStatusResponse {
+    status: RelayRequestStatus;
+    details?: string;
+    /** Origin-chain tx hashes Relay has seen for this request. */
+    inTxHashes?: string[];
+    /** Destination-chain (fill / refund) tx hashes. */
+    txHashes?: string[];
+    updatedAt?: number;
+    originChainId?: number;
+    destinationChainId?: number;
+}
@@ -0,0 +1,167 @@
+/**
+ * mock_server.ts
+ *
+ * Local JSON-RPC endpoint that fails on purpose, for exercising RpcPool's
+ * failover, retries and quorum. It forwards to a real node (`upstream`, e.g. a
+ * local ganache) and injects one fault per request from a scripted sequence:
+ *
+ *   ok              forward unchanged
+ *   rate-limit      HTTP 429 with Retry-After: 1
+ *   rpc-rate-limit  HTTP 200 with JSON-RPC error -32005 "limit exceeded"
+ *   error           HTTP 503
+ *   timeout         never answer (the client's timeout fires)
+ *   down            drop the connection
+ *   stale           receipt / tx lookups return null, as on a lagging node
+ *   lie             eth_call / eth_getBalance results are altered
+ *
+ * Run standalone:
+ *   npx ts-node src/rpc/mock_server.ts --port 8601 --upstream http://127.0.0.1:8545 --scenario rate-limited
+ *   npm run cli -- deposit --rpc http://127.0.0.1:8601,http://127.0.0.1:8545 ...
+ */
+
+import axios from "axios";
+import * as http from "http";
+import { parseArgs } from "util";
+
+export type MockRpcFault = "ok" | "rate-limit" | "rpc-rate-limit" | "error" | "timeout" | "down" | "stale" | "lie";
+
+export interface MockRpcScript {
+    /** Node the healthy requests are forwarded to. */
+    upstream: string;
+    /**
+     * Fault sequence per JSON-RPC method, or "*" for any method; one entry per
+     * request, the last entry repeats.
+     */
+    faults?: Record<string, MockRpcFault[]>;
+}
+
+export interface MockRpcServer {
+    url: string;
+    /** Every request served, with the fault applied to it. */
+    log: { method: string; fault: MockRpcFault }[];
+    close(): Promise<void>;
+}
+
+/** Preset fault sequences for the standalone server. */
+export const SCENARIOS: Record<string, MockRpcFault[]> = {
+    healthy: ["ok"],
+    "rate-limited": ["rate-limit", "rpc-rate-limit", "ok"],
+    flaky: ["ok", "error", "ok", "timeout", "ok"],
+    down: ["down"],
+    slow: ["timeout"],
+    stale: ["stale"],
+    lying: ["lie"],
+};
+
+const STALE_METHODS = new Set(["eth_getTransactionReceipt", "eth_getTransactionByHash"]);
+const LIE_METHODS = new Set(["eth_call", "eth_getBalance"]);
+
+function readBody(req: http.IncomingMessage): Promise<any> {
+    return new Promise((resolve, reject) => {
+        let raw = "";
+        req.on("data", (chunk) => (raw += chunk));
+        req.on("end", () => {
+            try {
+                resolve(raw ? JSON.parse(raw) : undefined);
+            } catch (err) {
+                reject(err);
+            }
+        });
+        req.on("error", reject);
+    });
+}
+
+function send(res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+    res.writeHead(status, { "content-type": "application/json", ...headers });
+    res.end(JSON.stringify(body));
+}
+
+/** Flip the last byte of a hex result so it no longer matches honest nodes. */
+function tamper(result: unknown): unknown {
+    if (typeof result !== "string" || !/^0x[0-9a-f]+$/i.test(result)) return result;
+    const last = parseInt(result.slice(-1), 16);
+    return result.slice(0, -1) + ((last + 1) % 16).toString(16);
+}
+
+export function startMockRpcServer(script: MockRpcScript, port = 0): Promise<MockRpcServer> {
+    const log: MockRpcServer["log"] = [];
+    const served = new Map<string, number>();
+    const hanging = new Set<http.ServerResponse>();
+
+    const faultFor = (method: string): MockRpcFault => {
+        const sequence = script.faults?.[method] ?? script.faults?.["*"] ?? SCENARIOS.healthy;
+        const key = script.faults?.[method] ? method : "*";
+        const n = served.get(key) ?? 0;
+        served.set(key, n + 1);
+        return sequence[Math.min(n, sequence.length - 1)];
+    };
+
+    const server = http.createServer(async (req, res) => {
+        try {
+            const body = await readBody(req);
+            const method: string = body?.method ?? "";
+            const fault = faultFor(method);
+            log.push({ method, fault });
+
+            switch (fault) {
+                case "rate-limit":
+                    return send(res, 429, { message: "Too Many Requests" }, { "retry-after": "1" });
+                case "rpc-rate-limit":
+                    return send(res, 200, { jsonrpc: "2.0", id: body?.id, error: { code: -32005, message: "limit exceeded" } });
+                case "error":
+                    return send(res, 503, { message: "Service Unavailable" });
+                case "timeout":
+                    hanging.add(res);
+                    return;
+                case "down":
+                    return req.socket.destroy();
+            }
+
+            if (fault === "stale" && STALE_METHODS.has(method)) {
+                return send(res, 200, { jsonrpc: "2.0", id: body?.id, result: null });
+            }
+            const upstream = await axios.post(script.upstream, body, { validateStatus: () => true });
+            const answer = upstream.data;
+            if (fault === "lie" && LIE_METHODS.has(method) && answer && "result" in answer) {
+                answer.result = tamper(answer.result);
+            }
+            send(res, upstream.status, answer);
+        } catch (err: any) {
+            send(res, 500, { message: err?.message ?? "mock error" });
+        }
+    });
+
+    return new Promise((resolve) => {
+        server.listen(port, "127.0.0.1", () => {
+            const address = server.address() as { port: number };
+            resolve({
+                url: `http://127.0.0.1:${address.port}`,
+                log,
+                close: () =>
+                    new Promise<void>((done) => {
+                        for (const res of hanging) res.destroy();
+                        server.closeAllConnections();
+                        server.close(() => done());
+                    }),
+            });
+        });
+    });
+}
+
+if (require.main === module) {
+    const { values } = parseArgs({
+        options: { port: { type: "string" }, upstream: { type: "string" }, scenario: { type: "string" } },
+    });
+    const scenario = values.scenario ?? "healthy";
+    if (!SCENARIOS[scenario]) {
+        console.error(`Unknown scenario "${scenario}". Known: ${Object.keys(SCENARIOS).join(", ")}`);
+        process.exit(2);
+    }
+    if (!values.upstream) {
+        console.error("--upstream <url> is required (the node healthy requests are forwarded to)");
+        process.exit(2);
+    }
+    startMockRpcServer({ upstream: values.upstream, faults: { "*": SCENARIOS[scenario] } }, Number(values.port ?? 8601)).then((srv) => {
+        console.log(`Mock JSON-RPC (${scenario}) → ${values.upstream} listening on ${srv.url}`);
+    });
+}
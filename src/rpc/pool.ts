@@ -0,0 +1,371 @@
+/**
+ * pool.ts
+ *
+ * A provider backed by several RPC endpoints of one chain, so a flaky public
+ * node doesn't fail a deposit halfway through. Every JSON-RPC request is
+ * routed by method:
+ *
+ *   eth_sendRawTransaction   one primary (the first healthy endpoint); the
+ *                            next one only if the primary can't be reached.
+ *                            "already known" counts as sent.
+ *   receipts / tx lookups    every healthy endpoint at once; the first one that
+ *                            has the tx wins, so a lagging node doesn't hide it.
+ *   state reads (QUORUM_METHODS) with `quorum` > 1, that many endpoints must
+ *                            return the same answer.
+ *   everything else          fallback, in endpoint order.
+ *
+ * Rate-limit, timeout and 5xx failures are transient: the endpoint is put in
+ * cooldown and the request moves on, with exponential backoff between passes
+ * over the list. JSON-RPC errors (reverts, bad nonce, ...) are answers, not
+ * failures, and go straight back to the caller. `health()` reports per-endpoint
+ * counters; `onHealth` sees every change in an endpoint's state.
+ */
+
+import axios, { AxiosInstance } from "axios";
+import { ethers } from "ethers";
+import { CliError, EXIT } from "../exit_codes";
+
+type JsonRpcPayload = ethers.JsonRpcPayload;
+type JsonRpcResponse = ethers.JsonRpcResult | ethers.JsonRpcError;
+
+export interface RpcPoolOptions {
+    chainId: number;
+    /** Endpoints, preferred first; the first healthy one is the primary for sends. */
+    urls: string[];
+    /** Endpoints that must agree on QUORUM_METHODS reads (default 1: plain fallback). */
+    quorum?: number;
+    /** Extra passes over the endpoint list after transient failures (default 3). */
+    retries?: number;
+    /** Backoff before the first retry pass, doubled on each pass (default 250). */
+    backoffMs?: number;
+    /** Per-request HTTP timeout (default 10 s). */
+    timeoutMs?: number;
+    /** How long a failing endpoint is skipped while others are healthy (default 30 s). */
+    cooldownMs?: number;
+    /** Called whenever an endpoint goes into or out of cooldown. */
+    onHealth?: (endpoint: EndpointHealth) => void;
+    /** Pre-configured axios instance (proxies, mock servers). */
+    http?: AxiosInstance;
+}
+
+export interface EndpointHealth {
+    url: string;
+    requests: number;
+    failures: number;
+    rateLimited: number;
+    timeouts: number;
+    /** Mean latency of successful requests, in ms. */
+    avgLatencyMs: number;
+    /** False while the endpoint is in cooldown. */
+    healthy: boolean;
+    lastError?: string;
+}
+
+/** Reads that return the same answer on every honest, synced node. */
+export const QUORUM_METHODS = new Set(["eth_chainId", "eth_call", "eth_getBalance", "eth_getCode", "eth_getStorageAt"]);
+
+/** Lookups a lagging node answers with null; asked of every endpoint. */
+const TX_LOOKUP_METHODS = new Set(["eth_getTransactionReceipt", "eth_getTransactionByHash"]);
+
+/** JSON-RPC error codes / messages some providers use for rate limits and overload. */
+const RATE_LIMIT_CODES = new Set([-32005, -32090, 429]);
+const TRANSIENT_MESSAGE = /rate limit|too many requests|limit exceeded|capacity|timeout|timed out|header not found|temporarily unavailable/i;
+
+/** Every endpoint failed (or disagreed) after all retries. */
+export class RpcUnavailableError extends CliError {
+    constructor(message: string, readonly method: string) {
+        super(message, EXIT.FAILURE);
+        this.name = "RpcUnavailableError";
+    }
+}
+
+type FailureKind = "rate-limit" | "timeout" | "unavailable";
+
+class TransientRpcError extends Error {
+    constructor(readonly kind: FailureKind, message: string, readonly retryAfterMs?: number) {
+        super(message);
+    }
+}
+
+interface Endpoint {
+    url: string;
+    requests: number;
+    successes: number;
+    failures: number;
+    rateLimited: number;
+    timeouts: number;
+    latencyMs: number;
+    cooldownUntil: number;
+    lastError?: string;
+}
+
+export class RpcPool extends ethers.JsonRpcProvider {
+    private readonly endpoints: Endpoint[];
+    private readonly settings: Required<Omit<RpcPoolOptions, "onHealth" | "http" | "urls">>;
+    private readonly onHealth?: (endpoint: EndpointHealth) => void;
+    private readonly http: AxiosInstance;
+
+    constructor(opts: RpcPoolOptions) {
+        if (opts.urls.length === 0) throw new CliError("no RPC endpoints configured", EXIT.CONFIG);
+        // Batching off: each payload is routed on its own method.
+        super(opts.urls[0], opts.chainId, { staticNetwork: true, batchMaxCount: 1 });
+        this.endpoints = opts.urls.map((url) => ({
+            url,
+            requests: 0,
+            successes: 0,
+            failures: 0,
+            rateLimited: 0,
+            timeouts: 0,
+            latencyMs: 0,
+            cooldownUntil: 0,
+        }));
+        const quorum = opts.quorum ?? 1;
+        if (!Number.isInteger(quorum) || quorum < 1 || quorum > opts.urls.length) {
+            throw new CliError(`RPC quorum must be between 1 and the number of endpoints (${opts.urls.length}), got ${quorum}`, EXIT.USAGE);
+        }
+        this.settings = {
+            chainId: opts.chainId,
+            quorum,
+            retries: opts.retries ?? 3,
+            backoffMs: opts.backoffMs ?? 250,
+            timeoutMs: opts.timeoutMs ?? 10_000,
+            cooldownMs: opts.cooldownMs ?? 30_000,
+        };
+        this.onHealth = opts.onHealth;
+        this.http = opts.http ?? axios.create();
+    }
+
+    get urls(): string[] {
+        return this.endpoints.map((e) => e.url);
+    }
+
+    health(): EndpointHealth[] {
+        return this.endpoints.map((e) => this.snapshot(e));
+    }
+
+    async _send(payload: JsonRpcPayload | JsonRpcPayload[]): Promise<ethers.JsonRpcResult[]> {
+        // batchMaxCount = 1, but stay correct if ethers ever hands us a batch.
+        const payloads = Array.isArray(payload) ? payload : [payload];
+        // JsonRpcProvider narrows the type, but its caller handles error responses too.
+        return Promise.all(payloads.map((p) => this.route(p))) as Promise<ethers.JsonRpcResult[]>;
+    }
+
+    private route(payload: JsonRpcPayload): Promise<JsonRpcResponse> {
+        if (payload.method === "eth_sendRawTransaction") return this.sendRaw(payload);
+        if (TX_LOOKUP_METHODS.has(payload.method)) return this.firstFound(payload);
+        if (this.settings.quorum > 1 && QUORUM_METHODS.has(payload.method)) return this.withQuorum(payload);
+        return this.withRetries(payload, (p) => this.fallback(p));
+    }
+
+    // ─────────────────────────────────────────────
+    // Strategies
+    // ─────────────────────────────────────────────
+    /** First endpoint, in health order, that answers. */
+    private async fallback(payload: JsonRpcPayload): Promise<JsonRpcResponse> {
+        let last: TransientRpcError | undefined;
+        for (const endpoint of this.ordered()) {
+            try {
+                return await this.request(endpoint, payload);
+            } catch (err) {
+                last = asTransient(err);
+            }
+        }
+        throw last;
+    }
+
+    /** Primary first; a rebroadcast the node already has is a success, not an error. */
+    private sendRaw(payload: JsonRpcPayload): Promise<JsonRpcResponse> {
+        return this.withRetries(payload, async (p) => {
+            const response = await this.fallback(p);
+            if ("error" in response && /already known|known transaction|already imported/i.test(response.error.message ?? "")) {
+                const raw = (p.params as string[])[0];
+                return { id: p.id, result: ethers.keccak256(raw) };
+            }
+            return response;
+        });
+    }
+
+    /** Ask every healthy endpoint; the first non-null result wins, null only if nobody has it. */
+    private firstFound(payload: JsonRpcPayload): Promise<JsonRpcResponse> {
+        return this.withRetries(payload, async (p) => {
+            const settled = await Promise.allSettled(this.healthy().map((e) => this.request(e, p)));
+            const answers = settled.flatMap((s) => (s.status === "fulfilled" ? [s.value] : []));
+            const found = answers.find((a) => "result" in a && a.result != null);
+            if (found) return found;
+            if (answers.length) return answers[0];
+            throw (settled[0] as PromiseRejectedResult).reason;
+        });
+    }
+
+    /** Ask endpoints until `quorum` of them return the same answer. */
+    private withQuorum(payload: JsonRpcPayload): Promise<JsonRpcResponse> {
+        const needed = this.settings.quorum;
+        return this.withRetries(payload, async (p) => {
+            const votes = new Map<string, { response: JsonRpcResponse; count: number }>();
+            const pending = this.ordered();
+            let failures = 0;
+            // `needed` at once, then one more at a time until an answer has enough votes.
+            for (let batch = needed; pending.length; batch = 1) {
+                const asked = pending.splice(0, batch);
+                const settled = await Promise.allSettled(asked.map((e) => this.request(e, p)));
+                for (const s of settled) {
+                    if (s.status === "rejected") {
+                        failures++;
+                        continue;
+                    }
+                    const key = JSON.stringify("error" in s.value ? { error: s.value.error } : { result: s.value.result });
+                    const vote = votes.get(key) ?? { response: s.value, count: 0 };
+                    vote.count++;
+                    votes.set(key, vote);
+                    if (vote.count >= needed) return vote.response;
+                }
+            }
+            if (failures > 0) {
+                throw new TransientRpcError("unavailable", `only ${this.endpoints.length - failures} endpoint(s) answered; quorum is ${needed}`);
+            }
+            throw new RpcUnavailableError(
+                `${p.method}: no ${needed} of ${this.endpoints.length} RPC endpoints agree (${votes.size} different answers)`,
+                p.method
+            );
+        });
+    }
+
+    /** Repeat `attempt` with exponential backoff while it fails transiently. */
+    private async withRetries(
+        payload: JsonRpcPayload,
+        attempt: (p: JsonRpcPayload) => Promise<JsonRpcResponse>
+    ): Promise<JsonRpcResponse> {
+        const { retries, backoffMs } = this.settings;
+        for (let pass = 0; ; pass++) {
+            try {
+                return await attempt(payload);
+            } catch (err) {
+                if (!(err instanceof TransientRpcError)) throw err;
+                if (pass >= retries) {
+                    throw new RpcUnavailableError(
+                        `${payload.method} failed on every RPC endpoint after ${pass + 1} attempt(s): ${err.message}`,
+                        payload.method
+                    );
+                }
+                await sleep(Math.max(backoffMs * 2 ** pass, err.retryAfterMs ?? 0));
+            }
+        }
+    }
+
+    // ─────────────────────────────────────────────
+    // Endpoints
+    // ─────────────────────────────────────────────
+    /** Healthy endpoints in configured order, then those in cooldown as a last resort. */
+    private ordered(): Endpoint[] {
+        const now = Date.now();
+        return [...this.endpoints.filter((e) => e.cooldownUntil <= now), ...this.endpoints.filter((e) => e.cooldownUntil > now)];
+    }
+
+    private healthy(): Endpoint[] {
+        const now = Date.now();
+        const healthy = this.endpoints.filter((e) => e.cooldownUntil <= now);
+        return healthy.length ? healthy : this.endpoints;
+    }
+
+    /** One HTTP round-trip; throws TransientRpcError on anything worth retrying elsewhere. */
+    private async request(endpoint: Endpoint, payload: JsonRpcPayload): Promise<JsonRpcResponse> {
+        endpoint.requests++;
+        const started = Date.now();
+        let response: JsonRpcResponse;
+        try {
+            const res = await this.http.post(endpoint.url, payload, {
+                timeout: this.settings.timeoutMs,
+                headers: { "content-type": "application/json" },
+                validateStatus: () => true,
+            });
+            if (res.status === 429) {
+                throw new TransientRpcError("rate-limit", `HTTP 429 from ${endpoint.url}`, retryAfter(res.headers["retry-after"]));
+            }
+            if (res.status >= 500 || res.status === 408) {
+                throw new TransientRpcError("unavailable", `HTTP ${res.status} from ${endpoint.url}`);
+            }
+            const body = Array.isArray(res.data) ? res.data[0] : res.data;
+            if (!body || typeof body !== "object" || !("result" in body || "error" in body)) {
+                throw new TransientRpcError("unavailable", `HTTP ${res.status} from ${endpoint.url} without a JSON-RPC response`);
+            }
+            response = { ...body, id: payload.id };
+            if ("error" in response && isTransientRpcError(response.error)) {
+                const message = response.error.message ?? "";
+                const kind: FailureKind =
+                    RATE_LIMIT_CODES.has(response.error.code) || /limit|too many/i.test(message)
+                        ? "rate-limit"
+                        : /time(d)? ?out/i.test(message)
+                          ? "timeout"
+                          : "unavailable";
+                throw new TransientRpcError(kind, `${endpoint.url}: ${message}`);
+            }
+        } catch (err: any) {
+            const failure = toTransient(err, endpoint.url);
+            this.fail(endpoint, failure);
+            throw failure;
+        }
+        endpoint.successes++;
+        endpoint.latencyMs += Date.now() - started;
+        if (endpoint.cooldownUntil > 0) {
+            endpoint.cooldownUntil = 0;
+            this.onHealth?.(this.snapshot(endpoint));
+        }
+        return response;
+    }
+
+    private fail(endpoint: Endpoint, err: TransientRpcError): void {
+        endpoint.failures++;
+        if (err.kind === "rate-limit") endpoint.rateLimited++;
+        if (err.kind === "timeout") endpoint.timeouts++;
+        endpoint.lastError = err.message;
+        const wasHealthy = endpoint.cooldownUntil <= Date.now();
+        endpoint.cooldownUntil = Date.now() + Math.max(this.settings.cooldownMs, err.retryAfterMs ?? 0);
+        if (wasHealthy) this.onHealth?.(this.snapshot(endpoint));
+    }
+
+    private snapshot(e: Endpoint): EndpointHealth {
+        return {
+            url: e.url,
+            requests: e.requests,
+            failures: e.failures,
+            rateLimited: e.rateLimited,
+            timeouts: e.timeouts,
+            avgLatencyMs: e.successes ? Math.round(e.latencyMs / e.successes) : 0,
+            healthy: e.cooldownUntil <= Date.now(),
+            lastError: e.lastError,
+        };
+    }
+}
+
+/** The provider every flow uses: a plain pool, logging endpoints as they fail over. */
+export function createRpcProvider(opts: RpcPoolOptions): RpcPool {
+    return new RpcPool({
+        onHealth: (e) =>
+            e.healthy ? console.log(`  ✓ RPC ${e.url} is answering again`) : console.warn(`  ⚠ RPC ${e.url} failing (${e.lastError}); using the next endpoint`),
+        ...opts,
+    });
+}
+
+function isTransientRpcError(error: ethers.JsonRpcError["error"]): boolean {
+    return RATE_LIMIT_CODES.has(error.code) || TRANSIENT_MESSAGE.test(error.message ?? "");
+}
+
+function toTransient(err: any, url: string): TransientRpcError {
+    if (err instanceof TransientRpcError) return err;
+    const timedOut = err?.code === "ECONNABORTED" || err?.code === "ETIMEDOUT" || /timeout/i.test(err?.message ?? "");
+    return new TransientRpcError(timedOut ? "timeout" : "unavailable", `${url}: ${err?.code ?? err?.message ?? String(err)}`);
+}
+
+function asTransient(err: unknown): TransientRpcError {
+    if (err instanceof TransientRpcError) return err;
+    throw err;
+}
+
+function retryAfter(header: unknown): number | undefined {
+    const seconds = Number(header);
+    return Number.isFinite(seconds) && seconds > 0 ? Math.min(seconds, 30) * 1000 : undefined;
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,150 @@
+/**
+ * requests.ts
+ *
+ * The body of `POST /deposits`, checked against the chain registry and what
+ * the service serves before anything is accepted:
+ *
+ *   mode          deposit | depositFor | pull-and-deposit | relay
+ *   chain         name or id of a served chain  [default the only one served]
+ *   amount        human amount, e.g. "0.05"
+ *   currency      registry symbol, "NATIVE" or a token address [default USDT]
+ *   broker        broker id                                   [default 1000]
+ *   beneficiary   depositFor, relay: the account credited
+ *   intent        pull-and-deposit: Wallet1's signed deposit intent (required);
+ *                 amount / currency / broker / credit default to the intent's
+ *   credit        pull-and-deposit: server | user
+ *   originChainId, originCurrency   relay: the origin side [default the served origin, native]
+ *
+ * Fields a mode doesn't take are refused, so a typo isn't silently ignored.
+ */
+
+import { ethers } from "ethers";
+import { requireAddress, resolveCurrency } from "../config";
+import { DEFAULT_BROKER_ID, findNetwork, Network } from "../constants";
+import { CliError, EXIT } from "../exit_codes";
+import { CreditTarget } from "../flows/pull_and_deposit";
+import { readToken } from "../flows/shared";
+import { parseSignedIntent, SignedDepositIntent } from "../intents/deposit_intent";
+
+export const DEPOSIT_MODES = ["deposit", "depositFor", "pull-and-deposit", "relay"] as const;
+export type DepositMode = (typeof DEPOSIT_MODES)[number];
+
+export interface DepositRequest {
+    mode: DepositMode;
+    chainId: number;
+    /** Human amount, e.g. "0.05". */
+    amount: string;
+    /** Checksummed token address, or NATIVE_ADDRESS. */
+    currency: string;
+    broker: string;
+    beneficiary?: string;
+    credit?: CreditTarget;
+    intent?: SignedDepositIntent;
+    originChainId?: number;
+    /** Zero address = origin native coin. */
+    originCurrency?: string;
+}
+
+/** A chain the service deposits on, as far as validating a request needs it. */
+export interface ServedChain {
+    network: Network;
+    provider: ethers.Provider;
+}
+
+const COMMON_FIELDS = ["mode", "chain", "amount", "currency", "broker"];
+const MODE_FIELDS: Record<DepositMode, string[]> = {
+    deposit: [],
+    depositFor: ["beneficiary"],
+    "pull-and-deposit": ["intent", "credit"],
+    relay: ["beneficiary", "originChainId", "originCurrency"],
+};
+
+/**
+ * Validate a POST body into a DepositRequest; a CliError naming the first
+ * bad field otherwise. `relayOrigin` is the origin chain relay deposits
+ * are sent from, undefined when the service has no relay configured.
+ */
+export async function parseDepositRequest(body: unknown, served: ServedChain[], relayOrigin?: number): Promise<DepositRequest> {
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+        throw new CliError("the request body must be a JSON object", EXIT.USAGE);
+    }
+    const b = body as Record<string, unknown>;
+    const text = (name: string): string | undefined => {
+        const v = b[name];
+        if (v === undefined || v === null) return undefined;
+        if (typeof v !== "string" && typeof v !== "number") throw new CliError(`${name} must be a string`, EXIT.USAGE);
+        return String(v).trim();
+    };
+
+    const mode = text("mode") as DepositMode | undefined;
+    if (!mode || !DEPOSIT_MODES.includes(mode)) {
+        throw new CliError(`mode must be one of ${DEPOSIT_MODES.join(" | ")}, got ${JSON.stringify(b.mode)}`, EXIT.USAGE);
+    }
+    const allowed = [...COMMON_FIELDS, ...MODE_FIELDS[mode]];
+    const extra = Object.keys(b).filter((k) => !allowed.includes(k));
+    if (extra.length) throw new CliError(`${mode} doesn't take ${extra.join(", ")}`, EXIT.USAGE);
+
+    const chain = servedChain(text("chain"), served);
+    const { network } = chain;
+    let intent: SignedDepositIntent | undefined;
+    let amount = text("amount");
+    let currency = text("currency");
+    let broker = text("broker");
+    let credit = text("credit");
+
+    if (mode === "pull-and-deposit") {
+        if (b.intent === undefined) throw new CliError("pull-and-deposit needs the user's signed deposit intent", EXIT.USAGE);
+        intent = parseSignedIntent(b.intent, "intent");
+        const token = await readToken(intent.intent.currency, chain.provider).catch(() => {
+            throw new CliError(`the intent's currency ${intent!.intent.currency} is not an ERC-20 on ${network.name}`, EXIT.USAGE);
+        });
+        amount = amount ?? ethers.formatUnits(intent.intent.amount, token.decimals);
+        currency = currency ?? intent.intent.currency;
+        broker = broker ?? intent.intent.broker;
+        credit = credit ?? (intent.intent.account.toLowerCase() === intent.intent.owner.toLowerCase() ? "user" : "server");
+        if (credit !== "server" && credit !== "user") throw new CliError(`credit must be server | user, got "${credit}"`, EXIT.USAGE);
+    }
+
+    if (amount === undefined || !/^\d+(\.\d+)?$/.test(amount) || Number(amount) <= 0) {
+        throw new CliError(`amount must be a positive decimal, got ${JSON.stringify(b.amount)}`, EXIT.USAGE);
+    }
+    broker = broker ?? DEFAULT_BROKER_ID;
+    if (!/^\d+$/.test(broker)) throw new CliError(`broker must be an integer, got "${broker}"`, EXIT.USAGE);
+    const request: DepositRequest = { mode, chainId: network.chainId, amount, currency: resolveCurrency(network, currency), broker };
+
+    if (mode === "depositFor" || mode === "relay") {
+        const beneficiary = text("beneficiary");
+        if (beneficiary === undefined) throw new CliError(`${mode} needs a beneficiary`, EXIT.USAGE);
+        request.beneficiary = requireAddress(beneficiary, "beneficiary");
+    }
+    if (mode === "pull-and-deposit") {
+        request.intent = intent;
+        request.credit = credit as CreditTarget;
+    }
+    if (mode === "relay") {
+        if (relayOrigin === undefined) throw new CliError("relay deposits are not configured on this service", EXIT.CONFIG);
+        const origin = Number(text("originChainId") ?? relayOrigin);
+        if (origin !== relayOrigin) {
+            throw new CliError(`relay deposits are sent from chain ${relayOrigin}, not ${JSON.stringify(b.originChainId)}`, EXIT.USAGE);
+        }
+        request.originChainId = origin;
+        request.originCurrency = requireAddress(text("originCurrency") ?? ethers.ZeroAddress, "originCurrency");
+    }
+    return request;
+}
+
+/** The served chain `value` names (registry name or chain id); the only one served when unset. */
+function servedChain(value: string | undefined, served: ServedChain[]): ServedChain {
+    if (value === undefined) {
+        if (served.length === 1) return served[0];
+        throw new CliError(`chain is required: one of ${served.map((c) => c.network.name).join(", ")}`, EXIT.USAGE);
+    }
+    const v = value.toLowerCase();
+    const chain = served.find((c) => c.network.name.toLowerCase() === v || String(c.network.chainId) === v);
+    if (chain) return chain;
+    const known = findNetwork(v);
+    throw new CliError(
+        known ? `chain ${known.name} is not served here (${served.map((c) => c.network.name).join(", ")})` : `unknown chain "${value}"`,
+        EXIT.USAGE
+    );
+}
@@ -0,0 +1,534 @@
+/**
+ * server.ts
+ *
+ * HTTP front of the deposit flows, for backends that would otherwise shell
+ * out to the CLI:
+ *
+ *   POST /deposits      accept a deposit (see requests.ts) under the
+ *                       Idempotency-Key header; 202 with its record, or the
+ *                       record already filed under that key
+ *   GET  /deposits/:id  the record: state, step, tx hashes, result or error
+ *   GET  /health        RPC endpoints and signer balances of every chain;
+ *                       503 when a chain has no usable endpoint
+ *
+ * Every deposit spends the service's own wallets, so with an API token the
+ * /deposits routes answer only requests carrying "Authorization: Bearer
+ * <token>" (401 otherwise). Without one the service refuses to listen on
+ * anything but a loopback address.
+ *
+ * Deposits run in the process, one at a time per chain, in the order they
+ * were accepted: the chain's wallets and pull journal see one writer, and all
+ * txs go through the chain's TxManager. A failed request answers
+ * {"error": {"code", "exitCode", "message"}} with the CLI's exit code.
+ *
+ * For a local setup, serve `--chain local` on the chain `npm run local-chain`
+ * starts (local/chain.ts), with the relay at relay/mock_server.ts and its
+ * solver on the same chain.
+ */
+
+import * as crypto from "crypto";
+import { ethers } from "ethers";
+import * as http from "http";
+import { ApprovalPolicies } from "../allowances/approvals";
+import { CommonOptions } from "../config";
+import { findNetwork } from "../constants";
+import { CliError, EXIT, ExitCode } from "../exit_codes";
+import { runDeposit } from "../flows/deposit";
+import { runDepositFor } from "../flows/deposit_for";
+import { runPullAndDeposit } from "../flows/pull_and_deposit";
+import { runRelay } from "../flows/relay";
+import { EndpointProbe, probeEndpoints } from "../flows/rpc_health";
+import { FlowResult, readToken, Sender } from "../flows/shared";
+import { GasTank } from "../gas/tank";
+import { intentDigest, verifyDepositIntent } from "../intents/deposit_intent";
+import { toJson } from "../json_store";
+import { loadPullJournal, pullJournalFile } from "../pull/journal";
+import { RelayClient } from "../relay/client";
+import { RelayApiError, relayExitCode } from "../relay/errors";
+import { RpcPoolOptions } from "../rpc/pool";
+import { TxManager } from "../tx/manager";
+import { DepositRequest, parseDepositRequest, ServedChain } from "./requests";
+import {
+    DepositBook,
+    depositBookFile,
+    depositByKey,
+    DepositRecord,
+    loadDepositBook,
+    newDepositId,
+    requestHash,
+    saveDepositBook,
+    unfinished,
+    update,
+} from "./store";
+
+export interface ServiceChain extends ServedChain {
+    rpc: RpcPoolOptions;
+    /** Shared by every deposit on the chain. */
+    txs: TxManager;
+    approvals: ApprovalPolicies;
+    /** Native (human) kept for gas on NATIVE deposits. */
+    gasReserve: string;
+    /** Sends deposit / depositFor; Wallet1 of pull-and-deposit. */
+    wallet?: Sender;
+    /** Wallet2 of pull-and-deposit. */
+    serverWallet?: Sender;
+    gasTank?: GasTank;
+}
+
+export interface ServiceRelay {
+    client: RelayClient;
+    originChainId: number;
+    /** Pays on the origin chain; connected to it. */
+    wallet: Sender;
+    /** Unset for an origin chain missing from the registry (see RelayOptions.originTxs). */
+    txs?: TxManager;
+    timeoutMs: number;
+    pollMs?: number;
+}
+
+export interface DepositServiceOptions {
+    chains: ServiceChain[];
+    relay?: ServiceRelay;
+    /** Deposit records, and the journals and ledgers the flows keep. */
+    dataDir: string;
+    host: string;
+    /** 0 picks a free port. */
+    port: number;
+    /** Bearer token /deposits requires; mandatory unless `host` is a loopback address. */
+    apiToken?: string;
+}
+
+export interface DepositService {
+    url: string;
+    /** Stop accepting; resolves once the deposit running on each chain is done. Queued ones run on the next start. */
+    close(): Promise<void>;
+    /** Resolves once no deposit is queued or running. */
+    idle(): Promise<void>;
+}
+
+/** A deposit as GET /deposits/:id and POST /deposits return it. */
+export type DepositView = Omit<DepositRecord, "requestHash">;
+
+export interface SignerHealth {
+    role: string;
+    address: string;
+    /** Native wei, as a decimal string. */
+    balance?: string;
+    formatted?: string;
+    error?: string;
+}
+
+/** GET /health: 200 with status "ok", 503 with "degraded". */
+export interface ServiceHealth {
+    status: "ok" | "degraded";
+    chains: {
+        chainId: number;
+        name: string;
+        rpc: { usable: number; quorum: number; endpoints: EndpointProbe[] };
+        signers: SignerHealth[];
+        /** Deposits queued or running on the chain. */
+        pending: number;
+    }[];
+    relay?: { url: string; originChainId: number; signer: SignerHealth };
+}
+
+/** Largest POST body accepted; an intent is well under it. */
+const MAX_BODY_BYTES = 64 * 1024;
+/** Blocks behind the best endpoint before /health counts one as lagging. */
+const HEALTH_MAX_LAG = 5;
+/** Shortest API token accepted. */
+const MIN_TOKEN_LENGTH = 16;
+
+class HttpError extends Error {
+    constructor(
+        readonly status: number,
+        message: string,
+        readonly headers: Record<string, string> = {}
+    ) {
+        super(message);
+    }
+}
+
+/**
+ * A deposit's view of its chain's TxManager: same gas policy, lifecycle and
+ * (process-wide) nonces, but every hash it broadcasts is also reported to
+ * `record`, so the deposit's record lists it while the tx is still pending.
+ */
+class RecordingTxManager extends TxManager {
+    constructor(
+        base: TxManager,
+        private readonly record: (label: string, hash: string) => void
+    ) {
+        super(base.gas, base.lifecycle);
+    }
+
+    async send(label: string, signer: ethers.Signer, tx: ethers.TransactionRequest, onSent?: (hash: string) => void) {
+        return super.send(label, signer, tx, (hash) => {
+            this.record(label, hash);
+            onSent?.(hash);
+        });
+    }
+}
+
+export async function startDepositService(opts: DepositServiceOptions): Promise<DepositService> {
+    if (opts.apiToken !== undefined && opts.apiToken.length < MIN_TOKEN_LENGTH) {
+        throw new CliError(`the API token must be at least ${MIN_TOKEN_LENGTH} characters`, EXIT.CONFIG);
+    }
+    if (opts.apiToken === undefined && !isLoopback(opts.host)) {
+        throw new CliError(
+            `refusing to listen on ${opts.host} without an API token: anyone who can reach it could spend the service's wallets`,
+            EXIT.CONFIG
+        );
+    }
+    const bookFile = depositBookFile(opts.dataDir);
+    const book: DepositBook = loadDepositBook(bookFile);
+    const save = () => saveDepositBook(bookFile, book);
+    const queues = new Map<number, Promise<void>>();
+    let closing = false;
+
+    const chainOf = (chainId: number) => opts.chains.find((c) => c.network.chainId === chainId)!;
+
+    const enqueue = (record: DepositRecord) => {
+        const chainId = record.request.chainId;
+        const tail = (queues.get(chainId) ?? Promise.resolve()).then(() => (closing ? undefined : runJob(record)));
+        queues.set(chainId, tail);
+    };
+
+    const runJob = async (record: DepositRecord) => {
+        const chain = chainOf(record.request.chainId);
+        console.log(`\n▶ deposit ${record.id}: ${record.request.mode} ${record.request.amount} on ${chain.network.name}`);
+        update(record, { state: "running", step: "started" });
+        save();
+        const recordTx = (label: string, hash: string) => {
+            if (!record.txs.some((t) => t.hash === hash)) record.txs.push({ label, hash });
+            update(record, { step: label });
+            save();
+        };
+        try {
+            const result = await runFlow(record.request, chain, opts, recordTx);
+            update(record, { state: "succeeded", step: "done", result, pullRun: pullRunOf(record) });
+            console.log(`✅ deposit ${record.id} succeeded${result.txHash ? ` (${result.txHash})` : ""}`);
+        } catch (err) {
+            update(record, { state: "failed", step: "failed", error: failureOf(err), pullRun: pullRunOf(record) });
+            console.error(`❌ deposit ${record.id} failed: ${record.error!.message}`);
+        }
+        save();
+    };
+
+    /** The journal run of a pull-and-deposit record, found by its intent. */
+    const pullRunOf = (record: DepositRecord): DepositRecord["pullRun"] => {
+        const { request } = record;
+        if (request.mode !== "pull-and-deposit" || !request.intent) return undefined;
+        const digest = intentDigest(request.intent);
+        const journal = loadPullJournal(pullJournalFile(opts.dataDir, request.chainId), request.chainId);
+        const run = Object.values(journal.runs).find((r) => r.intent?.digest === digest);
+        return run && { id: run.id, step: run.step };
+    };
+
+    const view = (record: DepositRecord): DepositView => {
+        const { requestHash: _hash, ...rest } = record;
+        return record.state === "running" ? { ...rest, pullRun: pullRunOf(record) ?? rest.pullRun } : rest;
+    };
+
+    const accept = async (req: http.IncomingMessage): Promise<{ status: number; body: unknown; location?: string }> => {
+        if (closing) throw new HttpError(503, "the service is shutting down");
+        const key = req.headers["idempotency-key"];
+        if (typeof key !== "string" || key.trim() === "" || key.length > 255) {
+            throw new HttpError(400, "an Idempotency-Key header (1-255 characters) is required");
+        }
+        const body = await readBody(req);
+        const hash = requestHash(body);
+        const filed = () => {
+            const existing = depositByKey(book, key);
+            if (existing && existing.requestHash !== hash) {
+                throw new HttpError(409, `Idempotency-Key "${key}" was used for another request (deposit ${existing.id})`);
+            }
+            return existing;
+        };
+        const existing = filed();
+        if (existing) return { status: 200, body: view(existing) };
+
+        const request = await parseDepositRequest(body, opts.chains, opts.relay?.originChainId);
+        await checkRunnable(request, chainOf(request.chainId), book);
+        // Another POST with the same key may have been filed while this one was validated.
+        const raced = filed();
+        if (raced) return { status: 200, body: view(raced) };
+
+        const now = new Date().toISOString();
+        const record: DepositRecord = {
+            id: newDepositId(),
+            idempotencyKey: key,
+            requestHash: hash,
+            request,
+            state: "queued",
+            step: "queued",
+            txs: [],
+            createdAt: now,
+            updatedAt: now,
+        };
+        book.deposits[record.id] = record;
+        save();
+        enqueue(record);
+        return { status: 202, body: view(record), location: `/deposits/${record.id}` };
+    };
+
+    const health = async (): Promise<{ status: number; body: ServiceHealth }> => {
+        let healthy = true;
+        const chains = await Promise.all(
+            opts.chains.map(async (chain) => {
+                const endpoints = await probeEndpoints(chain.rpc, HEALTH_MAX_LAG);
+                const usable = endpoints.filter((e) => e.status === "ok").length;
+                if (usable < (chain.rpc.quorum ?? 1)) healthy = false;
+                const wallets: [string, ethers.Signer | undefined][] = [
+                    ["wallet", chain.wallet],
+                    ["serverWallet", chain.serverWallet],
+                    ["funder", chain.gasTank?.funder],
+                ];
+                return {
+                    chainId: chain.network.chainId,
+                    name: chain.network.name,
+                    rpc: { usable, quorum: chain.rpc.quorum ?? 1, endpoints },
+                    signers: await Promise.all(
+                        wallets.filter(([, w]) => w).map(([role, w]) => signerBalance(role, w!, chain.provider, chain.network.nativeSymbol))
+                    ),
+                    pending: Object.values(book.deposits).filter(
+                        (d) => d.request.chainId === chain.network.chainId && (d.state === "queued" || d.state === "running")
+                    ).length,
+                };
+            })
+        );
+        const relay = opts.relay && {
+            url: opts.relay.client.baseUrl,
+            originChainId: opts.relay.originChainId,
+            signer: await signerBalance(
+                "wallet",
+                opts.relay.wallet,
+                opts.relay.wallet.provider!,
+                findNetwork(opts.relay.originChainId)?.nativeSymbol ?? "native"
+            ),
+        };
+        for (const signer of [...chains.flatMap((c) => c.signers), ...(relay ? [relay.signer] : [])]) {
+            if (signer.error) healthy = false;
+        }
+        return { status: healthy ? 200 : 503, body: { status: healthy ? "ok" : "degraded", chains, relay } };
+    };
+
+    const server = http.createServer(async (req, res) => {
+        const url = new URL(req.url ?? "/", "http://localhost");
+        try {
+            if (url.pathname === "/deposits" || url.pathname.startsWith("/deposits/")) authorize(req, opts.apiToken);
+            if (url.pathname === "/deposits" && req.method === "POST") {
+                const { status, body, location } = await accept(req);
+                return send(res, status, body, location ? { location } : {});
+            }
+            const match = /^\/deposits\/([\w-]+)$/.exec(url.pathname);
+            if (match && req.method === "GET") {
+                const record = book.deposits[match[1]];
+                if (!record) throw new HttpError(404, `no deposit ${match[1]}`);
+                return send(res, 200, view(record));
+            }
+            if (url.pathname === "/health" && req.method === "GET") {
+                const { status, body } = await health();
+                return send(res, status, body);
+            }
+            if (url.pathname === "/deposits" || match || url.pathname === "/health") throw new HttpError(405, `${req.method} not allowed`);
+            throw new HttpError(404, `no route ${req.method} ${url.pathname}`);
+        } catch (err: any) {
+            if (err instanceof HttpError) return send(res, err.status, { error: { code: "HTTP", message: err.message } }, err.headers);
+            const failure = failureOf(err);
+            send(res, httpStatusOf(failure.exitCode), { error: { code: exitName(failure.exitCode), ...failure } });
+        }
+    });
+
+    // A deposit that was running when the last process stopped may have sent
+    // txs; it is never started again here. Queued ones sent nothing yet.
+    for (const record of unfinished(book)) {
+        if (record.state === "running") {
+            update(record, {
+                state: "interrupted",
+                error: { exitCode: EXIT.FAILURE, message: "the service stopped while this deposit was running; check its txs" },
+                pullRun: pullRunOf(record),
+            });
+        } else {
+            enqueue(record);
+        }
+    }
+    save();
+
+    const idle = async () => {
+        let pending: Promise<void>[];
+        do {
+            pending = [...queues.values()];
+            await Promise.all(pending);
+        } while ([...queues.values()].some((tail, i) => tail !== pending[i]));
+    };
+
+    return new Promise((resolve, reject) => {
+        server.once("error", (err: any) => reject(new CliError(`can't listen on ${opts.host}:${opts.port}: ${err.message}`, EXIT.CONFIG)));
+        server.listen(opts.port, opts.host, () => {
+            const address = server.address() as { port: number };
+            resolve({
+                url: `http://${opts.host}:${address.port}`,
+                close: async () => {
+                    closing = true;
+                    await new Promise<void>((done) => server.close(() => done()));
+                    await idle();
+                },
+                idle,
+            });
+        });
+    });
+}
+
+/** A 401 unless `req` carries the bearer token; anything goes without one. */
+function authorize(req: http.IncomingMessage, token: string | undefined): void {
+    if (token === undefined) return;
+    const presented = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? "")?.[1]?.trim() ?? "";
+    // Compare digests, so the time taken says nothing about the token.
+    const digest = (v: string) => crypto.createHash("sha256").update(v).digest();
+    if (!crypto.timingSafeEqual(digest(presented), digest(token))) {
+        throw new HttpError(401, "a valid API token is required (Authorization: Bearer <token>)", { "www-authenticate": "Bearer" });
+    }
+}
+
+function isLoopback(host: string): boolean {
+    return host === "localhost" || host === "::1" || /^(::ffff:)?127\.\d+\.\d+\.\d+$/.test(host);
+}
+
+/** Refuse, before accepting it, a request this service can't run or that is bound to fail. */
+async function checkRunnable(request: DepositRequest, chain: ServiceChain, book: DepositBook): Promise<void> {
+    const { mode } = request;
+    if (mode !== "relay" && !chain.wallet) {
+        throw new CliError(`${mode} needs a Wallet1 signer (--signer) on ${chain.network.name}`, EXIT.CONFIG);
+    }
+    if (mode !== "pull-and-deposit" || !request.intent) return;
+    if (!chain.serverWallet) {
+        throw new CliError(`pull-and-deposit needs a Wallet2 signer (--server-signer) on ${chain.network.name}`, EXIT.CONFIG);
+    }
+    const token = await readToken(request.currency, chain.provider);
+    verifyDepositIntent(request.intent, {
+        network: chain.network,
+        owner: chain.wallet!.address,
+        amount: ethers.parseUnits(request.amount, token.decimals),
+        currency: request.currency,
+        broker: request.broker,
+        account: request.credit === "user" ? chain.wallet!.address : chain.serverWallet.address,
+    });
+    const digest = intentDigest(request.intent);
+    const other = Object.values(book.deposits).find(
+        (d) => d.request.intent && d.state !== "failed" && intentDigest(d.request.intent) === digest
+    );
+    if (other) throw new CliError(`this deposit intent was already submitted as deposit ${other.id}`, EXIT.PRECONDITION);
+}
+
+function runFlow(
+    request: DepositRequest,
+    chain: ServiceChain,
+    opts: DepositServiceOptions,
+    recordTx: (label: string, hash: string) => void
+): Promise<FlowResult> {
+    const common: CommonOptions = {
+        network: chain.network,
+        rpc: chain.rpc,
+        amount: request.amount,
+        currency: request.currency,
+        broker: request.broker,
+        dryRun: false,
+        json: false,
+        approvals: chain.approvals,
+        dataDir: opts.dataDir,
+        txs: new RecordingTxManager(chain.txs, recordTx),
+    };
+    switch (request.mode) {
+        case "deposit":
+            return runDeposit({ ...common, wallet: chain.wallet!, gasReserve: chain.gasReserve });
+        case "depositFor":
+            return runDepositFor({ ...common, wallet: chain.wallet!, beneficiary: request.beneficiary!, gasReserve: chain.gasReserve });
+        case "pull-and-deposit":
+            return runPullAndDeposit({
+                ...common,
+                userWallet: chain.wallet!,
+                serverWallet: chain.serverWallet!,
+                puller: "server",
+                credit: request.credit!,
+                gasTank: chain.gasTank,
+                intent: request.intent,
+                journalFile: pullJournalFile(opts.dataDir, chain.network.chainId),
+            });
+        case "relay": {
+            const relay = opts.relay!;
+            return runRelay({
+                ...common,
+                beneficiary: request.beneficiary!,
+                destinationContract: chain.network.vault,
+                user: relay.wallet.address,
+                originChainId: relay.originChainId,
+                originCurrency: request.originCurrency!,
+                relay: relay.client,
+                originWallet: relay.wallet,
+                originTxs: relay.txs && new RecordingTxManager(relay.txs, recordTx),
+                timeoutMs: relay.timeoutMs,
+                pollMs: relay.pollMs,
+            });
+        }
+    }
+}
+
+async function signerBalance(role: string, signer: ethers.Signer, provider: ethers.Provider, symbol: string): Promise<SignerHealth> {
+    const address = await signer.getAddress();
+    try {
+        const balance = await provider.getBalance(address);
+        return { role, address, balance: balance.toString(), formatted: `${ethers.formatEther(balance)} ${symbol}` };
+    } catch (err: any) {
+        return { role, address, error: err?.shortMessage ?? err?.message ?? String(err) };
+    }
+}
+
+/** What a failed flow or rejected request comes down to, as the CLI would exit with it. */
+function failureOf(err: any): { exitCode: ExitCode; message: string } {
+    if (err instanceof CliError) return { exitCode: err.exitCode, message: err.message };
+    if (err instanceof RelayApiError) return { exitCode: relayExitCode(err), message: `Relay ${err.code}: ${err.message}` };
+    return { exitCode: EXIT.FAILURE, message: err?.shortMessage ?? err?.message ?? String(err) };
+}
+
+function httpStatusOf(exitCode: ExitCode): number {
+    switch (exitCode) {
+        case EXIT.USAGE:
+            return 400;
+        case EXIT.CONFIG:
+        case EXIT.PRECONDITION:
+            return 422;
+        default:
+            return 500;
+    }
+}
+
+function exitName(exitCode: ExitCode): string {
+    return Object.entries(EXIT).find(([, code]) => code === exitCode)?.[0] ?? "FAILURE";
+}
+
+function readBody(req: http.IncomingMessage): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+        let raw = "";
+        req.on("data", (chunk) => {
+            raw += chunk;
+            if (raw.length > MAX_BODY_BYTES) {
+                reject(new HttpError(413, `request body over ${MAX_BODY_BYTES} bytes`));
+                req.destroy();
+            }
+        });
+        req.on("end", () => {
+            try {
+                resolve(raw ? JSON.parse(raw) : undefined);
+            } catch {
+                reject(new HttpError(400, "the request body is not valid JSON"));
+            }
+        });
+        req.on("error", reject);
+    });
+}
+
+function send(res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+    res.writeHead(status, { "content-type": "application/json", ...headers });
+    res.end(toJson(body));
+}
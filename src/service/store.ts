@@ -0,0 +1,94 @@
+/**
+ * store.ts
+ *
+ * Deposits accepted by the HTTP service, persisted in
+ * <data-dir>/deposits.json so clients can keep polling them across restarts.
+ * Each one is filed under the client's Idempotency-Key: a POST retried with
+ * the same key and body gets the deposit already accepted back, never a
+ * second one, and the same key with another body is refused.
+ *
+ *   queued       accepted, waiting behind the chain's earlier deposits
+ *   running      its flow is running; `step` names the tx in flight
+ *   succeeded    the flow finished; `result` holds the final tx
+ *   failed       the flow stopped; `error` holds its exit code and why
+ *   interrupted  the service stopped while it was running, maybe after sending
+ *                txs, so it is not started again; a pull-and-deposit one is
+ *                taken from there by `pull-and-deposit resume`
+ *
+ * Deposits still queued when the service stopped sent nothing and run on the
+ * next start. Every tx hash is added to `txs` as soon as it is broadcast.
+ */
+
+import { ethers } from "ethers";
+import * as path from "path";
+import { ExitCode } from "../exit_codes";
+import { FlowResult } from "../flows/shared";
+import { readJson, writeJsonAtomic } from "../json_store";
+import { PullStep } from "../pull/journal";
+import { DepositRequest } from "./requests";
+
+export type DepositState = "queued" | "running" | "succeeded" | "failed" | "interrupted";
+
+export interface DepositRecord {
+    id: string;
+    idempotencyKey: string;
+    /** Hash of the POST body the key was first used with. */
+    requestHash: string;
+    request: DepositRequest;
+    state: DepositState;
+    /** "queued", "preflight", the label of the last tx sent, then "done" or "failed". */
+    step: string;
+    txs: { label: string; hash: string }[];
+    /** pull-and-deposit: the journal run, whose own step says which txs are confirmed. */
+    pullRun?: { id: string; step: PullStep };
+    result?: FlowResult;
+    error?: { exitCode: ExitCode; message: string };
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface DepositBook {
+    deposits: Record<string, DepositRecord>;
+}
+
+export function depositBookFile(dataDir: string): string {
+    return path.join(dataDir, "deposits.json");
+}
+
+export function loadDepositBook(file: string): DepositBook {
+    return readJson<DepositBook>(file, { deposits: {} });
+}
+
+export function saveDepositBook(file: string, book: DepositBook): void {
+    writeJsonAtomic(file, book);
+}
+
+export function newDepositId(): string {
+    return `dep-${Date.now().toString(36)}-${ethers.hexlify(ethers.randomBytes(3)).slice(2)}`;
+}
+
+export function depositByKey(book: DepositBook, key: string): DepositRecord | undefined {
+    return Object.values(book.deposits).find((d) => d.idempotencyKey === key);
+}
+
+/** Hash of a request body, independent of key order, to compare retries against. */
+export function requestHash(body: unknown): string {
+    const canonical = (v: unknown): unknown =>
+        Array.isArray(v)
+            ? v.map(canonical)
+            : v && typeof v === "object"
+              ? Object.fromEntries(Object.keys(v).sort().map((k) => [k, canonical((v as Record<string, unknown>)[k])]))
+              : v;
+    return ethers.id(JSON.stringify(canonical(body)));
+}
+
+/** Apply `changes` to `record` and stamp it. */
+export function update(record: DepositRecord, changes: Partial<Omit<DepositRecord, "id" | "idempotencyKey" | "requestHash" | "request">>): void {
+    Object.assign(record, changes);
+    record.updatedAt = new Date().toISOString();
+}
+
+/** Deposits a previous process left queued or running. */
+export function unfinished(book: DepositBook): DepositRecord[] {
+    return Object.values(book.deposits).filter((d) => d.state === "queued" || d.state === "running");
+}
@@ -0,0 +1,170 @@
+/**
+ * load.ts
+ *
+ * Where a wallet's key comes from, as a signer spec:
+ *
+ *   keystore:<file>               ethers encrypted JSON keystore; the passphrase
+ *                                 comes from the password env var or a prompt
+ *   mnemonic:<file>[#<path|n>]    BIP-39 phrase read from <file>; derivation path,
+ *                                 or account index n under m/44'/60'/0'/0
+ *   remote:<url>[#<address>]      JSON-RPC signer (see remote.ts); the address
+ *                                 picks among the endpoint's accounts
+ *   env:<NAME>                    raw hex private key in env var NAME; refused
+ *                                 unless the caller allows insecure env keys
+ *
+ * `signerAddress` reads the address without unlocking anything where the spec
+ * allows it (a keystore names its address), for commands that only need it.
+ */
+
+import { ethers } from "ethers";
+import * as fs from "fs";
+import * as readline from "readline/promises";
+import { Writable } from "stream";
+import { CliError, EXIT } from "../exit_codes";
+import { RemoteSigner } from "./remote";
+
+export type SignerSpec =
+    | { kind: "keystore"; file: string }
+    | { kind: "mnemonic"; file: string; path?: string }
+    | { kind: "remote"; url: string; account?: string }
+    | { kind: "env"; name: string };
+
+export type LoadedSigner = ethers.Wallet | ethers.HDNodeWallet | RemoteSigner;
+
+export interface LoadSignerOptions {
+    /** Who the signer is for, in prompts and errors ("sender", "Wallet2"). */
+    label: string;
+    /** Env vars tried, in order, for a keystore passphrase before prompting. */
+    passwordEnvs: string[];
+    /** Account index used for a mnemonic without a #path. */
+    defaultIndex: number;
+    /** env:<NAME> is only accepted when this is set (--insecure-env-keys). */
+    allowEnvKeys: boolean;
+}
+
+export const SPEC_FORMS = "keystore:<file> | mnemonic:<file>[#<path|index>] | remote:<url>[#<address>] | env:<NAME>";
+
+export function parseSignerSpec(raw: string): SignerSpec {
+    const colon = raw.indexOf(":");
+    const kind = colon < 0 ? raw : raw.slice(0, colon);
+    const rest = colon < 0 ? "" : raw.slice(colon + 1);
+    const hash = rest.lastIndexOf("#");
+    const [target, fragment] = hash < 0 ? [rest, undefined] : [rest.slice(0, hash), rest.slice(hash + 1)];
+    if (!target) throw new CliError(`signer "${raw}" is missing its target; expected ${SPEC_FORMS}`, EXIT.USAGE);
+
+    switch (kind) {
+        case "keystore":
+            return { kind, file: rest };
+        case "mnemonic":
+            return { kind, file: target, path: fragment === undefined ? undefined : derivationPath(fragment) };
+        case "remote":
+            if (!/^https?:\/\//.test(target)) throw new CliError(`remote signer must be an http(s) URL, got "${target}"`, EXIT.USAGE);
+            if (fragment !== undefined && !ethers.isAddress(fragment)) {
+                throw new CliError(`remote signer account is not a valid address: ${fragment}`, EXIT.USAGE);
+            }
+            return { kind, url: target, account: fragment };
+        case "env":
+            return { kind, name: rest };
+        default:
+            throw new CliError(`Unknown signer "${raw}"; expected ${SPEC_FORMS}`, EXIT.USAGE);
+    }
+}
+
+/** "3" → m/44'/60'/0'/0/3; anything starting with m/ is taken as a full path. */
+function derivationPath(fragment: string): string {
+    if (/^\d+$/.test(fragment)) return ethers.getIndexedAccountPath(Number(fragment));
+    if (!/^m(\/\d+'?)+$/.test(fragment)) {
+        throw new CliError(`mnemonic derivation must be an account index or a path like m/44'/60'/0'/0/1, got "${fragment}"`, EXIT.USAGE);
+    }
+    return fragment;
+}
+
+export async function loadSigner(spec: SignerSpec, provider: ethers.Provider | null, opts: LoadSignerOptions): Promise<LoadedSigner> {
+    switch (spec.kind) {
+        case "keystore":
+            return (await loadKeystore(spec.file, opts.label, opts.passwordEnvs)).connect(provider);
+        case "mnemonic": {
+            const phrase = readSecretFile(spec.file, `${opts.label} mnemonic`).split(/\s+/).join(" ");
+            const path = spec.path ?? ethers.getIndexedAccountPath(opts.defaultIndex);
+            try {
+                return ethers.HDNodeWallet.fromPhrase(phrase, undefined, path).connect(provider);
+            } catch (err: any) {
+                const reason = err?.shortMessage ?? err?.message;
+                throw new CliError(`${opts.label}: ${spec.file} does not hold a valid BIP-39 mnemonic (${reason})`, EXIT.CONFIG);
+            }
+        }
+        case "remote":
+            return RemoteSigner.connect(spec.url, provider, spec.account);
+        case "env":
+            if (!opts.allowEnvKeys) {
+                throw new CliError(
+                    `${opts.label}: refusing the raw private key in env ${spec.name}; use a keystore, mnemonic or remote signer, ` +
+                        `or pass --insecure-env-keys to allow it`,
+                    EXIT.CONFIG
+                );
+            }
+            return loadEnvKey(spec.name, provider, opts.label);
+    }
+}
+
+/** The address `spec` signs for, unlocking as little as possible. */
+export async function signerAddress(spec: SignerSpec, opts: LoadSignerOptions): Promise<string> {
+    if (spec.kind === "keystore") {
+        const json = readSecretFile(spec.file, `${opts.label} keystore`);
+        let address: string | undefined;
+        try {
+            address = JSON.parse(json).address;
+        } catch {
+            address = undefined;
+        }
+        if (address) return ethers.getAddress(address.startsWith("0x") ? address : `0x${address}`);
+    }
+    return (await loadSigner(spec, null, opts)).getAddress();
+}
+
+/** Decrypt an ethers / geth JSON keystore, asking for the passphrase if no env var holds it. */
+export async function loadKeystore(file: string, label: string, passwordEnvs: string[]): Promise<ethers.Wallet | ethers.HDNodeWallet> {
+    const json = readSecretFile(file, `${label} keystore`);
+    const fromEnv = passwordEnvs.map((name) => process.env[name]).find((v) => v !== undefined && v !== "");
+    const password = fromEnv ?? (await promptSecret(`Passphrase for ${label} keystore ${file}: `));
+    try {
+        return await ethers.Wallet.fromEncryptedJson(json, password);
+    } catch (err: any) {
+        throw new CliError(`${label}: keystore ${file} could not be decrypted (${err?.shortMessage ?? err?.message})`, EXIT.CONFIG);
+    }
+}
+
+/** A raw hex key from env; only ever reached behind --insecure-env-keys. */
+export function loadEnvKey(envName: string, provider: ethers.Provider | null, label: string): ethers.Wallet {
+    const key = process.env[envName];
+    if (!key) {
+        throw new CliError(`${label}: env ${envName} is not set`, EXIT.CONFIG);
+    }
+    try {
+        return new ethers.Wallet(key, provider);
+    } catch {
+        throw new CliError(`${label}: env ${envName} does not hold a valid private key`, EXIT.CONFIG);
+    }
+}
+
+function readSecretFile(file: string, what: string): string {
+    if (!fs.existsSync(file)) throw new CliError(`${what} ${file} not found`, EXIT.CONFIG);
+    return fs.readFileSync(file, "utf8").trim();
+}
+
+/** Ask on the terminal without echoing the answer. */
+export async function promptSecret(question: string): Promise<string> {
+    if (!process.stdin.isTTY) {
+        throw new CliError(`${question.replace(/:\s*$/, "")} — no terminal to ask on; set the password env var`, EXIT.CONFIG);
+    }
+    // readline echoes what is typed to its output: give it one that discards everything.
+    const muted = new Writable({ write: (_chunk, _encoding, done) => done() });
+    const rl = readline.createInterface({ input: process.stdin, output: muted, terminal: true });
+    process.stdout.write(question);
+    try {
+        return await rl.question("");
+    } finally {
+        rl.close();
+        process.stdout.write("\n");
+    }
+}
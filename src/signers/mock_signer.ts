@@ -0,0 +1,167 @@
+/**
+ * mock_signer.ts
+ *
+ * Local stand-in for a remote signer (Clef / Web3Signer style JSON-RPC), for
+ * exercising RemoteSigner without a real one. It holds the given keys in memory
+ * and answers:
+ *
+ *   eth_accounts, eth_signTransaction (returns { raw, tx }),
+ *   eth_signTypedData_v4, personal_sign
+ *
+ * `refuse` makes it reject every signing request, as a signer whose operator
+ * declined would.
+ *
+ * Run standalone:
+ *   KEYSTORE_PASSWORD=... npx ts-node src/signers/mock_signer.ts --port 8650 --keystore wallet1.json,wallet2.json
+ *   npm run cli -- deposit --signer remote:http://127.0.0.1:8650 ...
+ * Without --keystore it makes up --accounts random keys and prints their addresses.
+ */
+
+import { ethers } from "ethers";
+import * as fs from "fs";
+import * as http from "http";
+import { parseArgs } from "util";
+
+export interface MockSignerOptions {
+    keys: (ethers.Wallet | ethers.HDNodeWallet)[];
+    /** Reject every signing request. */
+    refuse?: boolean;
+}
+
+export interface MockSignerServer {
+    url: string;
+    addresses: string[];
+    /** Every request served. */
+    log: { method: string }[];
+    close(): Promise<void>;
+}
+
+class RpcFailure extends Error {
+    constructor(
+        readonly code: number,
+        message: string
+    ) {
+        super(message);
+    }
+}
+
+function readBody(req: http.IncomingMessage): Promise<any> {
+    return new Promise((resolve, reject) => {
+        let raw = "";
+        req.on("data", (chunk) => (raw += chunk));
+        req.on("end", () => {
+            try {
+                resolve(raw ? JSON.parse(raw) : undefined);
+            } catch (err) {
+                reject(err);
+            }
+        });
+        req.on("error", reject);
+    });
+}
+
+/** eth_signTransaction's JSON-RPC tx (hex quantities) → what an ethers wallet signs. */
+function fromRpcTransaction(tx: Record<string, string>): ethers.TransactionRequest {
+    const big = (v?: string) => (v === undefined ? undefined : BigInt(v));
+    return {
+        type: tx.type === undefined ? undefined : Number(tx.type),
+        chainId: big(tx.chainId),
+        nonce: tx.nonce === undefined ? undefined : Number(tx.nonce),
+        to: tx.to,
+        data: tx.input ?? tx.data,
+        value: big(tx.value),
+        gasLimit: big(tx.gas),
+        gasPrice: big(tx.gasPrice),
+        maxFeePerGas: big(tx.maxFeePerGas),
+        maxPriorityFeePerGas: big(tx.maxPriorityFeePerGas),
+    };
+}
+
+export function startMockSigner(opts: MockSignerOptions, port = 0): Promise<MockSignerServer> {
+    const log: MockSignerServer["log"] = [];
+    const byAddress = new Map(opts.keys.map((k) => [k.address.toLowerCase(), k]));
+    const keyFor = (address: string) => {
+        const key = byAddress.get(String(address).toLowerCase());
+        if (!key) throw new RpcFailure(-32000, `unknown account ${address}`);
+        if (opts.refuse) throw new RpcFailure(-32000, "request denied");
+        return key;
+    };
+
+    const handle = async (method: string, params: any[]): Promise<unknown> => {
+        switch (method) {
+            case "eth_accounts":
+                return opts.keys.map((k) => k.address);
+            case "eth_signTransaction": {
+                const key = keyFor(params[0]?.from);
+                const raw = await key.signTransaction(fromRpcTransaction(params[0]));
+                return { raw, tx: { hash: ethers.keccak256(raw) } };
+            }
+            case "eth_signTypedData_v4": {
+                const key = keyFor(params[0]);
+                const { domain, types, message } = typeof params[1] === "string" ? JSON.parse(params[1]) : params[1];
+                const { EIP712Domain: _, ...rest } = types;
+                return key.signTypedData(domain, rest, message);
+            }
+            case "personal_sign":
+                return keyFor(params[1]).signMessage(ethers.getBytes(params[0]));
+            default:
+                throw new RpcFailure(-32601, `method ${method} not supported`);
+        }
+    };
+
+    const server = http.createServer(async (req, res) => {
+        let id: unknown = null;
+        let reply: object;
+        try {
+            const body = await readBody(req);
+            id = body?.id ?? null;
+            log.push({ method: body?.method ?? "" });
+            reply = { jsonrpc: "2.0", id, result: await handle(body?.method, body?.params ?? []) };
+        } catch (err: any) {
+            reply = { jsonrpc: "2.0", id, error: { code: err instanceof RpcFailure ? err.code : -32603, message: err?.message ?? "mock error" } };
+        }
+        res.writeHead(200, { "content-type": "application/json" });
+        res.end(JSON.stringify(reply));
+    });
+
+    return new Promise((resolve) => {
+        server.listen(port, "127.0.0.1", () => {
+            const address = server.address() as { port: number };
+            resolve({
+                url: `http://127.0.0.1:${address.port}`,
+                addresses: opts.keys.map((k) => k.address),
+                log,
+                close: () =>
+                    new Promise<void>((done) => {
+                        server.closeAllConnections();
+                        server.close(() => done());
+                    }),
+            });
+        });
+    });
+}
+
+if (require.main === module) {
+    const { values } = parseArgs({
+        options: { port: { type: "string" }, keystore: { type: "string" }, accounts: { type: "string" }, refuse: { type: "boolean" } },
+    });
+    (async () => {
+        let keys: (ethers.Wallet | ethers.HDNodeWallet)[];
+        if (values.keystore) {
+            const password = process.env.KEYSTORE_PASSWORD;
+            if (!password) {
+                console.error("KEYSTORE_PASSWORD must hold the password of the --keystore files");
+                process.exit(2);
+            }
+            keys = [];
+            for (const file of values.keystore.split(",")) {
+                keys.push(await ethers.Wallet.fromEncryptedJson(fs.readFileSync(file.trim(), "utf8"), password));
+            }
+        } else {
+            keys = Array.from({ length: Number(values.accounts ?? 2) }, () => ethers.Wallet.createRandom());
+        }
+        const srv = await startMockSigner({ keys, refuse: values.refuse === true }, Number(values.port ?? 8650));
+        console.log(`Mock remote signer listening on ${srv.url}`);
+        for (const address of srv.addresses) console.log(`  ${address}`);
+    })();
+}
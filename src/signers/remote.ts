@@ -0,0 +1,162 @@
+/**
+ * remote.ts
+ *
+ * Signer whose key lives behind a JSON-RPC endpoint (Clef, Web3Signer, an HSM
+ * gateway, or mock_signer.ts in tests). Nonces, gas and fees are filled in here
+ * as for any ethers signer; only the signature is requested remotely:
+ *
+ *   eth_accounts           which addresses the endpoint can sign for
+ *   eth_signTransaction    fully populated tx → raw signed bytes
+ *   eth_signTypedData_v4   EIP-712 payload → signature
+ *   personal_sign          message → signature
+ *
+ * Every signature that comes back is checked against the expected address, so
+ * an endpoint signing with the wrong key fails before anything is broadcast.
+ */
+
+import axios, { AxiosInstance } from "axios";
+import { ethers } from "ethers";
+import { CliError, EXIT } from "../exit_codes";
+
+export interface RemoteSignerOptions {
+    timeoutMs?: number;
+    /** Pre-configured axios instance (auth headers, proxies). */
+    http?: AxiosInstance;
+}
+
+export class RemoteSignerError extends Error {
+    constructor(
+        message: string,
+        readonly url: string
+    ) {
+        super(`remote signer ${url}: ${message}`);
+        this.name = "RemoteSignerError";
+    }
+}
+
+let nextId = 1;
+
+async function rpc<T>(http: AxiosInstance, url: string, method: string, params: unknown[]): Promise<T> {
+    let data: any;
+    try {
+        ({ data } = await http.post(url, { jsonrpc: "2.0", id: nextId++, method, params }));
+    } catch (err: any) {
+        throw new RemoteSignerError(`${method} failed: ${err?.response?.status ?? err?.code ?? err?.message ?? err}`, url);
+    }
+    if (data?.error) throw new RemoteSignerError(`${method} failed: ${data.error.message ?? JSON.stringify(data.error)}`, url);
+    return data?.result as T;
+}
+
+/** JSON-RPC shape of a populated tx: hex quantities, `input` and `data` both set. */
+function toRpcTransaction(tx: ethers.TransactionLike<string>): Record<string, string> {
+    const out: Record<string, string> = {};
+    const quantity = (v: ethers.BigNumberish | null | undefined) => (v == null ? undefined : ethers.toQuantity(v));
+    const fields: [string, string | undefined][] = [
+        ["from", tx.from ?? undefined],
+        ["to", tx.to ?? undefined],
+        ["type", quantity(tx.type)],
+        ["chainId", quantity(tx.chainId)],
+        ["nonce", quantity(tx.nonce)],
+        ["gas", quantity(tx.gasLimit)],
+        ["gasPrice", quantity(tx.gasPrice)],
+        ["maxFeePerGas", quantity(tx.maxFeePerGas)],
+        ["maxPriorityFeePerGas", quantity(tx.maxPriorityFeePerGas)],
+        ["value", quantity(tx.value ?? 0)],
+        ["data", tx.data ?? "0x"],
+        ["input", tx.data ?? "0x"],
+    ];
+    for (const [key, value] of fields) if (value !== undefined) out[key] = value;
+    return out;
+}
+
+export class RemoteSigner extends ethers.AbstractSigner {
+    private constructor(
+        readonly url: string,
+        readonly address: string,
+        private readonly http: AxiosInstance,
+        provider: ethers.Provider | null
+    ) {
+        super(provider);
+    }
+
+    /**
+     * Connect to `url` and pick the account to sign with: `account` when given
+     * (it must be one the endpoint offers), else the endpoint's only account.
+     */
+    static async connect(
+        url: string,
+        provider: ethers.Provider | null,
+        account?: string,
+        opts: RemoteSignerOptions = {}
+    ): Promise<RemoteSigner> {
+        const http = opts.http ?? axios.create({ timeout: opts.timeoutMs ?? 30_000 });
+        let accounts: string[];
+        try {
+            accounts = (await rpc<string[]>(http, url, "eth_accounts", [])).map((a) => ethers.getAddress(a));
+        } catch (err: any) {
+            throw new CliError(err?.message ?? String(err), EXIT.CONFIG);
+        }
+        if (account !== undefined) {
+            const wanted = ethers.getAddress(account);
+            if (!accounts.includes(wanted)) {
+                throw new CliError(`remote signer ${url} can't sign for ${wanted} (offers ${accounts.join(", ") || "none"})`, EXIT.CONFIG);
+            }
+            return new RemoteSigner(url, wanted, http, provider);
+        }
+        if (accounts.length !== 1) {
+            const offered = accounts.join(", ") || "none";
+            throw new CliError(`remote signer ${url} offers ${accounts.length} accounts (${offered}); pick one with remote:${url}#<address>`, EXIT.CONFIG);
+        }
+        return new RemoteSigner(url, accounts[0], http, provider);
+    }
+
+    async getAddress(): Promise<string> {
+        return this.address;
+    }
+
+    connect(provider: ethers.Provider | null): RemoteSigner {
+        return new RemoteSigner(this.url, this.address, this.http, provider);
+    }
+
+    async signTransaction(tx: ethers.TransactionRequest): Promise<string> {
+        const populated = await this.populateTransaction(tx);
+        const result = await rpc<string | { raw: string }>(this.http, this.url, "eth_signTransaction", [toRpcTransaction(populated)]);
+        const raw = typeof result === "string" ? result : result?.raw;
+        if (!raw || !ethers.isHexString(raw)) throw new RemoteSignerError("eth_signTransaction returned no raw transaction", this.url);
+        const signed = ethers.Transaction.from(raw);
+        if (signed.from !== this.address) {
+            throw new RemoteSignerError(`eth_signTransaction signed as ${signed.from}, expected ${this.address}`, this.url);
+        }
+        const same = (a?: string | null, b?: string | null) => (a ?? "0x").toLowerCase() === (b ?? "0x").toLowerCase();
+        if (signed.nonce !== Number(populated.nonce) || !same(signed.to, populated.to) || !same(signed.data, populated.data)) {
+            throw new RemoteSignerError("eth_signTransaction returned a different transaction than was requested", this.url);
+        }
+        return raw;
+    }
+
+    async signMessage(message: string | Uint8Array): Promise<string> {
+        const data = typeof message === "string" ? ethers.hexlify(ethers.toUtf8Bytes(message)) : ethers.hexlify(message);
+        const signature = await rpc<string>(this.http, this.url, "personal_sign", [data, this.address]);
+        if (ethers.verifyMessage(message, signature) !== this.address) {
+            throw new RemoteSignerError(`personal_sign signature does not recover to ${this.address}`, this.url);
+        }
+        return signature;
+    }
+
+    async signTypedData(
+        domain: ethers.TypedDataDomain,
+        types: Record<string, ethers.TypedDataField[]>,
+        value: Record<string, any>
+    ): Promise<string> {
+        // Resolve ENS names in the payload the same way a local wallet would.
+        const resolved = await ethers.TypedDataEncoder.resolveNames(domain, types, value, async (name) =>
+            ethers.resolveAddress(name, this.provider)
+        );
+        const payload = ethers.TypedDataEncoder.getPayload(resolved.domain, types, resolved.value);
+        const signature = await rpc<string>(this.http, this.url, "eth_signTypedData_v4", [this.address, JSON.stringify(payload)]);
+        if (ethers.verifyTypedData(resolved.domain, types, resolved.value, signature) !== this.address) {
+            throw new RemoteSignerError(`eth_signTypedData_v4 signature does not recover to ${this.address}`, this.url);
+        }
+        return signature;
+    }
+}
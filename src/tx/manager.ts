@@ -0,0 +1,446 @@
+/**
+ * manager.ts
+ *
+ * Lifecycle of every tx a flow sends, from nonce to final status:
+ *
+ *   nonce      handed out per signer under a lock, from the larger of the
+ *              node's pending count and what this process already gave out,
+ *              so concurrent jobs on one wallet never collide
+ *   send       priced by the gas strategy, signed locally and broadcast raw
+ *   watch      polled until one of its attempts is mined and has enough
+ *              confirmations; still pending after --speed-up-after, it is
+ *              re-signed at the same nonce with fees bumped by --fee-bump
+ *              (never past the fee cap), up to --max-bumps times; vanished from
+ *              the node, it is rebroadcast
+ *   cancel     a zero-value self-transfer at the same nonce, outbidding it
+ *
+ * The caller gets a ManagedTx whose status says how it ended: confirmed or
+ * reverted (with the attempt that was mined), replaced (the nonce went to a
+ * tx this manager didn't send), dropped, cancelled, or timeout — still
+ * pending after --timeout, its attempts left in the mempool, or mined but not
+ * yet --confirmations deep by then. A broadcast the node answers with "already
+ * known", or "nonce too low" while it has the same hash, counts as sent.
+ */
+
+import { ethers } from "ethers";
+import { explorerTxUrl, findNetwork } from "../constants";
+import { CliError, EXIT } from "../exit_codes";
+import { GasPolicy, withGas } from "../gas/strategy";
+import { decodeVaultError, formatVaultError } from "../vault_errors";
+
+export interface TxLifecycleOptions {
+    /** Blocks a receipt needs (1 = mined) before the tx counts as final. */
+    confirmations: number;
+    /** Pending this long after its last broadcast, a tx gets a fee bump. */
+    speedUpAfterMs: number;
+    /** Fee increase per bump, in percent; nodes want at least 10 to replace. */
+    bumpPct: number;
+    maxBumps: number;
+    /** Give up waiting (status "timeout") this long after the first broadcast. */
+    timeoutMs: number;
+    pollMs: number;
+}
+
+export const DEFAULT_TX_LIFECYCLE: TxLifecycleOptions = {
+    confirmations: 1,
+    speedUpAfterMs: 120_000,
+    bumpPct: 15,
+    maxBumps: 3,
+    timeoutMs: 900_000,
+    pollMs: 4_000,
+};
+
+export type TxStatus = "confirmed" | "reverted" | "replaced" | "dropped" | "cancelled" | "timeout";
+
+export interface TxAttempt {
+    hash: string;
+    /** Signed bytes, kept for rebroadcasting; unset for attempts this manager didn't sign. */
+    raw?: string;
+    fees: Fees;
+    kind: "original" | "speed-up" | "cancel";
+}
+
+export interface ManagedTx {
+    label: string;
+    from: string;
+    nonce: number;
+    attempts: TxAttempt[];
+    status: TxStatus;
+    /** The attempt that was mined (confirmed, reverted, cancelled). */
+    hash?: string;
+    receipt?: ethers.TransactionReceipt;
+}
+
+export interface TxLifecycleInput {
+    /** --confirmations. */
+    confirmations?: string;
+    /** --speed-up-after, seconds. */
+    speedUpAfterSeconds?: string;
+    /** --fee-bump, percent. */
+    bumpPct?: string;
+    /** --max-bumps. */
+    maxBumps?: string;
+    /** --timeout, seconds. */
+    timeoutSeconds?: string;
+}
+
+/** DEFAULT_TX_LIFECYCLE with the flags that override it applied. */
+export function parseTxLifecycle(input: TxLifecycleInput = {}): TxLifecycleOptions {
+    const whole = (flag: string, value: string | undefined, fallback: number, min: number): number => {
+        if (value === undefined) return fallback;
+        if (!/^\d+$/.test(value) || Number(value) < min) {
+            throw new CliError(`--${flag} must be a whole number of at least ${min}, got "${value}"`, EXIT.USAGE);
+        }
+        return Number(value);
+    };
+    const d = DEFAULT_TX_LIFECYCLE;
+    return {
+        confirmations: whole("confirmations", input.confirmations, d.confirmations, 1),
+        speedUpAfterMs: whole("speed-up-after", input.speedUpAfterSeconds, d.speedUpAfterMs / 1000, 1) * 1000,
+        bumpPct: whole("fee-bump", input.bumpPct, d.bumpPct, 10),
+        maxBumps: whole("max-bumps", input.maxBumps, d.maxBumps, 0),
+        timeoutMs: whole("timeout", input.timeoutSeconds, d.timeoutMs / 1000, 1) * 1000,
+        pollMs: d.pollMs,
+    };
+}
+
+type Fees = { gasPrice: bigint } | { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint };
+
+/** Rebroadcasts of a vanished tx before it counts as dropped. */
+const MAX_REBROADCASTS = 3;
+
+// Shared by every manager in the process, so two jobs on one wallet draw from one sequence.
+const nextNonces = new Map<string, number>();
+const nonceLocks = new Map<string, Promise<unknown>>();
+
+export class TxManager {
+    constructor(
+        readonly gas: GasPolicy,
+        readonly lifecycle: TxLifecycleOptions = DEFAULT_TX_LIFECYCLE
+    ) {}
+
+    /**
+     * Run `use` with `signer`'s next nonce, holding it against every other
+     * caller until `use` settles. The nonce only counts as used when `use`
+     * resolves; if it throws, the next caller gets the same one.
+     */
+    async withNonce<T>(signer: ethers.Signer, use: (nonce: number) => Promise<T>): Promise<T> {
+        const provider = signer.provider!;
+        const address = await signer.getAddress();
+        const key = await nonceKey(provider, address);
+        const previous = nonceLocks.get(key) ?? Promise.resolve();
+        let release!: () => void;
+        const held = new Promise<void>((r) => (release = r));
+        const tail = previous.then(() => held);
+        nonceLocks.set(key, tail);
+        await previous;
+        try {
+            const pending = await provider.getTransactionCount(address, "pending");
+            const nonce = Math.max(pending, nextNonces.get(key) ?? 0);
+            const result = await use(nonce);
+            nextNonces.set(key, nonce + 1);
+            return result;
+        } finally {
+            release();
+            if (nonceLocks.get(key) === tail) nonceLocks.delete(key);
+        }
+    }
+
+    /** Price, sign and broadcast `tx` at the signer's next nonce, then follow it to a final status. */
+    async send(label: string, signer: ethers.Signer, tx: ethers.TransactionRequest, onSent?: (hash: string) => void): Promise<ManagedTx> {
+        const priced = await withGas(label, signer, tx, this.gas);
+        const from = await signer.getAddress();
+        const managed = await this.withNonce(signer, async (nonce) => {
+            const attempt = await this.broadcast(label, signer, { ...priced, nonce }, feesOf(priced), "original");
+            return { label, from, nonce, attempts: [attempt], status: "timeout" as TxStatus };
+        });
+        const network = findNetwork(Number((await signer.provider!.getNetwork()).chainId));
+        const hash = managed.attempts[0].hash;
+        console.log(`  ${label} tx: ${network ? explorerTxUrl(network, hash) : hash}`);
+        onSent?.(hash);
+        return this.watch(managed, signer, { ...priced, nonce: managed.nonce }, onSent);
+    }
+
+    /** Re-sign a pending tx of `signer` with bumped fees and follow it. */
+    async speedUp(label: string, signer: ethers.Signer, hash: string): Promise<ManagedTx> {
+        const { pending, managed } = await this.adopt(label, signer, hash);
+        const request: ethers.TransactionRequest = {
+            to: pending.to,
+            data: pending.data,
+            value: pending.value,
+            gasLimit: pending.gasLimit,
+            nonce: pending.nonce,
+            chainId: pending.chainId,
+        };
+        await this.bump(managed, signer, request, "speed-up");
+        return this.watch(managed, signer, request);
+    }
+
+    /** Replace a pending tx of `signer` with a zero-value self-transfer at its nonce, and follow both. */
+    async cancel(label: string, signer: ethers.Signer, hash: string): Promise<ManagedTx> {
+        const { pending, managed } = await this.adopt(label, signer, hash);
+        const request: ethers.TransactionRequest = {
+            to: managed.from,
+            value: 0n,
+            data: "0x",
+            gasLimit: 21000n,
+            nonce: pending.nonce,
+            chainId: pending.chainId,
+        };
+        await this.bump(managed, signer, request, "cancel");
+        return this.watch(managed, signer, request);
+    }
+
+    /** A pending tx of `signer`, as the first attempt of a ManagedTx. */
+    private async adopt(label: string, signer: ethers.Signer, hash: string): Promise<{ pending: ethers.TransactionResponse; managed: ManagedTx }> {
+        const provider = signer.provider!;
+        const from = await signer.getAddress();
+        const pending = await provider.getTransaction(hash);
+        if (!pending) throw new CliError(`${hash} is unknown to the node; nothing to replace`, EXIT.PRECONDITION);
+        if (pending.from.toLowerCase() !== from.toLowerCase()) {
+            throw new CliError(`${hash} was sent by ${pending.from}, not by the loaded signer ${from}`, EXIT.CONFIG);
+        }
+        if (pending.blockNumber != null) {
+            throw new CliError(`${hash} is already mined in block ${pending.blockNumber}; nothing to replace`, EXIT.PRECONDITION);
+        }
+        const fees: Fees =
+            pending.maxFeePerGas != null
+                ? { maxFeePerGas: pending.maxFeePerGas, maxPriorityFeePerGas: pending.maxPriorityFeePerGas ?? 0n }
+                : { gasPrice: pending.gasPrice };
+        return {
+            pending,
+            managed: { label, from, nonce: pending.nonce, attempts: [{ hash, fees, kind: "original" }], status: "timeout" },
+        };
+    }
+
+    // ─────────────────────────────────────────────
+    // Watching
+    // ─────────────────────────────────────────────
+
+    private async watch(
+        managed: ManagedTx,
+        signer: ethers.Signer,
+        request: ethers.TransactionRequest,
+        onSent?: (hash: string) => void
+    ): Promise<ManagedTx> {
+        const provider = signer.provider!;
+        const { lifecycle } = this;
+        const deadline = Date.now() + lifecycle.timeoutMs;
+        let lastBroadcast = Date.now();
+        let bumps = managed.attempts.length - 1;
+        let rebroadcasts = 0;
+        let atCap = false;
+
+        while (Date.now() < deadline) {
+            await sleep(Math.min(lifecycle.pollMs, Math.max(deadline - Date.now(), 0)));
+
+            const mined = await this.minedAttempt(managed, provider);
+            if (mined) return this.settle(managed, mined.attempt, mined.receipt, provider, deadline, onSent);
+
+            if ((await provider.getTransactionCount(managed.from, "latest")) > managed.nonce) {
+                // One of ours may have been mined between the two reads.
+                const late = await this.minedAttempt(managed, provider);
+                if (late) return this.settle(managed, late.attempt, late.receipt, provider, deadline, onSent);
+                console.warn(`  ⚠ ${managed.label}: nonce ${managed.nonce} was used by a tx this run didn't send`);
+                managed.status = "replaced";
+                return managed;
+            }
+
+            const known = await Promise.all(managed.attempts.map((a) => provider.getTransaction(a.hash)));
+            if (known.every((t) => t === null)) {
+                const latest = managed.attempts[managed.attempts.length - 1];
+                if (!latest.raw || rebroadcasts >= MAX_REBROADCASTS) {
+                    console.warn(`  ⚠ ${managed.label}: dropped from the mempool (nonce ${managed.nonce})`);
+                    // Nothing holds this nonce any more; the next send on this wallet reuses it.
+                    const key = await nonceKey(provider, managed.from);
+                    if (nextNonces.get(key) === managed.nonce + 1) nextNonces.delete(key);
+                    managed.status = "dropped";
+                    return managed;
+                }
+                rebroadcasts++;
+                console.warn(`  ⚠ ${managed.label}: ${latest.hash} vanished from the mempool; rebroadcasting`);
+                await provider.broadcastTransaction(latest.raw).catch(() => undefined);
+                continue;
+            }
+
+            if (Date.now() - lastBroadcast >= lifecycle.speedUpAfterMs && bumps < lifecycle.maxBumps && !atCap) {
+                const kind = managed.attempts.some((a) => a.kind === "cancel") ? "cancel" : "speed-up";
+                const attempt = await this.bump(managed, signer, request, kind);
+                if (attempt) {
+                    bumps++;
+                    lastBroadcast = Date.now();
+                    onSent?.(attempt.hash);
+                } else {
+                    atCap = true;
+                }
+            }
+        }
+        console.warn(
+            `  ⚠ ${managed.label}: still pending after ${Math.round(lifecycle.timeoutMs / 1000)}s ` +
+                `(nonce ${managed.nonce}; ${managed.attempts.map((a) => a.hash).join(", ")})`
+        );
+        return managed;
+    }
+
+    /** The attempt of `managed` that has a receipt, if any. */
+    private async minedAttempt(
+        managed: ManagedTx,
+        provider: ethers.Provider
+    ): Promise<{ attempt: TxAttempt; receipt: ethers.TransactionReceipt } | undefined> {
+        for (const attempt of [...managed.attempts].reverse()) {
+            const receipt = await provider.getTransactionReceipt(attempt.hash);
+            if (receipt) return { attempt, receipt };
+        }
+        return undefined;
+    }
+
+    /**
+     * Wait out the confirmations of a mined attempt, until `deadline`, and
+     * record how the tx ended: "timeout" (with the receipt) when the
+     * confirmations didn't come in time.
+     */
+    private async settle(
+        managed: ManagedTx,
+        attempt: TxAttempt,
+        receipt: ethers.TransactionReceipt,
+        provider: ethers.Provider,
+        deadline: number,
+        onSent?: (hash: string) => void
+    ): Promise<ManagedTx> {
+        const last = managed.attempts[managed.attempts.length - 1];
+        // Callers journal the latest hash they were given; make it the one that counts.
+        if (attempt !== last) onSent?.(attempt.hash);
+        managed.hash = attempt.hash;
+        managed.receipt = receipt;
+        const { confirmations } = this.lifecycle;
+        if (confirmations > 1) {
+            const confirmed = await provider
+                .waitForTransaction(attempt.hash, confirmations, Math.max(deadline - Date.now(), 1))
+                .catch((err) => {
+                    if (ethers.isError(err, "TIMEOUT")) return undefined;
+                    throw err;
+                });
+            if (!confirmed) {
+                console.warn(
+                    `  ⚠ ${managed.label}: ${attempt.hash} mined in block ${receipt.blockNumber}, ` +
+                        `but not ${confirmations} confirmations deep after ${Math.round(this.lifecycle.timeoutMs / 1000)}s`
+                );
+                managed.status = "timeout";
+                return managed;
+            }
+            managed.receipt = receipt = confirmed;
+        }
+        managed.status = attempt.kind === "cancel" ? "cancelled" : receipt.status === 1 ? "confirmed" : "reverted";
+        if (attempt.kind === "speed-up") console.log(`  ✓ ${managed.label}: the sped-up tx ${attempt.hash} was mined`);
+        return managed;
+    }
+
+    // ─────────────────────────────────────────────
+    // Broadcasting
+    // ─────────────────────────────────────────────
+
+    /**
+     * Re-sign `request` at the same nonce with fees above every earlier attempt
+     * and at least today's (gas price, or twice the base fee plus the tip),
+     * within the cap. Undefined when the cap leaves no room for a bump nodes
+     * would accept.
+     */
+    private async bump(
+        managed: ManagedTx,
+        signer: ethers.Signer,
+        request: ethers.TransactionRequest,
+        kind: "speed-up" | "cancel"
+    ): Promise<TxAttempt | undefined> {
+        const provider = signer.provider!;
+        const previous = managed.attempts[managed.attempts.length - 1].fees;
+        const raise = (v: bigint) => (v * BigInt(100 + this.lifecycle.bumpPct)) / 100n + 1n;
+        const cap = this.gas.maxFee;
+        let fees: Fees;
+        if ("gasPrice" in previous) {
+            const now = (await provider.getFeeData()).gasPrice ?? 0n;
+            const gasPrice = max(raise(previous.gasPrice), now);
+            if (gasPrice > cap) return this.capped(managed, previous.gasPrice);
+            fees = { gasPrice };
+        } else {
+            const bumped = raise(previous.maxFeePerGas);
+            if (bumped > cap) return this.capped(managed, previous.maxFeePerGas);
+            // After a base fee spike the bumped fee alone may still be too low to be included.
+            const baseFee = (await provider.getBlock("latest"))?.baseFeePerGas ?? 0n;
+            const maxPriorityFeePerGas = raise(previous.maxPriorityFeePerGas);
+            const maxFeePerGas = min(max(bumped, baseFee * 2n + maxPriorityFeePerGas), cap);
+            fees = { maxFeePerGas, maxPriorityFeePerGas: min(maxPriorityFeePerGas, maxFeePerGas) };
+        }
+        const attempt = await this.broadcast(managed.label, signer, { ...request, ...fees }, fees, kind);
+        managed.attempts.push(attempt);
+        const verb = kind === "cancel" ? "cancel" : "speed-up";
+        console.log(`  ↻ ${managed.label} ${verb}: ${attempt.hash} at ${describeFees(fees)} (nonce ${managed.nonce})`);
+        return attempt;
+    }
+
+    private capped(managed: ManagedTx, current: bigint): undefined {
+        console.warn(
+            `  ⚠ ${managed.label}: at ${ethers.formatUnits(current, "gwei")} gwei there is no room under the ` +
+                `${ethers.formatUnits(this.gas.maxFee, "gwei")} gwei cap for a fee bump; waiting as is`
+        );
+        return undefined;
+    }
+
+    private async broadcast(
+        label: string,
+        signer: ethers.Signer,
+        request: ethers.TransactionRequest,
+        fees: Fees,
+        kind: TxAttempt["kind"]
+    ): Promise<TxAttempt> {
+        const provider = signer.provider!;
+        let raw: string | undefined;
+        try {
+            raw = await signer.signTransaction(await signer.populateTransaction(request));
+            await provider.broadcastTransaction(raw);
+            return { hash: ethers.keccak256(raw), raw, fees, kind };
+        } catch (err) {
+            // The node may have this very tx already: pending ("already known") or mined ("nonce too low").
+            if (raw !== undefined && (await alreadySent(err, ethers.keccak256(raw), provider))) {
+                return { hash: ethers.keccak256(raw), raw, fees, kind };
+            }
+            const decoded = decodeVaultError(err);
+            throw new CliError(`${label} could not be sent: ${formatVaultError(decoded)}`, EXIT.FAILURE, decoded);
+        }
+    }
+}
+
+/** Whether a broadcast error means the node already has the tx `hash`. */
+async function alreadySent(err: any, hash: string, provider: ethers.Provider): Promise<boolean> {
+    const message = [err?.message, err?.error?.message, err?.info?.error?.message].filter(Boolean).join(" ");
+    if (/already known|known transaction|already imported/i.test(message)) return true;
+    if (!ethers.isError(err, "NONCE_EXPIRED") && !/nonce too low/i.test(message)) return false;
+    return (await provider.getTransaction(hash).catch(() => null)) !== null;
+}
+
+async function nonceKey(provider: ethers.Provider, address: string): Promise<string> {
+    return `${(await provider.getNetwork()).chainId}:${address.toLowerCase()}`;
+}
+
+function feesOf(tx: ethers.TransactionRequest): Fees {
+    return tx.maxFeePerGas != null
+        ? { maxFeePerGas: BigInt(tx.maxFeePerGas), maxPriorityFeePerGas: BigInt(tx.maxPriorityFeePerGas ?? 0n) }
+        : { gasPrice: BigInt(tx.gasPrice ?? 0n) };
+}
+
+function describeFees(fees: Fees): string {
+    return "gasPrice" in fees
+        ? `${ethers.formatUnits(fees.gasPrice, "gwei")} gwei`
+        : `max ${ethers.formatUnits(fees.maxFeePerGas, "gwei")} / tip ${ethers.formatUnits(fees.maxPriorityFeePerGas, "gwei")} gwei`;
+}
+
+function max(a: bigint, b: bigint): bigint {
+    return a > b ? a : b;
+}
+
+function min(a: bigint, b: bigint): bigint {
+    return a < b ? a : b;
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((r) => setTimeout(r, ms));
+}
@@ -0,0 +1,575 @@
+/**
+ * vault_errors.ts
+ *
+ * One decoder for everything the AstherusVault (contract.sol) and the tokens /
+ * helpers around it can revert with:
+ *
+ *   - every custom error declared in AstherusVault
+ *   - the plain `require(...)` strings ("currency not support", "validator illegal", ...)
+ *   - OpenZeppelin errors pulled in by the vault (AccessControl, Pausable,
+ *     ReentrancyGuard, SafeERC20, Address, ECDSA, Initializable, UUPS)
+ *   - ERC-20 / BEP-20 token failures surfaced through safeTransferFrom
+ *   - Solidity Panic(uint256)
+ *
+ * It digs the revert data out of nested ethers v6 / viem error shapes and can
+ * unwrap the per-call results of a Multicall3 `aggregate3`.
+ *
+ * Usage:
+ *   const decoded = decodeVaultError(err);
+ *   console.error(`${decoded.code}: ${decoded.message}`);
+ *   console.error(`Hint: ${decoded.hint}`);
+ */
+
+import { ethers } from "ethers";
+
+// ─────────────────────────────────────────────
+// ABI of every error we know how to decode
+// ─────────────────────────────────────────────
+export const VAULT_ERROR_ABI = [
+    // AstherusVault
+    "error ZeroAddress()",
+    "error ZeroAmount()",
+    "error TokenAlreadyExist()",
+    "error CurrencyNotSupport(address currency)",
+    "error ValueNotZero()",
+    "error LowerThanExpected(uint256 expected, uint256 actual)",
+    "error AsBnbActivitiesOnGoing()",
+    "error AmountIllegal(uint256 supported, uint256 actual)",
+    "error AlreadyWithdraw(uint256 withdrawId)",
+    "error UserAlreadyWithdraw(bytes32 userDigest)",
+    "error FeeExceeds(uint256 real, uint256 max)",
+    "error CurrencyNameNotSupport(address token, bytes32 hash)",
+    "error PriceDecimalsMismatch(uint8 expected, uint8 actual)",
+
+    // OpenZeppelin AccessControl
+    "error AccessControlUnauthorizedAccount(address account, bytes32 neededRole)",
+    "error AccessControlBadConfirmation()",
+
+    // OpenZeppelin Pausable / ReentrancyGuard / Initializable / UUPS
+    "error EnforcedPause()",
+    "error ExpectedPause()",
+    "error ReentrancyGuardReentrantCall()",
+    "error InvalidInitialization()",
+    "error NotInitializing()",
+    "error UUPSUnauthorizedCallContext()",
+    "error UUPSUnsupportedProxiableUUID(bytes32 slot)",
+
+    // OpenZeppelin SafeERC20 / Address (5.0 and 5.1+ names)
+    "error SafeERC20FailedOperation(address token)",
+    "error SafeERC20FailedDecreaseAllowance(address spender, uint256 currentAllowance, uint256 requestedDecrease)",
+    "error AddressInsufficientBalance(address account)",
+    "error AddressEmptyCode(address target)",
+    "error FailedInnerCall()",
+    "error FailedCall()",
+    "error InsufficientBalance(uint256 balance, uint256 needed)",
+
+    // OpenZeppelin ECDSA
+    "error ECDSAInvalidSignature()",
+    "error ECDSAInvalidSignatureLength(uint256 length)",
+    "error ECDSAInvalidSignatureS(bytes32 s)",
+
+    // OpenZeppelin ERC20 (tokens that use custom errors)
+    "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+    "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+    "error ERC20InvalidSender(address sender)",
+    "error ERC20InvalidReceiver(address receiver)",
+    "error ERC20InvalidApprover(address approver)",
+    "error ERC20InvalidSpender(address spender)",
+];
+
+const ERROR_IFACE = new ethers.Interface(VAULT_ERROR_ABI);
+
+const MULTICALL3_RESULT_ABI = [
+    "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)",
+];
+
+// ─────────────────────────────────────────────
+// Roles — computed exactly like the contract does
+// ─────────────────────────────────────────────
+export const VAULT_ROLES = {
+    DEFAULT_ADMIN_ROLE: ethers.ZeroHash,
+    ADMIN_ROLE: ethers.id("ADMIN_ROLE"),
+    PAUSE_ROLE: ethers.id("PAUSE_ROLE"),
+    OPERATE_ROLE: ethers.id("OPERATE_ROLE"),
+    TOKEN_ROLE: ethers.id("TOKEN_ROLE"),
+    DEPOSIT_ROLE: ethers.id("DEPOSIT_ROLE"),
+} as const;
+
+export type VaultRoleName = keyof typeof VAULT_ROLES;
+
+const ROLE_NAMES: Record<string, VaultRoleName> = Object.fromEntries(
+    Object.entries(VAULT_ROLES).map(([name, hash]) => [hash.toLowerCase(), name as VaultRoleName])
+);
+
+/** Human-readable name for a role hash, or the hash itself if unknown. */
+export function roleName(roleHash: string): string {
+    return ROLE_NAMES[roleHash.toLowerCase()] ?? roleHash;
+}
+
+// ─────────────────────────────────────────────
+// Result type
+// ─────────────────────────────────────────────
+export type VaultErrorCode =
+    // custom errors (names as declared in Solidity)
+    | "ZeroAddress"
+    | "ZeroAmount"
+    | "TokenAlreadyExist"
+    | "CurrencyNotSupport"
+    | "ValueNotZero"
+    | "LowerThanExpected"
+    | "AsBnbActivitiesOnGoing"
+    | "AmountIllegal"
+    | "AlreadyWithdraw"
+    | "UserAlreadyWithdraw"
+    | "FeeExceeds"
+    | "CurrencyNameNotSupport"
+    | "PriceDecimalsMismatch"
+    | "AccessControlUnauthorizedAccount"
+    | "AccessControlBadConfirmation"
+    | "EnforcedPause"
+    | "ExpectedPause"
+    | "ReentrancyGuardReentrantCall"
+    | "InvalidInitialization"
+    | "NotInitializing"
+    | "UUPSUnauthorizedCallContext"
+    | "UUPSUnsupportedProxiableUUID"
+    | "SafeERC20FailedOperation"
+    | "SafeERC20FailedDecreaseAllowance"
+    | "AddressInsufficientBalance"
+    | "AddressEmptyCode"
+    | "FailedInnerCall"
+    | "FailedCall"
+    | "InsufficientBalance"
+    | "ECDSAInvalidSignature"
+    | "ECDSAInvalidSignatureLength"
+    | "ECDSAInvalidSignatureS"
+    | "ERC20InsufficientBalance"
+    | "ERC20InsufficientAllowance"
+    | "ERC20InvalidSender"
+    | "ERC20InvalidReceiver"
+    | "ERC20InvalidApprover"
+    | "ERC20InvalidSpender"
+    // require() strings
+    | "ValueZero"
+    | "OnlyTimelock"
+    | "ValidatorIllegal"
+    | "ValidatorSignatureIllegal"
+    | "ValidatorAlreadySet"
+    | "ValidatorNotSet"
+    | "ValidatorNotOrdered"
+    | "IllegalNum"
+    | "VaultBalanceInsufficient"
+    | "TokenAllowanceInsufficient"
+    | "TokenBalanceInsufficient"
+    | "Multicall3CallFailed"
+    // fallbacks
+    | "RevertString"
+    | "Panic"
+    | "UnknownCustomError"
+    | "Unknown";
+
+export interface DecodedVaultError {
+    code: VaultErrorCode;
+    /** What went wrong, with decoded arguments filled in. */
+    message: string;
+    /** What the operator should do about it. */
+    hint: string;
+    /** Raw revert data, when we found any. */
+    data?: string;
+    /** Decoded error arguments by name (custom errors) or position. */
+    args?: Record<string, unknown>;
+}
+
+// ─────────────────────────────────────────────
+// require() strings → codes
+// ─────────────────────────────────────────────
+const REVERT_STRINGS: Record<string, { code: VaultErrorCode; message: string; hint: string }> = {
+    "currency not support": {
+        code: "CurrencyNotSupport",
+        message: "the currency is not in the vault's supportToken list",
+        hint: "Check supportToken(currency) on the vault and deposit a listed token.",
+    },
+    "msg.value must be greater than 0": {
+        code: "ValueZero",
+        message: "depositNative was called without any native value",
+        hint: "Send the deposit amount as msg.value.",
+    },
+    "only timelock": {
+        code: "OnlyTimelock",
+        message: "only the vault timelock may perform this call",
+        hint: "Upgrades must go through TIMELOCK_ADDRESS.",
+    },
+    "validator illegal": {
+        code: "ValidatorIllegal",
+        message: "the validator set is not registered on the vault",
+        hint: "Use the validator set registered through addValidator.",
+    },
+    "validator signature illegal": {
+        code: "ValidatorSignatureIllegal",
+        message: "validator signatures do not reach 2/3 of the total power",
+        hint: "Collect more validator signatures over the exact withdraw digest.",
+    },
+    "already set": {
+        code: "ValidatorAlreadySet",
+        message: "this validator set is already registered",
+        hint: "Nothing to do; the set is active.",
+    },
+    "not set": {
+        code: "ValidatorNotSet",
+        message: "this validator set is not registered",
+        hint: "Check the validator list and its ordering.",
+    },
+    "validator not ordered": {
+        code: "ValidatorNotOrdered",
+        message: "validators must be sorted by signer address, ascending",
+        hint: "Sort the validator array by signer before submitting.",
+    },
+    "illegal num": {
+        code: "IllegalNum",
+        message: "tokens and amounts arrays differ in length",
+        hint: "Pass one amount per token.",
+    },
+    "already withdraw": {
+        code: "AlreadyWithdraw",
+        message: "this withdraw id has already been processed",
+        hint: "Use a fresh withdraw id.",
+    },
+    "not enough currency balance": {
+        code: "VaultBalanceInsufficient",
+        message: "the vault does not hold enough of this currency",
+        hint: "Wait for the vault to be refilled or lower the amount.",
+    },
+    "BEP20: transfer amount exceeds allowance": {
+        code: "TokenAllowanceInsufficient",
+        message: "the token allowance to the vault is lower than the amount",
+        hint: "Approve the vault (or the pulling contract) for at least the amount.",
+    },
+    "ERC20: transfer amount exceeds allowance": {
+        code: "TokenAllowanceInsufficient",
+        message: "the token allowance to the vault is lower than the amount",
+        hint: "Approve the vault (or the pulling contract) for at least the amount.",
+    },
+    "ERC20: insufficient allowance": {
+        code: "TokenAllowanceInsufficient",
+        message: "the token allowance to the vault is lower than the amount",
+        hint: "Approve the vault (or the pulling contract) for at least the amount.",
+    },
+    "BEP20: transfer amount exceeds balance": {
+        code: "TokenBalanceInsufficient",
+        message: "the sender's token balance is lower than the amount",
+        hint: "Top up the sending wallet or lower the amount.",
+    },
+    "ERC20: transfer amount exceeds balance": {
+        code: "TokenBalanceInsufficient",
+        message: "the sender's token balance is lower than the amount",
+        hint: "Top up the sending wallet or lower the amount.",
+    },
+    "Multicall3: call failed": {
+        code: "Multicall3CallFailed",
+        message: "one of the aggregate3 sub-calls reverted (Multicall3 drops the inner reason)",
+        hint: "Re-simulate with allowFailure=true and pass the results to decodeAggregate3Results to see the inner revert.",
+    },
+};
+
+const PANIC_REASONS: Record<number, string> = {
+    0x01: "assertion failed",
+    0x11: "arithmetic overflow or underflow",
+    0x12: "division or modulo by zero",
+    0x21: "invalid enum value",
+    0x22: "invalid storage byte array",
+    0x31: "pop() on an empty array",
+    0x32: "array index out of bounds",
+    0x41: "out of memory",
+    0x51: "call to an uninitialized function pointer",
+};
+
+// ─────────────────────────────────────────────
+// Custom error → message + hint
+// ─────────────────────────────────────────────
+function describeCustomError(decoded: ethers.ErrorDescription): { message: string; hint: string } {
+    const a = decoded.args;
+    switch (decoded.name) {
+        case "ZeroAddress":
+            return { message: "one of the addresses provided was the zero address", hint: "Check currency / forAddress / receiver parameters." };
+        case "ZeroAmount":
+            return { message: "the amount is zero (or nothing was received after conversion)", hint: "Deposit a non-zero amount." };
+        case "TokenAlreadyExist":
+            return { message: "the token is already listed on the vault", hint: "Use removeToken first if it must be re-listed." };
+        case "CurrencyNotSupport":
+            return { message: `token ${a[0]} is not a supported deposit currency on this vault`, hint: "Check supportToken(currency) and pick a listed token (NATIVE, USDT, USDF, asBNB ...)." };
+        case "ValueNotZero":
+            return {
+                message: "native value was attached to an ERC-20 deposit; msg.value must be 0 unless currency is NATIVE",
+                hint: "Send token deposits without value, or pass the NATIVE sentinel as currency to deposit native coin.",
+            };
+        case "LowerThanExpected":
+            return { message: `received ${a[1]} but at least ${a[0]} was expected`, hint: "Raise the slippage tolerance or retry when the conversion rate recovers." };
+        case "AsBnbActivitiesOnGoing":
+            return { message: "asBNB deposits are blocked while YIELD_PROXY activities are on going", hint: "Wait until YIELD_PROXY.activitiesOnGoing() returns false and retry." };
+        case "AmountIllegal":
+            return {
+                message: `amount ${a[0]} (base units) does not match what the vault actually got: ${a[1]}`,
+                hint: "For NATIVE depositFor, msg.value must equal amount exactly; for tokens the balance delta differed (fee-on-transfer) — use deposit() instead of depositFor().",
+            };
+        case "AlreadyWithdraw":
+            return { message: `withdraw id ${a[0]} has already been processed`, hint: "Use a fresh withdraw id." };
+        case "UserAlreadyWithdraw":
+            return { message: `user withdraw digest ${a[0]} has already been used`, hint: "Ask the user to sign a new withdraw request." };
+        case "FeeExceeds":
+            return { message: `fee ${a[0]} exceeds the user-signed maximum ${a[1]}`, hint: "Lower the real fee to at most the signed fee." };
+        case "CurrencyNameNotSupport":
+            return { message: `token ${a[0]} is not registered under name hash ${a[1]}`, hint: "Check tokenHashMap(token) against the name used in the request." };
+        case "PriceDecimalsMismatch":
+            return { message: `price feed has ${a[1]} decimals, ${a[0]} were configured`, hint: "Pass the oracle's decimals() as priceDecimals." };
+        case "AccessControlUnauthorizedAccount":
+            return {
+                message: `wallet ${a[0]} does not have the required role "${roleName(a[1])}"`,
+                hint: `The vault admin must grant ${roleName(a[1])} to ${a[0]}, or use a flow that does not need it (e.g. deposit() instead of depositFor()).`,
+            };
+        case "AccessControlBadConfirmation":
+            return { message: "renounceRole must be called by the account itself", hint: "Pass the caller's own address." };
+        case "EnforcedPause":
+            return {
+                message: "the vault is paused",
+                hint: "Only withdraw() checks the pause; deposits are not affected. Wait for the PAUSE_ROLE holder to unpause before withdrawing.",
+            };
+        case "ExpectedPause":
+            return { message: "the vault is not paused", hint: "This call is only valid while paused." };
+        case "ReentrancyGuardReentrantCall":
+            return { message: "re-entrant call into the vault", hint: "Do not call the vault from inside a vault callback." };
+        case "InvalidInitialization":
+        case "NotInitializing":
+            return { message: "proxy initialization state is invalid", hint: "The implementation cannot be (re)initialized this way." };
+        case "UUPSUnauthorizedCallContext":
+        case "UUPSUnsupportedProxiableUUID":
+            return { message: "invalid UUPS upgrade call", hint: "Upgrade through the proxy with a UUPS-compatible implementation." };
+        case "SafeERC20FailedOperation":
+            return { message: `token ${a[0]} returned false from transfer/transferFrom/approve`, hint: "Check balance and allowance of the sender for that token." };
+        case "SafeERC20FailedDecreaseAllowance":
+            return { message: `cannot decrease allowance of ${a[0]} by ${a[2]} (current ${a[1]})`, hint: "Decrease by at most the current allowance." };
+        case "AddressInsufficientBalance":
+            return { message: `${a[0]} does not hold enough native balance for the transfer`, hint: "Top up the sending contract." };
+        case "InsufficientBalance":
+            return { message: `native balance ${a[0]} is lower than the ${a[1]} needed`, hint: "Top up the sending contract." };
+        case "AddressEmptyCode":
+            return { message: `${a[0]} has no code`, hint: "Check the token / contract address for this chain." };
+        case "FailedInnerCall":
+        case "FailedCall":
+            return { message: "a low-level call inside the vault failed", hint: "The receiver rejected native funds or the token call reverted without reason." };
+        case "ECDSAInvalidSignature":
+        case "ECDSAInvalidSignatureLength":
+        case "ECDSAInvalidSignatureS":
+            return { message: "a signature could not be recovered", hint: "Re-sign the payload; check it is 65 bytes with a low-s value." };
+        case "ERC20InsufficientBalance":
+            return { message: `${a[0]} has ${a[1]} but ${a[2]} is needed`, hint: "Top up the sending wallet or lower the amount." };
+        case "ERC20InsufficientAllowance":
+            return { message: `${a[0]} is allowed ${a[1]} but ${a[2]} is needed`, hint: "Approve the spender for at least the amount." };
+        case "ERC20InvalidSender":
+        case "ERC20InvalidReceiver":
+        case "ERC20InvalidApprover":
+        case "ERC20InvalidSpender":
+            return { message: `${decoded.name}: ${a[0]}`, hint: "Check the addresses involved in the token call." };
+        default:
+            return { message: `${decoded.name}(${a.join(", ")})`, hint: "Unrecognized error; inspect the raw revert data." };
+    }
+}
+
+function argsByName(decoded: ethers.ErrorDescription): Record<string, unknown> {
+    const out: Record<string, unknown> = {};
+    decoded.fragment.inputs.forEach((input, i) => {
+        out[input.name || String(i)] = decoded.args[i];
+    });
+    return out;
+}
+
+// ─────────────────────────────────────────────
+// Revert data → decoded error
+// ─────────────────────────────────────────────
+/** Decode raw revert data (selector + ABI-encoded args). */
+export function decodeRevertData(data: string): DecodedVaultError {
+    if (!ethers.isHexString(data) || data === "0x") {
+        return {
+            code: "Unknown",
+            message: "the call reverted without any revert data",
+            hint: "Usually out-of-gas, a non-contract target, or a token that reverts silently.",
+            data,
+        };
+    }
+
+    let decoded: ethers.ErrorDescription | null = null;
+    try {
+        decoded = ERROR_IFACE.parseError(data);
+    } catch {
+        decoded = null;
+    }
+
+    if (!decoded) {
+        return {
+            code: "UnknownCustomError",
+            message: `unknown error selector ${ethers.dataSlice(data, 0, 4)}`,
+            hint: "The revert came from a contract whose errors we do not know; inspect the raw data.",
+            data,
+        };
+    }
+
+    if (decoded.name === "Error") {
+        const reason = String(decoded.args[0]);
+        const known = REVERT_STRINGS[reason];
+        if (known) return { ...known, data, args: { reason } };
+        return {
+            code: "RevertString",
+            message: `reverted with "${reason}"`,
+            hint: "Plain require() failure; see the reason string.",
+            data,
+            args: { reason },
+        };
+    }
+
+    if (decoded.name === "Panic") {
+        const panicCode = Number(decoded.args[0]);
+        return {
+            code: "Panic",
+            message: `panic 0x${panicCode.toString(16)}: ${PANIC_REASONS[panicCode] ?? "unknown panic"}`,
+            hint: "A Solidity invariant failed; this is a contract-side bug or an impossible input.",
+            data,
+            args: { code: panicCode },
+        };
+    }
+
+    const { message, hint } = describeCustomError(decoded);
+    return { code: decoded.name as VaultErrorCode, message, hint, data, args: argsByName(decoded) };
+}
+
+// ─────────────────────────────────────────────
+// Digging revert data out of ethers / viem errors
+// ─────────────────────────────────────────────
+const NESTED_KEYS = ["data", "error", "info", "cause", "revert", "details", "raw", "body"];
+
+/**
+ * Walk an ethers v6 / viem / JSON-RPC error and return the first revert data
+ * hex string found. Handles shapes like `err.data`, `err.info.error.data`,
+ * `err.error.data.data`, viem `err.cause.cause.data` / `.raw`, and JSON-RPC
+ * bodies serialized into `err.info.error.body`.
+ */
+export function findRevertData(error: any, depth = 0, seen = new Set<any>()): string | undefined {
+    if (error == null || depth > 8) return undefined;
+
+    if (typeof error === "string") {
+        if (ethers.isHexString(error) && (error.length >= 10 || error === "0x")) return error;
+        // JSON-RPC response bodies arrive as strings
+        if (error.startsWith("{")) {
+            try {
+                return findRevertData(JSON.parse(error), depth + 1, seen);
+            } catch {
+                return undefined;
+            }
+        }
+        return undefined;
+    }
+
+    if (typeof error !== "object" || seen.has(error)) return undefined;
+    seen.add(error);
+
+    for (const key of NESTED_KEYS) {
+        const found = findRevertData(error[key], depth + 1, seen);
+        if (found !== undefined) return found;
+    }
+
+    // Last resort: ethers embeds `data="0x..."` in some messages
+    const msg: unknown = error.shortMessage ?? error.message;
+    if (typeof msg === "string") {
+        const m = msg.match(/data="(0x[0-9a-fA-F]*)"/);
+        if (m) return m[1];
+    }
+    return undefined;
+}
+
+/** Revert reason that ethers / viem already decoded for us, if any. */
+function findRevertReason(error: any): string | undefined {
+    return error?.reason ?? error?.revert?.args?.[0] ?? error?.cause?.reason ?? undefined;
+}
+
+/**
+ * Decode any error thrown while simulating or sending a vault / token /
+ * Multicall3 transaction into a typed result with a code, message and hint.
+ */
+export function decodeVaultError(error: any): DecodedVaultError {
+    const data = findRevertData(error);
+    if (data !== undefined && data !== "0x") return decodeRevertData(data);
+
+    const reason = findRevertReason(error);
+    if (typeof reason === "string" && reason.length > 0) {
+        const known = REVERT_STRINGS[reason];
+        if (known) return { ...known, args: { reason } };
+        return { code: "RevertString", message: `reverted with "${reason}"`, hint: "Plain require() failure; see the reason string.", args: { reason } };
+    }
+
+    if (data === "0x") return decodeRevertData(data);
+
+    return {
+        code: "Unknown",
+        message: error?.shortMessage || error?.message || String(error),
+        hint: "Not a contract revert; check RPC connectivity, nonce and native gas balance.",
+    };
+}
+
+/** One-line rendering used by the flows' console output. */
+export function formatVaultError(error: any): string {
+    const decoded = error && typeof error === "object" && "code" in error && "hint" in error
+        ? (error as DecodedVaultError)
+        : decodeVaultError(error);
+    return `${decoded.code}: ${decoded.message}. Hint: ${decoded.hint}`;
+}
+
+// ─────────────────────────────────────────────
+// Multicall3 aggregate3
+// ─────────────────────────────────────────────
+export interface Aggregate3Failure {
+    /** Index of the failing call inside the aggregate3 array. */
+    index: number;
+    error: DecodedVaultError;
+}
+
+/**
+ * Decode the inner revert data of every failed sub-call in an aggregate3
+ * result. `results` may be the decoded `(bool success, bytes returnData)[]`
+ * array or the raw ABI-encoded return data of aggregate3.
+ */
+export function decodeAggregate3Results(
+    results: string | ReadonlyArray<{ success: boolean; returnData: string }>
+): Aggregate3Failure[] {
+    let rows: ReadonlyArray<{ success: boolean; returnData: string }>;
+    if (typeof results === "string") {
+        const iface = new ethers.Interface(MULTICALL3_RESULT_ABI);
+        const [decoded] = iface.decodeFunctionResult("aggregate3", results);
+        rows = resultRows(decoded);
+    } else {
+        rows = results;
+    }
+
+    const failures: Aggregate3Failure[] = [];
+    rows.forEach((row, index) => {
+        if (!row.success) failures.push({ index, error: decodeRevertData(row.returnData) });
+    });
+    return failures;
+}
+
+/**
+ * When aggregate3 reverted with "Multicall3: call failed", re-run the same
+ * calls as a static call with allowFailure=true and decode what actually failed
+ * inside. Returns an empty array if every sub-call succeeds in isolation.
+ */
+export async function diagnoseAggregate3(
+    multicall: ethers.Contract,
+    calls: ReadonlyArray<{ target: string; allowFailure: boolean; callData: string }>
+): Promise<Aggregate3Failure[]> {
+    const lenient = calls.map((c) => ({ ...c, allowFailure: true }));
+    const results: ethers.Result = await multicall.aggregate3.staticCall(lenient);
+    return decodeAggregate3Results(resultRows(results));
+}
+
+/** Decoded `(bool success, bytes returnData)[]` as plain rows. */
+function resultRows(decoded: ethers.Result): { success: boolean; returnData: string }[] {
+    const rows = decoded.toArray(true) as [boolean, string][];
+    return rows.map(([success, returnData]) => ({ success, returnData }));
+}
@@ -0,0 +1,110 @@
+/**
+ * vault_events.ts
+ *
+ * AstherusVault event ABI and a small watcher that waits for a matching
+ * `Deposit(account, currency, isNative, amount, broker)` log — the only proof
+ * that Aster actually credited an account.
+ */
+
+import { ethers } from "ethers";
+
+export const VAULT_EVENTS_ABI = [
+    "event Deposit(address indexed account, address indexed currency, bool isNative, uint256 amount, uint256 broker)",
+    "event DepositFailed(address indexed account, address indexed currency, bool isNative, uint256 amount)",
+    "event ReceiveETH(address indexed from, address indexed to, uint256 amount)",
+];
+
+export const VAULT_EVENTS = new ethers.Interface(VAULT_EVENTS_ABI);
+
+export interface DepositLog {
+    account: string;
+    currency: string;
+    isNative: boolean;
+    amount: bigint;
+    broker: bigint;
+    txHash: string;
+    blockNumber: number;
+    logIndex: number;
+}
+
+export function parseDepositLog(log: ethers.Log): DepositLog | null {
+    let parsed: ethers.LogDescription | null;
+    try {
+        parsed = VAULT_EVENTS.parseLog(log);
+    } catch {
+        return null;
+    }
+    if (!parsed || parsed.name !== "Deposit") return null;
+    return {
+        account: parsed.args.account,
+        currency: parsed.args.currency,
+        isNative: parsed.args.isNative,
+        amount: parsed.args.amount,
+        broker: parsed.args.broker,
+        txHash: log.transactionHash,
+        blockNumber: log.blockNumber,
+        logIndex: log.index,
+    };
+}
+
+/** Every Deposit log the vault emitted in `receipt`. */
+export function depositsInReceipt(receipt: ethers.TransactionReceipt, vault: string): DepositLog[] {
+    return receipt.logs
+        .filter((log) => log.address.toLowerCase() === vault.toLowerCase())
+        .map(parseDepositLog)
+        .filter((d): d is DepositLog => d !== null);
+}
+
+export interface DepositMatch {
+    vault: string;
+    account: string;
+    currency: string;
+    /** Exact credited amount expected; omit to accept any. */
+    amount?: bigint;
+    broker?: string | bigint;
+    /** Only look at blocks from here on. */
+    fromBlock: number;
+}
+
+/** Query Deposit logs for `match.account` / `match.currency` in [fromBlock, toBlock]. */
+export async function findDeposits(
+    provider: ethers.Provider,
+    match: DepositMatch,
+    toBlock: number
+): Promise<DepositLog[]> {
+    const topics = VAULT_EVENTS.encodeFilterTopics("Deposit", [match.account, match.currency]);
+    const logs = await provider.getLogs({ address: match.vault, topics, fromBlock: match.fromBlock, toBlock });
+    return logs
+        .map(parseDepositLog)
+        .filter((d): d is DepositLog => d !== null)
+        .filter((d) => match.amount === undefined || d.amount === match.amount)
+        .filter((d) => match.broker === undefined || d.broker === BigInt(match.broker));
+}
+
+/**
+ * Poll until a Deposit log matching `match` appears, scanning at most
+ * `maxRange` blocks per getLogs call. Resolves null on timeout.
+ */
+export async function waitForDeposit(
+    provider: ethers.Provider,
+    match: DepositMatch,
+    opts: { timeoutMs: number; pollMs?: number; maxRange?: number; onPoll?: (head: number) => void }
+): Promise<DepositLog | null> {
+    const pollMs = opts.pollMs ?? 5_000;
+    const maxRange = opts.maxRange ?? 2_000;
+    const deadline = Date.now() + opts.timeoutMs;
+    let cursor = match.fromBlock;
+
+    while (Date.now() < deadline) {
+        const head = await provider.getBlockNumber();
+        opts.onPoll?.(head);
+        while (cursor <= head) {
+            const to = Math.min(cursor + maxRange - 1, head);
+            const found = await findDeposits(provider, { ...match, fromBlock: cursor }, to);
+            if (found.length > 0) return found[0];
+            cursor = to + 1;
+        }
+        await new Promise((resolve) => setTimeout(resolve, pollMs));
+    }
+    return null;
+}
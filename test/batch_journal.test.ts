@@ -0,0 +1,146 @@
+/**
+ * batch_journal.test.ts
+ *
+ * deposit-for-batch reruns against the mock vault on an in-process chain
+ * (local/chain.ts): rows keyed by content, entries no row matches, and a
+ * submitted row that was mined under a sped-up hash.
+ */
+
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers } from "ethers";
+import { parseApprovalPolicies } from "../src/allowances/approvals";
+import { loadJournal, recordRow, saveJournal } from "../src/batch/journal";
+import { loadBatchRows } from "../src/batch/rows";
+import { CliError, EXIT } from "../src/exit_codes";
+import { BatchDepositForOptions, runBatchDepositFor } from "../src/flows/deposit_for_batch";
+import { parseGasPolicy } from "../src/gas/strategy";
+import { LOCAL_ACCOUNTS, LocalChain, startLocalChain } from "../src/local/chain";
+import { DEFAULT_TX_LIFECYCLE, TxManager } from "../src/tx/manager";
+import { findDeposits } from "../src/vault_events";
+
+const address = (seed: string) => ethers.getAddress(ethers.dataSlice(ethers.id(seed), 0, 20));
+const ALICE = address("alice");
+const BOB = address("bob");
+const CAROL = address("carol");
+
+describe("deposit-for-batch journal", () => {
+    let chain: LocalChain;
+    let dir: string;
+
+    before(async () => {
+        chain = await startLocalChain(0);
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "batch-journal-"));
+    });
+    after(async () => {
+        await chain.close();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    /** Write `lines` as the batch CSV and the options to run it with `journal`. */
+    const batch = (name: string, lines: string[], journal: string, overrides: Partial<BatchDepositForOptions> = {}) => {
+        const file = path.join(dir, name);
+        fs.writeFileSync(file, ["beneficiary,currency,amount", ...lines].join("\n"));
+        const { network } = chain;
+        const opts: BatchDepositForOptions = {
+            network,
+            wallet: chain.account(LOCAL_ACCOUNTS.wallet1),
+            rows: loadBatchRows(file, network, "1000"),
+            source: file,
+            journalFile: path.join(dir, journal),
+            gasReserve: "0.01",
+            timeoutMs: 10_000,
+            dryRun: false,
+            json: false,
+            approvals: parseApprovalPolicies(undefined, network),
+            txs: new TxManager(parseGasPolicy(network), { ...DEFAULT_TX_LIFECYCLE, pollMs: 100 }),
+            dataDir: dir,
+            allowUnmatched: false,
+            ...overrides,
+        };
+        return opts;
+    };
+
+    /** Wei credited to `account` in USDT Deposit events so far. */
+    const credited = async (account: string) => {
+        const { network } = chain;
+        const match = { vault: network.vault, account, currency: network.tokens.USDT.address, fromBlock: 0 };
+        const deposits = await findDeposits(chain.provider, match, await chain.provider.getBlockNumber());
+        return deposits.reduce((sum, d) => sum + d.amount, 0n);
+    };
+    const usdt = (amount: string) => ethers.parseUnits(amount, 18);
+
+    it("keys rows by what they pay, counting identical rows apart", async () => {
+        const opts = batch("keys.csv", [`${ALICE},USDT,1`, `${BOB},USDT,2.50`, `${ALICE},USDT,1.0`], "keys.journal.json");
+        const [first, second, third] = opts.rows;
+        assert.match(first.id, /^[0-9a-f]{12}#1$/);
+        assert.equal(third.id, first.id.replace("#1", "#2"));
+
+        const moved = batch("keys-moved.csv", [`${BOB},USDT,2.5`, `${ALICE},USDT,1`], "keys.journal.json");
+        assert.equal(moved.rows[0].id, second.id);
+        assert.equal(moved.rows[1].id, first.id);
+    });
+
+    it("pays only new rows when paid ones are removed and others inserted before a rerun", async () => {
+        const journal = "rerun.journal.json";
+        await runBatchDepositFor(batch("rerun.csv", [`${ALICE},USDT,1`, `${BOB},USDT,2`, `${BOB},USDT,2`], journal));
+        assert.equal(await credited(ALICE), usdt("1"));
+        assert.equal(await credited(BOB), usdt("4"));
+
+        // Alice's paid row is gone and Carol's is inserted first: Bob's rows keep their keys.
+        const edited = batch("rerun.csv", [`${CAROL},USDT,3`, `${BOB},USDT,2`, `${BOB},USDT,2`], journal);
+        await assert.rejects(runBatchDepositFor(edited), (err: unknown) => {
+            assert.ok(err instanceof CliError);
+            assert.equal(err.exitCode, EXIT.PRECONDITION);
+            assert.match(err.message, new RegExp(`1 journal entry matches no row.*${ALICE}`, "s"));
+            return true;
+        });
+        assert.equal(await credited(CAROL), 0n);
+
+        await runBatchDepositFor({ ...edited, allowUnmatched: true });
+        assert.equal(await credited(CAROL), usdt("3"));
+        assert.equal(await credited(BOB), usdt("4"));
+        assert.equal(await credited(ALICE), usdt("1"));
+    });
+
+    it("refuses a rerun after a row was edited, instead of paying its new version", async () => {
+        const journal = "edited.journal.json";
+        const dave = address("dave");
+        await runBatchDepositFor(batch("edited.csv", [`${dave},USDT,1`], journal));
+        await assert.rejects(runBatchDepositFor(batch("edited.csv", [`${dave},USDT,10`], journal)), /matches no row/);
+        assert.equal(await credited(dave), usdt("1"));
+    });
+
+    it("settles a submitted row from the sped-up tx mined at its nonce", async () => {
+        const erin = address("erin");
+        const opts = batch("speed-up.csv", [`${erin},USDT,2`], "speed-up.journal.json");
+        const [row] = opts.rows;
+        const wallet = chain.account(LOCAL_ACCOUNTS.wallet1);
+        const { network } = chain;
+        await (await chain.usdt.connect(wallet).getFunction("approve")(network.vault, usdt("2"))).wait();
+
+        // The journaled version never made it; a bumped one took its nonce.
+        const data = chain.vault.interface.encodeFunctionData("depositFor", [row.currency, row.beneficiary, usdt("2"), row.broker]);
+        const nonce = await chain.provider.getTransactionCount(wallet.address, "pending");
+        const base = { to: network.vault, data, nonce, gasLimit: 200_000n, chainId: network.chainId, type: 2 };
+        const journaled = await wallet.signTransaction({ ...base, maxFeePerGas: ethers.parseUnits("5", "gwei"), maxPriorityFeePerGas: 1n });
+        const bumped = await wallet.sendTransaction({ ...base, maxFeePerGas: ethers.parseUnits("6", "gwei"), maxPriorityFeePerGas: 2n });
+        await bumped.wait();
+
+        const header = { chainId: network.chainId, vault: network.vault, sender: wallet.address, source: opts.source };
+        const journal = loadJournal(opts.journalFile, header);
+        const txHash = ethers.Transaction.from(journaled).hash!;
+        recordRow(journal, row, { status: "submitted", txHash, nonce, rawTx: journaled, amountWei: usdt("2").toString() });
+        saveJournal(opts.journalFile, journal);
+
+        await runBatchDepositFor(opts);
+        const entry = loadJournal(opts.journalFile, journal).entries[row.id];
+        assert.equal(entry.status, "confirmed");
+        assert.equal(entry.txHash, bumped.hash);
+        assert.equal(entry.credited, usdt("2").toString());
+        assert.equal(await credited(erin), usdt("2"));
+    });
+});
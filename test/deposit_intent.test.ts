@@ -0,0 +1,105 @@
+/**
+ * deposit_intent.test.ts
+ *
+ * verifyDepositIntent against each way an intent can fail to authorize a run:
+ * the domain, the signer, the signed fields and the deadline.
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ethers } from "ethers";
+import { NETWORKS } from "../src/constants";
+import { CliError, EXIT } from "../src/exit_codes";
+import {
+    DEPOSIT_INTENT_TYPES,
+    IntendedDeposit,
+    intentDomain,
+    SignedDepositIntent,
+    signDepositIntent,
+    verifyDepositIntent,
+} from "../src/intents/deposit_intent";
+
+const network = NETWORKS.local;
+const wallet1 = new ethers.Wallet(ethers.id("wallet1"));
+const mallory = new ethers.Wallet(ethers.id("mallory"));
+const NOW = Date.UTC(2026, 0, 1);
+const DEADLINE = NOW / 1000 + 600;
+
+const fields = {
+    amount: ethers.parseUnits("5", 18).toString(),
+    currency: network.tokens.USDT.address,
+    broker: "1000",
+    account: wallet1.address,
+    nonce: "42",
+    deadline: String(DEADLINE),
+};
+const run: IntendedDeposit = {
+    network,
+    owner: wallet1.address,
+    amount: ethers.parseUnits("5", 18),
+    currency: network.tokens.USDT.address,
+    broker: "1000",
+    account: wallet1.address,
+};
+
+/** Assert `signed` is rejected for `run` with a reason matching `why`. */
+const rejected = (signed: SignedDepositIntent, why: RegExp, expected = run, now = NOW) =>
+    assert.throws(
+        () => verifyDepositIntent(signed, expected, now),
+        (err: unknown) => {
+            assert.ok(err instanceof CliError);
+            assert.equal(err.exitCode, EXIT.PRECONDITION);
+            assert.match(err.message, /deposit intent 42 of 0x[0-9a-fA-F]{40}/);
+            assert.match(err.message, why);
+            return true;
+        }
+    );
+
+describe("verifyDepositIntent", () => {
+    it("accepts an intent that matches the run", async () => {
+        verifyDepositIntent(await signDepositIntent(wallet1, network, fields), run, NOW);
+    });
+
+    it("rejects a field changed after signing", async () => {
+        const signed = await signDepositIntent(wallet1, network, fields);
+        for (const tampered of [
+            { amount: ethers.parseUnits("50", 18).toString() },
+            { account: mallory.address },
+            { broker: "1001" },
+            { deadline: String(DEADLINE + 86_400) },
+        ]) {
+            rejected({ ...signed, intent: { ...signed.intent, ...tampered } }, /not by its owner/);
+        }
+        rejected({ ...signed, signature: "0x1234" }, /signature is malformed/);
+    });
+
+    it("rejects an intent signed by someone other than Wallet1", async () => {
+        const signed = await signDepositIntent(wallet1, network, fields);
+        const signature = await mallory.signTypedData(intentDomain(network.chainId, network.vault), DEPOSIT_INTENT_TYPES, signed.intent);
+        rejected({ ...signed, signature }, new RegExp(`signed by ${mallory.address}, not by its owner`));
+        rejected(await signDepositIntent(mallory, network, fields), /its owner is not Wallet1/);
+    });
+
+    it("rejects an intent signed for another chain or vault", async () => {
+        const otherChain = await signDepositIntent(wallet1, { ...network, chainId: 56 }, fields);
+        rejected(otherChain, /on chain 56, not .* on 1337/);
+        const otherVault = await signDepositIntent(wallet1, { ...network, vault: mallory.address }, fields);
+        rejected(otherVault, new RegExp(`signed for vault ${mallory.address}`));
+        // Relabelling the domain breaks the signature instead.
+        rejected({ ...otherChain, chainId: network.chainId }, /not by its owner/);
+    });
+
+    it("rejects a run that differs from what was signed", async () => {
+        const signed = await signDepositIntent(wallet1, network, fields);
+        rejected(signed, /authorizes 5000000000000000000 wei/, { ...run, amount: ethers.parseUnits("6", 18) });
+        rejected(signed, /for currency/, { ...run, currency: mallory.address });
+        rejected(signed, /for broker 1000, the run for 7/, { ...run, broker: "7" });
+        rejected(signed, new RegExp(`would credit ${mallory.address}`), { ...run, account: mallory.address });
+    });
+
+    it("rejects an intent past its deadline", async () => {
+        const signed = await signDepositIntent(wallet1, network, fields);
+        rejected(signed, /expired at 2026-01-01T00:10:00.000Z/, run, DEADLINE * 1000);
+        rejected(signed, /expired/, run, NOW + 3_600_000);
+    });
+});
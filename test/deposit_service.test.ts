@@ -0,0 +1,250 @@
+/**
+ * deposit_service.test.ts
+ *
+ * The deposit service end to end: every mode against the mock vault on an
+ * in-process chain (local/chain.ts), relay deposits filled by
+ * relay/mock_server.ts's solver on the same chain.
+ */
+
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers } from "ethers";
+import { parseApprovalPolicies } from "../src/allowances/approvals";
+import { parseGasPolicy } from "../src/gas/strategy";
+import { newIntentNonce, signDepositIntent } from "../src/intents/deposit_intent";
+import { LOCAL_ACCOUNTS, LocalChain, startLocalChain } from "../src/local/chain";
+import { RelayClient } from "../src/relay/client";
+import { MockRelayServer, startMockRelayServer } from "../src/relay/mock_server";
+import {
+    DepositService,
+    DepositServiceOptions,
+    DepositView,
+    ServiceChain,
+    ServiceHealth,
+    startDepositService,
+} from "../src/service/server";
+import { DEFAULT_TX_LIFECYCLE, TxManager } from "../src/tx/manager";
+import { depositsInReceipt } from "../src/vault_events";
+
+const TOKEN = "test-token-0123456789";
+const BENEFICIARY = ethers.getAddress(ethers.dataSlice(ethers.id("beneficiary"), 0, 20));
+
+/** What the service answers a request it refuses with. */
+interface ErrorBody {
+    error: { code: string; message: string };
+}
+
+describe("deposit service", () => {
+    let chain: LocalChain;
+    let mock: MockRelayServer;
+    let dataDir: string;
+    let options: DepositServiceOptions;
+    let service: DepositService;
+
+    const serviceChain = (rpcUrl: string): ServiceChain => {
+        const { network } = chain;
+        const txs = new TxManager(parseGasPolicy(network), { ...DEFAULT_TX_LIFECYCLE, pollMs: 100 });
+        return {
+            network,
+            provider: chain.provider,
+            rpc: { chainId: network.chainId, urls: [rpcUrl], retries: 0, timeoutMs: 2_000 },
+            txs,
+            approvals: parseApprovalPolicies(undefined, network),
+            gasReserve: "0.01",
+            wallet: chain.account(LOCAL_ACCOUNTS.wallet1),
+            serverWallet: chain.account(LOCAL_ACCOUNTS.wallet2),
+        };
+    };
+
+    before(async () => {
+        chain = await startLocalChain(0);
+        mock = await startMockRelayServer({ solver: chain.account(LOCAL_ACCOUNTS.solver) });
+        dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "deposit-service-"));
+        const served = serviceChain(chain.url);
+        options = {
+            chains: [served],
+            relay: {
+                client: new RelayClient({ baseUrl: mock.url }),
+                originChainId: chain.network.chainId,
+                wallet: chain.account(LOCAL_ACCOUNTS.wallet1),
+                txs: served.txs,
+                timeoutMs: 30_000,
+                pollMs: 200,
+            },
+            dataDir,
+            host: "127.0.0.1",
+            port: 0,
+            apiToken: TOKEN,
+        };
+        service = await startDepositService(options);
+    });
+    after(async () => {
+        await service.close();
+        await mock.close();
+        await chain.close();
+        fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    /** `method` on `route`; the body is a DepositView unless `T` says otherwise. */
+    const call = async <T = DepositView>(
+        method: string,
+        route: string,
+        opts: { key?: string; body?: unknown; token?: string | null } = {}
+    ) => {
+        const headers: Record<string, string> = { "content-type": "application/json" };
+        if (opts.token !== null) headers.authorization = `Bearer ${opts.token ?? TOKEN}`;
+        if (opts.key !== undefined) headers["idempotency-key"] = opts.key;
+        const res = await fetch(`${service.url}${route}`, {
+            method,
+            headers,
+            body: opts.body === undefined ? undefined : JSON.stringify(opts.body),
+        });
+        return { status: res.status, headers: res.headers, body: (await res.json()) as T };
+    };
+
+    /** POST under `key`, wait for the deposit to finish, and return its record. */
+    const depositAndWait = async (key: string, body: unknown) => {
+        const posted = await call("POST", "/deposits", { key, body });
+        assert.equal(posted.status, 202, JSON.stringify(posted.body));
+        assert.equal(posted.headers.get("location"), `/deposits/${posted.body.id}`);
+        await service.idle();
+        const { status, body: record } = await call("GET", `/deposits/${posted.body.id}`);
+        assert.equal(status, 200);
+        return record;
+    };
+
+    it("requires the API token on /deposits, not on /health", async () => {
+        const missing = await call("POST", "/deposits", { key: "k", body: { mode: "deposit", amount: "1" }, token: null });
+        assert.equal(missing.status, 401);
+        assert.equal(missing.headers.get("www-authenticate"), "Bearer");
+        assert.equal((await call("GET", "/deposits/dep-x", { token: "wrong-token-0123456789" })).status, 401);
+        assert.equal((await call("GET", "/health", { token: null })).status, 200);
+    });
+
+    it("refuses a token that is too short, and a non-loopback host without one", async () => {
+        await assert.rejects(startDepositService({ ...options, apiToken: "short" }), /at least 16 characters/);
+        await assert.rejects(startDepositService({ ...options, host: "0.0.0.0", apiToken: undefined }), /without an API token/);
+    });
+
+    it("rejects a POST without an Idempotency-Key or with an invalid body", async () => {
+        const unkeyed = await call<ErrorBody>("POST", "/deposits", { body: { mode: "deposit", amount: "1" } });
+        assert.equal(unkeyed.status, 400);
+        assert.match(unkeyed.body.error.message, /Idempotency-Key/);
+        const invalid = await call<ErrorBody>("POST", "/deposits", { key: "invalid", body: { mode: "deposit", amount: "-1" } });
+        assert.equal(invalid.status, 400);
+        assert.equal(invalid.body.error.code, "USAGE");
+        assert.equal((await call("GET", "/deposits/dep-x")).status, 404);
+        assert.equal((await call("DELETE", "/deposits")).status, 405);
+    });
+
+    it("runs a deposit and files it under its Idempotency-Key", async () => {
+        const body = { mode: "deposit", amount: "5", currency: "USDT" };
+        const record = await depositAndWait("deposit-1", body);
+        assert.equal(record.state, "succeeded", JSON.stringify(record.error));
+        assert.equal(record.step, "done");
+        assert.equal("requestHash" in record, false);
+        assert.ok(record.txs.some((t) => /deposit/i.test(t.label)));
+
+        const receipt = await chain.provider.getTransactionReceipt(record.result!.txHash!);
+        const [log] = depositsInReceipt(receipt!, chain.network.vault);
+        assert.equal(log.account, chain.account(LOCAL_ACCOUNTS.wallet1).address);
+        assert.equal(log.amount, ethers.parseUnits("5", 18));
+
+        // The same key and body, in another key order: the record already filed.
+        const retried = await call("POST", "/deposits", { key: "deposit-1", body: { currency: "USDT", amount: "5", mode: "deposit" } });
+        assert.equal(retried.status, 200);
+        assert.equal(retried.body.id, record.id);
+        assert.equal(retried.body.state, "succeeded");
+
+        const reused = await call<ErrorBody>("POST", "/deposits", { key: "deposit-1", body: { ...body, amount: "6" } });
+        assert.equal(reused.status, 409);
+        assert.match(reused.body.error.message, new RegExp(record.id));
+    });
+
+    it("runs depositFor", async () => {
+        const record = await depositAndWait("deposit-for-1", { mode: "depositFor", amount: "2", beneficiary: BENEFICIARY });
+        assert.equal(record.state, "succeeded", JSON.stringify(record.error));
+        const receipt = await chain.provider.getTransactionReceipt(record.result!.txHash!);
+        assert.equal(depositsInReceipt(receipt!, chain.network.vault)[0].account, BENEFICIARY);
+    });
+
+    it("runs pull-and-deposit from a signed intent, once", async () => {
+        const wallet1 = chain.account(LOCAL_ACCOUNTS.wallet1);
+        const intent = await signDepositIntent(wallet1, chain.network, {
+            amount: ethers.parseUnits("3", 18).toString(),
+            currency: chain.network.tokens.USDT.address,
+            broker: "1000",
+            account: wallet1.address,
+            nonce: newIntentNonce(),
+            deadline: String(Math.floor(Date.now() / 1000) + 600),
+        });
+        const record = await depositAndWait("pull-1", { mode: "pull-and-deposit", intent });
+        assert.equal(record.state, "succeeded", JSON.stringify(record.error));
+        assert.equal(record.request.credit, "user");
+        assert.ok(record.pullRun);
+
+        const replay = await call<ErrorBody>("POST", "/deposits", { key: "pull-2", body: { mode: "pull-and-deposit", intent } });
+        assert.equal(replay.status, 422);
+        assert.equal(replay.body.error.code, "PRECONDITION");
+    });
+
+    it("runs a relay deposit the mock solver fills on the vault", async () => {
+        const record = await depositAndWait("relay-1", { mode: "relay", amount: "4", beneficiary: BENEFICIARY });
+        assert.equal(record.state, "succeeded", JSON.stringify(record.error));
+        assert.equal(mock.requestIds.length, 1);
+        assert.ok(record.txs.length > 0);
+        assert.equal(record.result?.credited, ethers.parseUnits("4", 18).toString());
+
+        const ledger = JSON.parse(fs.readFileSync(path.join(dataDir, `credits-${chain.network.chainId}.json`), "utf8"));
+        const credit = Object.values<{ flow: string; account: string }>(ledger.credits).find((c) => c.flow === "relay");
+        assert.equal(credit?.account, BENEFICIARY);
+    });
+
+    it("reports the chain's endpoints and signers on /health", async () => {
+        const { status, body } = await call<ServiceHealth>("GET", "/health");
+        assert.equal(status, 200);
+        assert.equal(body.status, "ok");
+        const [served] = body.chains;
+        assert.equal(served.chainId, chain.network.chainId);
+        assert.equal(served.rpc.usable, 1);
+        assert.deepEqual(
+            served.signers.map((s) => s.role),
+            ["wallet", "serverWallet"]
+        );
+        assert.equal(served.pending, 0);
+        assert.equal(body.relay?.originChainId, chain.network.chainId);
+    });
+
+    it("answers 503 on /health when the chain has no usable endpoint", async () => {
+        const dead = "http://127.0.0.1:1";
+        const provider = new ethers.JsonRpcProvider(dead, chain.network.chainId, { staticNetwork: true });
+        const degraded = await startDepositService({
+            ...options,
+            chains: [{ ...serviceChain(dead), provider }],
+            relay: undefined,
+            dataDir: fs.mkdtempSync(path.join(dataDir, "degraded-")),
+        });
+        try {
+            const res = await fetch(`${degraded.url}/health`);
+            const body = (await res.json()) as ServiceHealth;
+            assert.equal(res.status, 503);
+            assert.equal(body.status, "degraded");
+            assert.equal(body.chains[0].rpc.usable, 0);
+        } finally {
+            await degraded.close();
+            provider.destroy();
+        }
+    });
+
+    it("keeps its records across a restart", async () => {
+        const posted = await call("POST", "/deposits", { key: "deposit-1", body: { mode: "deposit", amount: "5", currency: "USDT" } });
+        await service.close();
+        service = await startDepositService(options);
+        const { status, body } = await call("GET", `/deposits/${posted.body.id}`);
+        assert.equal(status, 200);
+        assert.equal(body.state, "succeeded");
+    });
+});
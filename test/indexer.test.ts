@@ -0,0 +1,147 @@
+/**
+ * indexer.test.ts
+ *
+ * The vault event indexer against the mock vault on an in-process chain
+ * (local/chain.ts): resuming from the saved cursor, rolling back a reorg, and
+ * splitting getLogs ranges the RPC refuses.
+ */
+
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers } from "ethers";
+import { NATIVE_ADDRESS } from "../src/constants";
+import { getLogsAdaptive, syncOnce } from "../src/indexer/indexer";
+import { IndexerState, loadStore, queryEvents } from "../src/indexer/store";
+import { LOCAL_ACCOUNTS, LocalChain, startLocalChain } from "../src/local/chain";
+import { VAULT_EVENTS } from "../src/vault_events";
+
+interface Overrides {
+    getLogs?: (filter: ethers.Filter) => Promise<ethers.Log[]>;
+    getBlock?: (block: number) => Promise<ethers.Block | null>;
+}
+
+/** `provider` with some of the calls the indexer makes replaced. */
+const wrap = (provider: ethers.Provider, overrides: Overrides) =>
+    ({
+        getBlockNumber: () => provider.getBlockNumber(),
+        getBlock: (block: number) => provider.getBlock(block),
+        getLogs: (filter: ethers.Filter) => provider.getLogs(filter),
+        ...overrides,
+    }) as unknown as ethers.Provider;
+
+describe("vault event indexer", () => {
+    let chain: LocalChain;
+    let dir: string;
+
+    before(async () => {
+        chain = await startLocalChain(0);
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "indexer-"));
+    });
+    after(async () => {
+        await chain.close();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    /** A native deposit of `wei` by account `index`, mined in its own block. */
+    const deposit = async (wei: bigint, index: number = LOCAL_ACCOUNTS.wallet1) => {
+        const vault = chain.vault.connect(chain.account(index)) as ethers.Contract;
+        return (await (await vault.getFunction("depositNative")(1000, { value: wei })).wait())!;
+    };
+    const store = (name: string, startBlock = 0) => {
+        const { network } = chain;
+        return loadStore(path.join(dir, name), { chainId: network.chainId, vault: network.vault, startBlock });
+    };
+    const amounts = (state: IndexerState) => queryEvents(state, { event: "Deposit" }).map((e) => BigInt(e.amount));
+
+    it("continues from the saved cursor after a run that stopped part way", async () => {
+        const startBlock = (await chain.provider.getBlockNumber()) + 1;
+        for (const wei of [1n, 2n, 3n, 4n]) await deposit(wei);
+        const file = path.join(dir, "resume.json");
+        const state = store("resume.json", startBlock);
+
+        // The RPC goes away after the second chunk's logs are read.
+        let calls = 0;
+        const failing = wrap(chain.provider, {
+            getBlock: async (block) => {
+                if (++calls === 2) throw new Error("connection reset");
+                return chain.provider.getBlock(block);
+            },
+        });
+        await assert.rejects(syncOnce({ provider: failing, file, state, chunkSize: 2, confirmations: 0 }), /connection reset/);
+
+        const saved = store("resume.json", startBlock);
+        assert.equal(saved.cursor, startBlock + 1);
+        assert.deepEqual(amounts(saved), [1n, 2n]);
+
+        const result = await syncOnce({ provider: chain.provider, file, state: saved, chunkSize: 2, confirmations: 0 });
+        assert.equal(result.fromBlock, startBlock + 2);
+        assert.equal(result.added, 2);
+        assert.deepEqual(amounts(store("resume.json", startBlock)), [1n, 2n, 3n, 4n]);
+
+        const [first] = queryEvents(saved, { event: "Deposit" });
+        assert.equal(first.currency, NATIVE_ADDRESS);
+        assert.equal(first.account, chain.account(LOCAL_ACCOUNTS.wallet1).address);
+    });
+
+    it("stays behind the confirmation depth", async () => {
+        const startBlock = (await chain.provider.getBlockNumber()) + 1;
+        for (const wei of [5n, 6n, 7n]) await deposit(wei);
+        const state = store("depth.json", startBlock);
+        const result = await syncOnce({ provider: chain.provider, file: path.join(dir, "depth.json"), state, confirmations: 2 });
+        assert.equal(result.toBlock, startBlock);
+        assert.deepEqual(amounts(state), [5n]);
+    });
+
+    it("rolls back events from blocks a reorg replaced, and indexes the new ones", async () => {
+        const startBlock = (await chain.provider.getBlockNumber()) + 1;
+        const file = path.join(dir, "reorg.json");
+        const state = store("reorg.json", startBlock);
+        await deposit(10n);
+        const fork: string = await chain.provider.send("evm_snapshot", []);
+        await deposit(11n);
+        await deposit(12n);
+        await syncOnce({ provider: chain.provider, file, state, chunkSize: 1, confirmations: 0 });
+        assert.deepEqual(amounts(state), [10n, 11n, 12n]);
+
+        // The two blocks after the snapshot are replaced by others at the same heights.
+        assert.equal(await chain.provider.send("evm_revert", [fork]), true);
+        await deposit(21n, LOCAL_ACCOUNTS.solver);
+        await deposit(22n, LOCAL_ACCOUNTS.solver);
+
+        const result = await syncOnce({ provider: chain.provider, file, state, chunkSize: 1, confirmations: 0 });
+        assert.equal(result.rolledBackTo, startBlock);
+        assert.equal(result.removed, 2);
+        assert.equal(result.added, 2);
+        assert.deepEqual(amounts(store("reorg.json", startBlock)), [10n, 21n, 22n]);
+    });
+
+    it("splits a getLogs range the RPC refuses until every part is accepted", async () => {
+        const startBlock = (await chain.provider.getBlockNumber()) + 1;
+        for (const wei of [31n, 32n, 33n, 34n, 35n]) await deposit(wei);
+        const head = await chain.provider.getBlockNumber();
+
+        const ranges: [number, number][] = [];
+        const narrow = wrap(chain.provider, {
+            getLogs: async (filter) => {
+                const from = Number(filter.fromBlock);
+                const to = Number(filter.toBlock);
+                if (to - from + 1 > 2) throw new Error("block range too wide");
+                ranges.push([from, to]);
+                return chain.provider.getLogs(filter);
+            },
+        });
+        const filter = { address: chain.network.vault, topics: [VAULT_EVENTS.getEvent("Deposit")!.topicHash] };
+        const logs = await getLogsAdaptive(narrow, filter, startBlock, head);
+        assert.deepEqual(logs.map((l) => VAULT_EVENTS.parseLog(l)!.args.amount), [31n, 32n, 33n, 34n, 35n]);
+        assert.ok(ranges.every(([from, to]) => to - from + 1 <= 2));
+        assert.equal(ranges[0][0], startBlock);
+        assert.equal(ranges[ranges.length - 1][1], head);
+
+        // A single block still refused is not split further.
+        const refusing = wrap(chain.provider, { getLogs: () => Promise.reject(new Error("rate limited")) });
+        await assert.rejects(getLogsAdaptive(refusing, filter, head, head), /rate limited/);
+    });
+});
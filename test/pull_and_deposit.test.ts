@@ -0,0 +1,186 @@
+/**
+ * pull_and_deposit.test.ts
+ *
+ * The pull-and-deposit state machine against the mock vault on an in-process
+ * chain (local/chain.ts): runs interrupted part way, `resume` over pending,
+ * dropped and reverted hashes, `reconcile` finding orphaned pulls, and
+ * `refund` sending them back.
+ */
+
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers } from "ethers";
+import { parseApprovalPolicies } from "../src/allowances/approvals";
+import { CliError, EXIT } from "../src/exit_codes";
+import { reconcilePullRuns, refundPullRuns, resumePullAndDeposit, runPullAndDeposit } from "../src/flows/pull_and_deposit";
+import { parseGasPolicy } from "../src/gas/strategy";
+import { LOCAL_ACCOUNTS, LocalChain, startLocalChain } from "../src/local/chain";
+import { loadPullJournal, PullRun, savePullJournal } from "../src/pull/journal";
+import { DEFAULT_TX_LIFECYCLE, TxManager } from "../src/tx/manager";
+import { findDeposits } from "../src/vault_events";
+
+describe("pull-and-deposit runs", () => {
+    let chain: LocalChain;
+    let dir: string;
+
+    before(async () => {
+        chain = await startLocalChain(0);
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "pull-runs-"));
+    });
+    after(async () => {
+        await chain.close();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const wallet1 = () => chain.account(LOCAL_ACCOUNTS.wallet1);
+    const wallet2 = () => chain.account(LOCAL_ACCOUNTS.wallet2);
+    const usdt = (amount: string) => ethers.parseUnits(amount, 18);
+    const balance = async (account: string): Promise<bigint> => chain.usdt.getFunction("balanceOf")(account);
+
+    /** A tx manager that runs `interrupt` before sending the tx labelled `label`. */
+    const txManager = (label?: string, interrupt?: () => Promise<unknown>) => {
+        const txs = new TxManager(parseGasPolicy(chain.network), { ...DEFAULT_TX_LIFECYCLE, pollMs: 100, timeoutMs: 2_000 });
+        const send = txs.send.bind(txs);
+        txs.send = async (sentLabel, signer, tx, onSent) => {
+            if (sentLabel === label) await interrupt!();
+            return send(sentLabel, signer, tx, onSent);
+        };
+        return txs;
+    };
+    const connectionLost = () => Promise.reject(new Error("connection lost"));
+
+    /** Start a run of `amount` USDT; it stops with a CliError when `txs` interrupts it. */
+    const start = async (journalFile: string, amount: string, txs: TxManager) => {
+        const { network } = chain;
+        return runPullAndDeposit({
+            network,
+            rpc: { chainId: network.chainId, urls: [chain.url], retries: 0, timeoutMs: 2_000 },
+            amount,
+            currency: network.tokens.USDT.address,
+            broker: "1000",
+            dryRun: false,
+            json: false,
+            approvals: parseApprovalPolicies(undefined, network),
+            dataDir: dir,
+            txs,
+            userWallet: wallet1(),
+            serverWallet: wallet2(),
+            puller: "server",
+            credit: "server",
+            journalFile,
+        });
+    };
+    const resume = (journalFile: string, runId: string) =>
+        resumePullAndDeposit({
+            network: chain.network,
+            userWallet: wallet1(),
+            serverWallet: wallet2(),
+            journalFile,
+            runId,
+            dryRun: false,
+            json: false,
+            approvals: parseApprovalPolicies(undefined, chain.network),
+            txs: txManager(),
+        });
+    const reconcile = (journalFile: string) =>
+        reconcilePullRuns({ network: chain.network, provider: chain.provider, journalFile, json: false });
+    const onlyRun = (journalFile: string): PullRun => {
+        const runs = Object.values(loadPullJournal(journalFile, chain.network.chainId).runs);
+        assert.equal(runs.length, 1);
+        return runs[0];
+    };
+    /** Wei credited to Wallet2 by the Deposit events in the block that mined `hash`. */
+    const credited = async (hash: string) => {
+        const receipt = (await chain.provider.getTransactionReceipt(hash))!;
+        const match = { vault: chain.network.vault, account: wallet2().address, currency: chain.network.tokens.USDT.address };
+        const deposits = await findDeposits(chain.provider, { ...match, fromBlock: receipt.blockNumber }, receipt.blockNumber);
+        return deposits.reduce((sum, d) => sum + d.amount, 0n);
+    };
+    const rejectsWith = (exitCode: number, pattern: RegExp) => (err: unknown) => {
+        assert.ok(err instanceof CliError, String(err));
+        assert.equal(err.exitCode, exitCode);
+        assert.match(err.message, pattern);
+        return true;
+    };
+
+    it("resumes a run whose pull was still pending, after reconcile reports it orphaned", async () => {
+        const journalFile = path.join(dir, "pending.json");
+        const before = await balance(wallet1().address);
+        const stopMining = () => chain.provider.send("miner_stop", []);
+        await assert.rejects(start(journalFile, "1", txManager("transferFrom", stopMining)), rejectsWith(EXIT.FAILURE, /still pending/));
+        const stopped = onlyRun(journalFile);
+        assert.equal(stopped.step, "approved");
+        assert.ok(stopped.txs.pull);
+
+        // The pull lands while nobody is watching: its tokens sit in Wallet2.
+        await chain.provider.send("miner_start", []);
+        await chain.provider.waitForTransaction(stopped.txs.pull!);
+        await assert.rejects(reconcile(journalFile), rejectsWith(EXIT.PRECONDITION, new RegExp(`1 orphaned pull.*${stopped.id}`)));
+        assert.equal(onlyRun(journalFile).step, "pulled");
+
+        const result = await resume(journalFile, stopped.id);
+        const run = onlyRun(journalFile);
+        assert.equal(run.step, "confirmed");
+        assert.equal(run.txs.pull, stopped.txs.pull);
+        assert.equal(run.credited, usdt("1").toString());
+        assert.equal(await credited(result.txHash!), usdt("1"));
+        assert.equal(await balance(wallet1().address), before - usdt("1"));
+        await reconcile(journalFile);
+    });
+
+    it("redoes a step whose journaled tx was dropped or reverted", async () => {
+        for (const outcome of ["dropped", "reverted"] as const) {
+            const journalFile = path.join(dir, `${outcome}.json`);
+            const before = await balance(wallet1().address);
+            await assert.rejects(start(journalFile, "2", txManager("transferFrom", connectionLost)), /connection lost/);
+            const journal = loadPullJournal(journalFile, chain.network.chainId);
+            const [run] = Object.values(journal.runs);
+            assert.equal(run.step, "approved");
+
+            // A pull that never reached the node, or one over the allowance that reverted on-chain.
+            const transferFrom = chain.usdt.connect(wallet2()).getFunction("transferFrom");
+            if (outcome === "dropped") {
+                const pull = await transferFrom.populateTransaction(wallet1().address, wallet2().address, usdt("2"));
+                const signed = await wallet2().signTransaction(await wallet2().populateTransaction({ ...pull, gasLimit: 100_000n }));
+                run.txs.pull = ethers.Transaction.from(signed).hash!;
+            } else {
+                const pull = await transferFrom.populateTransaction(wallet1().address, wallet2().address, usdt("20"));
+                const sent = await wallet2().sendTransaction({ ...pull, gasLimit: 100_000n });
+                assert.equal((await chain.provider.waitForTransaction(sent.hash))!.status, 0);
+                run.txs.pull = sent.hash;
+            }
+            savePullJournal(journalFile, journal);
+
+            await resume(journalFile, run.id);
+            const resumed = onlyRun(journalFile);
+            assert.equal(resumed.step, "confirmed");
+            assert.notEqual(resumed.txs.pull, run.txs.pull);
+            assert.equal(await balance(wallet1().address), before - usdt("2"));
+        }
+    });
+
+    it("refunds an orphaned pull to Wallet1, once", async () => {
+        const journalFile = path.join(dir, "refund.json");
+        const before = await balance(wallet1().address);
+        await assert.rejects(start(journalFile, "3", txManager("deposit", connectionLost)), /connection lost/);
+        const stopped = onlyRun(journalFile);
+        assert.equal(stopped.step, "vault-approved");
+        assert.equal(await balance(wallet1().address), before - usdt("3"));
+        await assert.rejects(reconcile(journalFile), rejectsWith(EXIT.PRECONDITION, /1 orphaned pull/));
+
+        const refund = { network: chain.network, serverWallet: wallet2(), journalFile, dryRun: false, yes: true, json: false };
+        await refundPullRuns({ ...refund, txs: txManager() });
+        const refunded = onlyRun(journalFile);
+        assert.equal(refunded.step, "refunded");
+        assert.equal(refunded.refunded, usdt("3").toString());
+        assert.equal(await balance(wallet1().address), before);
+
+        await refundPullRuns({ ...refund, txs: txManager() });
+        assert.equal(await balance(wallet1().address), before);
+        await assert.rejects(resume(journalFile, stopped.id), rejectsWith(EXIT.PRECONDITION, /refunded/));
+        await reconcile(journalFile);
+    });
+});
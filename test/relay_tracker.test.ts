@@ -0,0 +1,97 @@
+/**
+ * relay_tracker.test.ts
+ *
+ * trackRelayRequest against relay/mock_server.ts, with a destination node
+ * that only serves the fill's receipt some time after Relay reports success.
+ */
+
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { ethers } from "ethers";
+import { RelayClient } from "../src/relay/client";
+import { MockRelayServer, startMockRelayServer } from "../src/relay/mock_server";
+import { trackRelayRequest } from "../src/relay/tracker";
+import { VAULT_EVENTS } from "../src/vault_events";
+
+const VAULT = ethers.getAddress(ethers.dataSlice(ethers.id("vault"), 0, 20));
+const ACCOUNT = ethers.getAddress(ethers.dataSlice(ethers.id("account"), 0, 20));
+const USDT = ethers.getAddress(ethers.dataSlice(ethers.id("usdt"), 0, 20));
+const FILL = ethers.id("fill");
+const STUCK = ethers.id("stuck");
+
+/** Destination node that has no receipt for the fill (crediting `amount`) until `delayMs` after it is created. */
+function laggingDestination(delayMs: number, deposits = true, amount = 5n): ethers.Provider {
+    const readyAt = Date.now() + delayMs;
+    const log = VAULT_EVENTS.encodeEventLog("Deposit", [ACCOUNT, USDT, false, amount, 1000n]);
+    return {
+        getTransactionReceipt: async (hash: string) =>
+            hash !== FILL || Date.now() < readyAt
+                ? null
+                : { status: 1, logs: deposits ? [{ address: VAULT, ...log, transactionHash: FILL, blockNumber: 1, index: 0 }] : [] },
+    } as unknown as ethers.Provider;
+}
+
+describe("trackRelayRequest", () => {
+    let mock: MockRelayServer;
+    let client: RelayClient;
+
+    before(async () => {
+        mock = await startMockRelayServer({
+            statuses: {
+                [STUCK]: [{ status: "pending" }],
+                "*": [{ status: "pending" }, { status: "success", inTxHashes: [ethers.id("origin")], txHashes: [FILL] }],
+            },
+        });
+        client = new RelayClient({ baseUrl: mock.url });
+    });
+    after(() => mock.close());
+
+    const expected = { vault: VAULT, account: ACCOUNT, currency: USDT, amount: 5n };
+
+    it("waits for a fill the destination node has not indexed yet", async () => {
+        const tracked = await trackRelayRequest(client, ethers.id("delayed"), {
+            destination: laggingDestination(600),
+            expected,
+            timeoutMs: 5_000,
+            pollMs: 100,
+        });
+        assert.equal(tracked.outcome, "confirmed");
+        assert.equal(tracked.deposit?.amount, 5n);
+        assert.deepEqual(tracked.destinationTxHashes, [FILL]);
+    });
+
+    it("confirms the beneficiary's Deposit for another amount, for the caller to reconcile", async () => {
+        const tracked = await trackRelayRequest(client, ethers.id("short"), {
+            destination: laggingDestination(0, true, 4n),
+            expected,
+            timeoutMs: 5_000,
+            pollMs: 100,
+        });
+        assert.equal(tracked.outcome, "confirmed");
+        assert.equal(tracked.deposit?.amount, 4n);
+        assert.equal(tracked.receipt?.status, 1);
+    });
+
+    it("reports filled-without-deposit only once the timeout has run out", async () => {
+        const started = Date.now();
+        const tracked = await trackRelayRequest(client, ethers.id("no-deposit"), {
+            destination: laggingDestination(0, false),
+            expected,
+            timeoutMs: 800,
+            pollMs: 100,
+        });
+        assert.equal(tracked.outcome, "filled-without-deposit");
+        assert.ok(Date.now() - started >= 800);
+    });
+
+    it("reports stuck when Relay never settles", async () => {
+        const tracked = await trackRelayRequest(client, STUCK, {
+            destination: laggingDestination(0),
+            expected,
+            timeoutMs: 500,
+            pollMs: 100,
+        });
+        assert.equal(tracked.outcome, "stuck");
+        assert.equal(tracked.status, "pending");
+    });
+});
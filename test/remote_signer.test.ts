@@ -0,0 +1,100 @@
+/**
+ * remote_signer.test.ts
+ *
+ * remote:<url> signer specs against signers/mock_signer.ts: picking the
+ * account, signing transactions, messages and deposit intents, and an
+ * endpoint that refuses to sign.
+ */
+
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { ethers } from "ethers";
+import { NETWORKS } from "../src/constants";
+import { CliError, EXIT } from "../src/exit_codes";
+import { intentDigest, signDepositIntent } from "../src/intents/deposit_intent";
+import { loadSigner, LoadSignerOptions, parseSignerSpec, signerAddress } from "../src/signers/load";
+import { MockSignerServer, startMockSigner } from "../src/signers/mock_signer";
+import { RemoteSignerError } from "../src/signers/remote";
+
+const OPTS: LoadSignerOptions = { label: "sender", passwordEnvs: [], defaultIndex: 0, allowEnvKeys: false };
+
+describe("remote signer", () => {
+    const keys = [ethers.Wallet.createRandom(), ethers.Wallet.createRandom()];
+    let one: MockSignerServer;
+    let two: MockSignerServer;
+    let refusing: MockSignerServer;
+
+    before(async () => {
+        one = await startMockSigner({ keys: [keys[0]] });
+        two = await startMockSigner({ keys });
+        refusing = await startMockSigner({ keys: [keys[0]], refuse: true });
+    });
+    after(async () => {
+        await Promise.all([one.close(), two.close(), refusing.close()]);
+    });
+
+    it("signs for the endpoint's only account", async () => {
+        const signer = await loadSigner(parseSignerSpec(`remote:${one.url}`), null, OPTS);
+        assert.equal(await signer.getAddress(), keys[0].address);
+        assert.equal(await signerAddress(parseSignerSpec(`remote:${one.url}`), OPTS), keys[0].address);
+    });
+
+    it("signs a populated transaction and checks who signed it", async () => {
+        // Everything is filled in, so the provider only has to name the chain; it is never asked.
+        const offline = new ethers.JsonRpcProvider("http://127.0.0.1:1", 56, { staticNetwork: true });
+        const signer = await loadSigner(parseSignerSpec(`remote:${one.url}`), offline, OPTS);
+        const raw = await signer.signTransaction({
+            type: 2,
+            chainId: 56n,
+            nonce: 7,
+            to: keys[1].address,
+            value: 1n,
+            data: "0x1234",
+            gasLimit: 21_000n,
+            maxFeePerGas: 3_000_000_000n,
+            maxPriorityFeePerGas: 1_000_000_000n,
+        });
+        const tx = ethers.Transaction.from(raw);
+        assert.equal(tx.from, keys[0].address);
+        assert.equal(tx.nonce, 7);
+        assert.equal(tx.to, keys[1].address);
+        assert.ok(one.log.some((l) => l.method === "eth_signTransaction"));
+    });
+
+    it("signs messages and deposit intents (EIP-712)", async () => {
+        const signer = await loadSigner(parseSignerSpec(`remote:${one.url}`), null, OPTS);
+        assert.equal(ethers.verifyMessage("hello", await signer.signMessage("hello")), keys[0].address);
+
+        const signed = await signDepositIntent(signer, NETWORKS.bsc, {
+            amount: "1000000",
+            currency: NETWORKS.bsc.tokens.USDT.address,
+            broker: "1000",
+            account: keys[0].address,
+            nonce: "1",
+            deadline: "4102444800",
+        });
+        assert.equal(signed.intent.owner, keys[0].address);
+        assert.equal(ethers.recoverAddress(intentDigest(signed), signed.signature), keys[0].address);
+    });
+
+    it("needs #<address> when the endpoint offers several accounts", async () => {
+        await assert.rejects(loadSigner(parseSignerSpec(`remote:${two.url}`), null, OPTS), (err: unknown) => {
+            assert.ok(err instanceof CliError);
+            assert.equal(err.exitCode, EXIT.CONFIG);
+            assert.match(err.message, /offers 2 accounts/);
+            return true;
+        });
+        const signer = await loadSigner(parseSignerSpec(`remote:${two.url}#${keys[1].address}`), null, OPTS);
+        assert.equal(await signer.getAddress(), keys[1].address);
+        await assert.rejects(loadSigner(parseSignerSpec(`remote:${one.url}#${keys[1].address}`), null, OPTS), /can't sign for/);
+    });
+
+    it("surfaces a refused signature", async () => {
+        const signer = await loadSigner(parseSignerSpec(`remote:${refusing.url}`), null, OPTS);
+        await assert.rejects(signer.signMessage("hello"), (err: unknown) => {
+            assert.ok(err instanceof RemoteSignerError);
+            assert.match(err.message, /request denied/);
+            return true;
+        });
+    });
+});
@@ -0,0 +1,134 @@
+/**
+ * rpc_pool.test.ts
+ *
+ * RpcPool against rpc/mock_server.ts endpoints with scripted faults, all in
+ * front of one static upstream: which endpoint answered, failover, 429
+ * Retry-After cooldowns and quorum disagreement.
+ */
+
+import assert from "node:assert/strict";
+import * as http from "node:http";
+import { after, before, describe, it } from "node:test";
+import { MockRpcFault, MockRpcServer, startMockRpcServer } from "../src/rpc/mock_server";
+import { RpcPool, RpcPoolOptions, RpcUnavailableError } from "../src/rpc/pool";
+
+const ACCOUNT = "0x000000000000000000000000000000000000dEaD";
+const ANSWERS: Record<string, string> = { eth_chainId: "0x539", eth_blockNumber: "0x10", eth_getBalance: "0xde0b6b3a7640000" };
+
+/** Upstream node with fixed answers. */
+function startUpstream(): Promise<{ url: string; close(): Promise<void> }> {
+    const server = http.createServer((req, res) => {
+        let raw = "";
+        req.on("data", (chunk) => (raw += chunk));
+        req.on("end", () => {
+            const body = JSON.parse(raw);
+            res.writeHead(200, { "content-type": "application/json" });
+            res.end(JSON.stringify({ jsonrpc: "2.0", id: body.id, result: ANSWERS[body.method] ?? null }));
+        });
+    });
+    return new Promise((resolve) =>
+        server.listen(0, "127.0.0.1", () =>
+            resolve({
+                url: `http://127.0.0.1:${(server.address() as { port: number }).port}`,
+                close: () => new Promise<void>((done) => server.close(() => done())),
+            })
+        )
+    );
+}
+
+describe("RpcPool", () => {
+    let upstream: { url: string; close(): Promise<void> };
+    const started: MockRpcServer[] = [];
+    const pools: RpcPool[] = [];
+
+    before(async () => {
+        upstream = await startUpstream();
+    });
+    after(async () => {
+        for (const pool of pools) pool.destroy();
+        for (const mock of started) await mock.close();
+        await upstream.close();
+    });
+
+    /** One mock endpoint per fault sequence (applied to every method). */
+    async function endpoints(...faults: MockRpcFault[][]): Promise<MockRpcServer[]> {
+        const mocks = await Promise.all(faults.map((f) => startMockRpcServer({ upstream: upstream.url, faults: { "*": f } })));
+        started.push(...mocks);
+        return mocks;
+    }
+
+    function pool(mocks: MockRpcServer[], opts: Partial<RpcPoolOptions> = {}): RpcPool {
+        const p = new RpcPool({ chainId: 1337, urls: mocks.map((m) => m.url), retries: 1, backoffMs: 10, timeoutMs: 500, ...opts });
+        pools.push(p);
+        return p;
+    }
+
+    it("answers from the primary while it is healthy", async () => {
+        const [a, b] = await endpoints(["ok"], ["ok"]);
+        assert.equal(await pool([a, b]).send("eth_blockNumber", []), "0x10");
+        assert.deepEqual(a.log, [{ method: "eth_blockNumber", fault: "ok" }]);
+        assert.equal(b.log.length, 0);
+    });
+
+    it("fails over to the next endpoint and keeps the failed one in cooldown", async () => {
+        const [a, b] = await endpoints(["error"], ["ok"]);
+        const p = pool([a, b]);
+        assert.equal(await p.send("eth_blockNumber", []), "0x10");
+        assert.equal(await p.send("eth_blockNumber", []), "0x10");
+        assert.deepEqual(a.log.map((l) => l.fault), ["error"]);
+        assert.equal(b.log.length, 2);
+        const [ha, hb] = p.health();
+        assert.equal(ha.healthy, false);
+        assert.match(ha.lastError ?? "", /HTTP 503/);
+        assert.equal(hb.healthy, true);
+    });
+
+    it("fails over on a dropped connection and on a timeout", async () => {
+        const [a, b, c] = await endpoints(["down"], ["timeout"], ["ok"]);
+        const p = pool([a, b, c]);
+        assert.equal(await p.send("eth_blockNumber", []), "0x10");
+        assert.equal(c.log.length, 1);
+        assert.equal(p.health()[1].timeouts, 1);
+    });
+
+    it("waits out Retry-After when the only endpoint answers 429", async () => {
+        const [a] = await endpoints(["rate-limit", "ok"]);
+        const p = pool([a]);
+        const t0 = Date.now();
+        assert.equal(await p.send("eth_blockNumber", []), "0x10");
+        assert.ok(Date.now() - t0 >= 1_000, "the retry honours Retry-After: 1");
+        assert.deepEqual(a.log.map((l) => l.fault), ["rate-limit", "ok"]);
+        assert.equal(p.health()[0].rateLimited, 1);
+    });
+
+    it("skips a rate-limited endpoint for at least its Retry-After", async () => {
+        const [a, b] = await endpoints(["rate-limit", "ok"], ["ok"]);
+        const p = pool([a, b], { cooldownMs: 0 });
+        assert.equal(await p.send("eth_blockNumber", []), "0x10");
+        assert.equal(await p.send("eth_blockNumber", []), "0x10");
+        assert.equal(a.log.length, 1, "still cooling down from Retry-After: 1");
+        assert.equal(b.log.length, 2);
+        await new Promise((resolve) => setTimeout(resolve, 1_100));
+        assert.equal(await p.send("eth_blockNumber", []), "0x10");
+        assert.equal(a.log.length, 2, "back once Retry-After has passed");
+    });
+
+    it("outvotes a lying endpoint with quorum", async () => {
+        const [a, b, c] = await endpoints(["lie"], ["ok"], ["ok"]);
+        const p = pool([a, b, c], { quorum: 2 });
+        assert.equal(await p.getBalance(ACCOUNT), 10n ** 18n);
+        assert.equal(a.log.length, 1);
+        assert.equal(b.log.length, 1);
+        assert.equal(c.log.length, 1, "the tie is broken by the third endpoint");
+    });
+
+    it("refuses an answer the quorum does not agree on", async () => {
+        const [a, b] = await endpoints(["lie"], ["ok"]);
+        const p = pool([a, b], { quorum: 2 });
+        await assert.rejects(p.send("eth_getBalance", [ACCOUNT, "latest"]), (err: unknown) => {
+            assert.ok(err instanceof RpcUnavailableError);
+            assert.match(err.message, /no 2 of 2 RPC endpoints agree/);
+            return true;
+        });
+    });
+});